@@ -0,0 +1,145 @@
+/**
+ * The arena server's express app (see index.ts for running it and the
+ * endpoints). Kept apart from the entry point so tests can serve it from a
+ * database of their own.
+ *
+ * Only the allowed origins may call it from a browser: their requests get
+ * CORS headers, and requests from any other origin are refused outright,
+ * since some routes (DELETE /api/data) are destructive and unauthenticated.
+ * Requests without an Origin (curl, the CLI) are let through.
+ */
+
+import express, { type NextFunction, type Request, type Response } from 'express';
+import { ArenaDb, SCHEMA_VERSION } from './db';
+import { validateResult, validateTournament } from '../src/engine/bundle';
+import { validateDecision } from '../src/engine/decisionStore';
+
+/** Decision searches return at most this many records unless `limit` asks for fewer. */
+const MAX_DECISIONS = 500;
+
+class BadRequest extends Error {}
+
+/** The body as a list of records, throwing BadRequest with `validate`'s problems if any is invalid. */
+function validList<T>(body: unknown, validate: (item: unknown, where: string) => string[]): T[] {
+  const items = Array.isArray(body) ? body : [body];
+  const problems = items.flatMap((item, i) => validate(item, Array.isArray(body) ? `[${i}]` : 'body'));
+  if (problems.length > 0) throw new BadRequest(problems.join('; '));
+  return items as T[];
+}
+
+/** Throw BadRequest unless `body` is an object with every one of `fields`. */
+function requireFields(body: unknown, fields: string[]): void {
+  if (typeof body !== 'object' || body === null || Array.isArray(body)) {
+    throw new BadRequest('Expected a JSON object');
+  }
+  const missing = fields.filter(f => (body as Record<string, unknown>)[f] === undefined);
+  if (missing.length > 0) throw new BadRequest(`Missing field(s): ${missing.join(', ')}`);
+}
+
+export function createApp(db: ArenaDb, allowedOrigins: string[]) {
+  const app = express();
+
+  // The app is served by Vite on another port
+  app.use((req, res, next) => {
+    const origin = req.headers.origin;
+    res.header('Vary', 'Origin');
+    if (origin !== undefined) {
+      if (!allowedOrigins.includes(origin)) {
+        res.status(403).json({ error: `Origin ${origin} is not allowed` });
+        return;
+      }
+      res.header('Access-Control-Allow-Origin', origin);
+      res.header('Access-Control-Allow-Methods', 'GET, POST, PUT, DELETE, OPTIONS');
+      res.header('Access-Control-Allow-Headers', 'Content-Type');
+    }
+    if (req.method === 'OPTIONS') { res.sendStatus(204); return; }
+    next();
+  });
+
+  app.use(express.json({ limit: '20mb' })); // event logs of long games run to a few MB
+
+  app.get('/api/health', (_req, res) => {
+    res.json({ ok: true, schemaVersion: SCHEMA_VERSION });
+  });
+
+  app.get('/api/results', (req, res) => {
+    res.json(db.getResults(typeof req.query.model === 'string' ? req.query.model : undefined));
+  });
+
+  app.get('/api/results/:id', (req, res) => {
+    const result = db.getResult(req.params.id);
+    if (result) res.json(result);
+    else res.status(404).json({ error: 'No such result' });
+  });
+
+  app.post('/api/results', (req, res) => {
+    db.putResults(validList(req.body, validateResult));
+    res.sendStatus(204);
+  });
+
+  app.get('/api/tournaments', (_req, res) => {
+    res.json(db.getTournaments());
+  });
+
+  app.post('/api/tournaments', (req, res) => {
+    db.putTournaments(validList(req.body, validateTournament));
+    res.sendStatus(204);
+  });
+
+  app.get('/api/games', (_req, res) => {
+    res.json(db.getGames());
+  });
+
+  app.get('/api/games/:id', (req, res) => {
+    const game = db.getGame(req.params.id);
+    if (game) res.json(game);
+    else res.status(404).json({ error: 'No such game' });
+  });
+
+  app.put('/api/games/:id', (req, res) => {
+    requireFields(req.body, ['date', 'players', 'events']);
+    db.putGame({ ...req.body, id: req.params.id });
+    res.sendStatus(204);
+  });
+
+  app.get('/api/games/:id/decisions', (req, res) => {
+    res.json(db.getDecisions(req.params.id));
+  });
+
+  app.put('/api/games/:id/decisions', (req, res) => {
+    if (!Array.isArray(req.body)) throw new BadRequest('Expected an array of decision records');
+    db.putDecisions(req.params.id, validList(req.body, validateDecision));
+    res.sendStatus(204);
+  });
+
+  app.get('/api/decisions', (req, res) => {
+    const { model, text, kind, fallback, limit } = req.query;
+    if (typeof model !== 'string') throw new BadRequest('model is required');
+    res.json(db.searchDecisions(model, {
+      text: typeof text === 'string' ? text : undefined,
+      kind: kind === 'bid' || kind === 'play' ? kind : undefined,
+      fallbackOnly: fallback === '1',
+    }, Math.min(MAX_DECISIONS, parseInt(String(limit ?? MAX_DECISIONS), 10) || MAX_DECISIONS)));
+  });
+
+  app.delete('/api/data', (_req, res) => {
+    db.clear();
+    res.sendStatus(204);
+  });
+
+  app.use((err: Error & { status?: number }, _req: Request, res: Response, _next: NextFunction) => {
+    if (err instanceof BadRequest) {
+      res.status(400).json({ error: err.message });
+      return;
+    }
+    // express.json's own errors (malformed JSON, a body over the limit) carry their status
+    if (err.status !== undefined && err.status < 500) {
+      res.status(err.status).json({ error: err.message });
+      return;
+    }
+    console.error('[server]', err);
+    res.status(500).json({ error: err.message });
+  });
+
+  return app;
+}
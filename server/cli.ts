@@ -0,0 +1,98 @@
+/**
+ * Arena data CLI — export and import the arena database as bundles (see
+ * src/engine/bundle.ts), the same format the Dashboard reads and writes.
+ *
+ * Usage:
+ *   npm run arena -- export [bundle.json]     # JSON bundle to a file, or stdout
+ *   npm run arena -- export-csv <dir>         # results.csv, tournaments.csv, hands.csv
+ *   npm run arena -- import <bundle.json>     # validate, then merge on result id
+ *
+ * Imported games are tagged 'imported' unless they are demo or benchmark
+ * games; a benchmark run's bundle.json (see src/benchmark/cli.ts) imports
+ * as benchmark results.
+ *
+ * Works on ARENA_DB (default: data/arena.db), like the server. Run it while
+ * the server is up if you like; SQLite handles the sharing.
+ */
+
+import { config as loadEnv } from 'dotenv';
+import { mkdirSync, readFileSync, writeFileSync } from 'fs';
+import { dirname, join, resolve } from 'path';
+import { ArenaDb, resolveDbFile } from './db';
+import {
+  ArenaBundle, BundleError, bundleToCsv, createBundle, describeImport, parseBundle, planMerge, tagImported,
+} from '../src/engine/bundle';
+import { sourceOf, tournamentSourceOf } from '../src/engine/dataSource';
+import { handLogsFromEvents } from '../src/benchmark/metrics';
+
+// quiet: dotenv's banner would land in a bundle exported to stdout
+loadEnv({ path: resolve(process.cwd(), '.env.local'), quiet: true });
+
+/**
+ * Everything in `db`, sources made explicit; results without hand logs get
+ * them from their recorded game.
+ */
+function exportFromDb(db: ArenaDb): ArenaBundle {
+  const results = db.getResults().map(r => {
+    const tagged = { ...r, source: sourceOf(r) };
+    if (r.hands) return tagged;
+    const game = db.getGame(r.id);
+    return game ? { ...tagged, hands: handLogsFromEvents(game.events) } : tagged;
+  });
+  return createBundle(results, db.getTournaments().map(t => ({ ...t, source: tournamentSourceOf(t) })));
+}
+
+function main() {
+  const [command, target] = process.argv.slice(2);
+  const dbFile = resolveDbFile();
+  mkdirSync(dirname(dbFile), { recursive: true });
+  const db = new ArenaDb(dbFile);
+
+  try {
+    switch (command) {
+      case 'export': {
+        const json = JSON.stringify(exportFromDb(db), null, 2) + '\n';
+        if (!target) {
+          process.stdout.write(json);
+          break;
+        }
+        writeFileSync(target, json);
+        console.error(`[arena] wrote ${target}`);
+        break;
+      }
+      case 'export-csv': {
+        if (!target) throw new Error('export-csv needs an output directory');
+        mkdirSync(target, { recursive: true });
+        for (const [file, csv] of Object.entries(bundleToCsv(exportFromDb(db)))) {
+          writeFileSync(join(target, file), csv);
+        }
+        console.error(`[arena] wrote results.csv, tournaments.csv, hands.csv to ${target}`);
+        break;
+      }
+      case 'import': {
+        if (!target) throw new Error('import needs a bundle file');
+        const bundle = tagImported(parseBundle(readFileSync(target, 'utf8')));
+        const plan = planMerge({ results: db.getResults(), tournaments: db.getTournaments() }, bundle);
+        db.putResults(plan.results);
+        db.putTournaments(plan.tournaments);
+        console.error(`[arena] ${describeImport(plan.report)}`);
+        break;
+      }
+      default:
+        console.error('Usage: npm run arena -- export [bundle.json] | export-csv <dir> | import <bundle.json>');
+        process.exitCode = 1;
+    }
+  } catch (e) {
+    if (e instanceof BundleError) {
+      console.error(`[arena] ${target} is not a valid bundle:`);
+      for (const problem of e.problems) console.error(`  ${problem}`);
+    } else {
+      console.error(`[arena] ${(e as Error).message}`);
+    }
+    process.exitCode = 1;
+  } finally {
+    db.close();
+  }
+}
+
+main();
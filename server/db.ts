@@ -0,0 +1,380 @@
+/**
+ * Arena database — the SQLite store behind the results API (see index.ts).
+ *
+ * The schema is built by MIGRATIONS, in order. `PRAGMA user_version` holds
+ * how many have run, so opening an older file upgrades it in place. To
+ * change the schema append a migration; never edit one that has shipped.
+ *
+ * Rows come back in insertion order, matching the localStorage backend, so
+ * "last N results" means the same thing on either. Overwriting a row by id
+ * updates it in place and keeps its position.
+ */
+
+import Database from 'better-sqlite3';
+import { resolve } from 'path';
+import type { GameResult, TournamentResult } from '../src/engine/resultsStore';
+import type { DecisionQuery, DecisionRecord } from '../src/engine/decisionStore';
+import type { RecordedGame } from '../src/engine/replayStore';
+import type { DataSource } from '../src/engine/dataSource';
+import type { FallbackKind } from '../src/engine/events';
+
+const MIGRATIONS: string[] = [
+  // 1: results, tournaments, recorded games, decision records
+  `
+  CREATE TABLE results (
+    id            TEXT PRIMARY KEY,
+    date          TEXT NOT NULL,
+    tournament_id TEXT,
+    team1_models  TEXT NOT NULL,  -- JSON string[]
+    team2_models  TEXT NOT NULL,  -- JSON string[]
+    team1_score   INTEGER NOT NULL,
+    team2_score   INTEGER NOT NULL,
+    team1_bags    INTEGER NOT NULL,
+    team2_bags    INTEGER NOT NULL,
+    winner        INTEGER NOT NULL,
+    target_score  INTEGER NOT NULL,
+    hands_played  INTEGER NOT NULL,
+    seed          INTEGER,
+    duplicate     TEXT            -- JSON DuplicateInfo
+  );
+  CREATE TABLE result_models (
+    result_id TEXT NOT NULL REFERENCES results(id) ON DELETE CASCADE,
+    team      INTEGER NOT NULL,
+    model     TEXT NOT NULL
+  );
+  CREATE INDEX result_models_model ON result_models(model);
+
+  CREATE TABLE tournaments (
+    id           TEXT PRIMARY KEY,
+    date         TEXT NOT NULL,
+    champion     TEXT NOT NULL,
+    participants TEXT NOT NULL,   -- JSON string[]
+    matches      TEXT NOT NULL    -- JSON GameResult[]
+  );
+
+  CREATE TABLE games (
+    id      TEXT PRIMARY KEY,     -- the GameResult id
+    date    TEXT NOT NULL,
+    players TEXT NOT NULL,        -- JSON, index = seat
+    events  TEXT NOT NULL         -- JSON GameEvent[]
+  );
+
+  CREATE TABLE decisions (
+    game_id          TEXT NOT NULL,
+    date             TEXT NOT NULL,
+    model            TEXT NOT NULL,
+    seat             INTEGER NOT NULL,
+    hand_number      INTEGER NOT NULL,
+    trick_number     INTEGER NOT NULL,
+    kind             TEXT NOT NULL,
+    action           TEXT NOT NULL,
+    reasoning        TEXT NOT NULL,
+    fallback         INTEGER NOT NULL,
+    observation_hash TEXT NOT NULL,
+    latency_ms       INTEGER
+  );
+  CREATE INDEX decisions_model ON decisions(model);
+  CREATE INDEX decisions_game ON decisions(game_id);
+  `,
+  // 2: per-hand logs on results
+  `
+  ALTER TABLE results ADD COLUMN hands TEXT;  -- JSON HandLog[]
+  `,
+  // 3: data source tags (NULL = saved before tagging)
+  `
+  ALTER TABLE results ADD COLUMN source TEXT;
+  ALTER TABLE tournaments ADD COLUMN source TEXT;
+  `,
+  // 4: tournament engine progress (schedule, series scores)
+  `
+  ALTER TABLE tournaments ADD COLUMN progress TEXT;  -- JSON TournamentProgress
+  `,
+  // 5: LLM token usage and estimated cost, per model
+  `
+  ALTER TABLE results ADD COLUMN usage TEXT;  -- JSON Record<model, TokenUsage>
+  `,
+  // 6: why a decision fell back ('agent', 'illegal', 'timeout')
+  `
+  ALTER TABLE decisions ADD COLUMN fallback_kind TEXT;
+  `,
+  // 7: the house rules a result was played by
+  `
+  ALTER TABLE results ADD COLUMN house_rules TEXT;  -- JSON HouseRules
+  `,
+];
+
+/** Newest schema this code writes. */
+export const SCHEMA_VERSION = MIGRATIONS.length;
+
+// Rows as SQLite returns them; JSON columns are strings, NULL for an absent field
+
+interface ResultRow {
+  id: string;
+  date: string;
+  tournament_id: string | null;
+  team1_models: string;
+  team2_models: string;
+  team1_score: number;
+  team2_score: number;
+  team1_bags: number;
+  team2_bags: number;
+  winner: 1 | 2;
+  target_score: number;
+  hands_played: number;
+  seed: number | null;
+  duplicate: string | null;
+  hands: string | null;
+  source: DataSource | null;
+  usage: string | null;
+  house_rules: string | null;
+}
+
+interface TournamentRow {
+  id: string;
+  date: string;
+  champion: string;
+  participants: string;
+  matches: string;
+  source: DataSource | null;
+  progress: string | null;
+}
+
+interface GameRow {
+  id: string;
+  date: string;
+  players: string;
+  events: string;
+}
+
+interface DecisionRow {
+  game_id: string;
+  date: string;
+  model: string;
+  seat: number;
+  hand_number: number;
+  trick_number: number;
+  kind: DecisionRecord['kind'];
+  action: string;
+  reasoning: string;
+  fallback: 0 | 1;
+  observation_hash: string;
+  latency_ms: number | null;
+  fallback_kind: FallbackKind | null;
+}
+
+/** An upsert that keeps an existing row's rowid (INSERT OR REPLACE would move it to the end). */
+function upsert(table: string, columns: string[]): string {
+  const [key, ...rest] = columns;
+  return `INSERT INTO ${table} (${columns.join(', ')}) VALUES (${columns.map(() => '?').join(', ')})
+    ON CONFLICT(${key}) DO UPDATE SET ${rest.map(c => `${c} = excluded.${c}`).join(', ')}`;
+}
+
+const UPSERT_RESULT = upsert('results', [
+  'id', 'date', 'tournament_id', 'team1_models', 'team2_models', 'team1_score', 'team2_score',
+  'team1_bags', 'team2_bags', 'winner', 'target_score', 'hands_played', 'seed', 'duplicate', 'hands', 'source', 'usage', 'house_rules',
+]);
+const UPSERT_TOURNAMENT = upsert('tournaments', ['id', 'date', 'champion', 'participants', 'matches', 'source', 'progress']);
+const UPSERT_GAME = upsert('games', ['id', 'date', 'players', 'events']);
+
+/** The database file: ARENA_DB, or data/arena.db, relative to the working directory. */
+export function resolveDbFile(): string {
+  return resolve(process.cwd(), process.env.ARENA_DB || 'data/arena.db');
+}
+
+export class ArenaDb {
+  private db: Database.Database;
+
+  constructor(file: string) {
+    this.db = new Database(file);
+    this.db.pragma('journal_mode = WAL');
+    this.db.pragma('foreign_keys = ON');
+    this.migrate();
+  }
+
+  private migrate() {
+    const current = this.db.pragma('user_version', { simple: true }) as number;
+    if (current > SCHEMA_VERSION) {
+      throw new Error(`Database schema v${current} is newer than this server (v${SCHEMA_VERSION})`);
+    }
+    for (let version = current; version < SCHEMA_VERSION; version++) {
+      this.db.transaction(() => {
+        this.db.exec(MIGRATIONS[version]);
+        this.db.pragma(`user_version = ${version + 1}`);
+      })();
+    }
+  }
+
+  close() {
+    this.db.close();
+  }
+
+  // ─── Results ─────────────────────────────────────────────
+
+  /** All results, or only those `model` played in. */
+  getResults(model?: string): GameResult[] {
+    const rows = model
+      ? this.db.prepare<[string], ResultRow>(
+          'SELECT * FROM results WHERE id IN (SELECT result_id FROM result_models WHERE model = ?) ORDER BY rowid',
+        ).all(model)
+      : this.db.prepare<[], ResultRow>('SELECT * FROM results ORDER BY rowid').all();
+    return rows.map(rowToResult);
+  }
+
+  getResult(id: string): GameResult | null {
+    const row = this.db.prepare<[string], ResultRow>('SELECT * FROM results WHERE id = ?').get(id);
+    return row ? rowToResult(row) : null;
+  }
+
+  /** Insert, or overwrite the results with the same ids. */
+  putResults(results: GameResult[]) {
+    this.db.transaction(() => {
+      for (const r of results) this.putResult(r);
+    })();
+  }
+
+  /** Insert, or overwrite the result with the same id. */
+  putResult(r: GameResult) {
+    this.db.transaction(() => {
+      this.db.prepare(UPSERT_RESULT).run(
+        r.id, r.date, r.tournamentId ?? null, JSON.stringify(r.team1Models), JSON.stringify(r.team2Models),
+        r.team1Score, r.team2Score, r.team1Bags, r.team2Bags, r.winner, r.targetScore, r.handsPlayed,
+        r.seed ?? null, r.duplicate ? JSON.stringify(r.duplicate) : null, r.hands ? JSON.stringify(r.hands) : null,
+        r.source ?? null, r.usage ? JSON.stringify(r.usage) : null, r.houseRules ? JSON.stringify(r.houseRules) : null,
+      );
+      this.db.prepare('DELETE FROM result_models WHERE result_id = ?').run(r.id);
+      const addModel = this.db.prepare('INSERT INTO result_models (result_id, team, model) VALUES (?, ?, ?)');
+      for (const model of r.team1Models) addModel.run(r.id, 1, model);
+      for (const model of r.team2Models) addModel.run(r.id, 2, model);
+    })();
+  }
+
+  // ─── Tournaments ─────────────────────────────────────────
+
+  getTournaments(): TournamentResult[] {
+    return this.db.prepare<[], TournamentRow>('SELECT * FROM tournaments ORDER BY rowid').all().map(row => ({
+      id: row.id,
+      date: row.date,
+      champion: row.champion,
+      participants: JSON.parse(row.participants),
+      matches: JSON.parse(row.matches),
+      ...(row.source !== null ? { source: row.source } : {}),
+      ...(row.progress !== null ? { progress: JSON.parse(row.progress) } : {}),
+    }));
+  }
+
+  putTournaments(tournaments: TournamentResult[]) {
+    this.db.transaction(() => {
+      for (const t of tournaments) this.putTournament(t);
+    })();
+  }
+
+  putTournament(t: TournamentResult) {
+    this.db.prepare(UPSERT_TOURNAMENT).run(
+      t.id, t.date, t.champion, JSON.stringify(t.participants), JSON.stringify(t.matches), t.source ?? null,
+      t.progress ? JSON.stringify(t.progress) : null,
+    );
+  }
+
+  // ─── Recorded games ──────────────────────────────────────
+
+  /** Recorded games without their event logs, newest first. */
+  getGames(): Omit<RecordedGame, 'events'>[] {
+    return this.db.prepare<[], Omit<GameRow, 'events'>>('SELECT id, date, players FROM games ORDER BY rowid DESC').all()
+      .map(row => ({ id: row.id, date: row.date, players: JSON.parse(row.players) }));
+  }
+
+  getGame(id: string): RecordedGame | null {
+    const row = this.db.prepare<[string], GameRow>('SELECT * FROM games WHERE id = ?').get(id);
+    return row ? { id: row.id, date: row.date, players: JSON.parse(row.players), events: JSON.parse(row.events) } : null;
+  }
+
+  putGame(g: RecordedGame) {
+    this.db.prepare(UPSERT_GAME)
+      .run(g.id, g.date, JSON.stringify(g.players), JSON.stringify(g.events));
+  }
+
+  // ─── Decisions ───────────────────────────────────────────
+
+  /** Replace the decision records of one game. */
+  putDecisions(gameId: string, records: DecisionRecord[]) {
+    this.db.transaction(() => {
+      this.db.prepare('DELETE FROM decisions WHERE game_id = ?').run(gameId);
+      const insert = this.db.prepare(`
+        INSERT INTO decisions (game_id, date, model, seat, hand_number, trick_number, kind, action,
+          reasoning, fallback, observation_hash, latency_ms, fallback_kind)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      `);
+      for (const d of records) {
+        insert.run(
+          gameId, d.date, d.model, d.seat, d.handNumber, d.trickNumber, d.kind, d.action,
+          d.reasoning, d.fallback ? 1 : 0, d.observationHash, d.latencyMs ?? null, d.fallbackKind ?? null,
+        );
+      }
+    })();
+  }
+
+  getDecisions(gameId: string): DecisionRecord[] {
+    return this.db.prepare<[string], DecisionRow>('SELECT * FROM decisions WHERE game_id = ? ORDER BY rowid').all(gameId).map(rowToDecision);
+  }
+
+  /** `model`'s decisions matching `query` (same rules as searchDecisions), newest game first. */
+  searchDecisions(model: string, query: DecisionQuery, limit: number): DecisionRecord[] {
+    const where = ['model = ?'];
+    const params: unknown[] = [model];
+    if (query.kind) { where.push('kind = ?'); params.push(query.kind); }
+    if (query.fallbackOnly) where.push('fallback = 1');
+    const text = query.text?.trim().toLowerCase();
+    if (text) {
+      where.push("(instr(lower(reasoning), ?) > 0 OR lower(action) = ?)");
+      params.push(text, text);
+    }
+    return this.db.prepare<unknown[], DecisionRow>(`SELECT * FROM decisions WHERE ${where.join(' AND ')} ORDER BY date DESC, rowid LIMIT ?`)
+      .all(...params, limit).map(rowToDecision);
+  }
+
+  /** Delete everything (the HTTP counterpart of clearAllData). */
+  clear() {
+    this.db.exec('DELETE FROM result_models; DELETE FROM results; DELETE FROM tournaments; DELETE FROM games; DELETE FROM decisions;');
+  }
+}
+
+function rowToResult(row: ResultRow): GameResult {
+  return {
+    id: row.id,
+    date: row.date,
+    ...(row.tournament_id !== null ? { tournamentId: row.tournament_id } : {}),
+    team1Models: JSON.parse(row.team1_models),
+    team2Models: JSON.parse(row.team2_models),
+    team1Score: row.team1_score,
+    team2Score: row.team2_score,
+    team1Bags: row.team1_bags,
+    team2Bags: row.team2_bags,
+    winner: row.winner,
+    targetScore: row.target_score,
+    handsPlayed: row.hands_played,
+    ...(row.seed !== null ? { seed: row.seed } : {}),
+    ...(row.duplicate !== null ? { duplicate: JSON.parse(row.duplicate) } : {}),
+    ...(row.hands !== null ? { hands: JSON.parse(row.hands) } : {}),
+    ...(row.source !== null ? { source: row.source } : {}),
+    ...(row.usage !== null ? { usage: JSON.parse(row.usage) } : {}),
+    ...(row.house_rules !== null ? { houseRules: JSON.parse(row.house_rules) } : {}),
+  };
+}
+
+function rowToDecision(row: DecisionRow): DecisionRecord {
+  return {
+    gameId: row.game_id,
+    date: row.date,
+    model: row.model,
+    seat: row.seat,
+    handNumber: row.hand_number,
+    trickNumber: row.trick_number,
+    kind: row.kind,
+    action: row.action,
+    reasoning: row.reasoning,
+    fallback: row.fallback === 1,
+    ...(row.fallback_kind !== null ? { fallbackKind: row.fallback_kind } : {}),
+    observationHash: row.observation_hash,
+    ...(row.latency_ms !== null ? { latencyMs: row.latency_ms } : {}),
+  };
+}
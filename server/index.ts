@@ -0,0 +1,66 @@
+/**
+ * Arena server — REST API over the SQLite arena database, used by the app's
+ * HTTP results backend (see src/engine/resultsStore.ts). Unlike localStorage
+ * it isn't capped, and it survives the stream browser's profile resets.
+ *
+ * Usage:
+ *   npm run server
+ *
+ * Environment variables:
+ *   ARENA_PORT    - Port to listen on (default: 3001)
+ *   ARENA_HOST    - Interface to listen on (default: 127.0.0.1, this machine only)
+ *   ARENA_ORIGINS - Comma-separated origins the app may be served from
+ *                   (default: the Vite dev server, http://localhost:3000 and http://127.0.0.1:3000)
+ *   ARENA_DB      - SQLite file, created and migrated on start (default: data/arena.db)
+ *
+ * Point the app at it with RESULTS_API_URL=http://localhost:3001 in .env.local.
+ * The API has no authentication, so think twice before setting ARENA_HOST to
+ * an address other machines can reach.
+ *
+ * Endpoints (JSON):
+ *   GET    /api/health                   { ok, schemaVersion }
+ *   GET    /api/results?model=           GameResult[], insertion order
+ *   GET    /api/results/:id              GameResult
+ *   POST   /api/results                  save a GameResult or an array of them (ids included)
+ *   GET    /api/tournaments              TournamentResult[]
+ *   POST   /api/tournaments              save a TournamentResult or an array of them
+ *   GET    /api/games                    recorded games without events, newest first
+ *   GET    /api/games/:id                RecordedGame
+ *   PUT    /api/games/:id                save a RecordedGame
+ *   GET    /api/games/:id/decisions      DecisionRecord[]
+ *   PUT    /api/games/:id/decisions      replace the game's DecisionRecord[]
+ *   GET    /api/decisions?model=&text=&kind=&fallback=1&limit=
+ *   DELETE /api/data                     delete everything
+ */
+
+import { config as loadEnv } from 'dotenv';
+import { mkdirSync } from 'fs';
+import { dirname, resolve } from 'path';
+import { ArenaDb, SCHEMA_VERSION, resolveDbFile } from './db';
+import { createApp } from './app';
+
+loadEnv({ path: resolve(process.cwd(), '.env.local') });
+
+const PORT = parseInt(process.env.ARENA_PORT || '3001', 10);
+const HOST = process.env.ARENA_HOST || '127.0.0.1';
+const ORIGINS = (process.env.ARENA_ORIGINS || 'http://localhost:3000,http://127.0.0.1:3000')
+  .split(',').map(origin => origin.trim()).filter(Boolean);
+const DB_FILE = resolveDbFile();
+
+function main() {
+  mkdirSync(dirname(DB_FILE), { recursive: true });
+  const db = new ArenaDb(DB_FILE);
+  const server = createApp(db, ORIGINS).listen(PORT, HOST, () => {
+    console.log(`[server] arena API on http://${HOST}:${PORT} for ${ORIGINS.join(', ')} (db ${DB_FILE}, schema v${SCHEMA_VERSION})`);
+  });
+
+  const shutdown = () => {
+    server.close();
+    db.close();
+    process.exit(0);
+  };
+  process.on('SIGINT', shutdown);
+  process.on('SIGTERM', shutdown);
+}
+
+main();
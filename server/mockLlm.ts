@@ -0,0 +1,50 @@
+/**
+ * Mock LLM — an OpenAI-compatible endpoint with scripted replies, so the
+ * whole LLM path (prompt, transport, parsing, validation, repair) runs
+ * without a network or a GPU. Point a local agent at it:
+ *
+ *   npm run mock-llm
+ *   npm run bench -- mock.json
+ *
+ * with mock.json's seats set to
+ *   { "type": "llm", "provider": "local", "base_url": "http://localhost:3002/v1", "model": "mock-spades" }
+ *
+ * Replies follow a script, then legal moves (see mockLlmApp.ts). A script
+ * is a JSON array whose entries are sent verbatim (strings) or as JSON
+ * (objects), e.g.
+ *   ["not json", {"action": "play", "card": "ZZ", "reasoning": "typo"}]
+ * to make an agent's first two decisions exercise its repair prompts.
+ *
+ * Environment variables:
+ *   MOCK_LLM_PORT    - Port to listen on (default: 3002)
+ *   MOCK_LLM_SCRIPT  - Path of a script file (default: none)
+ *
+ * Endpoints (JSON):
+ *   GET  /v1/models             { object: 'list', data: [{ id: 'mock-spades', … }] }
+ *   POST /v1/chat/completions   chat.completion, with estimated token usage
+ */
+
+import { readFileSync } from 'fs';
+import { MOCK_MODEL_ID, ScriptEntry, createMockLlmApp } from './mockLlmApp';
+
+const PORT = parseInt(process.env.MOCK_LLM_PORT || '3002', 10);
+
+function main() {
+  const scriptFile = process.env.MOCK_LLM_SCRIPT;
+  const script: ScriptEntry[] = scriptFile ? JSON.parse(readFileSync(scriptFile, 'utf8')) : [];
+  if (!Array.isArray(script)) throw new Error(`${scriptFile}: a script must be a JSON array`);
+
+  const server = createMockLlmApp(script).listen(PORT, () => {
+    const scripted = script.length > 0 ? `, ${script.length} scripted replies` : '';
+    console.log(`[mock-llm] OpenAI-compatible endpoint on http://localhost:${PORT}/v1 (model ${MOCK_MODEL_ID}${scripted})`);
+  });
+
+  const shutdown = () => {
+    server.close();
+    process.exit(0);
+  };
+  process.on('SIGINT', shutdown);
+  process.on('SIGTERM', shutdown);
+}
+
+main();
@@ -0,0 +1,83 @@
+/**
+ * The mock LLM's express app (see mockLlm.ts for running it). Kept apart
+ * from the entry point so tests can listen on a port of their own.
+ *
+ * Replies come from the script first, one per request, in order; once it
+ * runs out (or without one) the mock answers with a legal action read from
+ * the observation in the conversation — a bid of 3 when allowed, else the
+ * first legal bid; the first legal card.
+ */
+
+import express from 'express';
+import type { Observation } from '../src/engine/types';
+
+export const MOCK_MODEL_ID = 'mock-spades';
+
+export type ScriptEntry = string | Record<string, unknown>;
+
+interface ChatMessage {
+  role: string;
+  content: string;
+}
+
+/** A legal action for the observation in `messages` (its first user message). */
+function legalReply(messages: ChatMessage[]): string {
+  const prompt = messages.find(m => m.role === 'user')?.content ?? '';
+  let observation: Observation;
+  try {
+    observation = JSON.parse(prompt);
+  } catch {
+    return JSON.stringify({ action: 'bid', value: 3, reasoning: 'mock: no observation found' });
+  }
+  if (observation.phase === 'bidding') {
+    const legal = observation.bidding_context?.legal_bids ?? [3];
+    const value = legal.includes(3) ? 3 : legal[0];
+    return JSON.stringify({ action: 'bid', value, reasoning: 'mock: scripted bid' });
+  }
+  const card = observation.playing_context?.legal_plays[0];
+  return JSON.stringify({ action: 'play', card, reasoning: 'mock: first legal card' });
+}
+
+// Rough OpenAI-style token count: ~4 characters a token
+const estimateTokens = (text: string) => Math.ceil(text.length / 4);
+
+export function createMockLlmApp(script: ScriptEntry[] = []) {
+  const queue = [...script];
+  const app = express();
+  app.use(express.json({ limit: '5mb' }));
+
+  // Browser agents call from the app's origin
+  app.use((req, res, next) => {
+    res.header('Access-Control-Allow-Origin', '*');
+    res.header('Access-Control-Allow-Methods', 'GET, POST, OPTIONS');
+    res.header('Access-Control-Allow-Headers', 'Content-Type, Authorization');
+    if (req.method === 'OPTIONS') { res.sendStatus(204); return; }
+    next();
+  });
+
+  app.get('/v1/models', (_req, res) => {
+    res.json({ object: 'list', data: [{ id: MOCK_MODEL_ID, object: 'model', created: 0, owned_by: 'mock' }] });
+  });
+
+  app.post('/v1/chat/completions', (req, res) => {
+    const messages: ChatMessage[] = Array.isArray(req.body?.messages) ? req.body.messages : [];
+    if (messages.length === 0) {
+      res.status(400).json({ error: { message: 'messages must be a non-empty array' } });
+      return;
+    }
+    const next = queue.shift();
+    const content = next === undefined ? legalReply(messages) : typeof next === 'string' ? next : JSON.stringify(next);
+    const promptTokens = estimateTokens(messages.map(m => m.content).join('\n'));
+    const completionTokens = estimateTokens(content);
+    res.json({
+      id: `mock-${Date.now()}`,
+      object: 'chat.completion',
+      created: Math.floor(Date.now() / 1000),
+      model: req.body.model || MOCK_MODEL_ID,
+      choices: [{ index: 0, message: { role: 'assistant', content }, finish_reason: 'stop' }],
+      usage: { prompt_tokens: promptTokens, completion_tokens: completionTokens, total_tokens: promptTokens + completionTokens },
+    });
+  });
+
+  return app;
+}
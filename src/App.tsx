@@ -12,14 +12,20 @@ import { ChatPanel, ChatMessage } from './components/ChatPanel';
 import { Dashboard } from './components/Dashboard';
 import { ModelDetail } from './components/ModelDetail';
 import { Tournament } from './components/Tournament';
+import { Replay } from './components/Replay';
 import { GameConfig } from './engine/types';
+import { SavedMatch } from './engine/matchStore';
+import { defaultSources } from './engine/resultsStore';
+import { DataSource } from './engine/dataSource';
 
-type Screen = 'splash' | 'setup' | 'game' | 'dashboard' | 'model_detail' | 'tournament';
+type Screen = 'splash' | 'setup' | 'game' | 'dashboard' | 'model_detail' | 'tournament' | 'replay';
 
 export default function App() {
-  const { gameState, logs, isHumanTurn, isPaused, initGame, humanAction, togglePause, quitGame } = useGame();
+  const { gameState, logs, isHumanTurn, isPaused, blindBidOptions, legalBids, initGame, resumeMatch, humanAction, revealHand, togglePause, quitGame } = useGame();
   const [screen, setScreen] = useState<Screen>('splash');
   const [selectedModel, setSelectedModel] = useState<string>('');
+  // Data sources counted on the Dashboard and ModelDetail; null until the user picks
+  const [sources, setSources] = useState<DataSource[] | null>(null);
   const [chatOpen, setChatOpen] = useState(false);
   const toggleChat = useCallback(() => setChatOpen(prev => !prev), []);
 
@@ -33,13 +39,18 @@ export default function App() {
     setScreen('game');
   };
 
+  const handleResume = (saved: SavedMatch) => {
+    resumeMatch(saved);
+    setScreen('game');
+  };
+
   // Convert game logs into chat messages
   const chatMessages = useMemo<ChatMessage[]>(() => {
     if (!gameState) return [];
 
     return logs.reduce<ChatMessage[]>((acc, log, i) => {
       // Parse "Bot N bids X" or "Bot N plays XX"
-      const bidMatch = log.match(/^(Bot \d+) bids (\d+)/);
+      const bidMatch = log.match(/^(Bot \d+) bids (Blind Nil|Blind \d+|\d+)/);
       const playMatch = log.match(/^(Bot \d+) plays (\w+)/);
 
       if (bidMatch) {
@@ -121,9 +132,12 @@ export default function App() {
   if (screen === 'dashboard') {
     return (
       <Dashboard
+        sources={sources ?? defaultSources()}
+        onSourcesChange={setSources}
         onBack={() => setScreen('setup')}
         onPlay={() => setScreen('setup')}
         onModelClick={(name) => { setSelectedModel(name); setScreen('model_detail'); }}
+        onReplays={() => setScreen('replay')}
       />
     );
   }
@@ -133,13 +147,20 @@ export default function App() {
     return (
       <ModelDetail
         modelName={selectedModel}
+        sources={sources ?? defaultSources()}
+        onSourcesChange={setSources}
         onBack={() => setScreen('dashboard')}
         onPlay={() => setScreen('setup')}
       />
     );
   }
 
-  // Tournament wireframe
+  // Replay viewer
+  if (screen === 'replay') {
+    return <Replay onBack={() => setScreen('dashboard')} />;
+  }
+
+  // Tournament
   if (screen === 'tournament') {
     return <Tournament onBack={() => setScreen('setup')} />;
   }
@@ -149,6 +170,7 @@ export default function App() {
     return (
       <GameSetup
         onStart={handleStart}
+        onResume={handleResume}
         onLeaderboard={() => setScreen('dashboard')}
         onTournament={() => setScreen('tournament')}
       />
@@ -171,7 +193,10 @@ export default function App() {
       <div className="flex-1 min-w-0 h-full">
         <GameBoard
           gameState={gameState}
-          onBid={(value) => humanAction({ action: 'bid', value, reasoning: 'User bid' })}
+          onBid={(value, blind) => humanAction({ action: 'bid', value, blind, reasoning: 'User bid' })}
+          blindBidOptions={blindBidOptions}
+          legalBids={legalBids}
+          onRevealHand={revealHand}
           onPlay={(cardId) => humanAction({ action: 'play', card: cardId, reasoning: 'User play' })}
           isHumanTurn={isHumanTurn}
           logs={logs}
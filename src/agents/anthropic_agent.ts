@@ -15,128 +15,50 @@
  */
 
 import Anthropic from '@anthropic-ai/sdk';
-import { Agent } from './base';
-import { Observation, BidAction, PlayAction } from '../engine/types';
-import { getSystemPrompt, getObservationPrompt } from './prompts';
+import { LLMCoreAgent, LLMTransport, LLMRequest, LLMReply } from './llm_core';
 
 const JSON_OUTPUT_INSTRUCTION =
   '\n\nRespond with a single JSON object only. Do not wrap it in markdown code fences.';
 
-export class AnthropicAgent implements Agent {
-  name: string;
+export class AnthropicTransport implements LLMTransport {
+  readonly provider = 'Anthropic';
+  readonly model: string;
   private client: Anthropic;
-  private model: string;
-  private maxRetries: number;
 
-  constructor(
-    name: string,
-    apiKey: string,
-    model: string = 'claude-opus-4-7',
-    maxRetries: number = 3,
-  ) {
-    this.name = name;
+  constructor(apiKey: string, model: string) {
     this.model = model;
-    this.maxRetries = maxRetries;
     this.client = new Anthropic({
       apiKey,
       dangerouslyAllowBrowser: true,
     });
   }
 
-  private async call(systemPrompt: string, userPrompt: string): Promise<any> {
+  async complete({ system, messages }: LLMRequest): Promise<LLMReply> {
     const response = await this.client.messages.create({
       model: this.model,
       max_tokens: 1024,
-      system: systemPrompt + JSON_OUTPUT_INSTRUCTION,
-      messages: [{ role: 'user', content: userPrompt }],
+      system: system + JSON_OUTPUT_INSTRUCTION,
+      messages,
     });
 
     const textBlock = response.content.find((b) => b.type === 'text');
     if (!textBlock || textBlock.type !== 'text') {
       throw new Error('No text content in Anthropic response');
     }
-
-    let raw = textBlock.text.trim();
-    raw = raw.replace(/^```(?:json)?\s*/, '').replace(/```\s*$/, '');
-    return JSON.parse(raw);
-  }
-
-  async bid(observation: Observation): Promise<BidAction> {
-    const systemPrompt = getSystemPrompt(
-      observation.seat,
-      observation.seat % 2 === 0 ? 1 : 2,
-      observation.partner_seat,
-    );
-    const userPrompt = getObservationPrompt(observation);
-
-    for (let attempt = 0; attempt < this.maxRetries; attempt++) {
-      try {
-        const parsed = await this.call(systemPrompt, userPrompt);
-        if (
-          parsed.action !== 'bid' ||
-          typeof parsed.value !== 'number' ||
-          parsed.value < 0 ||
-          parsed.value > 13
-        ) {
-          throw new Error('Invalid bid format or value');
-        }
-        return parsed as BidAction;
-      } catch (error) {
-        console.error(
-          `Anthropic Agent ${this.name} bid attempt ${attempt + 1} failed:`,
-          error,
-        );
-        if (attempt === this.maxRetries - 1) {
-          return { action: 'bid', value: 1, reasoning: 'Fallback bid due to errors' };
-        }
-      }
-    }
-    return { action: 'bid', value: 1, reasoning: 'Fallback bid due to errors' };
-  }
-
-  async play(observation: Observation): Promise<PlayAction> {
-    const systemPrompt = getSystemPrompt(
-      observation.seat,
-      observation.seat % 2 === 0 ? 1 : 2,
-      observation.partner_seat,
-    );
-    const userPrompt = getObservationPrompt(observation);
-
-    for (let attempt = 0; attempt < this.maxRetries; attempt++) {
-      try {
-        const parsed = await this.call(systemPrompt, userPrompt);
-        if (parsed.action !== 'play' || typeof parsed.card !== 'string') {
-          throw new Error('Invalid play format');
-        }
-        const legalPlays = observation.playing_context?.legal_plays || [];
-        if (!legalPlays.includes(parsed.card)) {
-          throw new Error(
-            `Illegal play: ${parsed.card}. Legal plays: ${legalPlays.join(', ')}`,
-          );
-        }
-        return parsed as PlayAction;
-      } catch (error) {
-        console.error(
-          `Anthropic Agent ${this.name} play attempt ${attempt + 1} failed:`,
-          error,
-        );
-        if (attempt === this.maxRetries - 1) {
-          const legalPlays = observation.playing_context?.legal_plays || [];
-          return {
-            action: 'play',
-            card: legalPlays[0],
-            reasoning: 'Fallback play due to errors',
-          };
-        }
-      }
-    }
-    const legalPlays = observation.playing_context?.legal_plays || [];
     return {
-      action: 'play',
-      card: legalPlays[0],
-      reasoning: 'Fallback play due to errors',
+      text: textBlock.text,
+      usage: { inputTokens: response.usage.input_tokens, outputTokens: response.usage.output_tokens },
     };
   }
+}
 
-  reset(): void {}
+export class AnthropicAgent extends LLMCoreAgent {
+  constructor(
+    name: string,
+    apiKey: string,
+    model: string = 'claude-opus-4-7',
+    maxRetries: number = 3,
+  ) {
+    super(name, new AnthropicTransport(apiKey, model), maxRetries);
+  }
 }
@@ -1,6 +1,7 @@
 import { Agent } from './base';
-import { Observation, BidAction, PlayAction } from '../engine/types';
+import { Card, Observation, BidAction, PlayAction } from '../engine/types';
 import { getCardValue, parseCard } from '../engine/deck';
+import { effectiveSuit } from '../engine/variant';
 
 export class HeuristicAgent implements Agent {
   name: string;
@@ -14,7 +15,7 @@ export class HeuristicAgent implements Agent {
     let expectedTricks = 0;
 
     const suits = { S: 0, H: 0, D: 0, C: 0 };
-    hand.forEach(c => suits[c.suit]++);
+    hand.forEach(c => suits[effectiveSuit(c, observation.variant)]++);
 
     for (const card of hand) {
       if (card.rank === 'A' || card.rank === 'K') {
@@ -32,10 +33,16 @@ export class HeuristicAgent implements Agent {
     let bid = Math.round(expectedTricks);
     if (bid < 1) bid = 1; // Or Nil if hand evaluation <= 0 and no spades above 8, but we'll simplify to min 1 or 0 if very weak.
 
-    if (expectedTricks <= 0 && !hand.some(c => c.suit === 'S' && getCardValue(c.rank, c.suit) > 8)) {
+    if (expectedTricks <= 0 && !hand.some(c => c.suit === 'S' && getCardValue(c.rank, c.suit, observation.variant) > 8)) {
       bid = 0;
     }
 
+    // Respect the team minimum: nearest legal bid at or above the estimate
+    const legalBids = observation.bidding_context?.legal_bids || [];
+    if (legalBids.length > 0 && !legalBids.includes(bid)) {
+      bid = legalBids.filter(v => v > bid).sort((a, b) => a - b)[0] ?? legalBids[0];
+    }
+
     return {
       action: 'bid',
       value: bid,
@@ -51,49 +58,50 @@ export class HeuristicAgent implements Agent {
     const legalPlays = legalPlaysIds.map(id => parseCard(id)!);
 
     const currentTrick = observation.playing_context?.current_trick || [];
+    const suitOf = (c: Card) => effectiveSuit(c, observation.variant);
+    const value = (c: Card) => getCardValue(c.rank, c.suit, observation.variant);
+    const highest = (cards: Card[]) => cards.reduce((prev, curr) => value(curr) > value(prev) ? curr : prev);
+    const lowest = (cards: Card[]) => cards.reduce((prev, curr) => value(curr) < value(prev) ? curr : prev);
 
     let chosenCard = legalPlays[0];
 
     if (currentTrick.length === 0) {
       // Leading
-      const nonSpades = legalPlays.filter(c => c.suit !== 'S' && c.suit !== 'J');
+      const nonSpades = legalPlays.filter(c => suitOf(c) !== 'S');
       if (nonSpades.length > 0) {
         // Find longest non-trump suit
         const suits = { H: 0, D: 0, C: 0 };
-        nonSpades.forEach(c => suits[c.suit as 'H' | 'D' | 'C']++);
+        nonSpades.forEach(c => suits[suitOf(c) as 'H' | 'D' | 'C']++);
         let maxSuit = 'H';
         if (suits.D > suits[maxSuit as 'H' | 'D' | 'C']) maxSuit = 'D';
         if (suits.C > suits[maxSuit as 'H' | 'D' | 'C']) maxSuit = 'C';
 
-        const cardsInMaxSuit = nonSpades.filter(c => c.suit === maxSuit);
+        const cardsInMaxSuit = nonSpades.filter(c => suitOf(c) === maxSuit);
         // Play highest
-        chosenCard = cardsInMaxSuit.reduce((prev, curr) => getCardValue(curr.rank, curr.suit) > getCardValue(prev.rank, prev.suit) ? curr : prev);
+        chosenCard = highest(cardsInMaxSuit);
       } else {
         // Only spades or jokers
-        chosenCard = legalPlays.reduce((prev, curr) => getCardValue(curr.rank, curr.suit) > getCardValue(prev.rank, prev.suit) ? curr : prev);
+        chosenCard = highest(legalPlays);
       }
     } else {
       // Following
-      let ledSuit = currentTrick[0].card.slice(-1);
-      if (currentTrick[0].card === 'BigJoker' || currentTrick[0].card === 'LittleJoker') {
-        ledSuit = 'S';
-      }
+      const ledSuit = suitOf(parseCard(currentTrick[0].card)!);
 
-      const followingSuit = legalPlays.filter(c => (c.suit === ledSuit) || (ledSuit === 'S' && c.suit === 'J'));
+      const followingSuit = legalPlays.filter(c => suitOf(c) === ledSuit);
 
       if (followingSuit.length > 0) {
         // Can follow suit
         // Simplified: play lowest card in suit
-        chosenCard = followingSuit.reduce((prev, curr) => getCardValue(curr.rank, curr.suit) < getCardValue(prev.rank, prev.suit) ? curr : prev);
+        chosenCard = lowest(followingSuit);
       } else {
         // Void
-        const spades = legalPlays.filter(c => c.suit === 'S' || c.suit === 'J');
+        const spades = legalPlays.filter(c => suitOf(c) === 'S');
         if (spades.length > 0) {
           // Trump with lowest spade
-          chosenCard = spades.reduce((prev, curr) => getCardValue(curr.rank, curr.suit) < getCardValue(prev.rank, prev.suit) ? curr : prev);
+          chosenCard = lowest(spades);
         } else {
           // Discard lowest card
-          chosenCard = legalPlays.reduce((prev, curr) => getCardValue(curr.rank, curr.suit) < getCardValue(prev.rank, prev.suit) ? curr : prev);
+          chosenCard = lowest(legalPlays);
         }
       }
     }
@@ -0,0 +1,229 @@
+/**
+ * LLM core — the provider-agnostic half of every LLM agent. Prompting, JSON
+ * parsing, schema and legality checks, retries and the fallback live here;
+ * a transport only turns a conversation into the model's raw reply text.
+ *
+ * A rejected reply is repaired rather than re-asked: the next attempt
+ * continues the conversation with the model's own answer and what was
+ * wrong with it ("8H is illegal: you must follow clubs"), so the model can
+ * correct itself instead of repeating the same mistake. A transport error
+ * (network, rate limit) just retries the same conversation.
+ *
+ * After `maxRetries` failed attempts the agent falls back: a legal bid of 1
+ * (or the lowest legal bid above Nil), or the lowest legal card, marked
+ * `fallback` so metrics can count it.
+ *
+ * Every action carries the `usage` of all the calls behind it, priced from
+ * agents/pricing.ts (or the transport's own `price`).
+ */
+
+import { Agent } from './base';
+import { Observation, BidAction, PlayAction, Card } from '../engine/types';
+import { parseCard, getCardValue } from '../engine/deck';
+import { effectiveSuit } from '../engine/variant';
+import { TokenUsage, addUsage } from '../engine/usage';
+import { getSystemPrompt, getObservationPrompt } from './prompts';
+import { ModelPrice, estimateCost, priceOf } from './pricing';
+
+export interface ChatMessage {
+  role: 'user' | 'assistant';
+  content: string;
+}
+
+export type ActionKind = 'bid' | 'play';
+
+export interface LLMRequest {
+  kind: ActionKind;       // which action the reply must be, for transports with schema support
+  system: string;
+  messages: ChatMessage[]; // starts with the observation; repairs append to it
+}
+
+export interface LLMReply {
+  text: string;
+  usage?: { inputTokens: number; outputTokens: number }; // as the provider reported it
+}
+
+/** Sends a conversation to one provider and returns the reply. */
+export interface LLMTransport {
+  readonly provider: string; // for logs, e.g. 'Anthropic'
+  readonly model: string;
+  readonly price?: ModelPrice; // overrides the price table, e.g. FREE for self-hosted models
+  complete(request: LLMRequest): Promise<LLMReply>;
+}
+
+/** A reply the model can fix: bad JSON, wrong shape, or an illegal action. */
+class ReplyError extends Error {}
+
+/** The model's JSON object, fields not yet checked. */
+type Reply = Record<string, unknown>;
+
+const SUIT_NAMES: Record<string, string> = { 'S': 'spades', 'H': 'hearts', 'D': 'diamonds', 'C': 'clubs' };
+
+export class LLMCoreAgent implements Agent {
+  name: string;
+  protected transport: LLMTransport;
+  protected maxRetries: number;
+
+  constructor(name: string, transport: LLMTransport, maxRetries: number = 3) {
+    this.name = name;
+    this.transport = transport;
+    this.maxRetries = maxRetries;
+  }
+
+  async bid(observation: Observation): Promise<BidAction> {
+    return this.decide(observation, 'bid', reply => validateBid(reply, observation), () => fallbackBid(observation));
+  }
+
+  async play(observation: Observation): Promise<PlayAction> {
+    return this.decide(observation, 'play', reply => validatePlay(reply, observation), () => fallbackPlay(observation));
+  }
+
+  reset(): void {}
+
+  private async decide<A extends BidAction | PlayAction>(
+    observation: Observation,
+    kind: ActionKind,
+    validate: (reply: Reply) => A,
+    fallback: () => A,
+  ): Promise<A> {
+    const system = getSystemPrompt(observation.seat, observation.seat % 2 === 0 ? 1 : 2, observation.partner_seat);
+    const messages: ChatMessage[] = [{ role: 'user', content: getObservationPrompt(observation) }];
+    let usage: TokenUsage | undefined;
+
+    for (let attempt = 0; attempt < this.maxRetries; attempt++) {
+      let text: string | undefined;
+      const started = Date.now();
+      try {
+        const reply = await this.transport.complete({ kind, system, messages: [...messages] });
+        usage = addUsage(usage, this.callUsage(Date.now() - started, reply.usage));
+        text = reply.text;
+        return { ...validate(parseReply(text)), usage };
+      } catch (error) {
+        // A request that failed outright isn't billed
+        if (text === undefined) usage = addUsage(usage, this.callUsage(Date.now() - started, { inputTokens: 0, outputTokens: 0 }));
+        console.error(`${this.transport.provider} Agent ${this.name} ${kind} attempt ${attempt + 1} failed:`, error);
+        if (error instanceof ReplyError && text !== undefined) {
+          messages.push(
+            { role: 'assistant', content: text },
+            { role: 'user', content: `${error.message}\n\nRespond again with a single corrected JSON object.` },
+          );
+        }
+      }
+    }
+    return { ...fallback(), usage };
+  }
+
+  /** One API call's usage; unpriced when the model has no price, or a paid one reported no tokens. */
+  private callUsage(latencyMs: number, tokens?: LLMReply['usage']): TokenUsage {
+    const price = this.transport.price ?? priceOf(this.transport.model);
+    const { inputTokens, outputTokens } = tokens ?? { inputTokens: 0, outputTokens: 0 };
+    const priced = price !== null && (tokens !== undefined || (price.input === 0 && price.output === 0));
+    return {
+      calls: 1,
+      inputTokens,
+      outputTokens,
+      latencyMs,
+      costUsd: price ? estimateCost(price, inputTokens, outputTokens) : 0,
+      ...(priced ? {} : { unpriced: true }),
+    };
+  }
+}
+
+/** The reply's JSON object; tolerates markdown fences and text around the object. */
+function parseReply(text: string): Reply {
+  if (!text.trim()) throw new ReplyError('Your reply was empty.');
+  const unfenced = text.trim().replace(/^```(?:json)?\s*/, '').replace(/```\s*$/, '');
+  const start = unfenced.indexOf('{');
+  const end = unfenced.lastIndexOf('}');
+  if (start < 0 || end < start) throw new ReplyError('Your reply did not contain a JSON object.');
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(unfenced.slice(start, end + 1));
+  } catch (e) {
+    throw new ReplyError(`Your reply was not valid JSON (${e instanceof Error ? e.message : e}).`);
+  }
+  if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) {
+    throw new ReplyError('Your reply must be a JSON object.');
+  }
+  return parsed as Reply;
+}
+
+function validateBid(reply: Reply, observation: Observation): BidAction {
+  if (reply.action !== 'bid') throw new ReplyError(`"action" must be "bid" — it is your turn to bid, not "${reply.action}".`);
+  const { value, blind } = reply;
+  if (typeof value !== 'number' || !Number.isInteger(value) || value < 0 || value > 13) {
+    throw new ReplyError(`"value" must be a whole number from 0 to 13, not ${JSON.stringify(value)}.`);
+  }
+  if (blind !== undefined && typeof blind !== 'boolean') throw new ReplyError('"blind" must be true or omitted.');
+  const context = observation.bidding_context;
+
+  if (blind) {
+    const options = context?.blind_bid_options;
+    if (!options) {
+      throw new ReplyError(`Blind ${value} is illegal: blind bids are only offered while your hand is face down and your team trails badly. Bid without "blind".`);
+    }
+    if (!options.includes(value)) {
+      throw new ReplyError(`Blind ${value} is illegal: you may bid blind ${options.map(bidLabel).join(', ')}, or bid without "blind" to see your cards.`);
+    }
+  } else {
+    const legal = context?.legal_bids ?? [];
+    if (legal.length > 0 && !legal.includes(value)) {
+      throw new ReplyError(`${bidLabel(value)} is illegal: legal bids are ${legal.map(bidLabel).join(', ')}.`);
+    }
+  }
+  return { action: 'bid', value, ...(blind ? { blind: true } : {}), reasoning: reasoningOf(reply) };
+}
+
+function validatePlay(reply: Reply, observation: Observation): PlayAction {
+  if (reply.action !== 'play') throw new ReplyError(`"action" must be "play" — it is your turn to play a card, not "${reply.action}".`);
+  if (typeof reply.card !== 'string') throw new ReplyError(`"card" must be a string like "AS" or "10H", not ${JSON.stringify(reply.card)}.`);
+  const card = reply.card.trim();
+  const legal = observation.playing_context?.legal_plays ?? [];
+  if (!legal.includes(card)) {
+    throw new ReplyError(`${illegalPlayReason(card, observation)} Legal plays: ${legal.join(', ')}.`);
+  }
+  return { action: 'play', card, reasoning: reasoningOf(reply) };
+}
+
+/** Why `card` can't be played, in the terms of the rules it breaks. */
+function illegalPlayReason(card: string, observation: Observation): string {
+  const parsed = parseCard(card);
+  if (!parsed) return `"${card}" is not a card: write rank then suit, like "AS" or "10H", or "BigJoker".`;
+  if (!observation.hand.includes(card)) return `${card} is not in your hand.`;
+
+  const trick = observation.playing_context?.current_trick ?? [];
+  if (trick.length > 0) {
+    const led = effectiveSuit(parseCard(trick[0].card)!, observation.variant);
+    return `${card} is illegal: you must follow ${SUIT_NAMES[led]}.`;
+  }
+  if (effectiveSuit(parsed, observation.variant) === 'S') {
+    return `${card} is illegal: spades are not broken, so you can't lead one while you hold other suits.`;
+  }
+  return `${card} is illegal: this trick must be opened with ${observation.playing_context?.legal_plays[0]}.`;
+}
+
+function reasoningOf(reply: Reply): string {
+  return typeof reply.reasoning === 'string' ? reply.reasoning : '';
+}
+
+function bidLabel(value: number): string {
+  return value === 0 ? '0 (Nil)' : String(value);
+}
+
+function fallbackBid(observation: Observation): BidAction {
+  const legal = observation.bidding_context?.legal_bids ?? [];
+  // legal_bids runs 1..13 then Nil, so the first positive one is the lowest
+  const value = legal.length === 0 || legal.includes(1) ? 1 : (legal.find(b => b > 0) ?? legal[0]);
+  return { action: 'bid', value, reasoning: 'Fallback bid due to errors', fallback: true };
+}
+
+function fallbackPlay(observation: Observation): PlayAction {
+  const legal = (observation.playing_context?.legal_plays ?? []).map(id => parseCard(id)).filter((c): c is Card => c !== null);
+  const lowest = legal.reduce<Card | null>((low, c) => {
+    if (!low) return c;
+    const trump = (x: Card) => effectiveSuit(x, observation.variant) === 'S';
+    if (trump(c) !== trump(low)) return trump(low) ? c : low;
+    return getCardValue(c.rank, c.suit, observation.variant) < getCardValue(low.rank, low.suit, observation.variant) ? c : low;
+  }, null);
+  return { action: 'play', card: lowest?.id ?? observation.playing_context?.legal_plays[0] ?? '', reasoning: 'Fallback play due to errors', fallback: true };
+}
@@ -0,0 +1,80 @@
+/**
+ * LocalAgent — Spades agent for any OpenAI-compatible endpoint: Ollama,
+ * llama.cpp's server, vLLM, or the bundled mock (`npm run mock-llm`). Talks
+ * plain fetch to `<baseUrl>/chat/completions`, so it needs no SDK and no key;
+ * a key is sent only when given (vLLM's `--api-key`).
+ *
+ * Typical base URLs:
+ *   Ollama     http://localhost:11434/v1
+ *   llama.cpp  http://localhost:8080/v1
+ *   vLLM       http://localhost:8000/v1
+ *   mock       http://localhost:3002/v1
+ *
+ * From the browser the endpoint must allow the app's origin (Ollama:
+ * OLLAMA_ORIGINS=*; the mock allows any origin).
+ */
+
+import { LLMCoreAgent, LLMTransport, LLMRequest, LLMReply } from './llm_core';
+import { FREE } from './pricing';
+
+export const DEFAULT_LOCAL_URL = 'http://localhost:11434/v1';
+
+function endpoint(baseUrl: string, path: string): string {
+  return `${baseUrl.replace(/\/+$/, '')}/${path}`;
+}
+
+function authHeaders(apiKey?: string): Record<string, string> {
+  return apiKey ? { 'Authorization': `Bearer ${apiKey}` } : {};
+}
+
+/** Model ids the endpoint serves, from `GET <baseUrl>/models`. */
+export async function listLocalModels(baseUrl: string, apiKey?: string): Promise<string[]> {
+  const response = await fetch(endpoint(baseUrl, 'models'), { headers: authHeaders(apiKey) });
+  if (!response.ok) throw new Error(`${endpoint(baseUrl, 'models')}: ${response.status} ${response.statusText}`);
+  const data = await response.json();
+  return (data.data ?? []).map((m: { id: string }) => m.id);
+}
+
+export class LocalTransport implements LLMTransport {
+  readonly provider = 'Local';
+  readonly price = FREE;
+  readonly model: string;
+  private baseUrl: string;
+  private apiKey?: string;
+
+  constructor(baseUrl: string, model: string, apiKey?: string) {
+    this.baseUrl = baseUrl;
+    this.model = model;
+    this.apiKey = apiKey;
+  }
+
+  async complete({ system, messages }: LLMRequest): Promise<LLMReply> {
+    const response = await fetch(endpoint(this.baseUrl, 'chat/completions'), {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...authHeaders(this.apiKey) },
+      body: JSON.stringify({
+        model: this.model,
+        messages: [{ role: 'system', content: system }, ...messages],
+        temperature: 0.2,
+        response_format: { type: 'json_object' },
+      }),
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new Error(`Local endpoint error: ${response.status} - ${errorText}`);
+    }
+
+    const data = await response.json();
+    return {
+      text: data.choices?.[0]?.message?.content ?? '',
+      usage: data.usage && { inputTokens: data.usage.prompt_tokens ?? 0, outputTokens: data.usage.completion_tokens ?? 0 },
+    };
+  }
+}
+
+export class LocalAgent extends LLMCoreAgent {
+  constructor(name: string, baseUrl: string, model: string, maxRetries: number = 3, apiKey?: string) {
+    super(name, new LocalTransport(baseUrl, model, apiKey), maxRetries);
+  }
+}
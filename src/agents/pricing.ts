@@ -0,0 +1,69 @@
+/**
+ * Model prices for cost estimates, in USD per million tokens, from the
+ * providers' published list prices. They drift: a run's cost is only as
+ * current as this table, so update it alongside new model ids.
+ *
+ * Lookups ignore an OpenRouter vendor prefix ('openai/gpt-4o' is priced as
+ * 'gpt-4o') and match dated or suffixed ids by their longest listed prefix
+ * ('gpt-4o-mini-2024-07-18' is 'gpt-4o-mini', not 'gpt-4o').
+ */
+
+export interface ModelPrice {
+  input: number;  // USD per million input tokens
+  output: number; // USD per million output tokens
+}
+
+export const MODEL_PRICES: Record<string, ModelPrice> = {
+  // Anthropic
+  'claude-opus-4-7': { input: 5, output: 25 },
+  'claude-opus-4-6': { input: 5, output: 25 },
+  'claude-opus-4-5': { input: 5, output: 25 },
+  'claude-opus-4': { input: 15, output: 75 },
+  'claude-sonnet-4': { input: 3, output: 15 },
+  'claude-haiku-4-5': { input: 1, output: 5 },
+  'claude-3-5-sonnet': { input: 3, output: 15 },
+  'claude-3.5-sonnet': { input: 3, output: 15 },
+  'claude-3-5-haiku': { input: 0.8, output: 4 },
+  // OpenAI
+  'gpt-5': { input: 1.25, output: 10 },
+  'gpt-5-mini': { input: 0.25, output: 2 },
+  'gpt-5-nano': { input: 0.05, output: 0.4 },
+  'gpt-4.1': { input: 2, output: 8 },
+  'gpt-4.1-mini': { input: 0.4, output: 1.6 },
+  'gpt-4.1-nano': { input: 0.1, output: 0.4 },
+  'gpt-4o': { input: 2.5, output: 10 },
+  'gpt-4o-mini': { input: 0.15, output: 0.6 },
+  'o3': { input: 2, output: 8 },
+  'o3-mini': { input: 1.1, output: 4.4 },
+  'o4-mini': { input: 1.1, output: 4.4 },
+  // Google
+  'gemini-3-pro-preview': { input: 2, output: 12 },
+  'gemini-3-flash-preview': { input: 0.5, output: 3 },
+  'gemini-2.5-pro': { input: 1.25, output: 10 },
+  'gemini-2.5-flash': { input: 0.3, output: 2.5 },
+  'gemini-2.0-flash': { input: 0.1, output: 0.4 },
+  'gemini-pro-1.5': { input: 1.25, output: 5 },
+  // Open-weight models, at OpenRouter's rates
+  'llama-3.1-405b-instruct': { input: 3, output: 3 },
+  'llama-3.1-70b-instruct': { input: 0.4, output: 0.4 },
+  'mistral-large': { input: 2, output: 6 },
+  'deepseek-chat': { input: 0.27, output: 1.1 },
+  'qwen-2.5-72b-instruct': { input: 0.35, output: 0.4 },
+};
+
+/** For self-hosted models, which cost nothing per token. */
+export const FREE: ModelPrice = { input: 0, output: 0 };
+
+/** The listed price for `model`, or null when it isn't in the table. */
+export function priceOf(model: string): ModelPrice | null {
+  const id = model.toLowerCase().slice(model.lastIndexOf('/') + 1);
+  if (MODEL_PRICES[id]) return MODEL_PRICES[id];
+  const prefix = Object.keys(MODEL_PRICES)
+    .filter(key => id.startsWith(`${key}-`))
+    .reduce<string | null>((best, key) => (best === null || key.length > best.length ? key : best), null);
+  return prefix ? MODEL_PRICES[prefix] : null;
+}
+
+export function estimateCost(price: ModelPrice, inputTokens: number, outputTokens: number): number {
+  return (inputTokens * price.input + outputTokens * price.output) / 1_000_000;
+}
@@ -6,12 +6,24 @@ on Team ${team}. Your partner is Player ${partnerSeat}.
 
 RULES SUMMARY:
 - 13 cards per player, spades are trump
+- The observation's "variant" sets the deck and trump order (highest first):
+  standard: A♠ K♠ … 2♠
+  jja:      BigJoker LittleJoker A♠ K♠ … 2♠ (2♥, 2♦ removed)
+  jjdd:     BigJoker LittleJoker 2♦ 2♠ A♠ K♠ … 3♠ (2♥, 2♣ removed)
+  Jokers — and the 2♦ in jjdd — count as spades for following and leading
 - You must follow the led suit if able
 - Spades cannot be led until broken (or you have only spades)
 - Bid the number of tricks you expect to win (0 = Nil)
-- Score: making bid = bid×10 + overtricks; failing = -bid×10
-- Every 10 cumulative overtricks (bags) = -100 penalty
-- Nil = +100 if successful, -100 if failed
+- Only bid a value listed in bidding_context.legal_bids — house rules may
+  require your team's two bids to add up to a minimum
+- Score: making bid = bid×10, each overtrick is a bag; failing = -bid×10
+- Every 10 cumulative bags = -100 penalty
+- Nil = +100 if successful, -100 if failed; a failed Nil's tricks are bags
+- Blind bids: when your team trails badly, bidding_context.blind_bid_options is
+  present and your hand is empty (still face down). You may bid one of those
+  values blind by adding "blind": true — 0 is Blind Nil (+/-200), 6-13 score
+  20 per trick. Bid without "blind" to pass; you'll then see your cards and
+  be asked to bid again.
 - First team to 500 wins
 
 RESPONSE FORMAT:
@@ -21,6 +33,7 @@ For BIDDING:
 {
   "action": "bid",
   "value": <integer 0-13>,
+  "blind": <true only for a blind bid; omit otherwise>,
   "reasoning": "<your private reasoning - not shared with other players>"
 }
 
@@ -31,7 +44,8 @@ For PLAYING:
   "reasoning": "<your private reasoning - not shared with other players>"
 }
 
-Card notation: A=Ace, K=King, Q=Queen, J=Jack, 10-2 for number cards
+Card notation: A=Ace, K=King, Q=Queen, J=Jack, 10-2 for number cards;
+jokers are "BigJoker" and "LittleJoker"
 Suit notation: S=Spades, H=Hearts, D=Diamonds, C=Clubs
 
 IMPORTANT:
@@ -9,8 +9,11 @@ export class RandomAgent implements Agent {
   }
 
   async bid(observation: Observation): Promise<BidAction> {
-    // Bids uniformly random 1-5
-    const value = Math.floor(Math.random() * 5) + 1;
+    // Bids uniformly random 1-5 (among legal bids, if the team minimum rules some out)
+    const legalBids = observation.bidding_context?.legal_bids || [1, 2, 3, 4, 5];
+    const choices = legalBids.filter(v => v >= 1 && v <= 5);
+    const pool = choices.length > 0 ? choices : legalBids;
+    const value = pool[Math.floor(Math.random() * pool.length)];
     return {
       action: 'bid',
       value,
@@ -0,0 +1,491 @@
+/**
+ * StrongHeuristicAgent — the second-generation rule-based bot, and the
+ * arena's non-LLM baseline. Where HeuristicAgent looks only at its own hand,
+ * this one reads the hand so far from `trick_history`:
+ *
+ *   - counts cards: what is still out, which of its cards are masters
+ *     (above every unseen card of their suit), and how many trumps remain;
+ *   - infers voids from seats that failed to follow suit, so it knows who
+ *     can ruff;
+ *   - bids with partner's and the table's bids in view, and bids Nil on
+ *     hands with nothing likely to be forced to win;
+ *   - covers a Nil-bidding partner — overtaking them, or playing high ahead
+ *     of them — at the cost of its own bags;
+ *   - tries to set opponents: a Nil first, then a contract while setting it
+ *     is still cheap;
+ *   - ducks once its contract is made, and always near the bag penalty.
+ *
+ * It sees only its Observation, which doesn't carry house rules, so it plays
+ * to the default scoring policy.
+ */
+
+import { Agent } from './base';
+import { Card, Observation, BidAction, PlayAction, Suit } from '../engine/types';
+import { createDeck, getCardValue, parseCard } from '../engine/deck';
+import { determineTrickWinner } from '../engine/rules';
+import { VariantId, effectiveSuit } from '../engine/variant';
+import { DEFAULT_SCORING_POLICY } from '../engine/houseRules';
+
+type PlainSuit = Exclude<Suit, 'J'>;
+
+const SIDE_SUITS: PlainSuit[] = ['H', 'D', 'C'];
+const BAG_PENALTY_AT = DEFAULT_SCORING_POLICY.bagPenaltyThreshold;
+const BAG_MARGIN = 3; // this close to the penalty, stop taking overtricks
+
+const value = (card: Card, variant: VariantId) => getCardValue(card.rank, card.suit, variant);
+
+/** A hand's cards by the suit they play as, highest first. */
+function bySuit(hand: Card[], variant: VariantId): Record<PlainSuit, Card[]> {
+  const suits: Record<PlainSuit, Card[]> = { S: [], H: [], D: [], C: [] };
+  hand.forEach(c => suits[effectiveSuit(c, variant)].push(c));
+  Object.values(suits).forEach(cards => cards.sort((a, b) => value(b, variant) - value(a, variant)));
+  return suits;
+}
+
+/** Expected tricks: side-suit honours, trumps by rank and length, and ruffs in short suits. */
+function estimateTricks(hand: Card[], variant: VariantId): number {
+  const suits = bySuit(hand, variant);
+  let tricks = 0;
+
+  for (const suit of SIDE_SUITS) {
+    const ranks = suits[suit].map(c => c.rank);
+    const length = ranks.length;
+    const ace = ranks.includes('A');
+    const king = ranks.includes('K');
+    if (ace) tricks += length >= 6 ? 0.7 : 1; // a long suit meets a ruff sooner
+    if (king) tricks += ace ? 0.9 : length >= 2 ? 0.6 : 0.2;
+    if (ranks.includes('Q') && length >= 3) tricks += ace || king ? 0.4 : 0.25;
+  }
+
+  // A trump that k higher trumps can beat wins if k lower ones guard it;
+  // from the fourth trump on, length wins tricks as well
+  const trumps = suits.S;
+  const held = new Set(trumps.map(c => c.id));
+  const allTrumps = createDeck(variant).filter(c => effectiveSuit(c, variant) === 'S');
+  let trumpTricks = 0;
+  trumps.forEach((card, i) => {
+    const above = allTrumps.filter(c => !held.has(c.id) && value(c, variant) > value(card, variant)).length;
+    const guards = trumps.length - i - 1;
+    if (guards >= above) trumpTricks += 1;
+    else if (i >= 3) trumpTricks += 0.8;
+    else if (guards === above - 1) trumpTricks += 0.3;
+  });
+
+  // Trumps not already counted can ruff a void or singleton
+  let spare = trumps.length - Math.ceil(trumpTricks);
+  for (const suit of SIDE_SUITS) {
+    const ruffs = Math.min(Math.max(spare, 0), Math.max(0, 2 - suits[suit].length));
+    tricks += ruffs * 0.7;
+    spare -= ruffs;
+  }
+
+  return tricks + trumpTricks;
+}
+
+/** No card likely to be forced to win: few, low trumps, no side aces, and low cards to duck with. */
+function nilSafe(hand: Card[], variant: VariantId): boolean {
+  const suits = bySuit(hand, variant);
+  if (suits.S.length > 3 || suits.S.some(c => value(c, variant) >= 11)) return false;
+  return SIDE_SUITS.every(suit => {
+    const cards = suits[suit];
+    if (cards.length === 0) return true;
+    if (cards[0].rank === 'A') return false;
+    const low = cards.filter(c => value(c, variant) <= 6).length;
+    return value(cards[0], variant) <= 9 || low >= 2;
+  });
+}
+
+/** What the hand so far gives away: the cards still unseen, and who has shown out of what. */
+class CardCount {
+  readonly variant: VariantId;
+  readonly unseen: Card[];
+  private voids: Set<PlainSuit>[] = [0, 1, 2, 3].map(() => new Set<PlainSuit>());
+
+  constructor(observation: Observation, hand: Card[]) {
+    this.variant = observation.variant;
+    const ctx = observation.playing_context;
+    const seen = new Set(hand.map(c => c.id));
+    const tricks = [...(ctx?.trick_history ?? []).map(t => t.plays), ctx?.current_trick ?? []];
+    for (const plays of tricks) {
+      if (plays.length === 0) continue;
+      const led = this.suitOf(parseCard(plays[0].card)!);
+      for (const play of plays) {
+        const card = parseCard(play.card)!;
+        seen.add(card.id);
+        if (this.suitOf(card) !== led) this.voids[play.seat].add(led);
+      }
+    }
+    this.unseen = createDeck(this.variant).filter(c => !seen.has(c.id));
+  }
+
+  suitOf(card: Card): PlainSuit {
+    return effectiveSuit(card, this.variant);
+  }
+
+  isVoid(seat: number, suit: PlainSuit): boolean {
+    return this.voids[seat].has(suit);
+  }
+
+  /** Unseen cards of `suit`, held somewhere by the other three seats. */
+  outstanding(suit: PlainSuit): Card[] {
+    return this.unseen.filter(c => this.suitOf(c) === suit);
+  }
+
+  /** Ranks above every unseen card of its suit. */
+  isMaster(card: Card): boolean {
+    return this.outstanding(this.suitOf(card)).every(c => value(c, this.variant) < value(card, this.variant));
+  }
+
+  /** Unseen cards of `card`'s suit that rank below it. */
+  below(card: Card): number {
+    return this.outstanding(this.suitOf(card)).filter(c => value(c, this.variant) < value(card, this.variant)).length;
+  }
+
+  /** `seat` has shown out of `suit` and may still hold a trump. */
+  mayRuff(seat: number, suit: PlainSuit): boolean {
+    return suit !== 'S' && this.isVoid(seat, suit) && !this.isVoid(seat, 'S') && this.outstanding('S').length > 0;
+  }
+}
+
+/** Where the bids stand, from the seat's side of the table. */
+interface Contracts {
+  nil: boolean;            // this seat bid Nil and hasn't taken a trick
+  partnerNil: boolean;     // likewise its partner
+  opponentNils: number[];  // opponents whose Nil is still intact
+  need: number;            // tricks the team still needs for its contract
+  opponentsNeed: number;
+  tricksLeft: number;      // this one included
+  bagRoom: number;         // overtricks the team can take before the bag penalty
+}
+
+function readContracts(observation: Observation): Contracts {
+  const ctx = observation.playing_context!;
+  const { seat, partner_seat: partner } = observation;
+  const opponents = [(seat + 1) % 4, (seat + 3) % 4];
+  const bidOf = (s: number) => ctx.individual_bids[s]?.bid ?? 0;
+  const won = ctx.individual_tricks_won;
+  const nilIntact = (s: number) => bidOf(s) === 0 && won[s] === 0;
+
+  // Regular bidders' tricks count toward the contract; a Nil bidder's are bags
+  const contract = (seats: number[]) => {
+    const bidders = seats.filter(s => bidOf(s) > 0);
+    const bid = bidders.reduce((sum, s) => sum + bidOf(s), 0);
+    const tricks = bidders.reduce((sum, s) => sum + won[s], 0);
+    const nilTricks = seats.filter(s => bidOf(s) === 0).reduce((sum, s) => sum + won[s], 0);
+    return { need: Math.max(0, bid - tricks), bags: Math.max(0, tricks - bid) + nilTricks };
+  };
+  const ours = contract([seat, partner]);
+  const theirs = contract(opponents);
+  const teamBags = seat % 2 === 0 ? observation.score.team1.bags : observation.score.team2.bags;
+
+  return {
+    nil: nilIntact(seat),
+    partnerNil: nilIntact(partner),
+    opponentNils: opponents.filter(nilIntact),
+    need: ours.need,
+    opponentsNeed: theirs.need,
+    tricksLeft: 13 - ctx.trick_history.length,
+    bagRoom: BAG_PENALTY_AT - teamBags - ours.bags,
+  };
+}
+
+/** One play decision: the trick in progress, the legal cards, and the count. */
+class Table {
+  readonly me: number;
+  readonly partner: number;
+  readonly hand: Card[];
+  readonly legal: Card[];
+  readonly trick: { seat: number; card: Card }[];
+  readonly led: PlainSuit | null;
+  readonly count: CardCount;
+  readonly contracts: Contracts;
+
+  constructor(observation: Observation) {
+    const ctx = observation.playing_context!;
+    this.me = observation.seat;
+    this.partner = observation.partner_seat;
+    this.hand = observation.hand.map(id => parseCard(id)!);
+    this.legal = ctx.legal_plays.map(id => parseCard(id)!);
+    this.trick = ctx.current_trick.map(p => ({ seat: p.seat, card: parseCard(p.card)! }));
+    this.count = new CardCount(observation, this.hand);
+    this.led = this.trick.length > 0 ? this.count.suitOf(this.trick[0].card) : null;
+    this.contracts = readContracts(observation);
+  }
+
+  /** Seats still to play to this trick after this one. */
+  get behind(): number[] {
+    return [1, 2, 3].slice(0, 3 - this.trick.length).map(i => (this.me + i) % 4);
+  }
+
+  get opponentsBehind(): number[] {
+    return this.behind.filter(s => s % 2 !== this.me % 2);
+  }
+
+  /** Seat currently taking the trick; null when leading. */
+  get winner(): number | null {
+    return this.led ? determineTrickWinner(this.trick, this.led, this.count.variant) : null;
+  }
+
+  suitOf(card: Card): PlainSuit {
+    return this.count.suitOf(card);
+  }
+
+  /** `card` would take the trick as it stands. */
+  wins(card: Card): boolean {
+    if (!this.led) return true;
+    return determineTrickWinner([...this.trick, { seat: this.me, card }], this.led, this.count.variant) === this.me;
+  }
+
+  /** No opponent still to play can beat `card`, as far as the count shows. */
+  stands(card: Card): boolean {
+    const threats = this.opponentsBehind;
+    if (threats.length === 0) return true;
+    const suit = this.suitOf(card);
+    const led = this.led ?? suit;
+    if (this.count.isMaster(card)) return suit === 'S' || threats.every(s => !this.count.mayRuff(s, suit));
+    // A ruff stands against opponents who still have to follow suit
+    return suit === 'S' && led !== 'S' && threats.every(s => !this.count.mayRuff(s, led));
+  }
+
+  holds(card: Card): boolean {
+    return this.wins(card) && this.stands(card);
+  }
+
+  lowest(cards: Card[]): Card {
+    return cards.reduce((a, b) => (value(b, this.count.variant) < value(a, this.count.variant) ? b : a));
+  }
+
+  highest(cards: Card[]): Card {
+    return cards.reduce((a, b) => (value(b, this.count.variant) > value(a, this.count.variant) ? b : a));
+  }
+
+  length(suit: PlainSuit): number {
+    return this.hand.filter(c => this.suitOf(c) === suit).length;
+  }
+
+  /** The card least likely to win a trick it leads: fewest unseen cards below it. */
+  safestLead(): Card {
+    return this.legal.reduce((a, b) => {
+      const [ba, bb] = [this.count.below(a), this.count.below(b)];
+      return bb < ba || (bb === ba && value(b, this.count.variant) < value(a, this.count.variant)) ? b : a;
+    });
+  }
+
+  /**
+   * A cheap card for a trick we aren't taking: the lowest of the led suit,
+   * else an off-suit card from the shortest side suit (working toward a
+   * void), keeping masters and trumps while there is anything else.
+   */
+  throwAway(): Card {
+    const following = this.legal.filter(c => this.suitOf(c) === this.led);
+    if (following.length > 0) return this.lowest(following);
+    const side = this.legal.filter(c => this.suitOf(c) !== 'S');
+    if (side.length === 0) return this.lowest(this.legal);
+    const spare = side.filter(c => !this.count.isMaster(c));
+    const pool = spare.length > 0 ? spare : side;
+    const shortest = Math.min(...pool.map(c => this.length(this.suitOf(c))));
+    return this.lowest(pool.filter(c => this.length(this.suitOf(c)) === shortest));
+  }
+}
+
+interface Choice {
+  card: Card;
+  reasoning: string;
+}
+
+export class StrongHeuristicAgent implements Agent {
+  name: string;
+
+  constructor(name: string = 'StrongHeuristicBot') {
+    this.name = name;
+  }
+
+  async bid(observation: Observation): Promise<BidAction> {
+    const legalBids = observation.bidding_context?.legal_bids || [];
+    const bids = observation.bidding_context?.bids_so_far || [];
+
+    if (observation.hand.length === 0) {
+      // Offered a blind bid: pass, and bid once the hand is turned up
+      return { action: 'bid', value: legalBids.find(v => v > 0) ?? 1, reasoning: 'Declining to bid blind.' };
+    }
+
+    const variant = observation.variant;
+    const hand = observation.hand.map(id => parseCard(id)!);
+    const estimate = estimateTricks(hand, variant);
+    const partnerBid = bids.find(b => b.seat === observation.partner_seat)?.bid;
+    const teamBags = observation.seat % 2 === 0 ? observation.score.team1.bags : observation.score.team2.bags;
+
+    // Nil only with a partner who isn't Nil too and, if known, can cover
+    if (legalBids.includes(0) && estimate < 1.5 && (partnerBid === undefined || partnerBid >= 3) && nilSafe(hand, variant)) {
+      return { action: 'bid', value: 0, reasoning: `Nil: ${estimate.toFixed(1)} expected tricks and nothing likely to be forced to win.` };
+    }
+
+    let bid = Math.round(estimate);
+    const notes: string[] = [];
+    if (teamBags >= BAG_PENALTY_AT - BAG_MARGIN && bid < Math.ceil(estimate)) {
+      // Better to bid a trick we may not take than to bag it
+      bid = Math.ceil(estimate);
+      notes.push(`rounded up with ${teamBags} bags`);
+    }
+    const table = bids.reduce((sum, b) => sum + b.bid, 0);
+    if (bids.length === 3 && table + bid > 13 && bid > Math.floor(estimate)) {
+      // Someone is already set; don't push the table further over
+      bid = Math.floor(estimate);
+      notes.push(`rounded down with ${table} bid`);
+    }
+    bid = Math.max(1, bid);
+
+    // Respect the team minimum: nearest legal bid at or above the estimate
+    if (legalBids.length > 0 && !legalBids.includes(bid)) {
+      bid = legalBids.filter(v => v > bid).sort((a, b) => a - b)[0] ?? legalBids[0];
+      notes.push('raised to a legal bid');
+    }
+
+    const partner = partnerBid === undefined ? '' : partnerBid === 0 ? '; partner is Nil' : `; partner bid ${partnerBid}`;
+    const adjusted = notes.length > 0 ? ` (${notes.join(', ')})` : '';
+    return {
+      action: 'bid',
+      value: bid,
+      reasoning: `Counted ${estimate.toFixed(1)} expected tricks${partner}${adjusted}.`,
+    };
+  }
+
+  async play(observation: Observation): Promise<PlayAction> {
+    if ((observation.playing_context?.legal_plays || []).length === 0) {
+      throw new Error('No legal plays available');
+    }
+    const table = new Table(observation);
+    const { card, reasoning } = this.choose(table);
+    return { action: 'play', card: card.id, reasoning };
+  }
+
+  reset(): void {
+    // No state to reset: everything is read from the observation
+  }
+
+  private choose(t: Table): Choice {
+    const c = t.contracts;
+    if (c.nil) return this.playNil(t);
+
+    if (c.partnerNil) {
+      const cover = this.cover(t);
+      if (cover) return cover;
+    }
+
+    const target = c.opponentNils.find(s => s === t.winner || t.behind.includes(s));
+    if (target !== undefined) return this.setNil(t, target);
+
+    if (c.need > 0) return this.take(t, `${c.need} more for our contract`);
+    if (c.bagRoom <= BAG_MARGIN) return this.duck(t, `contract made, ${BAG_PENALTY_AT - c.bagRoom} bags toward the penalty`);
+    // Setting them costs a bag per trick; worth it while the bags stay clear of the penalty
+    const toSet = c.tricksLeft - c.opponentsNeed + 1;
+    if (c.opponentsNeed > 0 && toSet > 0 && toSet < c.bagRoom - BAG_MARGIN) {
+      return this.take(t, `setting them: ${toSet} more tricks to stop their ${c.opponentsNeed}`);
+    }
+    return this.duck(t, 'contract made, avoiding bags');
+  }
+
+  /** Our own Nil: stay under the winning card, shedding the highest card that can. */
+  private playNil(t: Table): Choice {
+    if (!t.led) return { card: t.safestLead(), reasoning: 'Nil: leading the card least likely to win.' };
+    const losers = t.legal.filter(c => !t.wins(c));
+    if (losers.length > 0) return { card: t.highest(losers), reasoning: 'Nil: ducking under the winning card with my highest safe card.' };
+    // Everything wins: go low if someone may still overtake, else burn the highest
+    return t.behind.length > 0
+      ? { card: t.lowest(t.legal), reasoning: 'Nil: every card wins for now; playing lowest and hoping to be overtaken.' }
+      : { card: t.highest(t.legal), reasoning: 'Nil is lost on this trick; discarding my highest card.' };
+  }
+
+  /**
+   * Partner's Nil: lead high, play high ahead of partner, overtake partner
+   * when they're winning. Null when partner is already safe on this trick.
+   */
+  private cover(t: Table): Choice | null {
+    if (!t.led) {
+      const winners = t.legal.filter(c => t.holds(c));
+      if (winners.length > 0) return { card: t.highest(winners), reasoning: "Covering partner's Nil: cashing a winner." };
+      const side = t.legal.filter(c => t.suitOf(c) !== 'S');
+      const partnerVoid = side.filter(c => t.count.isVoid(t.partner, t.suitOf(c)));
+      if (partnerVoid.length > 0) return { card: t.highest(partnerVoid), reasoning: "Covering partner's Nil: leading a suit partner can discard on." };
+      return { card: t.highest(side.length > 0 ? side : t.legal), reasoning: "Covering partner's Nil: leading high." };
+    }
+
+    const winners = t.legal.filter(c => t.wins(c));
+    if (t.winner === t.partner) {
+      if (winners.length > 0) return { card: t.lowest(winners), reasoning: "Covering partner's Nil: overtaking partner." };
+      return { card: t.throwAway(), reasoning: "Partner's Nil is winning this trick and I can't overtake." };
+    }
+    if (t.behind.includes(t.partner) && winners.length > 0) {
+      return { card: t.highest(winners), reasoning: "Covering partner's Nil: playing high ahead of partner." };
+    }
+    return null;
+  }
+
+  /** An opponent's Nil: never take a trick off them, and leave them room to go over. */
+  private setNil(t: Table, target: number): Choice {
+    if (!t.led) {
+      const open = t.legal.filter(c => t.suitOf(c) !== 'S' && !t.count.isVoid(target, t.suitOf(c)));
+      return { card: t.lowest(open.length > 0 ? open : t.legal), reasoning: `Setting seat ${target}'s Nil: leading low into a suit they hold.` };
+    }
+    if (t.winner === target) {
+      const losers = t.legal.filter(c => !t.wins(c));
+      if (losers.length > 0) return { card: t.highest(losers), reasoning: `Setting seat ${target}'s Nil: leaving them the trick.` };
+    }
+    return { card: t.throwAway(), reasoning: `Setting seat ${target}'s Nil: playing low ahead of them.` };
+  }
+
+  private take(t: Table, why: string): Choice {
+    if (!t.led) return this.leadToWin(t, why);
+
+    const winner = t.trick.find(p => p.seat === t.winner)!;
+    if (winner.seat === t.partner && t.stands(winner.card)) {
+      return { card: t.throwAway(), reasoning: `Partner has this trick; ${why}.` };
+    }
+    const winners = t.legal.filter(c => t.wins(c));
+    if (winners.length === 0) return { card: t.throwAway(), reasoning: `Can't win this trick; ${why}.` };
+
+    const safe = winners.filter(c => t.stands(c));
+    if (safe.length > 0) return { card: t.lowest(safe), reasoning: `Taking the trick as cheaply as it holds; ${why}.` };
+    if (t.trick.length === 1) return { card: t.throwAway(), reasoning: `Second hand low; ${why}.` };
+    // Third hand: make the last opponent pay, following high or ruffing low
+    const following = winners.filter(c => t.suitOf(c) === t.led);
+    return following.length > 0
+      ? { card: t.highest(following), reasoning: `Third hand high; ${why}.` }
+      : { card: t.lowest(winners), reasoning: `Ruffing low; ${why}.` };
+  }
+
+  private leadToWin(t: Table, why: string): Choice {
+    const { count } = t;
+    const opponents = [(t.me + 1) % 4, (t.me + 3) % 4];
+    const trumpsOut = count.outstanding('S').length;
+
+    // Draw trumps when holding the top one and at least as many as are out
+    const masterTrumps = t.legal.filter(c => t.suitOf(c) === 'S' && count.isMaster(c));
+    if (trumpsOut > 0 && masterTrumps.length > 0 && t.length('S') >= trumpsOut) {
+      return { card: t.highest(masterTrumps), reasoning: `Drawing trumps, ${trumpsOut} still out; ${why}.` };
+    }
+
+    const side = t.legal.filter(c => t.suitOf(c) !== 'S');
+    const cashable = side.filter(c => t.holds(c));
+    if (cashable.length > 0) return { card: t.highest(cashable), reasoning: `Cashing a master nobody can ruff; ${why}.` };
+
+    const safeSuit = (c: Card) => !opponents.some(o => count.mayRuff(o, t.suitOf(c)));
+    const forPartner = side.filter(c => safeSuit(c) && count.mayRuff(t.partner, t.suitOf(c)));
+    if (forPartner.length > 0) return { card: t.lowest(forPartner), reasoning: `Leading into partner's void for a ruff; ${why}.` };
+
+    // Otherwise lead low from the longest side suit the opponents can't ruff
+    const open = side.filter(safeSuit);
+    const pool = open.length > 0 ? open : side.length > 0 ? side : t.legal;
+    const longest = Math.max(...pool.map(c => t.length(t.suitOf(c))));
+    return { card: t.lowest(pool.filter(c => t.length(t.suitOf(c)) === longest)), reasoning: `Leading low from my longest suit; ${why}.` };
+  }
+
+  private duck(t: Table, why: string): Choice {
+    if (!t.led) return { card: t.safestLead(), reasoning: `Giving up the lead; ${why}.` };
+    const losers = t.legal.filter(c => !t.wins(c));
+    if (losers.length > 0) return { card: t.highest(losers), reasoning: `Ducking with my highest losing card; ${why}.` };
+    return t.opponentsBehind.length > 0
+      ? { card: t.lowest(t.legal), reasoning: `Playing low and hoping to be overtaken; ${why}.` }
+      : { card: t.highest(t.legal), reasoning: `Forced to win; spending my highest card; ${why}.` };
+  }
+}
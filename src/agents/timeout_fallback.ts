@@ -0,0 +1,37 @@
+/**
+ * Timeout fallbacks — the action a seat takes when it runs out of time
+ * (see engine/timeControl.ts), by the table's TimeoutPolicy. Always legal,
+ * and marked `fallback` like any substituted action.
+ */
+
+import { Observation, BidAction, PlayAction } from '../engine/types';
+import { TimeoutPolicy } from '../engine/timeControl';
+import { RandomAgent } from './random_agent';
+import { HeuristicAgent } from './heuristic_agent';
+
+const random = new RandomAgent();
+const heuristic = new HeuristicAgent();
+
+function timedOutReasoning(policy: TimeoutPolicy, limitMs: number): string {
+  const why = limitMs > 0 ? `Timed out after ${(limitMs / 1000).toFixed(1)}s` : 'Out of time on the game clock';
+  return `${why} (${policy} fallback)`;
+}
+
+export async function timeoutBid(policy: TimeoutPolicy, observation: Observation, limitMs: number): Promise<BidAction> {
+  const reasoning = timedOutReasoning(policy, limitMs);
+  if (policy === 'forfeit') {
+    return { action: 'bid', value: observation.bidding_context?.legal_bids[0] ?? 1, reasoning, fallback: true };
+  }
+  const { value } = await (policy === 'random' ? random : heuristic).bid(observation);
+  return { action: 'bid', value, reasoning, fallback: true };
+}
+
+/** Under 'forfeit' the card is the first legal one; the caller concedes the trick (ActionMeta.forfeit). */
+export async function timeoutPlay(policy: TimeoutPolicy, observation: Observation, limitMs: number): Promise<PlayAction> {
+  const reasoning = timedOutReasoning(policy, limitMs);
+  if (policy === 'forfeit') {
+    return { action: 'play', card: observation.playing_context?.legal_plays[0] ?? '', reasoning, fallback: true };
+  }
+  const { card } = await (policy === 'random' ? random : heuristic).play(observation);
+  return { action: 'play', card, reasoning, fallback: true };
+}
@@ -0,0 +1,83 @@
+import { Agent } from '../agents/base';
+import { RandomAgent } from '../agents/random_agent';
+import { HeuristicAgent } from '../agents/heuristic_agent';
+import { StrongHeuristicAgent } from '../agents/strong_heuristic_agent';
+import { LLMAgent } from '../agents/llm_agent';
+import { OpenRouterAgent } from '../agents/openrouter_agent';
+import { AnthropicAgent } from '../agents/anthropic_agent';
+import { OpenAIAgent } from '../agents/openai_agent';
+import { LocalAgent, DEFAULT_LOCAL_URL } from '../agents/local_agent';
+import { AgentConfig, BenchmarkConfig } from './config';
+
+/** LLM provider keys, by provider. A local endpoint needs none. */
+export interface ApiKeys {
+  anthropic?: string;
+  openai?: string;
+  openrouter?: string;
+  local?: string;
+}
+
+/**
+ * Keys from the environment — the CLI's default. The UI passes its own,
+ * read as literal `process.env.X` the way Vite's define replaces them.
+ */
+export function envApiKeys(): ApiKeys {
+  return {
+    anthropic: process.env.ANTHROPIC_API_KEY,
+    openai: process.env.OPENAI_API_KEY,
+    openrouter: process.env.OPENROUTER_API_KEY,
+    local: process.env.LOCAL_LLM_API_KEY,
+  };
+}
+
+/**
+ * Build an agent from its benchmark config. A missing key is an error
+ * here rather than a silent downgrade to Random, so a benchmark never
+ * reports numbers for a model it didn't actually call.
+ */
+export function createAgent(config: AgentConfig, name: string, keys: ApiKeys = envApiKeys()): Agent {
+  switch (config.type) {
+    case 'random': return new RandomAgent(name);
+    case 'heuristic': return new HeuristicAgent(name);
+    case 'strong-heuristic': return new StrongHeuristicAgent(name);
+    case 'llm': {
+      const retries = config.max_retries ?? 3;
+      switch (config.provider ?? 'gemini') {
+        case 'gemini':
+          return new LLMAgent(name, config.model, config.temperature, retries);
+        case 'anthropic':
+          return new AnthropicAgent(name, requireKey(keys.anthropic, 'ANTHROPIC_API_KEY'), config.model, retries);
+        case 'openai':
+          return new OpenAIAgent(name, requireKey(keys.openai, 'OPENAI_API_KEY'), config.model, retries);
+        case 'openrouter':
+          return new OpenRouterAgent(name, requireKey(keys.openrouter, 'OPENROUTER_API_KEY'), config.model, retries);
+        case 'local':
+          if (!config.model) throw new Error(`Local agent at ${config.base_url ?? DEFAULT_LOCAL_URL} needs a model (see GET /v1/models)`);
+          return new LocalAgent(name, config.base_url ?? DEFAULT_LOCAL_URL, config.model, retries, keys.local);
+      }
+    }
+  }
+  throw new Error(`Unknown agent config: ${JSON.stringify(config)}`);
+}
+
+/** Agent configs indexed by seat (0..3) in the config's own frame. */
+export function seatConfigs(config: BenchmarkConfig): AgentConfig[] {
+  return [
+    config.agents.team1.player0,
+    config.agents.team2.player1,
+    config.agents.team1.player2,
+    config.agents.team2.player3,
+  ];
+}
+
+/** Short human label for an agent config, e.g. `heuristic` or `anthropic:claude-opus-4-7`. */
+export function describeAgent(config: AgentConfig): string {
+  if (config.type !== 'llm') return config.type;
+  const provider = config.provider ?? 'gemini';
+  return config.model ? `${provider}:${config.model}` : provider;
+}
+
+function requireKey(key: string | undefined, envVar: string): string {
+  if (!key) throw new Error(`${envVar} is not set (add it to .env.local)`);
+  return key;
+}
@@ -0,0 +1,136 @@
+/**
+ * Headless benchmark CLI.
+ *
+ * Usage:
+ *   npm run bench                      # defaultConfig
+ *   npm run bench -- config.json       # partial config, merged over defaultConfig
+ *
+ * With `benchmark.duplicate`, num_games counts tables: 20 games = 10 boards.
+ * With `benchmark.budget_usd`, the run ends early rather than let estimated
+ * LLM spend pass the cap (see runner.ts).
+ *
+ * Writes to `benchmark.log_directory`:
+ *   games.jsonl     one GameLog (plus seed/rotation/decisions) per line
+ *   metrics.json    resolved config + MetricsCalculator output
+ *   games.csv       one row per game, when metrics.export_format is 'csv'
+ *   bundle.json     the games as arena results tagged 'benchmark', for the
+ *                   Dashboard's Import or `npm run arena -- import`
+ *
+ * LLM keys are read from .env.local, same as the stream orchestrator.
+ */
+
+import { config as loadEnv } from 'dotenv';
+import { mkdirSync, readFileSync, writeFileSync } from 'fs';
+import { join, resolve } from 'path';
+import { houseRulesOf, resolveConfig } from './config';
+import { describeAgent, seatConfigs } from './agents';
+import { MetricsCalculator, usageByModel } from './metrics';
+import { runBenchmark, BenchmarkGame } from './runner';
+import { BenchmarkConfig } from './config';
+import { GameResult } from '../engine/resultsStore';
+import { createBundle } from '../engine/bundle';
+import { formatCost } from '../engine/usage';
+
+loadEnv({ path: resolve(process.cwd(), '.env.local') });
+
+async function main() {
+  const configPath = process.argv[2];
+  const config = resolveConfig(configPath ? JSON.parse(readFileSync(configPath, 'utf8')) : {});
+  const outDir = resolve(process.cwd(), config.benchmark.log_directory);
+  mkdirSync(outDir, { recursive: true });
+
+  const seats = seatConfigs(config).map(describeAgent);
+  console.log(`[bench] ${config.benchmark.num_games} games, ${config.benchmark.parallel_games} in parallel`);
+  console.log(`[bench] team1: ${seats[0]} + ${seats[2]}  vs  team2: ${seats[1]} + ${seats[3]}`);
+
+  const started = Date.now();
+  const games = await runBenchmark(config, {
+    onGameComplete: (game, completed, total) => {
+      const { team1, team2 } = game.log.score;
+      console.log(`[bench] ${completed}/${total}  game ${game.index}  ${game.log.winner} wins ${team1} to ${team2}  (rotation ${game.rotation}, seed ${game.seed})`);
+    },
+    onBudgetReached: (spentUsd, completed) => {
+      console.log(`[bench] budget $${config.benchmark.budget_usd} reached: stopped after ${completed} games, $${spentUsd.toFixed(4)} spent`);
+    },
+  });
+
+  writeFileSync(join(outDir, 'games.jsonl'), games.map(g => JSON.stringify({ ...g.log, index: g.index, rotation: g.rotation, errors: g.errors, decisions: g.decisions })).join('\n') + '\n');
+
+  const calculator = new MetricsCalculator(games.map(g => g.log), houseRulesOf(config));
+  const totalDecisions = games.reduce((sum, g) => sum + g.log.hands.length * 56, 0); // 4 bids + 52 plays per hand
+  const totalErrors = games.reduce((sum, g) => sum + g.errors, 0);
+  const usage = usageByModel(games.flatMap(g => g.log.hands), seats); // hands are in the config frame
+  const metrics = {
+    config,
+    seats,
+    games: games.length,
+    durationMs: Date.now() - started,
+    primary: calculator.calculatePrimaryMetrics(),
+    advanced: {
+      ...calculator.calculateAdvancedMetrics(),
+      errorRate: totalDecisions > 0 ? totalErrors / totalDecisions : 0,
+    },
+    ...(config.benchmark.duplicate ? { duplicate: calculator.calculateDuplicateMetrics() } : {}),
+    models: calculator.calculateModelMetrics(),
+    seatMetrics: calculator.calculateSeatMetrics(),
+    ...(usage ? { usage } : {}),
+  };
+  writeFileSync(join(outDir, 'metrics.json'), JSON.stringify(metrics, null, 2) + '\n');
+
+  if (config.metrics.export_format === 'csv') {
+    writeFileSync(join(outDir, 'games.csv'), toCsv(games));
+  }
+  const runId = new Date(started).toISOString();
+  const bundle = createBundle(games.map(g => toGameResult(g, config, seats, runId)), []);
+  writeFileSync(join(outDir, 'bundle.json'), JSON.stringify(bundle, null, 2) + '\n');
+
+  console.log(`[bench] team1 win rate ${(metrics.primary.winRateTeam1 * 100).toFixed(1)}%, avg margin ${metrics.primary.avgScoreMargin.toFixed(1)}`);
+  if (metrics.duplicate) {
+    const d = metrics.duplicate;
+    console.log(`[bench] duplicate: ${d.boards} boards, team1 ${d.duplicateScoreTeam1 >= 0 ? '+' : ''}${d.duplicateScoreTeam1.toFixed(1)} pts/board, board win rate ${(d.boardWinRateTeam1 * 100).toFixed(1)}%`);
+  }
+  for (const [model, u] of Object.entries(usage ?? {})) {
+    console.log(`[bench] ${model}: ${u.calls} calls, ${u.inputTokens} in / ${u.outputTokens} out tokens, ${formatCost(u)}`);
+  }
+  console.log(`[bench] wrote ${outDir}`);
+}
+
+/**
+ * A game as an arena result. Ids derive from the run's start time, so
+ * importing the same bundle twice adds nothing.
+ */
+function toGameResult(g: BenchmarkGame, config: BenchmarkConfig, seats: string[], runId: string): GameResult {
+  const usage = usageByModel(g.log.hands, seats);
+  return {
+    id: `bench-${runId}-${g.index}`,
+    date: runId,
+    team1Models: [seats[0], seats[2]],
+    team2Models: [seats[1], seats[3]],
+    team1Score: g.log.score.team1,
+    team2Score: g.log.score.team2,
+    team1Bags: g.log.bags?.team1 ?? 0,
+    team2Bags: g.log.bags?.team2 ?? 0,
+    winner: g.log.winner === 'team1' ? 1 : 2,
+    targetScore: config.game.target_score,
+    handsPlayed: g.log.hands.length,
+    seed: g.seed,
+    ...(g.log.duplicate ? { duplicate: { id: `bench-${runId}-board-${g.log.duplicate.board}`, table: g.log.duplicate.table } } : {}),
+    hands: g.log.hands,
+    source: 'benchmark',
+    ...(usage ? { usage } : {}),
+    houseRules: houseRulesOf(config),
+  };
+}
+
+function toCsv(games: BenchmarkGame[]): string {
+  const header = 'index,seed,rotation,board,table,winner,team1_score,team2_score,hands,errors';
+  const rows = games.map(g => [
+    g.index, g.seed, g.rotation, g.log.duplicate?.board ?? '', g.log.duplicate?.table ?? '', g.log.winner, g.log.score.team1, g.log.score.team2, g.log.hands.length, g.errors,
+  ].join(','));
+  return [header, ...rows].join('\n') + '\n';
+}
+
+main().catch(err => {
+  console.error(`[bench] ${err instanceof Error ? err.message : err}`);
+  process.exit(1);
+});
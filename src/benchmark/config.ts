@@ -1,8 +1,20 @@
+import { VariantId } from '../engine/variant';
+import { HouseRules, SpadesLeadPolicy, resolveHouseRules } from '../engine/houseRules';
+import { DEFAULT_TIME_CONTROL, TimeControl, TimeoutPolicy } from '../engine/timeControl';
+
 export interface BenchmarkConfig {
   game: {
+    variant: VariantId;
     target_score: number;
     enable_blind_nil: boolean;
     blind_nil_threshold: number;
+    // House rules; omit any to use the variant's default (see engine/houseRules.ts)
+    spades_lead_policy?: SpadesLeadPolicy;
+    minimum_team_bid?: number;
+    failed_nil_counts_toward_contract?: boolean;
+    set_tricks_as_bags?: boolean;
+    bag_penalty_threshold?: number;
+    bag_penalty_amount?: number;
   };
   agents: {
     team1: {
@@ -21,6 +33,12 @@ export interface BenchmarkConfig {
     log_reasoning: boolean;
     log_directory: string;
     parallel_games: number;
+    duplicate: boolean; // play each deal sequence twice, teams swapped between seat pairs
+    budget_usd?: number; // stop starting games once the next would push estimated LLM spend past this
+    // Time control (see engine/timeControl.ts); omit any to use DEFAULT_TIME_CONTROL's
+    decision_timeout_ms?: number;
+    clock_ms?: number; // chess clock: each seat's total thinking time per game
+    timeout_policy?: TimeoutPolicy;
   };
   metrics: {
     primary: string[];
@@ -30,14 +48,17 @@ export interface BenchmarkConfig {
 }
 
 export interface AgentConfig {
-  type: 'llm' | 'random' | 'heuristic';
+  type: 'llm' | 'random' | 'heuristic' | 'strong-heuristic';
+  provider?: 'gemini' | 'anthropic' | 'openai' | 'openrouter' | 'local'; // llm only, default 'gemini'
   model?: string;
+  base_url?: string; // 'local' only: an OpenAI-compatible endpoint, default http://localhost:11434/v1
   temperature?: number;
   max_retries?: number;
 }
 
 export const defaultConfig: BenchmarkConfig = {
   game: {
+    variant: 'standard',
     target_score: 500,
     enable_blind_nil: true,
     blind_nil_threshold: 100,
@@ -59,6 +80,7 @@ export const defaultConfig: BenchmarkConfig = {
     log_reasoning: true,
     log_directory: './logs',
     parallel_games: 1,
+    duplicate: false,
   },
   metrics: {
     primary: ['win_rate', 'avg_score_margin', 'bid_accuracy'],
@@ -66,3 +88,43 @@ export const defaultConfig: BenchmarkConfig = {
     export_format: 'csv',
   },
 };
+
+/**
+ * Fill a partial config (e.g. a user's JSON file) in from `defaultConfig`,
+ * section by section. Agent seats are replaced whole, not merged.
+ */
+export function resolveConfig(partial: DeepPartial<BenchmarkConfig>): BenchmarkConfig {
+  return {
+    game: { ...defaultConfig.game, ...partial.game },
+    agents: {
+      team1: { ...defaultConfig.agents.team1, ...partial.agents?.team1 } as BenchmarkConfig['agents']['team1'],
+      team2: { ...defaultConfig.agents.team2, ...partial.agents?.team2 } as BenchmarkConfig['agents']['team2'],
+    },
+    benchmark: { ...defaultConfig.benchmark, ...partial.benchmark },
+    metrics: { ...defaultConfig.metrics, ...partial.metrics } as BenchmarkConfig['metrics'],
+  };
+}
+
+/** The game's house rules, the variant's defaults filling in any left unset. */
+export function houseRulesOf(config: BenchmarkConfig): HouseRules {
+  const { game } = config;
+  return resolveHouseRules(game.variant, {
+    spadesLeadPolicy: game.spades_lead_policy,
+    minimumTeamBid: game.minimum_team_bid,
+    failedNilCountsTowardContract: game.failed_nil_counts_toward_contract,
+    setTricksAsBags: game.set_tricks_as_bags,
+    bagPenaltyThreshold: game.bag_penalty_threshold,
+    bagPenaltyAmount: game.bag_penalty_amount,
+  });
+}
+
+export function timeControlOf(config: BenchmarkConfig): TimeControl {
+  const { decision_timeout_ms, clock_ms, timeout_policy } = config.benchmark;
+  return {
+    decisionMs: decision_timeout_ms ?? DEFAULT_TIME_CONTROL.decisionMs,
+    clockMs: clock_ms ?? DEFAULT_TIME_CONTROL.clockMs,
+    policy: timeout_policy ?? DEFAULT_TIME_CONTROL.policy,
+  };
+}
+
+type DeepPartial<T> = { [K in keyof T]?: T[K] extends object ? DeepPartial<T[K]> : T[K] };
@@ -1,8 +1,18 @@
+import { HandResult } from '../engine/game';
+import type { GameEvent } from '../engine/events';
+import { TokenUsage, addUsage } from '../engine/usage';
+import { DEFAULT_SCORING_POLICY, ScoringPolicy } from '../engine/houseRules';
+
 export interface GameLog {
   gameId: string;
+  seed?: number;
+  duplicate?: { board: number; table: 'A' | 'B' };
   winner: 'team1' | 'team2';
   score: { team1: number; team2: number };
+  bags?: { team1: number; team2: number }; // at game end
+  players?: string[]; // model per seat, for calculateSeatMetrics/calculateModelMetrics
   hands: HandLog[];
+  policy?: ScoringPolicy; // its own scoring, where logs played by different house rules are mixed
 }
 
 export interface HandLog {
@@ -11,13 +21,103 @@ export interface HandLog {
   tricksWon: { seat: number; won: number }[];
   scoreChange: { team1: number; team2: number };
   bagsChange: { team1: number; team2: number };
+  decisions?: SeatDecisions[]; // absent on logs made before decisions were counted
+}
+
+/** One seat's bids and plays in a hand. */
+export interface SeatDecisions {
+  seat: number;
+  decisions: number;
+  fallbacks: number; // substituted actions (agent error, engine rejection or timeout)
+  timeouts?: number; // the fallbacks that were timeouts; absent on logs made before time limits
+  timed: number;     // decisions that recorded a latency
+  latencyMs: number; // total over the timed ones
+  usage?: TokenUsage; // LLM seats only
+}
+
+export interface ModelMetrics {
+  hands: number;               // seat-hands played
+  bidAccuracy: number;         // 1 - mean(|tricks won - bid| / 13) over the model's own bids
+  bidBias: number;             // mean(bid - tricks won) over non-nil bids: > 0 overbids, < 0 underbids
+  nilBids: number;
+  nilSuccessRate: number;      // share of nil bids (blind or not) that took no trick; 0 when none
+  setRate: number;             // share of hands its team was set
+  bagsPerHand: number;         // its team's bags per hand
+  bagEfficiency: number;       // 1 - bags / tricks won, for its team
+  decisions: number;           // bids and plays counted in HandLog.decisions
+  avgLatencyMs: number | null; // null when no decision was timed
+  fallbackRate: number;        // share of decisions that fell back
+  timeoutRate: number;         // share of decisions that ran out of time
+}
+
+export interface SeatMetrics extends ModelMetrics {
+  model: string;
+  seat: number;
+}
+
+/** Build a HandLog from the engine's end-of-hand result. */
+export function toHandLog(result: HandResult, decisions?: SeatDecisions[]): HandLog {
+  return {
+    handNumber: result.handNumber,
+    bids: result.bids.map((bid, seat) => ({ seat, bid })),
+    tricksWon: result.tricksWon.map((won, seat) => ({ seat, won })),
+    scoreChange: { team1: result.team1.pointsEarned, team2: result.team2.pointsEarned },
+    bagsChange: { team1: result.team1.bagsEarned, team2: result.team2.bagsEarned },
+    ...(decisions ? { decisions } : {}),
+  };
+}
+
+/** HandLogs of every hand scored in an engine event log, with each seat's decisions counted. */
+export function handLogsFromEvents(events: GameEvent[]): HandLog[] {
+  const logs: HandLog[] = [];
+  const fresh = (): SeatDecisions[] => [0, 1, 2, 3].map(seat => ({ seat, decisions: 0, fallbacks: 0, timeouts: 0, timed: 0, latencyMs: 0 }));
+  let decisions = fresh();
+  for (const event of events) {
+    if (event.type === 'BidMade' || event.type === 'CardPlayed') {
+      const d = decisions[event.seat];
+      d.decisions++;
+      if (event.fallback) d.fallbacks++;
+      if (event.fallbackKind === 'timeout') d.timeouts!++;
+      if (event.latencyMs !== undefined) {
+        d.timed++;
+        d.latencyMs += event.latencyMs;
+      }
+      if (event.usage) d.usage = addUsage(d.usage, event.usage);
+    } else if (event.type === 'HandScored') {
+      logs.push(toHandLog(event.result, decisions));
+      decisions = fresh();
+    }
+  }
+  return logs;
+}
+
+/**
+ * Token usage per model over `hands`, where `players` names the model in
+ * each seat (as GameLog.players). Undefined when no seat reported usage.
+ */
+export function usageByModel(hands: HandLog[], players: string[]): Record<string, TokenUsage> | undefined {
+  const totals: Record<string, TokenUsage> = {};
+  for (const hand of hands) {
+    for (const d of hand.decisions ?? []) {
+      if (!d.usage) continue;
+      const model = players[d.seat];
+      totals[model] = addUsage(totals[model], d.usage)!;
+    }
+  }
+  return Object.keys(totals).length > 0 ? totals : undefined;
 }
 
 export class MetricsCalculator {
   logs: GameLog[];
+  policy: ScoringPolicy; // the games' scoring, which decides what a set is; a log's own policy overrides it
 
-  constructor(logs: GameLog[]) {
+  constructor(logs: GameLog[], policy: ScoringPolicy = DEFAULT_SCORING_POLICY) {
     this.logs = logs;
+    this.policy = policy;
+  }
+
+  private policyOf(log: GameLog): ScoringPolicy {
+    return log.policy ?? this.policy;
   }
 
   calculatePrimaryMetrics() {
@@ -67,31 +167,23 @@ export class MetricsCalculator {
     let totalHands = 0;
 
     let team1Bags = 0;
-    let team1Overtricks = 0; // tricks won above bid
+    let team1Won = 0;
     let team2Bags = 0;
-    let team2Overtricks = 0;
+    let team2Won = 0;
 
     for (const log of this.logs) {
       for (const hand of log.hands) {
         totalHands++;
-        
-        const t1Bid = (hand.bids.find(b => b.seat === 0)?.bid || 0) + (hand.bids.find(b => b.seat === 2)?.bid || 0);
-        const t1Won = (hand.tricksWon.find(t => t.seat === 0)?.won || 0) + (hand.tricksWon.find(t => t.seat === 2)?.won || 0);
-        
-        const t2Bid = (hand.bids.find(b => b.seat === 1)?.bid || 0) + (hand.bids.find(b => b.seat === 3)?.bid || 0);
-        const t2Won = (hand.tricksWon.find(t => t.seat === 1)?.won || 0) + (hand.tricksWon.find(t => t.seat === 3)?.won || 0);
-
-        if (t1Bid > 0 && t1Won < t1Bid) team1Sets++;
-        if (t2Bid > 0 && t2Won < t2Bid) team2Sets++;
-
-        if (t1Bid > 0 && t1Won > t1Bid) {
-          team1Overtricks += (t1Won - t1Bid);
-          team1Bags += hand.bagsChange.team1;
-        }
-        if (t2Bid > 0 && t2Won > t2Bid) {
-          team2Overtricks += (t2Won - t2Bid);
-          team2Bags += hand.bagsChange.team2;
-        }
+        const t1 = teamTricks(hand, 0, this.policyOf(log));
+        const t2 = teamTricks(hand, 1, this.policyOf(log));
+
+        if (t1.bid > 0 && t1.contract < t1.bid) team1Sets++;
+        if (t2.bid > 0 && t2.contract < t2.bid) team2Sets++;
+
+        team1Won += t1.won;
+        team1Bags += hand.bagsChange.team1;
+        team2Won += t2.won;
+        team2Bags += hand.bagsChange.team2;
       }
     }
 
@@ -99,10 +191,8 @@ export class MetricsCalculator {
     const setRateTeam2 = totalHands > 0 ? team2Sets / totalHands : 0;
 
     // Bag efficiency: 1 - (total_bags / total_tricks_won)
-    // Actually, formula says: 1 - (total_bags / total_tricks_won)
-    // Let's just use overtricks vs bags
-    const bagEfficiencyTeam1 = team1Overtricks > 0 ? 1 - (team1Bags / team1Overtricks) : 1;
-    const bagEfficiencyTeam2 = team2Overtricks > 0 ? 1 - (team2Bags / team2Overtricks) : 1;
+    const bagEfficiencyTeam1 = team1Won > 0 ? 1 - (team1Bags / team1Won) : 1;
+    const bagEfficiencyTeam2 = team2Won > 0 ? 1 - (team2Bags / team2Won) : 1;
 
     return {
       setRateTeam1,
@@ -111,4 +201,172 @@ export class MetricsCalculator {
       bagEfficiencyTeam2,
     };
   }
+
+  /**
+   * Metrics per (model, seat), over the logs that name their players — seat
+   * rotation and mixed partnerships make team numbers meaningless. Bidding
+   * and decision metrics are the seat's own; set rate and bags are its
+   * team's, shared by both partners. Sorted by model, then seat.
+   */
+  calculateSeatMetrics(): SeatMetrics[] {
+    const tallies = new Map<string, { model: string; seat: number; tally: Tally }>();
+    for (const log of this.logs) {
+      if (!log.players) continue;
+      for (const hand of log.hands) {
+        for (let seat = 0; seat < 4; seat++) {
+          const model = log.players[seat];
+          const key = `${model}|${seat}`;
+          if (!tallies.has(key)) tallies.set(key, { model, seat, tally: emptyTally() });
+          addSeatHand(tallies.get(key)!.tally, hand, seat, this.policyOf(log));
+        }
+      }
+    }
+    return Array.from(tallies.values())
+      .sort((a, b) => a.model.localeCompare(b.model) || a.seat - b.seat)
+      .map(({ model, seat, tally }) => ({ model, seat, ...toModelMetrics(tally) }));
+  }
+
+  /** calculateSeatMetrics, combined over each model's seats. */
+  calculateModelMetrics(): Record<string, ModelMetrics> {
+    const tallies = new Map<string, Tally>();
+    for (const log of this.logs) {
+      if (!log.players) continue;
+      for (const hand of log.hands) {
+        for (let seat = 0; seat < 4; seat++) {
+          const model = log.players[seat];
+          if (!tallies.has(model)) tallies.set(model, emptyTally());
+          addSeatHand(tallies.get(model)!, hand, seat, this.policyOf(log));
+        }
+      }
+    }
+    const metrics: Record<string, ModelMetrics> = {};
+    for (const [model, tally] of tallies) metrics[model] = toModelMetrics(tally);
+    return metrics;
+  }
+
+  /**
+   * Duplicate scoring over boards where both tables were played. A board's
+   * score is team 1's margin at table A plus its margin at table B — it held
+   * each side's cards once, so the deal luck cancels.
+   */
+  calculateDuplicateMetrics() {
+    const tables = new Map<number, { A?: GameLog; B?: GameLog }>();
+    for (const log of this.logs) {
+      if (!log.duplicate) continue;
+      const entry = tables.get(log.duplicate.board) ?? {};
+      entry[log.duplicate.table] = log;
+      tables.set(log.duplicate.board, entry);
+    }
+
+    let boards = 0;
+    let team1Total = 0;
+    let team1BoardWins = 0;
+    for (const { A, B } of tables.values()) {
+      if (!A || !B) continue;
+      const score = (A.score.team1 - A.score.team2) + (B.score.team1 - B.score.team2);
+      boards++;
+      team1Total += score;
+      if (score > 0) team1BoardWins++;
+      else if (score === 0) team1BoardWins += 0.5;
+    }
+
+    const duplicateScoreTeam1 = boards > 0 ? team1Total / boards : 0;
+    const boardWinRateTeam1 = boards > 0 ? team1BoardWins / boards : 0;
+
+    return {
+      boards,
+      duplicateScoreTeam1,
+      duplicateScoreTeam2: -duplicateScoreTeam1,
+      boardWinRateTeam1,
+      boardWinRateTeam2: boards > 0 ? 1 - boardWinRateTeam1 : 0,
+    };
+  }
+}
+
+/**
+ * The contract of the team whose first seat is `firstSeat` (0 or 1) — its
+ * regular bids — the tricks that count toward it, by calculateTeamScore's
+ * rule for a Nil bidder's tricks, and every trick the team won.
+ */
+function teamTricks(hand: HandLog, firstSeat: number, policy: ScoringPolicy): { bid: number; contract: number; won: number } {
+  const seats = [firstSeat, firstSeat + 2];
+  const bidOf = (seat: number) => hand.bids.find(b => b.seat === seat)?.bid || 0;
+  const wonBy = (seat: number) => hand.tricksWon.find(t => t.seat === seat)?.won || 0;
+  const bidders = seats.filter(seat => bidOf(seat) > 0);
+  const won = seats.reduce((sum, seat) => sum + wonBy(seat), 0);
+  return {
+    bid: bidders.reduce((sum, seat) => sum + bidOf(seat), 0),
+    contract: policy.failedNilCountsTowardContract ? won : bidders.reduce((sum, seat) => sum + wonBy(seat), 0),
+    won,
+  };
+}
+
+/** Running sums behind ModelMetrics. */
+interface Tally {
+  hands: number;
+  bidDiff: number;      // sum |won - bid|
+  contractBids: number; // non-nil bids
+  bias: number;         // sum (bid - won) over non-nil bids
+  nilBids: number;
+  nilsMade: number;
+  sets: number;
+  bags: number;         // team's
+  teamWon: number;
+  decisions: number;
+  fallbacks: number;
+  timeouts: number;
+  timed: number;
+  latencyMs: number;
+}
+
+function emptyTally(): Tally {
+  return {
+    hands: 0, bidDiff: 0, contractBids: 0, bias: 0, nilBids: 0, nilsMade: 0, sets: 0, bags: 0, teamWon: 0,
+    decisions: 0, fallbacks: 0, timeouts: 0, timed: 0, latencyMs: 0,
+  };
+}
+
+function addSeatHand(t: Tally, hand: HandLog, seat: number, policy: ScoringPolicy) {
+  const bid = hand.bids.find(b => b.seat === seat)?.bid || 0;
+  const won = hand.tricksWon.find(w => w.seat === seat)?.won || 0;
+  const team = teamTricks(hand, seat % 2, policy);
+
+  t.hands++;
+  t.bidDiff += Math.abs(won - bid);
+  if (bid === 0) {
+    t.nilBids++;
+    if (won === 0) t.nilsMade++;
+  } else {
+    t.contractBids++;
+    t.bias += bid - won;
+  }
+  if (team.bid > 0 && team.contract < team.bid) t.sets++;
+  t.teamWon += team.won;
+  t.bags += seat % 2 === 0 ? hand.bagsChange.team1 : hand.bagsChange.team2;
+
+  const d = hand.decisions?.find(x => x.seat === seat);
+  if (d) {
+    t.decisions += d.decisions;
+    t.fallbacks += d.fallbacks;
+    t.timeouts += d.timeouts ?? 0;
+    t.timed += d.timed;
+    t.latencyMs += d.latencyMs;
+  }
+}
+
+function toModelMetrics(t: Tally): ModelMetrics {
+  return {
+    hands: t.hands,
+    bidAccuracy: 1 - (t.bidDiff / t.hands / 13),
+    bidBias: t.contractBids > 0 ? t.bias / t.contractBids : 0,
+    nilBids: t.nilBids,
+    nilSuccessRate: t.nilBids > 0 ? t.nilsMade / t.nilBids : 0,
+    setRate: t.sets / t.hands,
+    bagsPerHand: t.bags / t.hands,
+    bagEfficiency: t.teamWon > 0 ? 1 - (t.bags / t.teamWon) : 1,
+    decisions: t.decisions,
+    avgLatencyMs: t.timed > 0 ? t.latencyMs / t.timed : null,
+    fallbackRate: t.decisions > 0 ? t.fallbacks / t.decisions : 0,
+    timeoutRate: t.decisions > 0 ? t.timeouts / t.decisions : 0,
+  };
 }
@@ -0,0 +1,266 @@
+/**
+ * Headless benchmark runner — plays a `BenchmarkConfig` end to end with no
+ * UI and no artificial delays.
+ *
+ * Seat rotation: every `seat_rotation_interval` games the whole table shifts
+ * one seat clockwise, so each config seat sees every engine seat (and every
+ * dealer offset). Partnerships are preserved — seats 0/2 always move
+ * together. Logs are written back in the *config's* frame: seat 0 in a
+ * `GameLog` is always `agents.team1.player0`, and `team1` is always the
+ * config's team 1, regardless of where it physically sat. That keeps
+ * `MetricsCalculator` team numbers meaningful across rotations.
+ *
+ * Duplicate mode: games come in pairs (2k, 2k+1) that share board k's seed.
+ * Table B sits one seat further round than table A, which swaps the
+ * partnerships between seat pairs 0/2 and 1/3 over identical deals.
+ *
+ * Time control: every bid and play runs under `timeControlOf(config)`; a
+ * timed-out seat falls back by the configured policy and the decision is
+ * recorded with fallbackKind 'timeout'.
+ *
+ * Budget: with `benchmark.budget_usd`, no game starts once the spend so
+ * far plus the average finished game's cost for it (and each game still in
+ * progress) would pass the cap. A game in progress always finishes, and in
+ * duplicate mode a board's table B always follows its table A.
+ *
+ * Hand cap: a game still going after MAX_HANDS hands ends there (see
+ * handCapWinner). The engine never ends a game drawn, so neither does this:
+ * the higher score wins, then the team with fewer bags, then a coin flip
+ * seeded from the game, so the same game always breaks the same way.
+ *
+ * Pure: no fs, no process access beyond what the agents themselves do.
+ * File output lives in cli.ts.
+ */
+
+import { GameEngine, hashObservation } from '../engine/game';
+import { createRng, seedFromString } from '../engine/rng';
+import { addUsage } from '../engine/usage';
+import { SeatClock } from '../engine/timeControl';
+import type { ActionMeta, FallbackKind } from '../engine/events';
+import type { TeamState } from '../engine/types';
+import { timeoutBid, timeoutPlay } from '../agents/timeout_fallback';
+import { Agent } from '../agents/base';
+import { BenchmarkConfig, houseRulesOf, timeControlOf } from './config';
+import { ApiKeys, createAgent, envApiKeys, seatConfigs, describeAgent } from './agents';
+import { GameLog, HandLog, handLogsFromEvents, usageByModel } from './metrics';
+
+/** Games that haven't reached the target by this many hands end there (see handCapWinner). */
+const MAX_HANDS = 100;
+
+export interface DecisionLog {
+  handNumber: number;
+  seat: number; // config frame
+  action: 'bid' | 'play';
+  value: number | string;
+  blind?: boolean;
+  reasoning: string;
+  fallback: boolean; // agent error, timeout, or the engine rejected the action
+  fallbackKind?: FallbackKind;
+  observationHash: string;
+}
+
+export interface BenchmarkGame {
+  index: number;
+  seed: number;
+  rotation: number; // seats shifted clockwise for this game (0..3)
+  log: GameLog;
+  errors: number;   // engine-rejected actions that fell back
+  decisions?: DecisionLog[]; // only when benchmark.log_reasoning
+}
+
+/**
+ * The winner of a game the hand cap ended: the higher score, then fewer
+ * bags, then a coin flip drawn from `seed` (the game's).
+ */
+export function handCapWinner(team1: TeamState, team2: TeamState, seed: number): 1 | 2 {
+  if (team1.score !== team2.score) return team1.score > team2.score ? 1 : 2;
+  if (team1.bags !== team2.bags) return team1.bags < team2.bags ? 1 : 2;
+  return createRng(seedFromString(`${seed}:tiebreak`))() < 0.5 ? 1 : 2;
+}
+
+export interface RunOptions {
+  onGameComplete?: (game: BenchmarkGame, completed: number, total: number) => void;
+  onBudgetReached?: (spentUsd: number, completed: number) => void; // budget_usd ended the run early
+}
+
+/**
+ * Play every game in the config, or as many as its budget allows. Resolves
+ * with games sorted by index.
+ */
+export async function runBenchmark(config: BenchmarkConfig, options: RunOptions = {}): Promise<BenchmarkGame[]> {
+  const total = config.benchmark.num_games;
+  const parallel = Math.max(1, config.benchmark.parallel_games);
+  const budget = config.benchmark.budget_usd;
+  const games: BenchmarkGame[] = [];
+  let next = 0;
+  let running = 0;
+  let spent = 0;
+  let overBudget = false;
+
+  const wouldExceedBudget = (index: number) => {
+    if (budget === undefined) return false;
+    if (config.benchmark.duplicate && index % 2 === 1) return false; // finish the board
+    const perGame = games.length > 0 ? spent / games.length : 0;
+    return spent + perGame * (running + 1) > budget;
+  };
+
+  const worker = async () => {
+    while (next < total && !overBudget) {
+      if (wouldExceedBudget(next)) {
+        overBudget = true;
+        break;
+      }
+      const index = next++;
+      running++;
+      const game = await playBenchmarkGame(config, index);
+      running--;
+      spent += gameCost(game);
+      games.push(game);
+      options.onGameComplete?.(game, games.length, total);
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(parallel, total) }, worker));
+  if (overBudget) options.onBudgetReached?.(spent, games.length);
+  return games.sort((a, b) => a.index - b.index);
+}
+
+/** Estimated LLM spend of a finished game, in USD. */
+export function gameCost(game: BenchmarkGame): number {
+  const usage = usageByModel(game.log.hands, game.log.players ?? []);
+  return Object.values(usage ?? {}).reduce((sum, u) => sum + u.costUsd, 0);
+}
+
+/**
+ * Play game `index` of the benchmark with fresh agents. `onEngine` sees the
+ * engine before the first bid — subscribe to it to watch the game, or keep
+ * it for its events. LLM agents get their keys from `keys`.
+ */
+export async function playBenchmarkGame(
+  config: BenchmarkConfig,
+  index: number,
+  onEngine?: (engine: GameEngine) => void,
+  keys: ApiKeys = envApiKeys(),
+): Promise<BenchmarkGame> {
+  const interval = Math.max(1, config.benchmark.seat_rotation_interval);
+  const duplicate = config.benchmark.duplicate
+    ? { board: Math.floor(index / 2), table: (index % 2 === 0 ? 'A' : 'B') as 'A' | 'B' }
+    : undefined;
+  // In duplicate mode the rotation schedule counts boards, not games.
+  const round = duplicate ? duplicate.board : index;
+  const rotation = (Math.floor(round / interval) + (duplicate?.table === 'B' ? 1 : 0)) % 4;
+  const seed = seedFromString(`${config.benchmark.random_seed}:${round}`);
+
+  // Config seat c sits at engine seat (c + rotation) % 4.
+  const toConfigSeat = (engineSeat: number) => (engineSeat - rotation + 4) % 4;
+  const configs = seatConfigs(config);
+  const agents: Agent[] = [0, 1, 2, 3].map(engineSeat => {
+    const c = toConfigSeat(engineSeat);
+    return createAgent(configs[c], `Seat ${c} (${describeAgent(configs[c])})`, keys);
+  });
+
+  const engine = new GameEngine(config.game.target_score, config.game.variant, {
+    seed,
+    enableBlindNil: config.game.enable_blind_nil,
+    blindNilThreshold: config.game.blind_nil_threshold,
+    houseRules: houseRulesOf(config),
+  });
+  onEngine?.(engine);
+  const clock = new SeatClock(timeControlOf(config));
+  const { policy } = clock.control;
+  const decisions: DecisionLog[] = [];
+  let errors = 0;
+
+  const record = (decision: Omit<DecisionLog, 'handNumber'>) => {
+    if (config.benchmark.log_reasoning) {
+      decisions.push({ ...decision, handNumber: engine.state.handNumber });
+    }
+  };
+
+  while (engine.state.phase !== 'game_over' && engine.state.handNumber <= MAX_HANDS) {
+    const seat = engine.state.currentTurn;
+    const agent = agents[seat];
+    const observation = engine.getObservation(seat);
+
+    const started = Date.now();
+    if (engine.state.phase === 'bidding') {
+      const ask = (obs: typeof observation) => clock.decide(seat, () => agent.bid(obs), limit => timeoutBid(policy, obs, limit));
+      let { action, timedOut } = await ask(observation);
+      let usage = action.usage;
+      if (observation.bidding_context?.blind_bid_options && !action.blind) {
+        // Passed on a blind bid — turn the hand up and ask again
+        engine.revealHand(seat);
+        ({ action, timedOut } = await ask(engine.getObservation(seat)));
+        usage = addUsage(usage, action.usage);
+      }
+      const observationHash = hashObservation(engine.getObservation(seat)); // after any reveal
+      const meta: ActionMeta = { latencyMs: Date.now() - started, usage, ...(timedOut ? { fallbackKind: 'timeout' } : {}) };
+      const error = engine.processBid(seat, action, meta);
+      const fallbackBid = observation.bidding_context?.legal_bids[0] ?? 1;
+      if (error) {
+        errors++;
+        engine.processBid(seat, { action: 'bid', value: fallbackBid, reasoning: action.reasoning, fallback: true }, { ...meta, fallbackKind: 'illegal' });
+      }
+      const fallbackKind: FallbackKind | undefined = error ? 'illegal' : action.fallback ? (meta.fallbackKind ?? 'agent') : undefined;
+      record({ seat: toConfigSeat(seat), action: 'bid', value: error ? fallbackBid : action.value, blind: !error && !!action.blind, reasoning: action.reasoning, fallback: !!fallbackKind, fallbackKind, observationHash });
+    } else {
+      const { action, timedOut } = await clock.decide(seat, () => agent.play(observation), limit => timeoutPlay(policy, observation, limit));
+      const meta: ActionMeta = {
+        latencyMs: Date.now() - started,
+        usage: action.usage,
+        ...(timedOut ? { fallbackKind: 'timeout', forfeit: policy === 'forfeit' } : {}),
+      };
+      const error = engine.processPlay(seat, action, meta);
+      const legal = observation.playing_context?.legal_plays || [];
+      if (error) {
+        errors++;
+        engine.processPlay(seat, { action: 'play', card: legal[0], reasoning: action.reasoning, fallback: true }, { ...meta, fallbackKind: 'illegal' });
+      }
+      const fallbackKind: FallbackKind | undefined = error ? 'illegal' : action.fallback ? (meta.fallbackKind ?? 'agent') : undefined;
+      record({ seat: toConfigSeat(seat), action: 'play', value: error ? legal[0] : action.card, reasoning: action.reasoning, fallback: !!fallbackKind, fallbackKind, observationHash: hashObservation(observation) });
+
+      if (engine.isTrickComplete()) {
+        engine.resolveTrick();
+      }
+    }
+  }
+
+  const { team1, team2 } = engine.state.teams;
+  // state.winner is null only when the hand cap ended the game
+  const engineWinner: 'team1' | 'team2' =
+    (engine.state.winner ?? handCapWinner(team1, team2, seed)) === 1 ? 'team1' : 'team2';
+  const swapped = rotation % 2 === 1;
+  const hands = handLogsFromEvents(engine.events).map(hand => toConfigFrame(hand, toConfigSeat, rotation));
+
+  return {
+    index,
+    seed,
+    rotation,
+    errors,
+    log: {
+      gameId: `game-${index}`,
+      seed,
+      duplicate,
+      winner: swapped ? (engineWinner === 'team1' ? 'team2' : 'team1') : engineWinner,
+      score: swapped ? { team1: team2.score, team2: team1.score } : { team1: team1.score, team2: team2.score },
+      bags: swapped ? { team1: team2.bags, team2: team1.bags } : { team1: team1.bags, team2: team2.bags },
+      players: configs.map(describeAgent),
+      hands,
+    },
+    ...(config.benchmark.log_reasoning ? { decisions } : {}),
+  };
+}
+
+function toConfigFrame(hand: HandLog, toConfigSeat: (s: number) => number, rotation: number): HandLog {
+  const swap = <T,>(t: { team1: T; team2: T }) => (rotation % 2 === 1 ? { team1: t.team2, team2: t.team1 } : t);
+  return {
+    handNumber: hand.handNumber,
+    bids: hand.bids.map(b => ({ seat: toConfigSeat(b.seat), bid: b.bid })).sort((a, b) => a.seat - b.seat),
+    tricksWon: hand.tricksWon.map(t => ({ seat: toConfigSeat(t.seat), won: t.won })).sort((a, b) => a.seat - b.seat),
+    scoreChange: swap(hand.scoreChange),
+    bagsChange: swap(hand.bagsChange),
+    ...(hand.decisions
+      ? { decisions: hand.decisions.map(d => ({ ...d, seat: toConfigSeat(d.seat) })).sort((a, b) => a.seat - b.seat) }
+      : {}),
+  };
+}
@@ -0,0 +1,104 @@
+/**
+ * Tournament runner — plays the games a tournament schedules (see
+ * engine/tournament.ts) one at a time through the headless benchmark
+ * runner, with each entrant's agent in both seats of its partnership.
+ *
+ * Pure like runner.ts: saving each game and the updated tournament is the
+ * caller's job, in onGameComplete.
+ */
+
+import { GameEngine } from '../engine/game';
+import { seedFromString } from '../engine/rng';
+import type { GameResult, TournamentResult } from '../engine/resultsStore';
+import { TournamentMatch, nextGame, recordGame, teamAIsTeam1 } from '../engine/tournament';
+import { BenchmarkConfig, defaultConfig } from './config';
+import { playBenchmarkGame } from './runner';
+import { ApiKeys } from './agents';
+import { usageByModel } from './metrics';
+
+export interface TournamentRunOptions {
+  keys?: ApiKeys; // for LLM entrants; default from the environment (see envApiKeys)
+  onGameStart?: (match: TournamentMatch, game: number, engine: GameEngine) => void;
+  onGameComplete?: (tournament: TournamentResult, result: GameResult, engine: GameEngine) => void | Promise<void>; // awaited before the next game
+  shouldStop?: () => boolean; // checked between games
+}
+
+/**
+ * Play `t` from its next game until it has a champion or `shouldStop` says
+ * so. Resolves with the tournament as it stands.
+ */
+export async function runTournament(t: TournamentResult, options: TournamentRunOptions = {}): Promise<TournamentResult> {
+  let current = t;
+  for (let next = nextGame(current); next && !options.shouldStop?.(); next = nextGame(current)) {
+    const { match, game } = next;
+    const { result, engine } = await playTournamentGame(current, match, game, options);
+    current = recordGame(current, match.id, result);
+    await options.onGameComplete?.(current, result, engine);
+  }
+  return current;
+}
+
+async function playTournamentGame(
+  t: TournamentResult,
+  match: TournamentMatch,
+  game: number,
+  { onGameStart, keys }: TournamentRunOptions,
+): Promise<{ result: GameResult; engine: GameEngine }> {
+  const { config } = t.progress!;
+  const rules = config.houseRules ?? {};
+  const agentOf = (model: string) => config.entrants.find(e => e.model === model)!.agent;
+  const [team1, team2] = teamAIsTeam1(match, game) ? [match.teamA, match.teamB] : [match.teamB, match.teamA];
+
+  const bench: BenchmarkConfig = {
+    ...defaultConfig,
+    game: {
+      ...defaultConfig.game,
+      variant: config.variant ?? defaultConfig.game.variant,
+      target_score: config.targetScore,
+      spades_lead_policy: rules.spadesLeadPolicy,
+      minimum_team_bid: rules.minimumTeamBid,
+      failed_nil_counts_toward_contract: rules.failedNilCountsTowardContract,
+      set_tricks_as_bags: rules.setTricksAsBags,
+      bag_penalty_threshold: rules.bagPenaltyThreshold,
+      bag_penalty_amount: rules.bagPenaltyAmount,
+    },
+    agents: {
+      team1: { player0: agentOf(team1), player2: agentOf(team1) },
+      team2: { player1: agentOf(team2), player3: agentOf(team2) },
+    },
+    benchmark: {
+      ...defaultConfig.benchmark,
+      random_seed: seedFromString(`${config.seed}:${match.id}:${game}`),
+      log_reasoning: false,
+    },
+  };
+
+  let engine!: GameEngine;
+  // Game 0 of a benchmark is never rotated, so its log is in engine seats
+  const { log, seed } = await playBenchmarkGame(bench, 0, e => {
+    engine = e;
+    onGameStart?.(match, game, e);
+  }, keys);
+
+  const usage = usageByModel(log.hands, [team1, team2, team1, team2]);
+  const result: GameResult = {
+    id: `${t.id}-${match.id}-${game}`,
+    date: new Date().toISOString(),
+    tournamentId: t.id,
+    team1Models: [team1, team1],
+    team2Models: [team2, team2],
+    team1Score: log.score.team1,
+    team2Score: log.score.team2,
+    team1Bags: log.bags?.team1 ?? 0,
+    team2Bags: log.bags?.team2 ?? 0,
+    winner: log.winner === 'team1' ? 1 : 2,
+    targetScore: config.targetScore,
+    handsPlayed: log.hands.length,
+    seed,
+    hands: log.hands,
+    source: 'live',
+    ...(usage ? { usage } : {}),
+    houseRules: engine.houseRules,
+  };
+  return { result, engine };
+}
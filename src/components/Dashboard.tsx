@@ -5,15 +5,28 @@ import {
     getMatchups,
     getTotalGamesPlayed,
     getAllTournaments,
+    duplicateScore,
+    exportBundle,
+    importBundle,
     ModelStats,
     MatchupRecord,
 } from '../engine/resultsStore';
+import { BundleError, bundleToCsv, describeImport, parseBundle } from '../engine/bundle';
 import { seedIfEmpty } from '../engine/seedData';
+import { DataSource } from '../engine/dataSource';
+import { ratingInterval } from '../engine/ratings';
+import { formatCost } from '../engine/usage';
+import { SIGNIFICANCE_LEVEL, gapSignificance, matchupSignificance } from '../engine/significance';
+import { SourceFilter } from './SourceFilter';
+import { RatingChart } from './RatingChart';
 
 interface DashboardProps {
+    sources: DataSource[];
+    onSourcesChange: (sources: DataSource[]) => void;
     onBack: () => void;
     onPlay: () => void;
     onModelClick: (modelName: string) => void;
+    onReplays: () => void;
 }
 
 // ─── Medal Icons ────────────────────────────────────────
@@ -24,15 +37,49 @@ const RANK_BG: Record<number, string> = {
     2: 'bg-amber-900/20 border-amber-600/30',
 };
 
-export const Dashboard: React.FC<DashboardProps> = ({ onBack, onPlay, onModelClick }) => {
+function download(fileName: string, content: string, type: string) {
+    const url = URL.createObjectURL(new Blob([content], { type }));
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = fileName;
+    a.click();
+    setTimeout(() => URL.revokeObjectURL(url), 1000); // after the download has started
+}
+
+export const Dashboard: React.FC<DashboardProps> = ({ sources, onSourcesChange, onBack, onPlay, onModelClick, onReplays }) => {
     // Seed placeholder data if none exists
     const [ready, setReady] = useState(false);
     useEffect(() => { seedIfEmpty(); setReady(true); }, []);
 
-    const leaderboard = useMemo(() => ready ? getLeaderboard() : [], [ready]);
-    const matchups = useMemo(() => ready ? getMatchups() : [], [ready]);
-    const totalGames = useMemo(() => ready ? getTotalGamesPlayed() : 0, [ready]);
-    const tournaments = useMemo(() => ready ? getAllTournaments() : [], [ready]);
+    // Bumped after an import so the memos below re-read the store
+    const [revision, setRevision] = useState(0);
+    const [dataMessage, setDataMessage] = useState<{ text: string; error?: boolean } | null>(null);
+
+    const leaderboard = useMemo(() => ready ? getLeaderboard(sources) : [], [ready, revision, sources]);
+    const matchups = useMemo(() => ready ? getMatchups(sources) : [], [ready, revision, sources]);
+    const totalGames = useMemo(() => ready ? getTotalGamesPlayed(sources) : 0, [ready, revision, sources]);
+    // Finished tournaments only; one still running has no champion yet
+    const tournaments = useMemo(() => ready ? getAllTournaments(sources).filter(t => t.champion) : [], [ready, revision, sources]);
+
+    const stamp = () => new Date().toISOString().slice(0, 10);
+    const handleExportJson = () => {
+        download(`spades-arena-${stamp()}.json`, JSON.stringify(exportBundle(), null, 2), 'application/json');
+    };
+    const handleExportCsv = () => {
+        for (const [file, csv] of Object.entries(bundleToCsv(exportBundle()))) {
+            download(`spades-arena-${stamp()}-${file}`, csv, 'text/csv');
+        }
+    };
+    const handleImport = async (file: File) => {
+        try {
+            const report = importBundle(parseBundle(await file.text()));
+            setDataMessage({ text: `Imported ${file.name}: ${describeImport(report)}` });
+            setRevision(r => r + 1);
+        } catch (e) {
+            const problems = e instanceof BundleError ? e.problems.slice(0, 3).join('; ') : (e as Error).message;
+            setDataMessage({ text: `Could not import ${file.name}: ${problems}`, error: true });
+        }
+    };
 
     // Derived stats
     const topWinner = leaderboard.length > 0 ? leaderboard[0] : null;
@@ -65,16 +112,45 @@ export const Dashboard: React.FC<DashboardProps> = ({ onBack, onPlay, onModelCli
         return `${rec.model1Wins}-${rec.model2Wins}`;
     };
 
+    // Leaders are only coloured once the record is significant; the rest are greyed
     const getRecordColor = (m1: string, m2: string): string => {
         const rec = matchupMap.get(`${m1}|||${m2}`);
         if (!rec) return 'text-gray-500';
+        if (!matchupSignificance(rec.model1Wins, rec.model1Wins + rec.model2Wins).significant) return 'text-gray-500';
         if (rec.model1Wins > rec.model2Wins) return 'text-green-400';
         if (rec.model1Wins < rec.model2Wins) return 'text-red-400';
         return 'text-yellow-400';
     };
 
+    const getRecordTitle = (m1: string, m2: string): string => {
+        const rec = matchupMap.get(`${m1}|||${m2}`);
+        if (!rec) return 'No games yet';
+        const sig = matchupSignificance(rec.model1Wins, rec.model1Wins + rec.model2Wins);
+        const [lo, hi] = sig.interval.map(v => Math.round(v * 100));
+        const verdict = sig.significant ? 'significant'
+            : sig.gamesNeeded === null ? 'dead even so far'
+                : `~${sig.gamesNeeded} more games at this rate to separate`;
+        return `${m1} wins ${Math.round(sig.winRate * 100)}% (95% CI ${lo}–${hi}%), p = ${sig.pValue.toFixed(3)}: ${verdict}`;
+    };
+
+    // Whether a leaderboard row's rating is separated from the row above
+    const gapTitle = (i: number): string | null => {
+        if (i === 0) return null;
+        const gap = gapSignificance(leaderboard[i - 1].rating, leaderboard[i].rating);
+        if (gap.significant) return null;
+        return `Not separated from #${i} (p = ${gap.pValue.toFixed(2)}): ${Math.round(gap.probabilityAhead * 100)}% likely to be behind it`;
+    };
+
     const winRate = (s: ModelStats) =>
         s.gamesPlayed > 0 ? Math.round((s.wins / s.gamesPlayed) * 100) : 0;
+    const dupScore = (s: ModelStats) => Math.round(duplicateScore(s));
+    // Hand-level metrics exist only for games saved with hand logs
+    const handPct = (s: ModelStats, metric: 'bidAccuracy' | 'setRate' | 'bagEfficiency') =>
+        s.hands ? `${Math.round(s.hands[metric] * 100)}%` : '—';
+
+    const usageTitle = (s: ModelStats) => s.usage
+        ? `${formatCost(s.usage)} over ${s.usageGames} games: ${s.usage.calls} calls, ${s.usage.inputTokens.toLocaleString()} in / ${s.usage.outputTokens.toLocaleString()} out tokens`
+        : 'No LLM usage recorded';
 
     // Short name helper for matchup grid headers
     const shortName = (name: string) => {
@@ -109,8 +185,54 @@ export const Dashboard: React.FC<DashboardProps> = ({ onBack, onPlay, onModelCli
                     >
                         Tournaments
                     </button>
+                    <button
+                        onClick={onReplays}
+                        className="px-4 py-1.5 text-sm rounded-lg transition-colors text-gray-400 hover:text-white hover:bg-white/10"
+                    >
+                        Replays
+                    </button>
+                    <span className="w-px bg-white/10 mx-1" />
+                    <button
+                        onClick={handleExportJson}
+                        className="px-3 py-1.5 text-sm rounded-lg transition-colors text-gray-400 hover:text-white hover:bg-white/10"
+                        title="Download results, tournaments and hand logs as a JSON bundle"
+                    >
+                        Export JSON
+                    </button>
+                    <button
+                        onClick={handleExportCsv}
+                        className="px-3 py-1.5 text-sm rounded-lg transition-colors text-gray-400 hover:text-white hover:bg-white/10"
+                        title="Download results.csv, tournaments.csv and hands.csv"
+                    >
+                        Export CSV
+                    </button>
+                    <label
+                        className="px-3 py-1.5 text-sm rounded-lg transition-colors text-gray-400 hover:text-white hover:bg-white/10 cursor-pointer"
+                        title="Merge a JSON bundle into these results"
+                    >
+                        Import
+                        <input
+                            type="file"
+                            accept=".json,application/json"
+                            className="hidden"
+                            onChange={(e) => {
+                                const file = e.target.files?.[0];
+                                e.target.value = '';
+                                if (file) handleImport(file);
+                            }}
+                        />
+                    </label>
                 </div>
             </nav>
+            {dataMessage && (
+                <div className={`flex items-start justify-between gap-4 px-6 py-2 text-xs border-b border-white/10 ${dataMessage.error ? 'bg-red-900/30 text-red-300' : 'bg-green-900/30 text-green-300'}`}>
+                    <span className="break-words min-w-0">{dataMessage.text}</span>
+                    <button onClick={() => setDataMessage(null)} className="shrink-0 text-gray-400 hover:text-white">✕</button>
+                </div>
+            )}
+            <div className="flex justify-end px-6 py-2 border-b border-white/10 shrink-0">
+                <SourceFilter sources={sources} onChange={onSourcesChange} />
+            </div>
 
             {/* ── Scrollable Content ───────────────────────── */}
             <div className="flex-1 overflow-y-auto subtle-scroll p-4 space-y-4">
@@ -179,7 +301,7 @@ export const Dashboard: React.FC<DashboardProps> = ({ onBack, onPlay, onModelCli
                                 <span className="text-lg">♠</span>
                                 <h2 className="text-lg font-bold">Leaderboard</h2>
                             </div>
-                            <span className="text-xs text-gray-500">Sort ▾</span>
+                            <span className="text-xs text-gray-500">By rating ▾</span>
                         </div>
 
                         {leaderboard.length === 0 ? (
@@ -191,27 +313,47 @@ export const Dashboard: React.FC<DashboardProps> = ({ onBack, onPlay, onModelCli
                         ) : (
                             <div className="space-y-1.5">
                                 {/* Header */}
-                                <div className="grid grid-cols-[40px_1fr_50px_50px_60px_70px_50px] text-[10px] text-gray-500 uppercase tracking-wide px-3 py-1">
-                                    <span>Rank</span><span>Model</span><span className="text-center">W</span><span className="text-center">L</span>
-                                    <span className="text-center">Win%</span><span className="text-center">Total Pts</span><span className="text-center">Bags</span>
+                                <div className="grid grid-cols-[40px_1fr_110px_50px_50px_60px_60px_70px_50px_55px_50px_55px_65px] text-[10px] text-gray-500 uppercase tracking-wide px-3 py-1">
+                                    <span>Rank</span><span>Model</span><span className="text-center" title="TrueSkill-style rating ± 2σ (95% interval); ranked by rating - 3σ">Rating</span><span className="text-center">W</span><span className="text-center">L</span>
+                                    <span className="text-center">Win%</span><span className="text-center" title="Duplicate score: avg points gained per board over the pair holding the same cards">Dup</span><span className="text-center">Total Pts</span><span className="text-center">Bags</span>
+                                    <span className="text-center" title="Bid accuracy: 1 - mean |tricks won - bid| / 13 over the model's own bids">Bid Acc</span>
+                                    <span className="text-center" title="Share of hands the model's team was set">Set%</span>
+                                    <span className="text-center" title="Bag efficiency: 1 - bags / tricks won, for the model's team">Bag Eff</span>
+                                    <span className="text-center" title="Estimated LLM spend per game, from token counts and list prices; ≥ when some calls couldn't be priced">$/Game</span>
                                 </div>
 
                                 {leaderboard.map((s, i) => (
                                     <button
                                         key={s.model}
                                         onClick={() => onModelClick(s.model)}
-                                        className={`w-full grid grid-cols-[40px_1fr_50px_50px_60px_70px_50px] items-center px-3 py-2.5 rounded-lg border transition-all hover:scale-[1.01] cursor-pointer text-left ${RANK_BG[i] || 'bg-white/5 border-white/5'
+                                        className={`w-full grid grid-cols-[40px_1fr_110px_50px_50px_60px_60px_70px_50px_55px_50px_55px_65px] items-center px-3 py-2.5 rounded-lg border transition-all hover:scale-[1.01] cursor-pointer text-left ${RANK_BG[i] || 'bg-white/5 border-white/5'
                                             }`}
                                     >
-                                        <span className="text-sm font-bold">{MEDAL[i] || `${i + 1}.`}</span>
+                                        <span className="text-sm font-bold">
+                                            {MEDAL[i] || `${i + 1}.`}
+                                            {gapTitle(i) && <span className="ml-0.5 text-xs font-normal text-gray-500" title={gapTitle(i)!}>≈</span>}
+                                        </span>
                                         <span className="text-sm font-semibold truncate pr-2">{s.model}</span>
+                                        <span className="flex items-center justify-center gap-1.5" title={`95% interval ${ratingInterval(s.rating).map(v => v.toFixed(1)).join(' – ')} after ${s.rating.games} rated games`}>
+                                            <span className="text-sm font-mono">{s.rating.mu.toFixed(1)}<span className="text-[10px] text-gray-500">±{(2 * s.rating.sigma).toFixed(1)}</span></span>
+                                            <RatingChart history={s.rating.history} width={36} height={14} compact />
+                                        </span>
                                         <span className="text-sm text-center font-mono">{s.wins}</span>
                                         <span className="text-sm text-center font-mono">{s.losses}</span>
                                         <span className={`text-sm text-center font-bold ${winRate(s) >= 60 ? 'text-green-400' : winRate(s) >= 40 ? 'text-yellow-400' : 'text-red-400'}`}>
                                             {winRate(s)}%
                                         </span>
+                                        <span className={`text-sm text-center font-mono ${dupScore(s) > 0 ? 'text-green-400' : dupScore(s) < 0 ? 'text-red-400' : 'text-gray-500'}`}>
+                                            {s.duplicateBoards > 0 ? `${dupScore(s) > 0 ? '+' : ''}${dupScore(s)}` : '—'}
+                                        </span>
                                         <span className="text-sm text-center font-mono text-yellow-300">{s.totalPoints}</span>
                                         <span className="text-sm text-center font-mono text-gray-400">{s.totalBags}</span>
+                                        <span className="text-sm text-center font-mono text-gray-300">{handPct(s, 'bidAccuracy')}</span>
+                                        <span className="text-sm text-center font-mono text-gray-300">{handPct(s, 'setRate')}</span>
+                                        <span className="text-sm text-center font-mono text-gray-300">{handPct(s, 'bagEfficiency')}</span>
+                                        <span className="text-sm text-center font-mono text-gray-400" title={usageTitle(s)}>
+                                            {s.usage ? formatCost({ costUsd: s.usage.costUsd / s.usageGames, unpriced: s.usage.unpriced }) : '—'}
+                                        </span>
                                     </button>
                                 ))}
                             </div>
@@ -285,6 +427,9 @@ export const Dashboard: React.FC<DashboardProps> = ({ onBack, onPlay, onModelCli
                     <div className="flex items-center gap-2 mb-3">
                         <span className="text-lg">⚔️</span>
                         <h2 className="text-lg font-bold">Head-to-Head Matchups</h2>
+                        <span className="text-xs text-gray-500 ml-auto">
+                            Grey: not significant at p &lt; {SIGNIFICANCE_LEVEL} · hover a record for its interval and games needed
+                        </span>
                     </div>
 
                     {allModels.length === 0 ? (
@@ -317,7 +462,7 @@ export const Dashboard: React.FC<DashboardProps> = ({ onBack, onPlay, onModelCli
                                                         {record === null ? (
                                                             <span className="text-gray-700">—</span>
                                                         ) : (
-                                                            <span className={`font-mono font-bold ${getRecordColor(row, col)}`}>
+                                                            <span className={`font-mono font-bold ${getRecordColor(row, col)}`} title={getRecordTitle(row, col)}>
                                                                 {record}
                                                             </span>
                                                         )}
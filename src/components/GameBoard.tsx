@@ -5,7 +5,10 @@ import { motion, AnimatePresence } from 'motion/react';
 
 interface GameBoardProps {
   gameState: GameState;
-  onBid: (value: number) => void;
+  onBid: (value: number, blind?: boolean) => void;
+  blindBidOptions: number[] | null; // set while the human's hand is face down
+  legalBids: number[];              // bids the engine will accept from the human
+  onRevealHand: () => void;
   onPlay: (cardId: string) => void;
   isHumanTurn: boolean;
   logs: string[];
@@ -17,7 +20,7 @@ interface GameBoardProps {
 const SUIT_SYMBOLS: Record<string, string> = { 'S': '♠', 'H': '♥', 'D': '♦', 'C': '♣' };
 const SUIT_COLORS: Record<string, string> = { 'S': 'text-white', 'H': 'text-red-400', 'D': 'text-red-400', 'C': 'text-white' };
 
-export const GameBoard: React.FC<GameBoardProps> = ({ gameState, onBid, onPlay, isHumanTurn, logs, isPaused, onTogglePause, onQuitGame }) => {
+export const GameBoard: React.FC<GameBoardProps> = ({ gameState, onBid, blindBidOptions, legalBids, onRevealHand, onPlay, isHumanTurn, logs, isPaused, onTogglePause, onQuitGame }) => {
   const [bidValue, setBidValue] = useState(1);
   const [showCards, setShowCards] = useState([true, false, false, false]);
 
@@ -75,7 +78,8 @@ export const GameBoard: React.FC<GameBoardProps> = ({ gameState, onBid, onPlay,
   const renderPlayerInfo = (seat: number) => {
     const player = getPlayer(seat);
     const isTurn = gameState.currentTurn === seat;
-    const shouldShowCards = showCards[seat];
+    const isFaceDown = isTurn && isHumanTurn && !!blindBidOptions;
+    const shouldShowCards = showCards[seat] && !isFaceDown;
 
     return (
       <div className={`flex flex-col items-center p-3 rounded-lg ${isTurn ? 'bg-yellow-100/20 ring-2 ring-yellow-400' : 'bg-black/40'} text-white backdrop-blur-sm max-w-[280px] min-w-0`}>
@@ -83,14 +87,14 @@ export const GameBoard: React.FC<GameBoardProps> = ({ gameState, onBid, onPlay,
           {player.name}
         </div>
         <div className="text-sm">
-          Bid: {player.bid !== null ? player.bid : '-'} | Won: {player.tricksWon}
+          Bid: {player.bid !== null ? `${player.blind ? 'B' : ''}${player.bid}` : '-'} | Won: {player.tricksWon}
         </div>
         {/* Cards as text or just a count */}
         {shouldShowCards ? (
           renderCardText(player.hand, seat)
         ) : (
           <div className="mt-1 text-sm text-white/50">
-            🃏 {player.hand.length} cards
+            🃏 {player.hand.length} cards{isFaceDown ? ' (face down)' : ''}
           </div>
         )}
       </div>
@@ -100,6 +104,42 @@ export const GameBoard: React.FC<GameBoardProps> = ({ gameState, onBid, onPlay,
   const renderBiddingControls = () => {
     if (gameState.phase !== 'bidding' || !isHumanTurn) return null;
 
+    // Team is trailing: offer a blind bid before the hand is turned up
+    if (blindBidOptions) {
+      return (
+        <div className="absolute inset-0 flex items-center justify-center bg-black/60 z-50">
+          <div className="bg-white p-8 rounded-xl shadow-2xl flex flex-col items-center gap-5 max-w-md">
+            <h2 className="text-3xl font-bold">Bid Blind?</h2>
+            <div className="text-base text-gray-500 text-center">
+              Your team is behind. Bid before looking at your cards for double points.
+            </div>
+            <div className="flex flex-wrap justify-center gap-2">
+              {blindBidOptions.map(value => (
+                <button
+                  key={value}
+                  onClick={() => onBid(value, true)}
+                  className="px-4 py-2 bg-purple-600 text-white rounded-lg font-bold hover:bg-purple-700 shadow"
+                >
+                  {value === 0 ? 'Blind Nil' : `Blind ${value}`}
+                </button>
+              ))}
+            </div>
+            <button
+              onClick={onRevealHand}
+              className="px-8 py-3 bg-blue-600 text-white rounded-lg font-bold text-lg hover:bg-blue-700 shadow-lg"
+            >
+              Look at My Cards
+            </button>
+            <div className="text-base text-gray-500">
+              (Blind Nil ±200, Blind N scores 20 per trick)
+            </div>
+          </div>
+        </div>
+      );
+    }
+
+    const isLegalBid = legalBids.length === 0 || legalBids.includes(bidValue);
+
     return (
       <div className="absolute inset-0 flex items-center justify-center bg-black/60 z-50">
         <div className="bg-white p-8 rounded-xl shadow-2xl flex flex-col items-center gap-5">
@@ -117,10 +157,16 @@ export const GameBoard: React.FC<GameBoardProps> = ({ gameState, onBid, onPlay,
           </div>
           <button
             onClick={() => onBid(bidValue)}
-            className="px-8 py-3 bg-blue-600 text-white rounded-lg font-bold text-lg hover:bg-blue-700 shadow-lg"
+            disabled={!isLegalBid}
+            className="px-8 py-3 bg-blue-600 text-white rounded-lg font-bold text-lg hover:bg-blue-700 shadow-lg disabled:opacity-40 disabled:cursor-not-allowed"
           >
             Place Bid
           </button>
+          {!isLegalBid && (
+            <div className="text-sm text-red-600">
+              Team minimum: bid at least {Math.min(...legalBids.filter(v => v > 0))}.
+            </div>
+          )}
           <div className="text-base text-gray-500">
             (0 is Nil - 100 points bonus/penalty)
           </div>
@@ -1,11 +1,17 @@
 import React, { useState, useEffect, useRef, useCallback } from 'react';
 import { GameConfig } from '../engine/types';
+import { VariantId, VARIANTS, VARIANT_IDS } from '../engine/variant';
+import { defaultHouseRules } from '../engine/houseRules';
+import { DEFAULT_TIME_CONTROL, TimeoutPolicy } from '../engine/timeControl';
+import { SavedMatch, loadSavedMatch } from '../engine/matchStore';
 import { motion } from 'motion/react';
 import { SettingsModal } from './SettingsModal';
 import { Settings as SettingsIcon } from 'lucide-react';
+import { DEFAULT_LOCAL_URL, listLocalModels } from '../agents/local_agent';
 
 interface GameSetupProps {
   onStart: (config: GameConfig) => void;
+  onResume?: (saved: SavedMatch) => void;
   onLeaderboard?: () => void;
   onTournament?: () => void;
 }
@@ -34,9 +40,18 @@ const OPENAI_MODELS = [
   { id: 'gpt-4o-mini', name: 'GPT-4o Mini' },
 ];
 
-export const GameSetup: React.FC<GameSetupProps> = ({ onStart, onLeaderboard, onTournament }) => {
-  const [variant, setVariant] = useState<'standard' | 'jokers'>('standard');
+export const GameSetup: React.FC<GameSetupProps> = ({ onStart, onResume, onLeaderboard, onTournament }) => {
+  const [savedMatch] = useState<SavedMatch | null>(() => loadSavedMatch());
+  const [variant, setVariant] = useState<VariantId>('standard');
   const [targetScore, setTargetScore] = useState<number>(500);
+  const [seed, setSeed] = useState<string>('');
+  const [duplicate, setDuplicate] = useState(false);
+  const [blindNil, setBlindNil] = useState(false);
+  const [spadesAlwaysLead, setSpadesAlwaysLead] = useState(false);
+  const [minimumTeamBid, setMinimumTeamBid] = useState<string>(''); // '' = variant default
+  const [decisionSeconds, setDecisionSeconds] = useState(DEFAULT_TIME_CONTROL.decisionMs / 1000);
+  const [clockMinutes, setClockMinutes] = useState(0); // 0 = no chess clock
+  const [timeoutPolicy, setTimeoutPolicy] = useState<TimeoutPolicy>(DEFAULT_TIME_CONTROL.policy);
   const [isSettingsOpen, setIsSettingsOpen] = useState(false);
 
   // Players organized by Team
@@ -55,8 +70,36 @@ export const GameSetup: React.FC<GameSetupProps> = ({ onStart, onLeaderboard, on
     setPlayers(newPlayers);
   };
 
+  // Models each local endpoint serves, by base URL; a string is the discovery error
+  const [localModels, setLocalModels] = useState<Record<string, string[] | string>>({});
+  const discoverLocalModels = async (url: string) => {
+    try {
+      const models = await listLocalModels(url);
+      setLocalModels(prev => ({ ...prev, [url]: models.length > 0 ? models : 'The endpoint lists no models' }));
+    } catch (e) {
+      setLocalModels(prev => ({ ...prev, [url]: e instanceof Error ? e.message : String(e) }));
+    }
+  };
+
   const handleStart = () => {
-    onStart({ variant, players, targetScore });
+    const parsedSeed = parseInt(seed, 10);
+    onStart({
+      variant,
+      players,
+      targetScore,
+      seed: Number.isNaN(parsedSeed) ? undefined : parsedSeed,
+      duplicate: duplicate ? { id: crypto.randomUUID(), table: 'A' } : undefined,
+      enableBlindNil: blindNil,
+      houseRules: {
+        spadesLeadPolicy: spadesAlwaysLead ? 'always_allowed' : 'must_be_broken',
+        minimumTeamBid: minimumTeamBid === '' ? undefined : parseInt(minimumTeamBid, 10),
+      },
+      timeControl: {
+        decisionMs: decisionSeconds * 1000,
+        clockMs: clockMinutes > 0 ? clockMinutes * 60_000 : undefined,
+        policy: timeoutPolicy,
+      },
+    });
   };
 
   // ─── Auto-start countdown (60s idle) ─────────────────
@@ -73,9 +116,14 @@ export const GameSetup: React.FC<GameSetupProps> = ({ onStart, onLeaderboard, on
   const autoStart = useCallback(() => {
     if (hasAutoStarted.current) return;
     hasAutoStarted.current = true;
+    // An interrupted match takes priority over a fresh one
+    if (savedMatch && onResume) {
+      onResume(savedMatch);
+      return;
+    }
     // TODO: Check for tournament schedule here — if tournament exists, defer to it
     const autoConfig: GameConfig = {
-      variant: 'jokers',
+      variant: 'jja',
       targetScore: 250,
       players: [
         { seat: 0, type: 'bot', model: 'heuristic', name: 'Alpha (T1)' },
@@ -85,7 +133,7 @@ export const GameSetup: React.FC<GameSetupProps> = ({ onStart, onLeaderboard, on
       ],
     };
     onStart(autoConfig);
-  }, [onStart]);
+  }, [onStart, onResume, savedMatch]);
 
   // Reset countdown on any interaction
   const resetCountdown = useCallback(() => {
@@ -148,6 +196,7 @@ export const GameSetup: React.FC<GameSetupProps> = ({ onStart, onLeaderboard, on
               className="bg-white border border-gray-300 rounded px-2 py-1 text-sm"
             >
               <option value="heuristic">Heuristic (Rule-based)</option>
+              <option value="strong-heuristic">Strong Heuristic (Card counting)</option>
               <option value="random">Random (Baseline)</option>
               <optgroup label="Direct providers">
                 <option value="anthropic">Anthropic (Claude)</option>
@@ -158,6 +207,9 @@ export const GameSetup: React.FC<GameSetupProps> = ({ onStart, onLeaderboard, on
               <optgroup label="Gateway">
                 <option value="openrouter">OpenRouter (multi-model)</option>
               </optgroup>
+              <optgroup label="Self-hosted">
+                <option value="local">Local (OpenAI-compatible)</option>
+              </optgroup>
             </select>
 
             {player.model === 'openrouter' && (
@@ -195,6 +247,52 @@ export const GameSetup: React.FC<GameSetupProps> = ({ onStart, onLeaderboard, on
                 ))}
               </select>
             )}
+
+            {player.model === 'local' && (() => {
+              const url = player.local_url || DEFAULT_LOCAL_URL;
+              const found = localModels[url];
+              return (
+                <>
+                  <div className="flex gap-1">
+                    <input
+                      type="text"
+                      value={url}
+                      onChange={(e) => updatePlayer(seat, 'local_url', e.target.value)}
+                      className="flex-1 min-w-0 bg-white border border-gray-300 rounded px-2 py-1 text-xs font-mono"
+                      placeholder={DEFAULT_LOCAL_URL}
+                    />
+                    <button
+                      onClick={() => discoverLocalModels(url)}
+                      className="px-2 py-1 text-xs bg-gray-100 hover:bg-gray-200 border border-gray-300 rounded"
+                      title="List the endpoint's models (GET /v1/models)"
+                    >
+                      Discover
+                    </button>
+                  </div>
+                  {Array.isArray(found) ? (
+                    <select
+                      value={player.local_model || ''}
+                      onChange={(e) => updatePlayer(seat, 'local_model', e.target.value)}
+                      className="bg-white border border-gray-300 rounded px-2 py-1 text-xs"
+                    >
+                      <option value="" disabled>Choose a model</option>
+                      {found.map(id => (
+                        <option key={id} value={id}>{id}</option>
+                      ))}
+                    </select>
+                  ) : (
+                    <input
+                      type="text"
+                      value={player.local_model || ''}
+                      onChange={(e) => updatePlayer(seat, 'local_model', e.target.value)}
+                      className="bg-white border border-gray-300 rounded px-2 py-1 text-xs font-mono"
+                      placeholder="Model, e.g. llama3.1:8b"
+                    />
+                  )}
+                  {typeof found === 'string' && <div className="text-xs text-red-500">{found}</div>}
+                </>
+              );
+            })()}
           </>
         )}
       </div>
@@ -246,26 +344,19 @@ export const GameSetup: React.FC<GameSetupProps> = ({ onStart, onLeaderboard, on
             <div>
               <label className="block text-sm font-medium text-gray-700 mb-2">Variant</label>
               <div className="flex flex-col gap-2">
-                <button
-                  onClick={() => setVariant('standard')}
-                  className={`py-2 px-4 rounded-lg border-2 text-left transition-all ${variant === 'standard'
-                    ? 'border-blue-500 bg-blue-50 text-blue-700 font-bold'
-                    : 'border-gray-200 hover:border-gray-300 text-gray-600'
-                    }`}
-                >
-                  Standard (52 Cards)
-                  <div className="text-xs font-normal opacity-75">Classic Spades. Ace is high.</div>
-                </button>
-                <button
-                  onClick={() => setVariant('jokers')}
-                  className={`py-2 px-4 rounded-lg border-2 text-left transition-all ${variant === 'jokers'
-                    ? 'border-blue-500 bg-blue-50 text-blue-700 font-bold'
-                    : 'border-gray-200 hover:border-gray-300 text-gray-600'
-                    }`}
-                >
-                  Jokers (Big/Little)
-                  <div className="text-xs font-normal opacity-75">Includes Big & Little Jokers.</div>
-                </button>
+                {VARIANT_IDS.map(id => (
+                  <button
+                    key={id}
+                    onClick={() => setVariant(id)}
+                    className={`py-2 px-4 rounded-lg border-2 text-left transition-all ${variant === id
+                      ? 'border-blue-500 bg-blue-50 text-blue-700 font-bold'
+                      : 'border-gray-200 hover:border-gray-300 text-gray-600'
+                      }`}
+                  >
+                    {VARIANTS[id].label}
+                    <div className="text-xs font-normal opacity-75">{VARIANTS[id].description}</div>
+                  </button>
+                ))}
               </div>
             </div>
 
@@ -287,9 +378,105 @@ export const GameSetup: React.FC<GameSetupProps> = ({ onStart, onLeaderboard, on
               </div>
             </div>
 
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Deal Seed</label>
+              <input
+                type="text"
+                inputMode="numeric"
+                value={seed}
+                onChange={(e) => setSeed(e.target.value.replace(/[^0-9]/g, ''))}
+                className="w-full bg-white border border-gray-300 rounded px-2 py-1 text-sm font-mono"
+                placeholder="Random"
+              />
+              <div className="text-xs text-gray-500 mt-1">Reuse a game's seed to replay the same cards.</div>
+            </div>
+
+            <div>
+              <label className="flex items-center gap-2 text-sm font-medium text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={duplicate}
+                  onChange={(e) => setDuplicate(e.target.checked)}
+                />
+                Duplicate Match
+              </label>
+              <div className="text-xs text-gray-500 mt-1">Plays the same deals twice with the teams swapped, so card luck cancels out.</div>
+            </div>
+
+            <div>
+              <label className="flex items-center gap-2 text-sm font-medium text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={blindNil}
+                  onChange={(e) => setBlindNil(e.target.checked)}
+                />
+                Blind Bids
+              </label>
+              <div className="text-xs text-gray-500 mt-1">A team trailing by 100+ may bid Blind Nil (or Blind 6–13 in JJA/JJDD) before seeing its cards.</div>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">House Rules</label>
+              <label className="flex items-center gap-2 text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={spadesAlwaysLead}
+                  onChange={(e) => setSpadesAlwaysLead(e.target.checked)}
+                />
+                Spades may be led before broken
+              </label>
+              <div className="flex items-center gap-2 mt-2 text-sm text-gray-700">
+                <span>Minimum team bid</span>
+                <input
+                  type="text"
+                  inputMode="numeric"
+                  value={minimumTeamBid}
+                  onChange={(e) => setMinimumTeamBid(e.target.value.replace(/[^0-9]/g, '').slice(0, 2))}
+                  className="w-16 bg-white border border-gray-300 rounded px-2 py-1 text-sm font-mono"
+                  placeholder={String(defaultHouseRules(variant).minimumTeamBid)}
+                />
+              </div>
+              <div className="text-xs text-gray-500 mt-1">Partners' bids must add up to at least this. Blank uses the variant default.</div>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Time Control</label>
+              <div className="grid grid-cols-[auto_1fr] items-center gap-x-2 gap-y-2 text-sm text-gray-700">
+                <span>Per decision</span>
+                <select
+                  value={decisionSeconds}
+                  onChange={(e) => setDecisionSeconds(parseInt(e.target.value, 10))}
+                  className="bg-white border border-gray-300 rounded px-2 py-1 text-sm"
+                >
+                  {[15, 30, 60, 90, 180].map(s => <option key={s} value={s}>{s < 60 ? `${s} s` : `${s / 60} min`}</option>)}
+                </select>
+                <span>Chess clock</span>
+                <select
+                  value={clockMinutes}
+                  onChange={(e) => setClockMinutes(parseInt(e.target.value, 10))}
+                  className="bg-white border border-gray-300 rounded px-2 py-1 text-sm"
+                >
+                  <option value={0}>Off</option>
+                  {[5, 10, 20, 40].map(m => <option key={m} value={m}>{m} min per seat</option>)}
+                </select>
+                <span>On timeout</span>
+                <select
+                  value={timeoutPolicy}
+                  onChange={(e) => setTimeoutPolicy(e.target.value as TimeoutPolicy)}
+                  className="bg-white border border-gray-300 rounded px-2 py-1 text-sm"
+                >
+                  <option value="heuristic">Heuristic move</option>
+                  <option value="random">Random legal move</option>
+                  <option value="forfeit">Forfeit the trick</option>
+                </select>
+              </div>
+              <div className="text-xs text-gray-500 mt-1">A bot that overruns its limit, or its clock, is replaced for that decision. Humans are never timed.</div>
+            </div>
+
             <div className="pt-4 border-t text-sm text-gray-600 space-y-2">
               <p><strong>Heuristic:</strong> Rule-based logic. Fast and consistent baseline.</p>
               <p><strong>Random:</strong> Plays completely randomly. Useful for testing.</p>
+              <p><strong>Local:</strong> Any OpenAI-compatible server — Ollama, llama.cpp, vLLM, or <code>npm run mock-llm</code>.</p>
             </div>
           </div>
 
@@ -312,6 +499,18 @@ export const GameSetup: React.FC<GameSetupProps> = ({ onStart, onLeaderboard, on
         </div>
 
         <div className="mt-10 flex justify-center gap-4">
+          {savedMatch && onResume && (
+            <button
+              onClick={() => onResume(savedMatch)}
+              className="px-8 py-4 bg-blue-600 text-white text-xl font-bold rounded-xl shadow-lg hover:bg-blue-700 transform hover:scale-105 transition-all"
+              title={`Saved ${new Date(savedMatch.savedAt).toLocaleString()}`}
+            >
+              Resume Match
+              <div className="text-xs font-normal opacity-80">
+                Hand {savedMatch.engine.state.handNumber} · T1 {savedMatch.engine.state.teams.team1.score} – T2 {savedMatch.engine.state.teams.team2.score}
+              </div>
+            </button>
+          )}
           <button
             onClick={handleStart}
             className="px-12 py-4 bg-green-600 text-white text-xl font-bold rounded-xl shadow-lg hover:bg-green-700 transform hover:scale-105 transition-all"
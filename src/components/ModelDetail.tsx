@@ -1,17 +1,55 @@
-import React, { useMemo } from 'react';
+import React, { useEffect, useMemo, useState } from 'react';
 import { motion } from 'motion/react';
-import { getModelResults, getLeaderboard, getMatchups } from '../engine/resultsStore';
+import { getModelResults, getModelSeatMetrics, getLeaderboard, getMatchups } from '../engine/resultsStore';
+import type { ModelMetrics } from '../benchmark/metrics';
+import { ratingInterval } from '../engine/ratings';
+import { matchupSignificance } from '../engine/significance';
+import { RatingChart } from './RatingChart';
+import { DecisionQuery, DecisionRecord, findDecisions } from '../engine/decisionStore';
+import type { FallbackKind } from '../engine/events';
+import { DataSource } from '../engine/dataSource';
+import { SourceFilter } from './SourceFilter';
+
+// Matching decisions listed at once; narrow the search to see the rest
+const MAX_DECISIONS_SHOWN = 50;
+
+const SEAT_LABELS = ['South', 'West', 'North', 'East'];
+
+const pct = (x: number) => `${Math.round(x * 100)}%`;
+const signed = (x: number) => `${x > 0 ? '+' : ''}${x.toFixed(2)}`;
+
+// Hand-level metrics, in display order; nil success and latency read '—' without data
+const METRIC_COLUMNS: { label: string; title: string; format: (m: ModelMetrics) => string }[] = [
+    { label: 'Bid Accuracy', title: "1 - mean |tricks won - bid| / 13 over the model's own bids", format: m => pct(m.bidAccuracy) },
+    { label: 'Bid Bias', title: 'Mean bid minus tricks won, nil bids excluded: positive overbids, negative underbids', format: m => signed(m.bidBias) },
+    { label: 'Nil Success', title: 'Nil bids that took no trick', format: m => m.nilBids > 0 ? `${pct(m.nilSuccessRate)} of ${m.nilBids}` : '—' },
+    { label: 'Set Rate', title: "Hands the model's team was set", format: m => pct(m.setRate) },
+    { label: 'Bags/Hand', title: "The model's team's bags per hand", format: m => m.bagsPerHand.toFixed(2) },
+    { label: 'Bag Efficiency', title: "1 - bags / tricks won, for the model's team", format: m => pct(m.bagEfficiency) },
+    { label: 'Avg Latency', title: 'Mean time to decide a bid or play', format: m => m.avgLatencyMs !== null ? `${Math.round(m.avgLatencyMs)} ms` : '—' },
+    { label: 'Fallback Rate', title: 'Decisions substituted after an agent error, illegal move or timeout', format: m => m.decisions > 0 ? pct(m.fallbackRate) : '—' },
+    { label: 'Timeout Rate', title: 'Decisions that ran out of time (per-decision limit or game clock)', format: m => m.decisions > 0 ? pct(m.timeoutRate) : '—' },
+];
+
+const FALLBACK_TITLES: Record<FallbackKind, string> = {
+    agent: 'The agent gave up after errors and substituted a default',
+    illegal: 'The engine rejected the action and substituted a default',
+    timeout: 'The agent ran out of time; the table\'s timeout policy decided',
+};
 
 interface ModelDetailProps {
     modelName: string;
+    sources: DataSource[];
+    onSourcesChange: (sources: DataSource[]) => void;
     onBack: () => void;
     onPlay?: () => void;
 }
 
-export const ModelDetail: React.FC<ModelDetailProps> = ({ modelName, onBack, onPlay }) => {
-    const results = useMemo(() => getModelResults(modelName), [modelName]);
-    const leaderboard = useMemo(() => getLeaderboard(), []);
-    const matchups = useMemo(() => getMatchups(), []);
+export const ModelDetail: React.FC<ModelDetailProps> = ({ modelName, sources, onSourcesChange, onBack, onPlay }) => {
+    const results = useMemo(() => getModelResults(modelName, sources), [modelName, sources]);
+    const leaderboard = useMemo(() => getLeaderboard(sources), [sources]);
+    const matchups = useMemo(() => getMatchups(sources), [sources]);
+    const seatMetrics = useMemo(() => getModelSeatMetrics(modelName, sources), [modelName, sources]);
 
     const stats = leaderboard.find(s => s.model === modelName);
     const winRate = stats && stats.gamesPlayed > 0 ? Math.round((stats.wins / stats.gamesPlayed) * 100) : 0;
@@ -33,6 +71,18 @@ export const ModelDetail: React.FC<ModelDetailProps> = ({ modelName, onBack, onP
     // Recent games (last 10)
     const recentGames = results.slice(-10).reverse();
 
+    // Per-decision reasoning, searchable
+    const [query, setQuery] = useState<DecisionQuery>({});
+    const [matchingDecisions, setMatchingDecisions] = useState<DecisionRecord[]>([]);
+    useEffect(() => {
+        let current = true;
+        findDecisions(modelName, query)
+            .then(found => { if (current) setMatchingDecisions(found); })
+            .catch(e => console.error('Failed to load decisions:', e));
+        return () => { current = false; };
+    }, [modelName, query]);
+    const isFiltered = !!(query.text?.trim() || query.kind || query.fallbackOnly);
+
     return (
         <div className="h-screen flex flex-col bg-[#0f1923] text-white overflow-hidden">
             {/* ── Top Nav ──────────────────────────────────── */}
@@ -58,6 +108,9 @@ export const ModelDetail: React.FC<ModelDetailProps> = ({ modelName, onBack, onP
                     </button>
                 </div>
             </nav>
+            <div className="flex justify-end px-6 py-2 border-b border-white/10 shrink-0">
+                <SourceFilter sources={sources} onChange={onSourcesChange} />
+            </div>
 
             {/* ── Scrollable Content ───────────────────────── */}
             <div className="flex-1 overflow-y-auto subtle-scroll p-6 space-y-4">
@@ -72,9 +125,19 @@ export const ModelDetail: React.FC<ModelDetailProps> = ({ modelName, onBack, onP
                             <h1 className="text-2xl font-bold">{modelName}</h1>
                             <p className="text-sm text-gray-400 mt-1">Model Performance Overview</p>
                         </div>
-                        <div className="text-right">
-                            <div className="text-3xl font-bold text-green-400">{winRate}%</div>
-                            <div className="text-xs text-gray-500">Win Rate</div>
+                        <div className="flex gap-8 text-right">
+                            {stats && (
+                                <div title={`95% interval ${ratingInterval(stats.rating).map(v => v.toFixed(1)).join(' – ')}`}>
+                                    <div className="text-3xl font-bold text-yellow-300">
+                                        {stats.rating.mu.toFixed(1)}<span className="text-base text-gray-500"> ±{(2 * stats.rating.sigma).toFixed(1)}</span>
+                                    </div>
+                                    <div className="text-xs text-gray-500">Rating · #{leaderboard.indexOf(stats) + 1} of {leaderboard.length}</div>
+                                </div>
+                            )}
+                            <div>
+                                <div className="text-3xl font-bold text-green-400">{winRate}%</div>
+                                <div className="text-xs text-gray-500">Win Rate</div>
+                            </div>
                         </div>
                     </div>
                 </motion.div>
@@ -102,6 +165,28 @@ export const ModelDetail: React.FC<ModelDetailProps> = ({ modelName, onBack, onP
                     ))}
                 </div>
 
+                {/* Rating History */}
+                {stats && stats.rating.history.length > 0 && (
+                    <motion.div
+                        initial={{ opacity: 0, y: 10 }}
+                        animate={{ opacity: 1, y: 0 }}
+                        transition={{ delay: 0.15 }}
+                        className="bg-[#162029] border border-white/10 rounded-xl p-4"
+                    >
+                        <h2 className="text-sm font-bold mb-3 flex items-center gap-2">
+                            <span>🏅</span> Rating History
+                            <span className="text-xs font-normal text-gray-500">
+                                {stats.rating.games} rated games · shaded band is the 95% interval
+                            </span>
+                        </h2>
+                        <RatingChart history={stats.rating.history} width={720} height={140} />
+                        <div className="flex justify-between text-[10px] text-gray-600 mt-1 max-w-[720px]">
+                            <span>{new Date(stats.rating.history[0].date).toLocaleDateString()}</span>
+                            <span>{new Date(stats.rating.history[stats.rating.history.length - 1].date).toLocaleDateString()}</span>
+                        </div>
+                    </motion.div>
+                )}
+
                 {/* Two Columns: H2H + Recent Games */}
                 <div className="grid grid-cols-2 gap-4">
                     {/* Head-to-Head Records */}
@@ -118,14 +203,22 @@ export const ModelDetail: React.FC<ModelDetailProps> = ({ modelName, onBack, onP
                             <div className="text-sm text-gray-600 text-center py-4">No matchup data</div>
                         ) : (
                             <div className="space-y-1">
-                                {h2h.map(r => (
-                                    <div key={r.opponent} className="flex items-center justify-between bg-white/5 rounded px-3 py-2">
-                                        <span className="text-sm truncate flex-1">{r.opponent}</span>
-                                        <span className={`text-sm font-bold font-mono ${r.wins > r.losses ? 'text-green-400' : r.wins < r.losses ? 'text-red-400' : 'text-yellow-400'}`}>
-                                            {r.wins}-{r.losses}
-                                        </span>
-                                    </div>
-                                ))}
+                                {h2h.map(r => {
+                                    const sig = matchupSignificance(r.wins, r.wins + r.losses);
+                                    const color = !sig.significant ? 'text-gray-500' : r.wins > r.losses ? 'text-green-400' : 'text-red-400';
+                                    return (
+                                        <div key={r.opponent} className="flex items-center justify-between bg-white/5 rounded px-3 py-2">
+                                            <span className="text-sm truncate flex-1">{r.opponent}</span>
+                                            <span className="text-[10px] text-gray-500 mr-2" title="Exact binomial test against an even matchup">
+                                                p = {sig.pValue.toFixed(2)}
+                                                {!sig.significant && sig.gamesNeeded !== null && ` · ~${sig.gamesNeeded} more games`}
+                                            </span>
+                                            <span className={`text-sm font-bold font-mono ${color}`}>
+                                                {r.wins}-{r.losses}
+                                            </span>
+                                        </div>
+                                    );
+                                })}
                             </div>
                         )}
                     </motion.div>
@@ -156,6 +249,9 @@ export const ModelDetail: React.FC<ModelDetailProps> = ({ modelName, onBack, onP
                                                 {won ? 'W' : 'L'}
                                             </span>
                                             <span className="text-xs text-gray-400 flex-1 mx-2 truncate">vs {opponents.join(', ')}</span>
+                                            {g.seed !== undefined && (
+                                                <span className="text-[10px] font-mono text-gray-600 mr-2" title="Deal seed">#{g.seed}</span>
+                                            )}
                                             <span className="text-xs font-mono text-gray-300">{myScore}-{oppScore}</span>
                                         </div>
                                     );
@@ -165,37 +261,132 @@ export const ModelDetail: React.FC<ModelDetailProps> = ({ modelName, onBack, onP
                     </motion.div>
                 </div>
 
-                {/* ── Premium Section (Paywall) ──────────────── */}
+                {/* Decisions */}
                 <motion.div
                     initial={{ opacity: 0, y: 10 }}
                     animate={{ opacity: 1, y: 0 }}
                     transition={{ delay: 0.3 }}
-                    className="bg-[#162029] border border-yellow-500/20 rounded-xl p-6 relative overflow-hidden"
+                    className="bg-[#162029] border border-white/10 rounded-xl p-4"
                 >
-                    {/* Blur overlay */}
-                    <div className="absolute inset-0 bg-[#162029]/80 backdrop-blur-sm z-10 flex flex-col items-center justify-center">
-                        <span className="text-4xl mb-2">🔒</span>
-                        <h3 className="text-lg font-bold text-yellow-300">Advanced Analytics</h3>
-                        <p className="text-sm text-gray-400 mt-1 text-center max-w-sm">
-                            Unlock bid accuracy, nil success rates, partner synergy scores, and more.
-                        </p>
-                        <button className="mt-4 px-6 py-2 bg-yellow-500 text-black font-bold rounded-lg text-sm hover:bg-yellow-400 transition-colors">
-                            Subscribe for Premium
-                        </button>
+                    <div className="flex items-center justify-between gap-3 mb-3">
+                        <h2 className="text-sm font-bold flex items-center gap-2">
+                            <span>🧠</span> Decisions
+                            <span className="text-xs font-normal text-gray-500">{matchingDecisions.length}</span>
+                        </h2>
+                        <div className="flex items-center gap-2">
+                            <input
+                                type="search"
+                                placeholder="Search reasoning or card…"
+                                value={query.text ?? ''}
+                                onChange={(e) => setQuery(q => ({ ...q, text: e.target.value }))}
+                                className="bg-white/5 border border-white/10 rounded px-2 py-1 text-xs w-56 focus:outline-none focus:border-green-400"
+                            />
+                            <select
+                                value={query.kind ?? ''}
+                                onChange={(e) => setQuery(q => ({ ...q, kind: (e.target.value || undefined) as DecisionQuery['kind'] }))}
+                                className="bg-white/5 border border-white/10 rounded px-2 py-1 text-xs"
+                            >
+                                <option value="">Bids & plays</option>
+                                <option value="bid">Bids</option>
+                                <option value="play">Plays</option>
+                            </select>
+                            <label className="flex items-center gap-1 text-xs text-gray-400">
+                                <input
+                                    type="checkbox"
+                                    checked={!!query.fallbackOnly}
+                                    onChange={(e) => setQuery(q => ({ ...q, fallbackOnly: e.target.checked }))}
+                                />
+                                Fallbacks only
+                            </label>
+                        </div>
                     </div>
-
-                    {/* Blurred content behind */}
-                    <div className="opacity-30">
-                        <h2 className="text-sm font-bold mb-3">Advanced Metrics</h2>
-                        <div className="grid grid-cols-3 gap-3">
-                            {['Bid Accuracy', 'Nil Success Rate', 'Overtrick Tendency', 'Partner Synergy', 'Avg Tricks/Hand', 'Bag Rate'].map(metric => (
-                                <div key={metric} className="bg-white/5 rounded-lg p-3">
-                                    <div className="text-xs text-gray-500">{metric}</div>
-                                    <div className="text-xl font-bold text-gray-400 mt-1">--</div>
+                    {matchingDecisions.length === 0 ? (
+                        <div className="text-sm text-gray-600 text-center py-4">
+                            {isFiltered ? 'No decisions match' : 'No recorded decisions'}
+                        </div>
+                    ) : (
+                        <div className="space-y-1">
+                            {matchingDecisions.slice(0, MAX_DECISIONS_SHOWN).map(d => (
+                                <div key={`${d.gameId}:${d.handNumber}:${d.trickNumber}:${d.seat}:${d.kind}`} className="bg-white/5 rounded px-3 py-2">
+                                    <div className="flex items-center gap-2 text-xs">
+                                        <span className="text-gray-500 font-mono">
+                                            {new Date(d.date).toLocaleDateString()} · H{d.handNumber} {d.kind === 'bid' ? 'bid' : `T${d.trickNumber}`} · seat {d.seat}
+                                        </span>
+                                        <span className="font-bold text-white">{d.action}</span>
+                                        {d.fallback && (
+                                            <span className="px-1.5 py-0.5 rounded bg-red-500/20 text-red-400 font-bold" title={d.fallbackKind && FALLBACK_TITLES[d.fallbackKind]}>
+                                                {d.fallbackKind === 'timeout' ? 'timeout' : 'fallback'}
+                                            </span>
+                                        )}
+                                        <span className="flex-1" />
+                                        {d.latencyMs !== undefined && (
+                                            <span className="text-gray-600 font-mono">{(d.latencyMs / 1000).toFixed(1)}s</span>
+                                        )}
+                                        <span className="text-[10px] font-mono text-gray-600" title="Observation hash">{d.observationHash}</span>
+                                    </div>
+                                    {d.reasoning && (
+                                        <div className="text-xs text-gray-300 mt-1 whitespace-pre-wrap">{d.reasoning}</div>
+                                    )}
                                 </div>
                             ))}
+                            {matchingDecisions.length > MAX_DECISIONS_SHOWN && (
+                                <div className="text-xs text-gray-600 text-center pt-1">
+                                    Showing the newest {MAX_DECISIONS_SHOWN} — refine the search to see more
+                                </div>
+                            )}
                         </div>
-                    </div>
+                    )}
+                </motion.div>
+
+                {/* ── Premium Section (Paywall) ──────────────── */}
+                {/* Advanced Metrics */}
+                <motion.div
+                    initial={{ opacity: 0, y: 10 }}
+                    animate={{ opacity: 1, y: 0 }}
+                    transition={{ delay: 0.35 }}
+                    className="bg-[#162029] border border-white/10 rounded-xl p-4"
+                >
+                    <h2 className="text-sm font-bold mb-3 flex items-center gap-2">
+                        <span>📈</span> Advanced Metrics
+                        {stats?.hands && <span className="text-xs font-normal text-gray-500">{stats.hands.hands} seat-hands</span>}
+                    </h2>
+                    {!stats?.hands ? (
+                        <div className="text-sm text-gray-600 text-center py-4">No games with hand logs yet</div>
+                    ) : (
+                        <>
+                            <div className="grid grid-cols-4 gap-3">
+                                {METRIC_COLUMNS.map(col => (
+                                    <div key={col.label} className="bg-white/5 rounded-lg p-3" title={col.title}>
+                                        <div className="text-xs text-gray-500">{col.label}</div>
+                                        <div className="text-xl font-bold text-gray-200 mt-1">{col.format(stats.hands!)}</div>
+                                    </div>
+                                ))}
+                            </div>
+
+                            <table className="w-full text-xs mt-4">
+                                <thead>
+                                    <tr className="text-gray-500">
+                                        <th className="text-left font-medium py-1">Seat</th>
+                                        <th className="text-center font-medium py-1">Hands</th>
+                                        {METRIC_COLUMNS.map(col => (
+                                            <th key={col.label} className="text-center font-medium py-1" title={col.title}>{col.label}</th>
+                                        ))}
+                                    </tr>
+                                </thead>
+                                <tbody>
+                                    {seatMetrics.map(m => (
+                                        <tr key={m.seat} className="border-t border-white/5">
+                                            <td className="py-1.5 text-gray-300">{SEAT_LABELS[m.seat]}</td>
+                                            <td className="py-1.5 text-center font-mono text-gray-400">{m.hands}</td>
+                                            {METRIC_COLUMNS.map(col => (
+                                                <td key={col.label} className="py-1.5 text-center font-mono text-gray-300">{col.format(m)}</td>
+                                            ))}
+                                        </tr>
+                                    ))}
+                                </tbody>
+                            </table>
+                        </>
+                    )}
                 </motion.div>
             </div>
         </div>
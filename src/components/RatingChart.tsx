@@ -0,0 +1,44 @@
+import React from 'react';
+import { RatingPoint, DEFAULT_MU, DEFAULT_SIGMA, ratingInterval } from '../engine/ratings';
+
+interface RatingChartProps {
+  history: RatingPoint[];
+  width: number;
+  height: number;
+  compact?: boolean; // sparkline: no band, labels or axis
+}
+
+/** Rating (mu) after each game, over a shaded 95% confidence band. Starts from the default rating. */
+export const RatingChart: React.FC<RatingChartProps> = ({ history, width, height, compact }) => {
+  const points = [{ mu: DEFAULT_MU, sigma: DEFAULT_SIGMA }, ...history];
+  const bands = points.map(ratingInterval);
+  const lo = Math.min(...(compact ? points.map(p => p.mu) : bands.map(b => b[0])));
+  const hi = Math.max(...(compact ? points.map(p => p.mu) : bands.map(b => b[1])));
+  const pad = compact ? 1 : 4;
+  const x = (i: number) => pad + (i / Math.max(points.length - 1, 1)) * (width - 2 * pad);
+  const y = (v: number) => height - pad - ((v - lo) / (hi - lo || 1)) * (height - 2 * pad);
+
+  const line = points.map((p, i) => `${i === 0 ? 'M' : 'L'}${x(i).toFixed(1)},${y(p.mu).toFixed(1)}`).join(' ');
+  const band = [
+    ...bands.map((b, i) => `${i === 0 ? 'M' : 'L'}${x(i).toFixed(1)},${y(b[1]).toFixed(1)}`),
+    ...bands.map((b, i) => `L${x(i).toFixed(1)},${y(b[0]).toFixed(1)}`).reverse(),
+    'Z',
+  ].join(' ');
+  const rising = points[points.length - 1].mu >= DEFAULT_MU;
+
+  return (
+    <svg width={width} height={height} className="overflow-visible">
+      {!compact && <path d={band} className="fill-green-500/10" />}
+      {!compact && (
+        <line x1={pad} x2={width - pad} y1={y(DEFAULT_MU)} y2={y(DEFAULT_MU)} className="stroke-white/10" strokeDasharray="3 3" />
+      )}
+      <path d={line} fill="none" strokeWidth={compact ? 1.25 : 2} className={rising ? 'stroke-green-400' : 'stroke-red-400'} />
+      {!compact && (
+        <>
+          <text x={pad} y={10} className="fill-gray-500 text-[9px]">{hi.toFixed(1)}</text>
+          <text x={pad} y={height - 2} className="fill-gray-500 text-[9px]">{lo.toFixed(1)}</text>
+        </>
+      )}
+    </svg>
+  );
+};
@@ -0,0 +1,307 @@
+/**
+ * Replay — step through a recorded game one bid or card at a time, with all
+ * four hands face up and the agent's reasoning for the selected decision.
+ *
+ * A recording is the engine's event log (see engine/events.ts). The table
+ * shown at a step is GameEngine.fromEvents() over the log up to and
+ * including that decision, so it is exactly what the engine held then.
+ */
+
+import React, { useEffect, useMemo, useState } from 'react';
+import { ChevronLeft, ChevronRight, SkipBack, SkipForward, Upload } from 'lucide-react';
+import { GameEngine } from '../engine/game';
+import { GameEvent } from '../engine/events';
+import { Card as CardType } from '../engine/types';
+import { RecordedGame, getAllReplays, parseRecordedGame } from '../engine/replayStore';
+import { Card } from './Card';
+
+interface ReplayProps {
+  onBack: () => void;
+}
+
+type Decision = Extract<GameEvent, { type: 'BidMade' | 'CardPlayed' }>;
+
+interface Step {
+  eventIndex: number; // position of the decision in the log
+  hand: number;
+  trick: number;      // 0 while bidding
+}
+
+const SUIT_ORDER: Record<string, number> = { J: 0, S: 1, H: 2, C: 3, D: 4 };
+const RANK_ORDER = ['Big', 'Little', 'A', 'K', 'Q', 'J', '10', '9', '8', '7', '6', '5', '4', '3', '2'];
+const SEAT_LABELS = ['South', 'West', 'North', 'East'];
+
+function sortHand(hand: CardType[]): CardType[] {
+  return [...hand].sort((a, b) =>
+    SUIT_ORDER[a.suit] - SUIT_ORDER[b.suit] || RANK_ORDER.indexOf(a.rank) - RANK_ORDER.indexOf(b.rank));
+}
+
+/** Every bid and play in the log, tagged with its hand and trick. */
+function indexSteps(events: GameEvent[]): Step[] {
+  const steps: Step[] = [];
+  let hand = 1;
+  let tricksDone = 0;
+  events.forEach((event, eventIndex) => {
+    if (event.type === 'HandDealt') {
+      hand = event.handNumber;
+      tricksDone = 0;
+    } else if (event.type === 'TrickWon') {
+      tricksDone++;
+    } else if (event.type === 'BidMade') {
+      steps.push({ eventIndex, hand, trick: 0 });
+    } else if (event.type === 'CardPlayed') {
+      steps.push({ eventIndex, hand, trick: tricksDone + 1 });
+    }
+  });
+  return steps;
+}
+
+function describeDecision(event: Decision): string {
+  if (event.type === 'CardPlayed') return `plays ${event.card}`;
+  if (event.blind) return `bids ${event.value === 0 ? 'Blind Nil' : `Blind ${event.value}`}`;
+  return `bids ${event.value === 0 ? 'Nil' : event.value}`;
+}
+
+/** "T1 320 – T2 180" from the last scored hand, or null for an unfinished log. */
+function finalScore(events: GameEvent[]): string | null {
+  for (let i = events.length - 1; i >= 0; i--) {
+    const event = events[i];
+    if (event.type === 'HandScored') {
+      return `T1 ${event.result.team1.totalScore} – T2 ${event.result.team2.totalScore}`;
+    }
+  }
+  return null;
+}
+
+export const Replay: React.FC<ReplayProps> = ({ onBack }) => {
+  const [recordings] = useState<RecordedGame[]>(() => getAllReplays());
+  const [game, setGame] = useState<RecordedGame | null>(null);
+  const [step, setStep] = useState(0);
+  const [loadError, setLoadError] = useState<string | null>(null);
+
+  const steps = useMemo(() => (game ? indexSteps(game.events) : []), [game]);
+  const current = steps[step];
+
+  const engine = useMemo(
+    () => (game && current ? GameEngine.fromEvents(game.events.slice(0, current.eventIndex + 1)) : null),
+    [game, current],
+  );
+  const decision = game && current ? (game.events[current.eventIndex] as Decision) : null;
+
+  const lastHand = steps.length > 0 ? steps[steps.length - 1].hand : 1;
+  const lastTrick = steps.filter(s => s.hand === current?.hand).reduce((max, s) => Math.max(max, s.trick), 0);
+
+  const goTo = (index: number) => setStep(Math.max(0, Math.min(steps.length - 1, index)));
+
+  // First decision of the given hand and trick (or of the hand, if that trick never started)
+  const jumpTo = (hand: number, trick: number) => {
+    const exact = steps.findIndex(s => s.hand === hand && s.trick === trick);
+    goTo(exact >= 0 ? exact : steps.findIndex(s => s.hand === hand));
+  };
+
+  const openGame = (recording: RecordedGame) => {
+    setGame(recording);
+    setStep(0);
+    setLoadError(null);
+  };
+
+  const loadFile = async (file: File) => {
+    const recording = parseRecordedGame(await file.text());
+    if (recording) openGame(recording);
+    else setLoadError(`${file.name} is not a recorded game or saved match.`);
+  };
+
+  useEffect(() => {
+    if (!game) return;
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'ArrowRight') setStep(s => Math.min(steps.length - 1, s + 1));
+      else if (e.key === 'ArrowLeft') setStep(s => Math.max(0, s - 1));
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [game, steps.length]);
+
+  const renderSeat = (seat: number) => {
+    if (!engine || !game) return null;
+    const player = engine.state.players[seat];
+    const isActor = decision?.seat === seat;
+    const team = seat % 2 === 0 ? 'text-blue-300' : 'text-red-300';
+    return (
+      <div className={`p-3 rounded-lg ${isActor ? 'bg-yellow-100/20 ring-2 ring-yellow-400' : 'bg-black/40'} text-white max-w-[340px]`}>
+        <div className="flex items-baseline justify-between gap-3">
+          <span className={`font-bold truncate ${team}`}>{game.players[seat]?.name ?? `Seat ${seat}`}</span>
+          <span className="text-xs text-white/50 shrink-0">{SEAT_LABELS[seat]}</span>
+        </div>
+        <div className="text-sm text-white/80">
+          Bid: {player.bid !== null ? `${player.blind ? 'B' : ''}${player.bid}` : '-'} | Won: {player.tricksWon}
+        </div>
+        <div className="mt-2 flex flex-wrap gap-1">
+          {sortHand(player.hand).map(card => <Card key={card.id} card={card} size="sm" />)}
+        </div>
+      </div>
+    );
+  };
+
+  const renderPicker = () => (
+    <div className="max-w-3xl mx-auto space-y-4">
+      <div className="flex items-center justify-between">
+        <h2 className="text-xl font-bold">Recorded Games</h2>
+        <label className="flex items-center gap-2 px-4 py-1.5 text-sm rounded-lg bg-white/10 hover:bg-white/20 cursor-pointer transition-colors">
+          <Upload className="w-4 h-4" />
+          Load file
+          <input
+            type="file"
+            accept=".json,application/json"
+            className="hidden"
+            onChange={(e) => { const file = e.target.files?.[0]; if (file) loadFile(file); }}
+          />
+        </label>
+      </div>
+      {loadError && <div className="text-sm text-red-400">{loadError}</div>}
+      {recordings.length === 0 ? (
+        <div className="text-gray-500 text-sm">No recorded games yet — finished games are recorded automatically.</div>
+      ) : (
+        <div className="bg-[#162029] border border-white/10 rounded-xl divide-y divide-white/5">
+          {recordings.map(recording => (
+            <button
+              key={recording.id}
+              onClick={() => openGame(recording)}
+              className="w-full flex items-center justify-between gap-4 px-4 py-3 text-left hover:bg-white/5 transition-colors"
+            >
+              <div className="min-w-0">
+                <div className="text-sm truncate">
+                  <span className="text-blue-300">{recording.players[0]?.name} & {recording.players[2]?.name}</span>
+                  <span className="text-gray-500"> vs </span>
+                  <span className="text-red-300">{recording.players[1]?.name} & {recording.players[3]?.name}</span>
+                </div>
+                <div className="text-xs text-gray-500">{new Date(recording.date).toLocaleString()}</div>
+              </div>
+              <span className="font-mono text-sm text-gray-300 shrink-0">{finalScore(recording.events) ?? 'unfinished'}</span>
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+
+  const renderViewer = () => {
+    if (!engine || !current || !decision || !game) {
+      return <div className="text-gray-500 text-sm">This recording has no bids or plays.</div>;
+    }
+    const { teams } = engine.state;
+    return (
+      <div className="h-full flex gap-4 min-h-0">
+        {/* Table: all four hands face up around the current trick */}
+        <div className="flex-1 min-w-0 flex flex-col bg-green-900 rounded-xl p-4">
+          <div className="flex justify-between text-sm font-mono text-white/80">
+            <span>Hand {current.hand} · {current.trick === 0 ? 'Bidding' : `Trick ${current.trick}`}</span>
+            <span>
+              <span className="text-blue-300">T1 {teams.team1.score} ({teams.team1.bags} bags)</span>
+              {' · '}
+              <span className="text-red-300">T2 {teams.team2.score} ({teams.team2.bags} bags)</span>
+            </span>
+          </div>
+          <div className="flex-1 min-h-0 flex items-center gap-3">
+            <div className="w-1/4 flex justify-center">{renderSeat(1)}</div>
+            <div className="flex-1 flex flex-col items-center justify-between gap-3 h-full py-2">
+              {renderSeat(2)}
+              <div className="relative w-64 h-44">
+                {engine.state.currentTrick.plays.map(play => {
+                  const offset = [{ x: 0, y: 30 }, { x: -60, y: 0 }, { x: 0, y: -30 }, { x: 60, y: 0 }][play.seat];
+                  return (
+                    <div
+                      key={play.card.id}
+                      className="absolute"
+                      style={{ left: '50%', top: '50%', transform: `translate(calc(-50% + ${offset.x}px), calc(-50% + ${offset.y}px))` }}
+                    >
+                      <Card card={play.card} />
+                    </div>
+                  );
+                })}
+              </div>
+              {renderSeat(0)}
+            </div>
+            <div className="w-1/4 flex justify-center">{renderSeat(3)}</div>
+          </div>
+        </div>
+
+        {/* Decision detail + controls */}
+        <div className="w-96 shrink-0 flex flex-col gap-4 min-h-0">
+          <div className="bg-[#162029] border border-white/10 rounded-xl p-4 flex-1 min-h-0 flex flex-col">
+            <div className="text-xs text-gray-500 uppercase tracking-wide">
+              Decision {step + 1} of {steps.length}
+            </div>
+            <div className="mt-1 text-lg font-bold">
+              {game.players[decision.seat]?.name ?? `Seat ${decision.seat}`}{' '}
+              <span className="text-green-400">{describeDecision(decision)}</span>
+            </div>
+            {decision.latencyMs !== undefined && (
+              <div className="text-xs text-gray-500 font-mono">{(decision.latencyMs / 1000).toFixed(1)}s to decide</div>
+            )}
+            <div className="mt-3 text-xs text-gray-500 uppercase tracking-wide">Reasoning</div>
+            <div className="mt-1 flex-1 overflow-y-auto subtle-scroll text-sm text-gray-200 whitespace-pre-wrap">
+              {decision.reasoning || <span className="text-gray-600">No reasoning recorded.</span>}
+            </div>
+          </div>
+
+          <div className="bg-[#162029] border border-white/10 rounded-xl p-4 space-y-3">
+            <div className="flex items-center justify-center gap-2">
+              <button onClick={() => goTo(0)} className="p-2 rounded-lg hover:bg-white/10" title="First decision"><SkipBack className="w-4 h-4" /></button>
+              <button onClick={() => goTo(step - 1)} className="p-2 rounded-lg hover:bg-white/10" title="Previous (←)"><ChevronLeft className="w-5 h-5" /></button>
+              <span className="font-mono text-sm w-20 text-center">{step + 1} / {steps.length}</span>
+              <button onClick={() => goTo(step + 1)} className="p-2 rounded-lg hover:bg-white/10" title="Next (→)"><ChevronRight className="w-5 h-5" /></button>
+              <button onClick={() => goTo(steps.length - 1)} className="p-2 rounded-lg hover:bg-white/10" title="Last decision"><SkipForward className="w-4 h-4" /></button>
+            </div>
+            <label className="block text-xs text-gray-400">
+              Hand {current.hand} of {lastHand}
+              <input
+                type="range"
+                min={1}
+                max={lastHand}
+                value={current.hand}
+                onChange={(e) => jumpTo(parseInt(e.target.value, 10), 0)}
+                className="w-full"
+              />
+            </label>
+            <label className="block text-xs text-gray-400">
+              {current.trick === 0 ? 'Bidding' : `Trick ${current.trick}`} of {lastTrick}
+              <input
+                type="range"
+                min={0}
+                max={lastTrick}
+                value={current.trick}
+                onChange={(e) => jumpTo(current.hand, parseInt(e.target.value, 10))}
+                className="w-full"
+              />
+            </label>
+          </div>
+        </div>
+      </div>
+    );
+  };
+
+  return (
+    <div className="h-screen flex flex-col bg-[#0f1923] text-white overflow-hidden">
+      <nav className="flex items-center justify-between px-6 py-3 bg-[#0a1219] border-b border-white/10 shrink-0">
+        <button onClick={onBack} className="flex items-center gap-2 hover:opacity-80 transition-opacity">
+          <span className="text-2xl">♠</span>
+          <span className="text-lg font-bold tracking-tight">Spades <span className="text-green-400">LLM Arena</span></span>
+        </button>
+        <div className="flex gap-1">
+          {game && (
+            <button
+              onClick={() => setGame(null)}
+              className="px-4 py-1.5 text-sm rounded-lg transition-colors text-gray-400 hover:text-white hover:bg-white/10"
+            >
+              All Recordings
+            </button>
+          )}
+          <span className="px-4 py-1.5 text-sm rounded-lg bg-white/10 text-white font-medium">Replay</span>
+        </div>
+      </nav>
+      <div className="flex-1 min-h-0 overflow-y-auto subtle-scroll p-4">
+        {game ? renderViewer() : renderPicker()}
+      </div>
+    </div>
+  );
+};
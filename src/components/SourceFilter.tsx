@@ -0,0 +1,40 @@
+import React from 'react';
+import { DATA_SOURCES, DATA_SOURCE_LABELS, DataSource } from '../engine/dataSource';
+import { countBySource } from '../engine/resultsStore';
+
+interface SourceFilterProps {
+  sources: DataSource[];
+  onChange: (sources: DataSource[]) => void;
+}
+
+/** Toggle which data sources the leaderboard and stats count. Sources with no games are hidden. */
+export const SourceFilter: React.FC<SourceFilterProps> = ({ sources, onChange }) => {
+  const counts = countBySource();
+
+  const toggle = (source: DataSource) => {
+    onChange(sources.includes(source) ? sources.filter(s => s !== source) : [...sources, source]);
+  };
+
+  return (
+    <div className="flex items-center gap-1 text-xs">
+      <span className="text-gray-500 mr-1">Data:</span>
+      {DATA_SOURCES.filter(source => counts[source] > 0 || sources.includes(source)).map(source => {
+        const on = sources.includes(source);
+        return (
+          <button
+            key={source}
+            onClick={() => toggle(source)}
+            className={`px-2 py-1 rounded-md border transition-colors ${
+              on
+                ? source === 'demo' ? 'bg-yellow-500/20 border-yellow-500/40 text-yellow-300' : 'bg-green-500/20 border-green-500/40 text-green-300'
+                : 'border-white/10 text-gray-500 hover:text-gray-300'
+            }`}
+            title={source === 'demo' ? 'Generated sample games, not real results' : undefined}
+          >
+            {DATA_SOURCE_LABELS[source]} <span className="opacity-60">{counts[source]}</span>
+          </button>
+        );
+      })}
+    </div>
+  );
+};
@@ -1,14 +1,18 @@
 /**
- * Tournament — wireframe for an 8-team single-elimination Spades tournament.
+ * Tournament — runs and follows a single-elimination Spades tournament.
+ * The schedule and standings live in engine/tournament.ts; the games are
+ * played here, one at a time, by benchmark/tournament.ts.
  *
  * Tournament structure:
- *   • A "team" is a single LLM model paired with itself — two instances of the
+ *   • A "team" is a single model paired with itself — two instances of the
  *     same model occupying seats 1 & 3 (Team 1, blue) or 2 & 4 (Team 2, red),
  *     matching the engine's native 2v2 partnership (see engine/types.ts).
- *   • 16 teams compete in qualifying. Top 8 by record advance to the bracket.
+ *   • Every team plays every other once in qualifying. The top 8 by record
+ *     (or 4, or 2, when fewer enter) advance to the bracket.
  *   • Bracket is single-elimination: QF (8 → 4) → SF (4 → 2) → Final (2 → 1).
- *   • Every match is a regular Spades 2v2, first team to 250 points wins.
- *   • The final is just the last 2v2 standing.
+ *     Each match is a best-of-N series; sides swap every game.
+ *   • Each game is saved as it finishes, so a paused or reloaded tournament
+ *     resumes at its next game.
  *
  * Visuals match the rest of the app:
  *   • Outer: dark gray→green gradient (same as GameSetup)
@@ -18,71 +22,204 @@
  *   • Team colors: blue for Team 1, red for Team 2 (engine convention)
  */
 
-import React, { useEffect, useMemo, useState } from 'react';
+import React, { useEffect, useMemo, useRef, useState } from 'react';
 import { motion, AnimatePresence } from 'motion/react';
-import { ChevronLeft, Trophy, Flame, Clock, Eye, Crown, Users } from 'lucide-react';
+import { ChevronLeft, Trophy, Flame, Clock, Eye, Crown, Users, Play, Pause, Plus, X } from 'lucide-react';
+import type { GameEngine } from '../engine/game';
+import type { GameEvent } from '../engine/events';
+import { GameResult, TournamentResult, getAllTournaments, saveTournament, saveTournamentGame } from '../engine/resultsStore';
+import { saveReplay } from '../engine/replayStore';
+import { saveDecisions, decisionsFromEvents } from '../engine/decisionStore';
+import {
+  TournamentMatch,
+  TournamentRound,
+  bracketSize,
+  createTournament,
+  firstRoundSeeds,
+  seriesScore,
+  standings,
+  teamAIsTeam1,
+  tournamentPhase,
+} from '../engine/tournament';
+import { runTournament } from '../benchmark/tournament';
+import { ApiKeys, describeAgent } from '../benchmark/agents';
+import type { AgentConfig } from '../benchmark/config';
+import { VARIANTS, VARIANT_IDS, VariantId } from '../engine/variant';
+import { HouseRules, defaultHouseRules } from '../engine/houseRules';
 
-// ── Mock tournament data ───────────────────────────────────────────────────
+// ── Tournament data ───────────────────────────────────────────────────────
 type Team = {
   id: string;
-  model: string;       // canonical model+version, the team's identity
+  model: string;       // the entrant's label (describeAgent), the team's identity
   house: string;       // brand / vendor
-  seed: number;
+  seed: number;        // qualifying rank
   qualWins: number;
   qualLosses: number;
+  pointDiff: number;
+  advanced: boolean;   // seeded into the bracket
   status: 'finalist' | 'eliminated' | 'champion' | 'active';
 };
 
-// 16 teams in qualifying — each team is one model paired with itself.
-// The team's identity is the model name + version (e.g. "Claude Opus 4.7"),
-// not the brand. Multiple models from the same brand (Opus 4.7, Sonnet 4.6,
-// Haiku 4.5) compete as separate teams.
-const TEAMS: Team[] = [
-  { id: 'opus47', model: 'Claude Opus 4.7', house: 'Anthropic', seed: 1, qualWins: 11, qualLosses: 1, status: 'finalist' },
-  { id: 'gpt55', model: 'GPT-5.5 Pro', house: 'OpenAI', seed: 2, qualWins: 10, qualLosses: 2, status: 'finalist' },
-  { id: 'gem3u', model: 'Gemini 3 Ultra', house: 'Google', seed: 3, qualWins: 10, qualLosses: 2, status: 'eliminated' },
-  { id: 'l4mav', model: 'Llama 4 Maverick', house: 'Meta', seed: 4, qualWins: 9, qualLosses: 3, status: 'eliminated' },
-  { id: 'son46', model: 'Claude Sonnet 4.6', house: 'Anthropic', seed: 5, qualWins: 8, qualLosses: 4, status: 'eliminated' },
-  { id: 'qwen3', model: 'Qwen 3 Max', house: 'Alibaba', seed: 6, qualWins: 8, qualLosses: 4, status: 'eliminated' },
-  { id: 'mistr', model: 'Mistral Grand', house: 'Mistral', seed: 7, qualWins: 7, qualLosses: 5, status: 'eliminated' },
-  { id: 'dsr2', model: 'DeepSeek R2', house: 'DeepSeek', seed: 8, qualWins: 7, qualLosses: 5, status: 'eliminated' },
-  { id: 'hai45', model: 'Claude Haiku 4.5', house: 'Anthropic', seed: 9, qualWins: 6, qualLosses: 6, status: 'eliminated' },
-  { id: 'gpt55m', model: 'GPT-5.5 Mini', house: 'OpenAI', seed: 10, qualWins: 6, qualLosses: 6, status: 'eliminated' },
-  { id: 'gem3f', model: 'Gemini 3 Flash', house: 'Google', seed: 11, qualWins: 5, qualLosses: 7, status: 'eliminated' },
-  { id: 'cmdrp', model: 'Cohere Command R+', house: 'Cohere', seed: 12, qualWins: 5, qualLosses: 7, status: 'eliminated' },
-  { id: 'phi4r', model: 'Phi-4 Reasoner', house: 'Microsoft', seed: 13, qualWins: 4, qualLosses: 8, status: 'eliminated' },
-  { id: 'grok3', model: 'Grok 3', house: 'xAI', seed: 14, qualWins: 4, qualLosses: 8, status: 'eliminated' },
-  { id: 'l4sct', model: 'Llama 4 Scout', house: 'Meta', seed: 15, qualWins: 3, qualLosses: 9, status: 'eliminated' },
-  { id: 'heu', model: 'House Heuristic', house: 'Arena', seed: 16, qualWins: 2, qualLosses: 10, status: 'eliminated' },
-];
+// Running totals after each hand, in engine seats (team 1 = seats 1 & 3)
+type ScoreLine = { hand: number; team1: number; team2: number };
 
-const ADVANCING = TEAMS.filter((t) => t.seed <= 8);
-const lookup = (id: string) => TEAMS.find((t) => t.id === id)!;
+// The game being played right now; its engine's state is read at render
+type LiveGame = {
+  matchId: string;
+  game: number;        // index within the match's series
+  team1: string;       // model at seats 1 & 3
+  team2: string;       // model at seats 2 & 4
+  engine: GameEngine;
+  hands: ScoreLine[];
+  feed: { text: string; tag: string }[]; // newest first
+};
 
-// Single-elimination bracket: standard seed pairing (1v8, 4v5, 3v6, 2v7).
-type Match = {
-  id: string;
-  round: 'qf' | 'sf' | 'final';
-  position: number; // vertical slot in the bracket column
-  teamA: string;    // sits at seats 1 & 3 (Team 1, blue)
-  teamB: string;    // sits at seats 2 & 4 (Team 2, red)
-  scoreA?: number;
-  scoreB?: number;
-  winner?: string;
-  inProgress?: boolean;
+type Provider = NonNullable<AgentConfig['provider']>;
+
+const HOUSES: Record<Provider, string> = {
+  gemini: 'Google',
+  anthropic: 'Anthropic',
+  openai: 'OpenAI',
+  openrouter: 'OpenRouter',
+  local: 'Self-hosted',
 };
 
-const BRACKET: Match[] = [
-  { id: 'qf1', round: 'qf', position: 0, teamA: 'opus47', teamB: 'dsr2', scoreA: 250, scoreB: 178, winner: 'opus47' },
-  { id: 'qf2', round: 'qf', position: 1, teamA: 'l4mav', teamB: 'son46', scoreA: 198, scoreB: 250, winner: 'son46' },
-  { id: 'qf3', round: 'qf', position: 2, teamA: 'gem3u', teamB: 'qwen3', scoreA: 250, scoreB: 165, winner: 'gem3u' },
-  { id: 'qf4', round: 'qf', position: 3, teamA: 'gpt55', teamB: 'mistr', scoreA: 250, scoreB: 142, winner: 'gpt55' },
-  { id: 'sf1', round: 'sf', position: 0, teamA: 'opus47', teamB: 'son46', scoreA: 250, scoreB: 211, winner: 'opus47' },
-  { id: 'sf2', round: 'sf', position: 1, teamA: 'gem3u', teamB: 'gpt55', scoreA: 224, scoreB: 250, winner: 'gpt55' },
-  { id: 'final', round: 'final', position: 0, teamA: 'opus47', teamB: 'gpt55', scoreA: 142, scoreB: 138, inProgress: true },
+// Entrants offered by the setup form; any other `provider:model` can be typed in
+const PRESETS: AgentConfig[] = [
+  { type: 'heuristic' },
+  { type: 'strong-heuristic' },
+  { type: 'random' },
+  { type: 'llm', provider: 'gemini', model: 'gemini-3-flash-preview' },
+  { type: 'llm', provider: 'anthropic', model: 'claude-opus-4-7' },
+  { type: 'llm', provider: 'anthropic', model: 'claude-sonnet-4-6' },
+  { type: 'llm', provider: 'anthropic', model: 'claude-haiku-4-5' },
+  { type: 'llm', provider: 'openai', model: 'gpt-4o' },
+  { type: 'llm', provider: 'openai', model: 'gpt-4o-mini' },
+  { type: 'llm', provider: 'openrouter', model: 'openai/gpt-4o' },
 ];
 
-const FINAL_MATCH = BRACKET.find((m) => m.round === 'final')!;
+// Literal reads, so Vite's define replaces them in the browser build
+const API_KEYS: ApiKeys = {
+  anthropic: process.env.ANTHROPIC_API_KEY,
+  openai: process.env.OPENAI_API_KEY,
+  openrouter: process.env.OPENROUTER_API_KEY,
+  local: process.env.LOCAL_LLM_API_KEY,
+};
+
+const SERIES_LENGTHS = [1, 3, 5];
+const FEED_LENGTH = 8;
+
+// Pause between games, so each final score stays on screen
+const GAME_PAUSE_MS = 1500;
+
+const ROUND_LABELS: Record<TournamentRound, string> = {
+  qualifier: 'Qualifier',
+  qf: 'Quarterfinal',
+  sf: 'Semifinal',
+  final: 'Final',
+};
+
+const SUIT_SYMBOLS: Record<string, string> = { 'S': '♠', 'H': '♥', 'D': '♦', 'C': '♣' };
+const SUIT_NAMES: Record<string, string> = { 'S': '♠ Spades', 'H': '♥ Hearts', 'D': '♦ Diamonds', 'C': '♣ Clubs' };
+
+const houseOf = (agent: AgentConfig) => (agent.type === 'llm' ? HOUSES[agent.provider ?? 'gemini'] : 'Arena');
+
+/** The most recent tournament run by the tournament engine, finished or not. */
+function latestTournament(): TournamentResult | null {
+  return getAllTournaments().filter((t) => t.progress).pop() ?? null;
+}
+
+function matchesOf(t: TournamentResult, round: TournamentRound): TournamentMatch[] {
+  return t.progress!.matches.filter((m) => m.round === round).sort((a, b) => a.position - b.position);
+}
+
+/** Ladder order, with each team's place in the bracket. */
+function buildTeams(t: TournamentResult): Team[] {
+  const { config, matches } = t.progress!;
+  const bracket = matches.filter((m) => m.round !== 'qualifier');
+  const seeded = new Set(bracket.flatMap((m) => [m.teamA, m.teamB]));
+  const final = bracket.find((m) => m.round === 'final');
+  return standings(t).map((s) => {
+    const lost = bracket.some((m) => m.winner && m.winner !== s.model && (m.teamA === s.model || m.teamB === s.model));
+    const status: Team['status'] =
+      t.champion === s.model ? 'champion'
+        : lost || (bracket.length > 0 && !seeded.has(s.model)) ? 'eliminated'
+          : final && (final.teamA === s.model || final.teamB === s.model) ? 'finalist'
+            : 'active';
+    return {
+      id: s.model,
+      model: s.model,
+      house: houseOf(config.entrants.find((e) => e.model === s.model)!.agent),
+      seed: s.seed,
+      qualWins: s.wins,
+      qualLosses: s.losses,
+      pointDiff: s.pointDiff,
+      advanced: seeded.has(s.model),
+      status,
+    };
+  });
+}
+
+/** A finished game's running totals, from its hand logs. */
+function scoreLines(result: GameResult | undefined): ScoreLine[] {
+  let team1 = 0;
+  let team2 = 0;
+  return (result?.hands ?? []).map((h) => {
+    team1 += h.scoreChange.team1;
+    team2 += h.scoreChange.team2;
+    return { hand: h.handNumber, team1, team2 };
+  });
+}
+
+/** A match's score for the bracket: games won in a series, points in a single game. */
+function matchScore(t: TournamentResult, match: TournamentMatch): { a?: number; b?: number } {
+  if (match.games.length === 0) return {};
+  if (t.progress!.config.seriesLength > 1) {
+    const { winsA, winsB } = seriesScore(match);
+    return { a: winsA, b: winsB };
+  }
+  return { a: match.games[0].scoreA, b: match.games[0].scoreB };
+}
+
+function cardLabel(id: string): string {
+  if (id === 'BigJoker') return 'the big joker';
+  if (id === 'LittleJoker') return 'the little joker';
+  return `${id.slice(0, -1)}${SUIT_SYMBOLS[id.slice(-1)]}`;
+}
+
+/** Fold one engine event into the live game: a commentary line, and a score line per hand. */
+function followEvent(live: LiveGame, event: GameEvent): LiveGame {
+  const { state } = live.engine;
+  const seatName = (seat: number) => `${seat % 2 === 0 ? live.team1 : live.team2} (seat ${seat + 1})`;
+  let text: string | null = null;
+  let hands = live.hands;
+  switch (event.type) {
+    case 'BidMade': {
+      const value = event.value === 0 ? 'Nil' : String(event.value);
+      text = `${seatName(event.seat)} bids ${event.blind ? `blind ${value}` : value}${event.fallback ? ' (fallback)' : ''}.`;
+      break;
+    }
+    case 'CardPlayed':
+      text = `${seatName(event.seat)} plays ${cardLabel(event.card)}${event.fallback ? ' (fallback)' : ''}.`;
+      break;
+    case 'TrickWon':
+      text = `${seatName(event.winner)} takes trick ${event.trickNumber}.`;
+      break;
+    case 'HandScored': {
+      const { team1, team2, handNumber } = event.result;
+      hands = [...hands, { hand: handNumber, team1: team1.totalScore, team2: team2.totalScore }];
+      text = `Hand ${handNumber} scored: Team ${live.team1} ${team1.pointsEarned >= 0 ? '+' : ''}${team1.pointsEarned}, `
+        + `Team ${live.team2} ${team2.pointsEarned >= 0 ? '+' : ''}${team2.pointsEarned}.`;
+      break;
+    }
+    case 'GameOver':
+      text = `Team ${event.winner === 1 ? live.team1 : live.team2} wins the game.`;
+      break;
+  }
+  if (!text) return live;
+  const tag = `H${state.handNumber}`;
+  return { ...live, hands, feed: [{ text, tag }, ...live.feed].slice(0, FEED_LENGTH) };
+}
 
 // ── Main component ────────────────────────────────────────────────────────
 
@@ -93,8 +230,97 @@ interface TournamentProps {
 
 type Stage = 'qualifiers' | 'bracket' | 'final';
 
+const STAGE_OF: Record<TournamentRound, Stage> = { qualifier: 'qualifiers', qf: 'bracket', sf: 'bracket', final: 'final' };
+
+function defaultStage(t: TournamentResult | null): Stage {
+  if (!t || tournamentPhase(t) === 'qualifiers') return 'qualifiers';
+  return t.progress!.matches.some((m) => m.round === 'final') ? 'final' : 'bracket';
+}
+
 export const Tournament: React.FC<TournamentProps> = ({ onBack, onPlay }) => {
-  const [stage, setStage] = useState<Stage>('final');
+  const [tournament, setTournament] = useState<TournamentResult | null>(latestTournament);
+  const [stage, setStage] = useState<Stage>(() => defaultStage(tournament));
+  const [setupOpen, setSetupOpen] = useState(tournament === null);
+  const [running, setRunning] = useState(false);
+  const [stopping, setStopping] = useState(false);
+  const [live, setLive] = useState<LiveGame | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const stopRef = useRef(false);
+
+  // Leaving the screen stops the tournament after the game in progress
+  useEffect(() => () => { stopRef.current = true; }, []);
+
+  const teams = useMemo(() => (tournament ? buildTeams(tournament) : []), [tournament]);
+  const liveMatch = live && tournament?.progress!.matches.find((m) => m.id === live.matchId);
+
+  const run = async (t: TournamentResult) => {
+    stopRef.current = false;
+    setRunning(true);
+    setError(null);
+    try {
+      const done = await runTournament(t, {
+        keys: API_KEYS,
+        shouldStop: () => stopRef.current,
+        onGameStart: (match, game, engine) => {
+          const [team1, team2] = teamAIsTeam1(match, game) ? [match.teamA, match.teamB] : [match.teamB, match.teamA];
+          let current: LiveGame = { matchId: match.id, game, team1, team2, engine, hands: [], feed: [] };
+          setLive(current);
+          engine.subscribe((event) => {
+            current = followEvent(current, event);
+            setLive(current);
+          });
+        },
+        onGameComplete: async (next, result, engine) => {
+          const models = [result.team1Models[0], result.team2Models[0], result.team1Models[1], result.team2Models[1]];
+          saveTournamentGame(result, next);
+          saveDecisions(result.id, decisionsFromEvents(engine.events, { gameId: result.id, date: result.date, models }));
+          saveReplay({
+            id: result.id,
+            date: result.date,
+            players: models.map((name) => ({ name, type: 'bot' as const })),
+            events: engine.events,
+          });
+          setTournament(next);
+          await new Promise((resolve) => setTimeout(resolve, GAME_PAUSE_MS));
+        },
+      });
+      setTournament(done);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e));
+    } finally {
+      setRunning(false);
+      setStopping(false);
+      setLive(null);
+    }
+  };
+
+  const start = (entrants: AgentConfig[], targetScore: number, seriesLength: number, variant: VariantId, houseRules: Partial<HouseRules>) => {
+    const t: TournamentResult = {
+      ...createTournament(
+        {
+          entrants: entrants.map((agent) => ({ model: describeAgent(agent), agent })),
+          targetScore,
+          seriesLength,
+          seed: Math.floor(Math.random() * 2 ** 31),
+          variant,
+          houseRules,
+        },
+        crypto.randomUUID(),
+        new Date().toISOString(),
+      ),
+      source: 'live',
+    };
+    saveTournament(t);
+    setTournament(t);
+    setStage('qualifiers');
+    setSetupOpen(false);
+    run(t);
+  };
+
+  const pause = () => {
+    stopRef.current = true;
+    setStopping(true);
+  };
 
   return (
     <div className="h-screen flex flex-col bg-gradient-to-br from-gray-900 via-green-950 to-gray-900 overflow-hidden">
@@ -125,26 +351,43 @@ export const Tournament: React.FC<TournamentProps> = ({ onBack, onPlay }) => {
       {/* Scrollable body */}
       <div className="flex-1 overflow-y-auto subtle-scroll">
         <div className="max-w-7xl mx-auto px-4 sm:px-6 py-6 space-y-6 pb-12">
-          <HeroCard />
-          <StageTabs stage={stage} onChange={setStage} />
-
-          <AnimatePresence mode="wait">
-            {stage === 'qualifiers' && (
-              <motion.div key="q" initial={{ opacity: 0, y: 12 }} animate={{ opacity: 1, y: 0 }} exit={{ opacity: 0, y: -8 }} transition={{ duration: 0.35 }}>
-                <QualifiersStage />
-              </motion.div>
-            )}
-            {stage === 'bracket' && (
-              <motion.div key="b" initial={{ opacity: 0, y: 12 }} animate={{ opacity: 1, y: 0 }} exit={{ opacity: 0, y: -8 }} transition={{ duration: 0.35 }}>
-                <BracketStage onAdvance={() => setStage('final')} />
-              </motion.div>
-            )}
-            {stage === 'final' && (
-              <motion.div key="f" initial={{ opacity: 0, y: 12 }} animate={{ opacity: 1, y: 0 }} exit={{ opacity: 0, y: -8 }} transition={{ duration: 0.35 }}>
-                <FinalStage />
-              </motion.div>
-            )}
-          </AnimatePresence>
+          <HeroCard
+            t={tournament}
+            live={live}
+            liveMatch={liveMatch ?? undefined}
+            running={running}
+            stopping={stopping}
+            error={error}
+            onResume={() => tournament && run(tournament)}
+            onPause={pause}
+            onNew={() => setSetupOpen(true)}
+          />
+
+          {setupOpen || !tournament ? (
+            <SetupCard onStart={start} onCancel={tournament ? () => setSetupOpen(false) : undefined} />
+          ) : (
+            <>
+              <StageTabs t={tournament} stage={stage} liveStage={liveMatch ? STAGE_OF[liveMatch.round] : null} onChange={setStage} />
+
+              <AnimatePresence mode="wait">
+                {stage === 'qualifiers' && (
+                  <motion.div key="q" initial={{ opacity: 0, y: 12 }} animate={{ opacity: 1, y: 0 }} exit={{ opacity: 0, y: -8 }} transition={{ duration: 0.35 }}>
+                    <QualifiersStage t={tournament} teams={teams} live={live} />
+                  </motion.div>
+                )}
+                {stage === 'bracket' && (
+                  <motion.div key="b" initial={{ opacity: 0, y: 12 }} animate={{ opacity: 1, y: 0 }} exit={{ opacity: 0, y: -8 }} transition={{ duration: 0.35 }}>
+                    <BracketStage t={tournament} teams={teams} live={live} onAdvance={() => setStage('final')} />
+                  </motion.div>
+                )}
+                {stage === 'final' && (
+                  <motion.div key="f" initial={{ opacity: 0, y: 12 }} animate={{ opacity: 1, y: 0 }} exit={{ opacity: 0, y: -8 }} transition={{ duration: 0.35 }}>
+                    <FinalStage t={tournament} teams={teams} live={live} onViewBracket={() => setStage('bracket')} />
+                  </motion.div>
+                )}
+              </AnimatePresence>
+            </>
+          )}
         </div>
       </div>
     </div>
@@ -153,45 +396,113 @@ export const Tournament: React.FC<TournamentProps> = ({ onBack, onPlay }) => {
 
 // ── Hero ──────────────────────────────────────────────────────────────────
 
-const HeroCard: React.FC = () => (
-  <motion.div
-    initial={{ opacity: 0, y: 12 }}
-    animate={{ opacity: 1, y: 0 }}
-    transition={{ duration: 0.5 }}
-    className="relative bg-white/95 backdrop-blur-sm rounded-2xl shadow-2xl overflow-hidden"
-  >
-    <div className="absolute -top-12 -right-8 text-[220px] font-serif text-gray-100 select-none leading-none pointer-events-none">♠</div>
-    <div className="absolute -bottom-16 left-12 text-[140px] font-serif text-green-50 select-none leading-none pointer-events-none">♠</div>
-
-    <div className="relative p-6 sm:p-8 flex flex-col sm:flex-row items-start sm:items-center justify-between gap-6">
-      <div>
-        <div className="flex items-center gap-2 text-xs font-semibold tracking-widest uppercase text-green-700 mb-2">
-          <Trophy className="w-4 h-4" />
-          Tournament XII · 8-Team Bracket
+const HeroCard: React.FC<{
+  t: TournamentResult | null;
+  live: LiveGame | null;
+  liveMatch?: TournamentMatch;
+  running: boolean;
+  stopping: boolean;
+  error: string | null;
+  onResume: () => void;
+  onPause: () => void;
+  onNew: () => void;
+}> = ({ t, live, liveMatch, running, stopping, error, onResume, onPause, onNew }) => {
+  const config = t?.progress!.config;
+  const size = t ? bracketSize(t.participants.length) : 8;
+  const played = t?.progress!.matches.reduce((n, m) => n + m.games.length, 0) ?? 0;
+  const complete = t !== null && tournamentPhase(t) === 'complete';
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 12 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ duration: 0.5 }}
+      className="relative bg-white/95 backdrop-blur-sm rounded-2xl shadow-2xl overflow-hidden"
+    >
+      <div className="absolute -top-12 -right-8 text-[220px] font-serif text-gray-100 select-none leading-none pointer-events-none">♠</div>
+      <div className="absolute -bottom-16 left-12 text-[140px] font-serif text-green-50 select-none leading-none pointer-events-none">♠</div>
+
+      <div className="relative p-6 sm:p-8 flex flex-col sm:flex-row items-start sm:items-center justify-between gap-6">
+        <div>
+          <div className="flex items-center gap-2 text-xs font-semibold tracking-widest uppercase text-green-700 mb-2">
+            <Trophy className="w-4 h-4" />
+            Tournament · {size}-Team Bracket
+          </div>
+          <h1 className="text-3xl sm:text-4xl font-black text-gray-900 leading-tight">
+            The Championship Bracket
+          </h1>
+          <p className="mt-2 text-gray-500 max-w-2xl">
+            {t && config ? (
+              <>
+                {t.participants.length} models qualify in a round robin; the top {size} enter a
+                single-elimination bracket{config.seriesLength > 1 && <>, every match a best-of-{config.seriesLength} series</>}.
+                Each game is a 2v2 partnership of one model against another, first
+                to {config.targetScore} points wins.
+              </>
+            ) : (
+              <>
+                Pick the models to enter. Each plays every other once to qualify; the top
+                eight enter a single-elimination bracket, one model against another in 2v2
+                partnerships.
+              </>
+            )}
+          </p>
+        </div>
+        <div className="flex flex-col items-stretch sm:items-end gap-3 shrink-0">
+          <div className="flex flex-wrap gap-2 sm:flex-nowrap">
+            {running && <Pill icon={<Flame className="w-3.5 h-3.5" />} label="LIVE" tone="green" pulse />}
+            {!running && t && (complete
+              ? <Pill icon={<Crown className="w-3.5 h-3.5" />} label="Complete" tone="amber" />
+              : <Pill icon={<Pause className="w-3.5 h-3.5" />} label="Paused" tone="gray" />)}
+            {t && <Pill icon={<Clock className="w-3.5 h-3.5" />} label={`${played} game${played === 1 ? '' : 's'} played`} tone="gray" />}
+            {live && liveMatch && (
+              <Pill icon={<Eye className="w-3.5 h-3.5" />} label={`${ROUND_LABELS[liveMatch.round]} · ${live.team1} vs ${live.team2}`} tone="blue" />
+            )}
+          </div>
+          <div className="flex flex-wrap gap-2 sm:justify-end">
+            {t && !complete && (running ? (
+              <button
+                onClick={onPause}
+                disabled={stopping}
+                className="px-4 py-2 bg-white hover:bg-gray-50 disabled:opacity-60 text-gray-700 text-sm font-bold rounded-lg shadow-sm border border-gray-200 transition-all flex items-center gap-2"
+              >
+                <Pause className="w-4 h-4" /> {stopping ? 'Pausing after this game…' : 'Pause'}
+              </button>
+            ) : (
+              <button
+                onClick={onResume}
+                className="px-4 py-2 bg-green-600 hover:bg-green-700 text-white text-sm font-bold rounded-lg shadow-md transition-all hover:scale-[0.99] flex items-center gap-2"
+              >
+                <Play className="w-4 h-4" /> {played === 0 ? 'Start' : 'Resume'}
+              </button>
+            ))}
+            {t && (
+              <button
+                onClick={onNew}
+                disabled={running}
+                className="px-4 py-2 bg-white hover:bg-gray-50 disabled:opacity-50 text-gray-700 text-sm font-bold rounded-lg shadow-sm border border-gray-200 transition-all flex items-center gap-2"
+              >
+                <Plus className="w-4 h-4" /> New tournament
+              </button>
+            )}
+          </div>
         </div>
-        <h1 className="text-3xl sm:text-4xl font-black text-gray-900 leading-tight">
-          The Championship Bracket
-        </h1>
-        <p className="mt-2 text-gray-500 max-w-2xl">
-          Sixteen large language models qualify; the top eight enter a single-elimination
-          bracket. Each match is a 2v2 partnership of one model against another, first to
-          250 points wins.
-        </p>
-      </div>
-      <div className="flex flex-wrap gap-2 sm:flex-nowrap">
-        <Pill icon={<Flame className="w-3.5 h-3.5" />} label="LIVE" tone="green" pulse />
-        <Pill icon={<Eye className="w-3.5 h-3.5" />} label="24,108 watching" tone="gray" />
-        <Pill icon={<Clock className="w-3.5 h-3.5" />} label="Day 7 of 7" tone="gray" />
       </div>
-    </div>
 
-    <div className="relative px-6 sm:px-8 pb-5 grid grid-cols-3 gap-3 text-xs">
-      <ProgressStat label="Qualified" value="16" sub="teams" />
-      <ProgressStat label="Bracket" value="8" sub="advanced" tone="green" />
-      <ProgressStat label="Champion" value="—" sub="to be crowned" tone="amber" />
-    </div>
-  </motion.div>
-);
+      {error && (
+        <div className="relative mx-6 sm:mx-8 mb-4 px-3 py-2 rounded-lg bg-red-50 border border-red-200 text-sm text-red-600">
+          Stopped: {error}
+        </div>
+      )}
+
+      <div className="relative px-6 sm:px-8 pb-5 grid grid-cols-3 gap-3 text-xs">
+        <ProgressStat label="Qualified" value={t ? String(t.participants.length) : '—'} sub="teams" />
+        <ProgressStat label="Bracket" value={String(size)} sub="advance" tone="green" />
+        <ProgressStat label="Champion" value={t?.champion || '—'} sub={t?.champion ? 'crowned' : 'to be crowned'} tone="amber" />
+      </div>
+    </motion.div>
+  );
+};
 
 const Pill: React.FC<{ icon?: React.ReactNode; label: string; tone?: 'green' | 'gray' | 'amber' | 'red' | 'blue'; pulse?: boolean }> = ({ icon, label, tone = 'gray', pulse }) => {
   const toneStyles = {
@@ -213,40 +524,211 @@ const Pill: React.FC<{ icon?: React.ReactNode; label: string; tone?: 'green' | '
 const ProgressStat: React.FC<{ label: string; value: string; sub: string; tone?: 'gray' | 'green' | 'amber' }> = ({ label, value, sub, tone = 'gray' }) => {
   const toneText = { gray: 'text-gray-800', green: 'text-green-700', amber: 'text-amber-600' } as const;
   return (
-    <div className="flex items-baseline gap-2 px-3 py-2 bg-gray-50 rounded-lg border border-gray-100">
+    <div className="flex items-baseline gap-2 px-3 py-2 bg-gray-50 rounded-lg border border-gray-100 min-w-0">
       <span className="text-[10px] font-semibold tracking-widest uppercase text-gray-400 shrink-0">{label}</span>
-      <span className={`text-lg font-black font-mono ${toneText[tone]}`}>{value}</span>
+      <span className={`text-lg font-black font-mono truncate ${toneText[tone]}`}>{value}</span>
       <span className="text-xs text-gray-400 truncate">{sub}</span>
     </div>
   );
 };
 
+// ── Setup ─────────────────────────────────────────────────────────────────
+
+const SetupCard: React.FC<{
+  onStart: (entrants: AgentConfig[], targetScore: number, seriesLength: number, variant: VariantId, houseRules: Partial<HouseRules>) => void;
+  onCancel?: () => void;
+}> = ({ onStart, onCancel }) => {
+  const [entrants, setEntrants] = useState<AgentConfig[]>(() => PRESETS.slice(0, 2));
+  const [custom, setCustom] = useState('');
+  const [customError, setCustomError] = useState<string | null>(null);
+  const [targetScore, setTargetScore] = useState(250);
+  const [seriesLength, setSeriesLength] = useState(3);
+  const [variant, setVariant] = useState<VariantId>('standard');
+  const [spadesAlwaysLead, setSpadesAlwaysLead] = useState(false);
+  const [minimumTeamBid, setMinimumTeamBid] = useState(''); // '' = variant default
+
+  const labels = entrants.map(describeAgent);
+  const options = [...PRESETS, ...entrants.filter((e) => !PRESETS.some((p) => describeAgent(p) === describeAgent(e)))];
+  const toggle = (agent: AgentConfig) => {
+    const label = describeAgent(agent);
+    setEntrants(labels.includes(label) ? entrants.filter((e) => describeAgent(e) !== label) : [...entrants, agent]);
+  };
+
+  // `provider:model`, e.g. `openrouter:meta-llama/llama-4-maverick`
+  const addCustom = () => {
+    const split = custom.indexOf(':');
+    const provider = custom.slice(0, split).trim() as Provider;
+    const model = custom.slice(split + 1).trim();
+    if (split < 0 || !(provider in HOUSES) || !model) {
+      setCustomError(`Use provider:model, with provider one of ${Object.keys(HOUSES).join(', ')}`);
+      return;
+    }
+    const agent: AgentConfig = { type: 'llm', provider, model };
+    if (!labels.includes(describeAgent(agent))) setEntrants([...entrants, agent]);
+    setCustom('');
+    setCustomError(null);
+  };
+
+  return (
+    <Card>
+      <div className="flex items-start justify-between gap-4">
+        <SectionHead title="New tournament" subtitle="Each entrant is one team: the same model in both seats of a partnership." />
+        {onCancel && (
+          <button onClick={onCancel} className="p-1.5 rounded-lg text-gray-400 hover:text-gray-700 hover:bg-gray-100 transition-colors">
+            <X className="w-4 h-4" />
+          </button>
+        )}
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        <div className="lg:col-span-2">
+          <div className="text-[11px] font-bold tracking-wider uppercase text-gray-500 mb-2">Entrants · {entrants.length} selected</div>
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+            {options.map((agent) => {
+              const label = describeAgent(agent);
+              const selected = labels.includes(label);
+              return (
+                <label
+                  key={label}
+                  className={`flex items-center gap-3 px-3 py-2 rounded-lg border cursor-pointer transition-colors ${selected ? 'border-green-300 bg-green-50' : 'border-gray-200 hover:bg-gray-50'}`}
+                >
+                  <input type="checkbox" checked={selected} onChange={() => toggle(agent)} className="accent-green-600" />
+                  <span className="min-w-0">
+                    <span className="block text-sm font-bold text-gray-800 truncate">{label}</span>
+                    <span className="block text-[11px] text-gray-500">{houseOf(agent)}</span>
+                  </span>
+                </label>
+              );
+            })}
+          </div>
+          <div className="mt-3 flex gap-2">
+            <input
+              value={custom}
+              onChange={(e) => setCustom(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && addCustom()}
+              placeholder="provider:model"
+              className="flex-1 px-3 py-2 text-sm font-mono border border-gray-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-green-200"
+            />
+            <button onClick={addCustom} className="px-4 py-2 bg-white hover:bg-gray-50 text-gray-700 text-sm font-bold rounded-lg border border-gray-200 transition-all flex items-center gap-1.5">
+              <Plus className="w-4 h-4" /> Add
+            </button>
+          </div>
+          {customError && <p className="mt-1.5 text-xs text-red-500">{customError}</p>}
+        </div>
+
+        <div className="space-y-4">
+          <div>
+            <div className="text-[11px] font-bold tracking-wider uppercase text-gray-500 mb-2">Variant</div>
+            <div className="grid grid-cols-3 gap-2">
+              {VARIANT_IDS.map((id) => (
+                <button
+                  key={id}
+                  onClick={() => setVariant(id)}
+                  title={VARIANTS[id].description}
+                  className={`py-2 text-sm font-bold rounded-lg border transition-colors ${variant === id ? 'bg-green-600 text-white border-green-600' : 'bg-white text-gray-700 border-gray-200 hover:bg-gray-50'}`}
+                >
+                  {VARIANTS[id].label}
+                </button>
+              ))}
+            </div>
+          </div>
+          <div>
+            <div className="text-[11px] font-bold tracking-wider uppercase text-gray-500 mb-2">House rules</div>
+            <label className="flex items-center gap-2 text-sm text-gray-700">
+              <input type="checkbox" checked={spadesAlwaysLead} onChange={(e) => setSpadesAlwaysLead(e.target.checked)} className="accent-green-600" />
+              Spades may be led before broken
+            </label>
+            <label className="flex items-center gap-2 mt-2 text-sm text-gray-700">
+              Minimum team bid
+              <input
+                inputMode="numeric"
+                value={minimumTeamBid}
+                onChange={(e) => setMinimumTeamBid(e.target.value.replace(/[^0-9]/g, '').slice(0, 2))}
+                placeholder={String(defaultHouseRules(variant).minimumTeamBid)}
+                className="w-16 px-2 py-1 text-sm font-mono border border-gray-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-green-200"
+              />
+            </label>
+          </div>
+          <div>
+            <div className="text-[11px] font-bold tracking-wider uppercase text-gray-500 mb-2">Target score</div>
+            <input
+              type="number"
+              min={50}
+              step={50}
+              value={targetScore}
+              onChange={(e) => setTargetScore(Math.max(50, Number(e.target.value) || 0))}
+              className="w-full px-3 py-2 text-sm font-mono border border-gray-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-green-200"
+            />
+          </div>
+          <div>
+            <div className="text-[11px] font-bold tracking-wider uppercase text-gray-500 mb-2">Bracket matches</div>
+            <div className="grid grid-cols-3 gap-2">
+              {SERIES_LENGTHS.map((n) => (
+                <button
+                  key={n}
+                  onClick={() => setSeriesLength(n)}
+                  className={`py-2 text-sm font-bold rounded-lg border transition-colors ${seriesLength === n ? 'bg-green-600 text-white border-green-600' : 'bg-white text-gray-700 border-gray-200 hover:bg-gray-50'}`}
+                >
+                  {n === 1 ? 'Single' : `Best of ${n}`}
+                </button>
+              ))}
+            </div>
+          </div>
+          <button
+            onClick={() => onStart(entrants, targetScore, seriesLength, variant, {
+              spadesLeadPolicy: spadesAlwaysLead ? 'always_allowed' : 'must_be_broken',
+              minimumTeamBid: minimumTeamBid === '' ? undefined : parseInt(minimumTeamBid, 10),
+            })}
+            disabled={entrants.length < 2}
+            className="w-full py-3 bg-green-600 hover:bg-green-700 disabled:bg-gray-300 text-white font-bold rounded-xl shadow-md transition-all hover:scale-[0.99] flex items-center justify-center gap-2"
+          >
+            <Play className="w-4 h-4" /> Start tournament
+          </button>
+          <p className="text-xs text-gray-500">
+            {entrants.length < 2
+              ? 'Pick at least two entrants.'
+              : `${(entrants.length * (entrants.length - 1)) / 2} qualifying games, then a ${bracketSize(entrants.length)}-team bracket.`}
+          </p>
+        </div>
+      </div>
+    </Card>
+  );
+};
+
 // ── Stage tabs ────────────────────────────────────────────────────────────
 
-const StageTabs: React.FC<{ stage: Stage; onChange: (s: Stage) => void }> = ({ stage, onChange }) => {
+const StageTabs: React.FC<{ t: TournamentResult; stage: Stage; liveStage: Stage | null; onChange: (s: Stage) => void }> = ({ t, stage, liveStage, onChange }) => {
+  const sizes: number[] = [];
+  for (let n = bracketSize(t.participants.length); n >= 2; n /= 2) sizes.push(n);
+  const final = t.progress!.matches.find((m) => m.round === 'final');
   const tabs: { id: Stage; num: string; title: string; sub: string }[] = [
-    { id: 'qualifiers', num: 'I', title: 'Qualifiers', sub: '16 teams' },
-    { id: 'bracket', num: 'II', title: 'Bracket', sub: '8 → 4 → 2' },
-    { id: 'final', num: 'III', title: 'The Final', sub: 'Live now' },
+    { id: 'qualifiers', num: 'I', title: 'Qualifiers', sub: `${t.participants.length} teams` },
+    { id: 'bracket', num: 'II', title: 'Bracket', sub: sizes.join(' → ') },
+    {
+      id: 'final',
+      num: 'III',
+      title: 'The Final',
+      sub: liveStage === 'final' ? 'Live now' : t.champion ? `${t.champion} wins` : final ? `${final.teamA} vs ${final.teamB}` : 'To be decided',
+    },
   ];
   return (
     <div className="bg-white/95 backdrop-blur-sm rounded-2xl shadow-lg p-2 grid grid-cols-1 sm:grid-cols-3 gap-2">
-      {tabs.map((t) => {
-        const active = stage === t.id;
+      {tabs.map((tab) => {
+        const active = stage === tab.id;
         return (
           <button
-            key={t.id}
-            onClick={() => onChange(t.id)}
+            key={tab.id}
+            onClick={() => onChange(tab.id)}
             className={`relative flex items-center gap-3 px-4 py-3 rounded-xl text-left transition-all ${active ? 'bg-green-600 text-white shadow-md' : 'bg-gray-50 hover:bg-gray-100 text-gray-700'}`}
           >
             <span className={`shrink-0 w-9 h-9 rounded-lg grid place-items-center text-sm font-black font-mono ${active ? 'bg-white/20 text-white' : 'bg-white text-gray-400 border border-gray-200'}`}>
-              {t.num}
+              {tab.num}
             </span>
-            <div>
-              <div className="font-bold text-sm">{t.title}</div>
-              <div className={`text-xs ${active ? 'text-green-50' : 'text-gray-500'}`}>{t.sub}</div>
+            <div className="min-w-0">
+              <div className="font-bold text-sm">{tab.title}</div>
+              <div className={`text-xs truncate ${active ? 'text-green-50' : 'text-gray-500'}`}>{tab.sub}</div>
             </div>
-            {t.id === 'final' && !active && (
+            {tab.id === liveStage && !active && (
               <span className="absolute top-2 right-2 inline-flex items-center gap-1 px-1.5 py-0.5 text-[9px] font-bold tracking-wider uppercase bg-green-100 text-green-700 rounded">
                 <span className="w-1 h-1 rounded-full bg-green-500 animate-pulse" />
                 live
@@ -261,148 +743,164 @@ const StageTabs: React.FC<{ stage: Stage; onChange: (s: Stage) => void }> = ({ s
 
 // ── Stage I: Qualifiers ──────────────────────────────────────────────────
 
-const QualifiersStage: React.FC = () => (
-  <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
-    <Card className="lg:col-span-2 overflow-hidden p-0">
-      <SectionHead inset title="Qualifying Ladder" subtitle="Sixteen team-models ranked by W–L. Top eight advance to the bracket." />
-      <div className="overflow-x-auto subtle-scroll-dark">
-        <table className="w-full text-sm">
-          <thead className="bg-gray-50 text-gray-500">
-            <tr className="text-left">
-              {['Seed', 'Team (Model)', 'House', 'W', 'L', 'Status'].map((h) => (
-                <th key={h} className="px-4 py-3 text-[11px] font-bold tracking-wider uppercase">{h}</th>
-              ))}
-            </tr>
-          </thead>
-          <tbody>
-            {TEAMS.map((t, idx) => {
-              const isCutLine = idx === 7;
-              const advanced = t.seed <= 8;
-              return (
-                <React.Fragment key={t.id}>
-                  <tr className={`border-t border-gray-100 hover:bg-gray-50 transition-colors ${t.status === 'finalist' ? 'bg-green-50/40' : ''}`}>
-                    <td className="px-4 py-3 font-mono text-gray-500">{String(t.seed).padStart(2, '0')}</td>
-                    <td className="px-4 py-3 font-bold text-gray-800">
-                      Team {t.model}
-                    </td>
-                    <td className="px-4 py-3 text-gray-500">{t.house}</td>
-                    <td className="px-4 py-3 font-mono font-bold text-green-700">{t.qualWins}</td>
-                    <td className="px-4 py-3 font-mono text-gray-400">{t.qualLosses}</td>
-                    <td className="px-4 py-3"><StatusBadge status={t.status} advanced={advanced} /></td>
-                  </tr>
-                  {isCutLine && (
-                    <tr>
-                      <td colSpan={6} className="px-4 py-1.5 bg-gray-100">
-                        <div className="flex items-center gap-2 text-[10px] font-bold tracking-widest uppercase text-gray-400">
-                          <div className="flex-1 h-px bg-gray-300" />
-                          <span>Cut Line · Top 8 Advance to Bracket</span>
-                          <div className="flex-1 h-px bg-gray-300" />
-                        </div>
+const QualifiersStage: React.FC<{ t: TournamentResult; teams: Team[]; live: LiveGame | null }> = ({ t, teams, live }) => {
+  const size = bracketSize(teams.length);
+  const qualifiers = matchesOf(t, 'qualifier');
+  const played = qualifiers.filter((m) => m.winner).length;
+  const firstRound = matchesOf(t, BRACKET_COLUMNS[BRACKET_COLUMNS.length - Math.log2(size)].round);
+  const seeding = firstRound.length > 0
+    ? firstRound.map((m) => [teams.find((x) => x.model === m.teamA)!, teams.find((x) => x.model === m.teamB)!])
+    : firstRoundSeeds(size).map(([a, b]) => [teams[a - 1], teams[b - 1]]);
+  const playing = live && qualifiers.some((m) => m.id === live.matchId) ? [live.team1, live.team2] : [];
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+      <Card className="lg:col-span-2 overflow-hidden p-0">
+        <SectionHead inset title="Qualifying Ladder" subtitle={`${teams.length} team-models ranked by W–L. Top ${size} advance to the bracket.`} />
+        <div className="overflow-x-auto subtle-scroll-dark">
+          <table className="w-full text-sm">
+            <thead className="bg-gray-50 text-gray-500">
+              <tr className="text-left">
+                {['Seed', 'Team (Model)', 'House', 'W', 'L', '+/−', 'Status'].map((h) => (
+                  <th key={h} className="px-4 py-3 text-[11px] font-bold tracking-wider uppercase">{h}</th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {teams.map((team, idx) => {
+                const isCutLine = idx === size - 1 && teams.length > size;
+                return (
+                  <React.Fragment key={team.id}>
+                    <tr className={`border-t border-gray-100 hover:bg-gray-50 transition-colors ${team.status === 'finalist' || team.status === 'champion' ? 'bg-green-50/40' : ''}`}>
+                      <td className="px-4 py-3 font-mono text-gray-500">{String(team.seed).padStart(2, '0')}</td>
+                      <td className="px-4 py-3 font-bold text-gray-800">
+                        <span className="inline-flex items-center gap-2">
+                          Team {team.model}
+                          {playing.includes(team.model) && <span className="w-1.5 h-1.5 rounded-full bg-green-500 animate-pulse" title="Playing now" />}
+                        </span>
                       </td>
+                      <td className="px-4 py-3 text-gray-500">{team.house}</td>
+                      <td className="px-4 py-3 font-mono font-bold text-green-700">{team.qualWins}</td>
+                      <td className="px-4 py-3 font-mono text-gray-400">{team.qualLosses}</td>
+                      <td className="px-4 py-3 font-mono text-gray-500">{team.pointDiff > 0 ? '+' : ''}{team.pointDiff}</td>
+                      <td className="px-4 py-3"><StatusBadge status={team.status} advanced={team.advanced} /></td>
                     </tr>
-                  )}
-                </React.Fragment>
-              );
-            })}
-          </tbody>
-        </table>
-      </div>
-    </Card>
-
-    <div className="space-y-6">
-      <Card>
-        <SectionHead small title="How qualifying works" />
-        <p className="text-sm text-gray-600 leading-relaxed">
-          Each team — one model paired with itself across seats 1 &amp; 3 or 2 &amp; 4 —
-          plays a rotating schedule against the other fifteen. Records are pooled into
-          a single ladder. Ties are broken by{' '}
-          <span className="font-semibold text-gray-800">point differential</span>, then
-          by <span className="font-semibold text-gray-800">head-to-head</span>.
-        </p>
-        <div className="mt-4 pt-4 border-t border-gray-100 text-xs text-gray-500 flex justify-between">
-          <span>Cut at seed 08</span>
-          <span className="font-mono text-gray-400">DeepSeek R2</span>
+                    {isCutLine && (
+                      <tr>
+                        <td colSpan={7} className="px-4 py-1.5 bg-gray-100">
+                          <div className="flex items-center gap-2 text-[10px] font-bold tracking-widest uppercase text-gray-400">
+                            <div className="flex-1 h-px bg-gray-300" />
+                            <span>Cut Line · Top {size} Advance to Bracket</span>
+                            <div className="flex-1 h-px bg-gray-300" />
+                          </div>
+                        </td>
+                      </tr>
+                    )}
+                  </React.Fragment>
+                );
+              })}
+            </tbody>
+          </table>
         </div>
       </Card>
 
-      <Card>
-        <SectionHead small title="Bracket seeding" />
-        <p className="text-sm text-gray-600 mb-3">First-round matchups by seed:</p>
-        <ul className="space-y-2.5 text-sm">
-          {[
-            ['1', 'opus47', '8', 'dsr2'],
-            ['4', 'l4mav', '5', 'son46'],
-            ['3', 'gem3u', '6', 'qwen3'],
-            ['2', 'gpt55', '7', 'mistr'],
-          ].map(([sa, ida, sb, idb], i) => {
-            const a = lookup(ida);
-            const b = lookup(idb);
-            return (
+      <div className="space-y-6">
+        <Card>
+          <SectionHead small title="How qualifying works" />
+          <p className="text-sm text-gray-600 leading-relaxed">
+            Each team — one model paired with itself across seats 1 &amp; 3 or 2 &amp; 4 —
+            plays every other team once, {qualifiers.length} games in all. Records are pooled
+            into a single ladder. Ties are broken by{' '}
+            <span className="font-semibold text-gray-800">point differential</span>, then
+            by <span className="font-semibold text-gray-800">head-to-head</span>.
+          </p>
+          <div className="mt-4 pt-4 border-t border-gray-100 text-xs text-gray-500 flex justify-between gap-2">
+            <span>{played} of {qualifiers.length} played · cut at seed {String(size).padStart(2, '0')}</span>
+            <span className="font-mono text-gray-400 truncate">{teams[size - 1]?.model}</span>
+          </div>
+        </Card>
+
+        <Card>
+          <SectionHead small title="Bracket seeding" />
+          <p className="text-sm text-gray-600 mb-3">
+            {firstRound.length > 0 ? 'First-round matchups by seed:' : 'Projected first-round matchups, from the ladder so far:'}
+          </p>
+          <ul className="space-y-2.5 text-sm">
+            {seeding.map(([a, b], i) => (
               <li key={i} className="flex items-center justify-between gap-2 text-xs">
                 <span className="flex items-center gap-1.5 min-w-0">
-                  <span className="shrink-0 w-5 h-5 rounded bg-blue-100 text-blue-700 grid place-items-center font-bold font-mono">{sa}</span>
+                  <span className="shrink-0 w-5 h-5 rounded bg-blue-100 text-blue-700 grid place-items-center font-bold font-mono">{a.seed}</span>
                   <span className="text-gray-700 truncate">{a.model}</span>
                 </span>
                 <span className="shrink-0 text-gray-400 font-mono">vs</span>
                 <span className="flex items-center gap-1.5 min-w-0 justify-end">
                   <span className="text-gray-700 truncate">{b.model}</span>
-                  <span className="shrink-0 w-5 h-5 rounded bg-red-100 text-red-700 grid place-items-center font-bold font-mono">{sb}</span>
+                  <span className="shrink-0 w-5 h-5 rounded bg-red-100 text-red-700 grid place-items-center font-bold font-mono">{b.seed}</span>
                 </span>
               </li>
-            );
-          })}
-        </ul>
-      </Card>
+            ))}
+          </ul>
+        </Card>
+      </div>
     </div>
-  </div>
-);
+  );
+};
 
 // ── Stage II: Bracket ─────────────────────────────────────────────────────
 
-const BracketStage: React.FC<{ onAdvance: () => void }> = ({ onAdvance }) => {
-  const qf = BRACKET.filter((m) => m.round === 'qf');
-  const sf = BRACKET.filter((m) => m.round === 'sf');
+const BRACKET_COLUMNS: { round: TournamentRound; label: string; sub: string }[] = [
+  { round: 'qf', label: 'Quarterfinals', sub: '8 → 4' },
+  { round: 'sf', label: 'Semifinals', sub: '4 → 2' },
+  { round: 'final', label: 'The Final', sub: 'Championship · 2v2' },
+];
 
+// Grid template by bracket size, and each column's offset so its cards sit between the pairs feeding them
+const BRACKET_GRID: Record<number, string> = {
+  8: 'lg:grid-cols-[1fr_1fr_1.1fr]',
+  4: 'lg:grid-cols-[1fr_1.1fr]',
+  2: 'lg:grid-cols-1',
+};
+const COLUMN_OFFSETS = ['', 'lg:gap-[8.5rem] lg:pt-[4.25rem]', 'lg:pt-[10.75rem]'];
+
+const BracketStage: React.FC<{ t: TournamentResult; teams: Team[]; live: LiveGame | null; onAdvance: () => void }> = ({ t, teams, live, onAdvance }) => {
+  const size = bracketSize(teams.length);
+  const columns = BRACKET_COLUMNS.slice(BRACKET_COLUMNS.length - Math.log2(size));
+  const { seriesLength } = t.progress!.config;
+  const seeded = t.progress!.matches.some((m) => m.round !== 'qualifier');
+
+  let index = 0;
   return (
     <div className="space-y-6">
       <Card>
         <SectionHead
           title="Single-Elimination Bracket"
-          subtitle="Eight teams, three rounds. Winning team advances; losing team is out."
+          subtitle={`${size} teams, ${columns.length} round${columns.length === 1 ? '' : 's'}${seriesLength > 1 ? `, best of ${seriesLength}` : ''}. Winning team advances; losing team is out.${seeded ? '' : ' Seeded when qualifying ends.'}`}
         />
 
-        {/* 3-column bracket using CSS grid with row-spans for vertical centering */}
-        <div className="grid grid-cols-1 lg:grid-cols-[1fr_1fr_1.1fr] gap-4 lg:gap-6">
-          {/* Quarterfinals */}
-          <BracketColumn label="Quarterfinals" sub="8 → 4">
-            <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-1 gap-4">
-              {qf.map((m, i) => (
-                <BracketMatchCard key={m.id} match={m} index={i} />
-              ))}
-            </div>
-          </BracketColumn>
-
-          {/* Semifinals — vertically centered between QF pairs */}
-          <BracketColumn label="Semifinals" sub="4 → 2">
-            <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-1 gap-4 lg:gap-[8.5rem] lg:pt-[4.25rem]">
-              {sf.map((m, i) => (
-                <BracketMatchCard key={m.id} match={m} index={i + 4} />
-              ))}
-            </div>
-          </BracketColumn>
-
-          {/* Final */}
-          <BracketColumn label="The Final" sub="Championship · 2v2" emphasis>
-            <div className="lg:pt-[10.75rem]">
-              <BracketMatchCard match={FINAL_MATCH} index={6} large />
-              <button
-                onClick={onAdvance}
-                className="mt-4 w-full py-2.5 bg-green-600 hover:bg-green-700 text-white text-sm font-bold rounded-lg shadow-md transition-all hover:scale-[0.99] flex items-center justify-center gap-2"
-              >
-                <Eye className="w-4 h-4" /> Watch the Final
-              </button>
-            </div>
-          </BracketColumn>
+        {/* Bracket columns using CSS grid with offsets for vertical centering */}
+        <div className={`grid grid-cols-1 ${BRACKET_GRID[size]} gap-4 lg:gap-6`}>
+          {columns.map((col, c) => {
+            const matches = matchesOf(t, col.round);
+            const slots = Array.from({ length: size / 2 ** (c + 1) }, (_, i) => matches[i]);
+            const isFinal = col.round === 'final';
+            return (
+              <BracketColumn key={col.round} label={col.label} sub={col.sub} emphasis={isFinal}>
+                <div className={isFinal ? COLUMN_OFFSETS[c] : `grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-1 gap-4 ${COLUMN_OFFSETS[c]}`}>
+                  {slots.map((m, i) => (
+                    <BracketMatchCard key={m?.id ?? `${col.round}-${i}`} t={t} match={m} teams={teams} live={live} index={index++} large={isFinal} />
+                  ))}
+                  {isFinal && (
+                    <button
+                      onClick={onAdvance}
+                      className="mt-4 w-full py-2.5 bg-green-600 hover:bg-green-700 text-white text-sm font-bold rounded-lg shadow-md transition-all hover:scale-[0.99] flex items-center justify-center gap-2"
+                    >
+                      <Eye className="w-4 h-4" /> Watch the Final
+                    </button>
+                  )}
+                </div>
+              </BracketColumn>
+            );
+          })}
         </div>
       </Card>
     </div>
@@ -423,39 +921,49 @@ const BracketColumn: React.FC<{ label: string; sub: string; emphasis?: boolean;
   </div>
 );
 
-const BracketMatchCard: React.FC<{ match: Match; index: number; large?: boolean }> = ({ match, index, large = false }) => {
-  const teamA = lookup(match.teamA);
-  const teamB = lookup(match.teamB);
+/** One bracket match; without `match`, a slot still waiting on the round before. */
+const BracketMatchCard: React.FC<{
+  t: TournamentResult;
+  match?: TournamentMatch;
+  teams: Team[];
+  live: LiveGame | null;
+  index: number;
+  large?: boolean;
+}> = ({ t, match, teams, live, index, large = false }) => {
+  const teamA = match && teams.find((x) => x.model === match.teamA);
+  const teamB = match && teams.find((x) => x.model === match.teamB);
+  const score = match ? matchScore(t, match) : {};
+  const inProgress = !!match && live?.matchId === match.id;
   return (
     <motion.div
       initial={{ opacity: 0, x: -8 }}
       animate={{ opacity: 1, x: 0 }}
       transition={{ delay: index * 0.04, duration: 0.3 }}
       className={`rounded-xl border bg-white overflow-hidden ${
-        match.inProgress
+        inProgress
           ? 'border-green-400 shadow-lg shadow-green-200/40 ring-2 ring-green-100'
           : 'border-gray-200'
       }`}
     >
       <BracketTeamRow
         team={teamA}
-        score={match.scoreA}
-        isWinner={match.winner === teamA.id}
+        score={score.a}
+        isWinner={!!match?.winner && match.winner === match.teamA}
         teamColor="blue"
         large={large}
       />
       <div className="h-px bg-gray-100" />
       <BracketTeamRow
         team={teamB}
-        score={match.scoreB}
-        isWinner={match.winner === teamB.id}
+        score={score.b}
+        isWinner={!!match?.winner && match.winner === match.teamB}
         teamColor="red"
         large={large}
       />
-      {match.inProgress && (
+      {inProgress && (
         <div className="px-3 py-1.5 bg-green-50 border-t border-green-200 flex items-center gap-1.5 text-[10px] font-bold tracking-wider uppercase text-green-700">
           <span className="w-1.5 h-1.5 rounded-full bg-green-500 animate-pulse" />
-          Live · in progress
+          Live · {t.progress!.config.seriesLength > 1 ? `game ${live!.game + 1}` : 'in progress'}
         </div>
       )}
     </motion.div>
@@ -463,7 +971,7 @@ const BracketMatchCard: React.FC<{ match: Match; index: number; large?: boolean
 };
 
 const BracketTeamRow: React.FC<{
-  team: Team;
+  team?: Team;
   score?: number;
   isWinner: boolean;
   teamColor: 'blue' | 'red';
@@ -476,14 +984,14 @@ const BracketTeamRow: React.FC<{
   const c = colorClasses[teamColor];
   return (
     <div className={`flex items-center gap-2.5 px-3 ${large ? 'py-3' : 'py-2.5'} ${isWinner ? 'bg-green-50' : ''}`}>
-      <span className={`shrink-0 w-7 h-7 rounded-md ${c.seed} grid place-items-center text-[11px] font-mono font-bold`}>
-        {String(team.seed).padStart(2, '0')}
+      <span className={`shrink-0 w-7 h-7 rounded-md ${team ? c.seed : 'bg-gray-100 text-gray-400'} grid place-items-center text-[11px] font-mono font-bold`}>
+        {team ? String(team.seed).padStart(2, '0') : '—'}
       </span>
       <div className="min-w-0 flex-1">
-        <div className={`font-bold truncate ${isWinner ? 'text-gray-900' : 'text-gray-700'} ${large ? 'text-base' : 'text-sm'}`}>
-          Team {team.model}
+        <div className={`font-bold truncate ${isWinner ? 'text-gray-900' : team ? 'text-gray-700' : 'text-gray-400'} ${large ? 'text-base' : 'text-sm'}`}>
+          {team ? `Team ${team.model}` : 'To be decided'}
         </div>
-        <div className="text-[11px] text-gray-500 truncate">{team.house}</div>
+        <div className="text-[11px] text-gray-500 truncate">{team?.house ?? ' '}</div>
       </div>
       {score !== undefined && (
         <div className={`font-mono font-black ${large ? 'text-2xl' : 'text-lg'} ${isWinner ? 'text-green-700' : 'text-gray-400'}`}>
@@ -497,24 +1005,62 @@ const BracketTeamRow: React.FC<{
 
 // ── Stage III: The Final ─────────────────────────────────────────────────
 
-const FinalStage: React.FC = () => {
-  const teamA = lookup(FINAL_MATCH.teamA);
-  const teamB = lookup(FINAL_MATCH.teamB);
+const FinalStage: React.FC<{ t: TournamentResult; teams: Team[]; live: LiveGame | null; onViewBracket: () => void }> = ({ t, teams, live, onViewBracket }) => {
   const [pulse, setPulse] = useState(0);
 
   useEffect(() => {
-    const t = setInterval(() => setPulse((p) => p + 1), 1100);
-    return () => clearInterval(t);
+    const timer = setInterval(() => setPulse((p) => p + 1), 1100);
+    return () => clearInterval(timer);
   }, []);
 
+  const final = t.progress!.matches.find((m) => m.round === 'final');
+  if (!final) {
+    return (
+      <Card className="text-center py-12">
+        <Crown className="w-8 h-8 text-gray-300 mx-auto mb-3" />
+        <h3 className="text-lg font-black text-gray-800">The final is not set yet</h3>
+        <p className="text-sm text-gray-500 mt-1">
+          {tournamentPhase(t) === 'qualifiers' ? 'Qualifying is still being played.' : 'It is set once the semifinals are decided.'}
+        </p>
+        <button
+          onClick={onViewBracket}
+          className="mt-5 px-6 py-2.5 bg-white hover:bg-gray-50 text-gray-700 text-sm font-bold rounded-xl shadow-sm border border-gray-200 transition-all inline-flex items-center gap-2"
+        >
+          <Trophy className="w-4 h-4" /> View Bracket
+        </button>
+      </Card>
+    );
+  }
+
+  const { config } = t.progress!;
+  const isLive = live?.matchId === final.id;
+  const state = isLive ? live!.engine.state : null;
+  // Sides of the game in progress, else of the last one played
+  const game = isLive ? live!.game : Math.max(final.games.length - 1, 0);
+  const aFirst = teamAIsTeam1(final, game);
+  const teamA = teams.find((x) => x.model === final.teamA)!;
+  const teamB = teams.find((x) => x.model === final.teamB)!;
+  const [team1, team2] = aFirst ? [teamA, teamB] : [teamB, teamA];
+
+  const last = final.games[game];
+  const lastScores = last ? (aFirst ? [last.scoreA, last.scoreB] : [last.scoreB, last.scoreA]) : [0, 0];
+  const score1 = state ? state.teams.team1.score : lastScores[0];
+  const score2 = state ? state.teams.team2.score : lastScores[1];
+  const teamBid = (seats: number[]) => {
+    const bids = seats.map((s) => state?.players[s].bid ?? null);
+    return bids.includes(null) ? null : bids.reduce<number>((sum, b) => sum + b!, 0);
+  };
+  const teamTricks = (seats: number[]) => (state ? seats.reduce((sum, s) => sum + state.players[s].tricksWon, 0) : null);
+
+  const lines = isLive ? live!.hands : scoreLines(t.matches.find((r) => r.id === last?.resultId));
+  const { winsA, winsB } = seriesScore(final);
+
   // path-to-final for each team
-  const pathFor = (teamId: string) =>
-    BRACKET.filter((m) => m.round !== 'final' && (m.teamA === teamId || m.teamB === teamId)).map((m) => {
-      const isA = m.teamA === teamId;
-      const us = isA ? m.scoreA! : m.scoreB!;
-      const them = isA ? m.scoreB! : m.scoreA!;
-      const oppId = isA ? m.teamB : m.teamA;
-      return { round: m.round, us, them, opp: lookup(oppId) };
+  const pathFor = (model: string) =>
+    t.progress!.matches.filter((m) => m.round !== 'qualifier' && m.round !== 'final' && (m.teamA === model || m.teamB === model)).map((m) => {
+      const isA = m.teamA === model;
+      const { a, b } = matchScore(t, m);
+      return { round: m.round, us: (isA ? a : b) ?? 0, them: (isA ? b : a) ?? 0, opp: teams.find((x) => x.model === (isA ? m.teamB : m.teamA))! };
     });
 
   return (
@@ -527,19 +1073,26 @@ const FinalStage: React.FC = () => {
               <Crown className="w-4 h-4" /> Championship · 2v2 Final
             </div>
             <h2 className="text-2xl sm:text-3xl font-black text-gray-900 mt-1">
-              Team {teamA.model} <span className="text-gray-400 font-normal">vs</span> Team {teamB.model}
+              Team {team1.model} <span className="text-gray-400 font-normal">vs</span> Team {team2.model}
             </h2>
             <p className="text-sm text-gray-500 mt-1">
               Each team is two instances of the same model. First to{' '}
-              <span className="font-bold text-gray-700">250 points</span> takes the title.
+              <span className="font-bold text-gray-700">{config.targetScore} points</span>
+              {config.seriesLength > 1 ? <> wins a game; best of {config.seriesLength} takes the title.</> : <> takes the title.</>}
             </p>
           </div>
-          <Pill icon={<Flame className="w-3.5 h-3.5" />} label={`LIVE · Hand 9`} tone="green" pulse />
+          {state ? (
+            <Pill icon={<Flame className="w-3.5 h-3.5" />} label={`LIVE · Hand ${state.handNumber}`} tone="green" pulse />
+          ) : t.champion ? (
+            <Pill icon={<Crown className="w-3.5 h-3.5" />} label={`Champion · ${t.champion}`} tone="amber" />
+          ) : (
+            <Pill icon={<Clock className="w-3.5 h-3.5" />} label={`Game ${final.games.length + 1} next`} tone="gray" />
+          )}
         </div>
 
         {/* Versus block */}
         <div className="relative grid grid-cols-1 md:grid-cols-[1fr_auto_1fr] items-stretch gap-4 px-4 sm:px-6 pb-6">
-          <TeamPanel team={teamA} tone="blue" score={FINAL_MATCH.scoreA!} bid={9} tricks={5} seats={[1, 3]} align="left" />
+          <TeamPanel team={team1} tone="blue" score={score1} target={config.targetScore} bid={teamBid([0, 2])} tricks={teamTricks([0, 2])} seats={[1, 3]} align="left" />
 
           {/* VS center medallion */}
           <div className="relative flex md:flex-col items-center justify-center py-2 md:py-0 md:px-2">
@@ -555,23 +1108,34 @@ const FinalStage: React.FC = () => {
             </motion.div>
           </div>
 
-          <TeamPanel team={teamB} tone="red" score={FINAL_MATCH.scoreB!} bid={8} tricks={4} seats={[2, 4]} align="right" />
+          <TeamPanel team={team2} tone="red" score={score2} target={config.targetScore} bid={teamBid([1, 3])} tricks={teamTricks([1, 3])} seats={[2, 4]} align="right" />
         </div>
 
-        {/* Live match strip */}
+        {/* Live match strip, or the series once no game is in progress */}
         <div className="border-t border-gray-100 bg-gray-50 px-6 sm:px-8 py-4 grid grid-cols-2 sm:grid-cols-4 gap-4 text-sm">
-          <LiveStat label="Hand" value="9 of —" />
-          <LiveStat label="Trick" value="6 of 13" highlight={pulse % 2 === 0} />
-          <LiveStat label="Led suit" value="♠ Spades" />
-          <LiveStat label="Spades broken" value="Yes" />
+          {state ? (
+            <>
+              <LiveStat label="Hand" value={`${state.handNumber}`} />
+              <LiveStat label="Trick" value={`${state.currentTrick.number} of 13`} highlight={pulse % 2 === 0} />
+              <LiveStat label="Led suit" value={state.currentTrick.ledSuit ? SUIT_NAMES[state.currentTrick.ledSuit] ?? 'Joker' : '—'} />
+              <LiveStat label="Spades broken" value={state.spadesBroken ? 'Yes' : 'No'} />
+            </>
+          ) : (
+            <>
+              <LiveStat label="Series" value={`${winsA}–${winsB}`} />
+              <LiveStat label="Games" value={`${final.games.length}`} />
+              <LiveStat label="Format" value={config.seriesLength > 1 ? `Best of ${config.seriesLength}` : 'Single game'} />
+              <LiveStat label="Champion" value={t.champion || '—'} />
+            </>
+          )}
         </div>
 
         {/* CTA */}
         <div className="px-6 sm:px-8 py-5 border-t border-gray-100 flex flex-col sm:flex-row items-stretch sm:items-center gap-3">
-          <button className="flex-1 py-3 bg-green-600 hover:bg-green-700 text-white font-bold rounded-xl shadow-md transition-all hover:scale-[0.99] flex items-center justify-center gap-2">
-            <Eye className="w-4 h-4" /> Watch Live
-          </button>
-          <button className="px-6 py-3 bg-white hover:bg-gray-50 text-gray-700 font-bold rounded-xl shadow-sm border border-gray-200 transition-all flex items-center justify-center gap-2">
+          <button
+            onClick={onViewBracket}
+            className="flex-1 py-3 bg-white hover:bg-gray-50 text-gray-700 font-bold rounded-xl shadow-sm border border-gray-200 transition-all flex items-center justify-center gap-2"
+          >
             <Trophy className="w-4 h-4" /> View Bracket
           </button>
         </div>
@@ -579,27 +1143,29 @@ const FinalStage: React.FC = () => {
 
       {/* Path to the final */}
       <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
-        <PathCard team={teamA} tone="blue" path={pathFor(teamA.id)} />
-        <PathCard team={teamB} tone="red" path={pathFor(teamB.id)} />
+        <PathCard team={teamA} tone="blue" path={pathFor(teamA.model)} />
+        <PathCard team={teamB} tone="red" path={pathFor(teamB.model)} />
       </div>
 
       {/* Live commentary + hand log */}
       <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
         <Card className="lg:col-span-2">
-          <SectionHead title="Live commentary" subtitle="Hand 9, trick 6 in progress." />
+          <SectionHead
+            title={state ? 'Live commentary' : 'Final games'}
+            subtitle={state ? `Hand ${state.handNumber}, trick ${state.currentTrick.number} in progress.` : `${final.games.length} game${final.games.length === 1 ? '' : 's'} played.`}
+          />
           <ul className="space-y-3 text-sm text-gray-600">
-            {[
-              ['Claude Opus 4.7 (seat 1) leads the queen of spades — an unhurried claim of authority.', 'now'],
-              ['GPT-5.5 Pro (seat 2) hesitates; chain-of-thought briefly debates a covering jack.', '6s ago'],
-              ['Claude Opus 4.7 (seat 3) plays the seven of clubs, drawing trump.', '14s ago'],
-              ['GPT-5.5 Pro (seat 4) captures trick 5 with the king of hearts. Team GPT-5.5 Pro ahead by three tricks.', '38s ago'],
-            ].map(([msg, ts], i) => (
+            {(state
+              ? live!.feed.map((f) => [f.text, f.tag])
+              : final.games.map((g, i) => [`Game ${i + 1}: Team ${final.teamA} ${g.scoreA} – ${g.scoreB} Team ${final.teamB}.`, `G${i + 1}`])
+            ).map(([msg, ts], i) => (
               <li key={i} className="flex items-start gap-3 pb-3 border-b border-gray-100 last:border-0">
                 <span className="shrink-0 mt-1 w-2 h-2 rounded-full bg-green-500" />
                 <span className="flex-1">{msg}</span>
                 <span className="shrink-0 text-xs font-mono text-gray-400">{ts}</span>
               </li>
             ))}
+            {!state && final.games.length === 0 && <li className="text-gray-400">No games played yet.</li>}
           </ul>
         </Card>
 
@@ -611,23 +1177,17 @@ const FinalStage: React.FC = () => {
             <span className="text-red-700 text-right">Team 2</span>
           </div>
           <div className="space-y-1.5 text-sm">
-            {[
-              ['1', 71, 64],
-              ['2', 88, 82],
-              ['3', 95, 113],
-              ['4', 119, 138],
-              ['5', 142, 138],
-            ].map(([h, n, s]) => (
-              <div key={String(h)} className="grid grid-cols-3 items-center">
-                <span className="text-xs font-mono text-gray-500">Hand {h}</span>
-                <span className="font-mono text-blue-700 font-bold text-right">{n}</span>
-                <span className="font-mono text-red-700 font-bold text-right">{s}</span>
+            {lines.map((l) => (
+              <div key={l.hand} className="grid grid-cols-3 items-center">
+                <span className="text-xs font-mono text-gray-500">Hand {l.hand}</span>
+                <span className="font-mono text-blue-700 font-bold text-right">{l.team1}</span>
+                <span className="font-mono text-red-700 font-bold text-right">{l.team2}</span>
               </div>
             ))}
             <div className="pt-2 mt-2 border-t border-gray-100 grid grid-cols-3 items-center">
-              <span className="text-xs font-bold uppercase tracking-widest text-gray-500">Now</span>
-              <span className="font-mono text-blue-700 font-black text-right text-base">{FINAL_MATCH.scoreA}</span>
-              <span className="font-mono text-red-700 font-black text-right text-base">{FINAL_MATCH.scoreB}</span>
+              <span className="text-xs font-bold uppercase tracking-widest text-gray-500">{state ? 'Now' : 'Final'}</span>
+              <span className="font-mono text-blue-700 font-black text-right text-base">{score1}</span>
+              <span className="font-mono text-red-700 font-black text-right text-base">{score2}</span>
             </div>
           </div>
         </Card>
@@ -640,11 +1200,12 @@ const TeamPanel: React.FC<{
   team: Team;
   tone: 'blue' | 'red';
   score: number;
-  bid: number;
-  tricks: number;
+  target: number;
+  bid: number | null;    // null until both seats have bid
+  tricks: number | null; // null between games
   seats: [number, number];
   align: 'left' | 'right';
-}> = ({ team, tone, score, bid, tricks, seats, align }) => {
+}> = ({ team, tone, score, target, bid, tricks, seats, align }) => {
   const tones = {
     blue: {
       ring: 'border-blue-200',
@@ -694,27 +1255,25 @@ const TeamPanel: React.FC<{
         </h3>
       </div>
       <div className={`text-sm text-gray-500 ${isLeft ? '' : 'md:text-right'}`}>
-        {team.house} · same model in both seats
+        {team.house} · seed {team.seed} · same model in both seats
       </div>
 
       {/* Score */}
       <div className={`mt-4 flex items-baseline gap-2 ${isLeft ? '' : 'md:justify-end'}`}>
         <span className={`text-5xl sm:text-6xl font-black font-mono ${t.score}`}>{score}</span>
-        <span className="text-xs text-gray-400">/ 250 pts</span>
+        <span className="text-xs text-gray-400">/ {target} pts</span>
       </div>
 
       {/* The two seat assignments — making the pairing explicit */}
       <div className="mt-4 space-y-2">
-        {seats.map((s, i) => (
+        {seats.map((s) => (
           <div key={s} className={`flex items-center gap-3 ${isLeft ? '' : 'md:flex-row-reverse'}`}>
             <span className={`shrink-0 w-9 h-9 rounded-lg ${t.seedBg} text-white font-black font-mono grid place-items-center text-xs`}>
               S{s}
             </span>
             <div className={`min-w-0 ${isLeft ? '' : 'md:text-right'}`}>
               <div className="font-bold text-gray-800 truncate text-sm">{team.model}</div>
-              <div className="text-xs text-gray-500 truncate">
-                {i === 0 ? 'Partner' : 'Partner'} · seat {s}
-              </div>
+              <div className="text-xs text-gray-500 truncate">Partner · seat {s}</div>
             </div>
           </div>
         ))}
@@ -724,11 +1283,11 @@ const TeamPanel: React.FC<{
       <div className={`mt-4 pt-4 border-t border-gray-200/60 grid grid-cols-2 gap-3 ${isLeft ? '' : 'md:text-right'}`}>
         <div>
           <div className="text-[10px] font-bold tracking-widest uppercase text-gray-400">Team Bid</div>
-          <div className="font-mono font-black text-gray-800 text-lg">{bid}</div>
+          <div className="font-mono font-black text-gray-800 text-lg">{bid ?? '—'}</div>
         </div>
         <div>
           <div className="text-[10px] font-bold tracking-widest uppercase text-gray-400">Tricks</div>
-          <div className="font-mono font-black text-gray-800 text-lg">{tricks}</div>
+          <div className="font-mono font-black text-gray-800 text-lg">{tricks ?? '—'}</div>
         </div>
       </div>
     </motion.div>
@@ -736,9 +1295,9 @@ const TeamPanel: React.FC<{
 };
 
 const LiveStat: React.FC<{ label: string; value: string; highlight?: boolean }> = ({ label, value, highlight }) => (
-  <div>
+  <div className="min-w-0">
     <div className="text-[10px] font-bold tracking-widest uppercase text-gray-400">{label}</div>
-    <div className={`mt-0.5 text-base font-mono font-bold ${highlight ? 'text-green-700' : 'text-gray-800'} transition-colors`}>
+    <div className={`mt-0.5 text-base font-mono font-bold truncate ${highlight ? 'text-green-700' : 'text-gray-800'} transition-colors`}>
       {value}
     </div>
   </div>
@@ -747,14 +1306,13 @@ const LiveStat: React.FC<{ label: string; value: string; highlight?: boolean }>
 const PathCard: React.FC<{
   team: Team;
   tone: 'blue' | 'red';
-  path: { round: 'qf' | 'sf' | 'final'; us: number; them: number; opp: Team }[];
+  path: { round: TournamentRound; us: number; them: number; opp: Team }[];
 }> = ({ team, tone, path }) => {
   const toneClasses = {
     blue: { border: 'border-blue-200', label: 'text-blue-700', score: 'text-blue-700' },
     red: { border: 'border-red-200', label: 'text-red-700', score: 'text-red-700' },
   } as const;
   const c = toneClasses[tone];
-  const roundLabel = { qf: 'Quarterfinal', sf: 'Semifinal', final: 'Final' };
 
   return (
     <div className={`bg-white rounded-2xl shadow-xl p-5 sm:p-6 border-l-4 ${c.border}`}>
@@ -763,13 +1321,14 @@ const PathCard: React.FC<{
         <span className={`text-[10px] font-bold tracking-widest uppercase ${c.label}`}>Path to the Final</span>
       </div>
       <h3 className="text-lg font-black text-gray-800 leading-tight">Team {team.model}</h3>
-      <p className="text-xs text-gray-500 mb-4">{team.house} · seed {team.seed}</p>
+      <p className="text-xs text-gray-500 mb-4">{team.house} · seed {team.seed} · {team.qualWins}–{team.qualLosses} in qualifying</p>
 
       <div className="space-y-3">
+        {path.length === 0 && <p className="text-sm text-gray-500">Straight from qualifying.</p>}
         {path.map((p, i) => (
           <div key={i} className="flex items-center gap-3 text-sm">
             <span className="shrink-0 w-20 text-[10px] font-bold tracking-widest uppercase text-gray-400">
-              {roundLabel[p.round]}
+              {ROUND_LABELS[p.round]}
             </span>
             <div className="flex-1 min-w-0">
               <div className="text-gray-700 truncate">
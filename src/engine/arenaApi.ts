@@ -0,0 +1,80 @@
+/**
+ * Arena API — client for the arena server (server/index.ts). Active only
+ * when initResultsStore() found a server at RESULTS_API_URL; the stores
+ * check getArenaApi() and fall back to localStorage when it is null.
+ */
+
+import type { GameResult, TournamentResult } from './resultsStore';
+import type { DecisionQuery, DecisionRecord } from './decisionStore';
+import type { RecordedGame } from './replayStore';
+
+export class ArenaApi {
+  readonly baseUrl: string;
+
+  constructor(baseUrl: string) {
+    this.baseUrl = baseUrl.replace(/\/+$/, '');
+  }
+
+  private async request<T>(method: string, path: string, body?: unknown): Promise<T> {
+    const res = await fetch(`${this.baseUrl}/api${path}`, {
+      method,
+      headers: body !== undefined ? { 'Content-Type': 'application/json' } : undefined,
+      body: body !== undefined ? JSON.stringify(body) : undefined,
+    });
+    if (!res.ok) {
+      const detail = await res.json().then(j => j.error, () => res.statusText);
+      throw new Error(`${method} ${path} failed (${res.status}): ${detail}`);
+    }
+    return (res.status === 204 ? undefined : await res.json()) as T;
+  }
+
+  health(): Promise<{ ok: boolean; schemaVersion: number }> {
+    return this.request('GET', '/health');
+  }
+
+  getResults(): Promise<GameResult[]> {
+    return this.request('GET', '/results');
+  }
+
+  postResults(results: GameResult[]): Promise<void> {
+    return this.request('POST', '/results', results);
+  }
+
+  getTournaments(): Promise<TournamentResult[]> {
+    return this.request('GET', '/tournaments');
+  }
+
+  postTournaments(tournaments: TournamentResult[]): Promise<void> {
+    return this.request('POST', '/tournaments', tournaments);
+  }
+
+  putGame(game: RecordedGame): Promise<void> {
+    return this.request('PUT', `/games/${encodeURIComponent(game.id)}`, game);
+  }
+
+  putDecisions(gameId: string, records: DecisionRecord[]): Promise<void> {
+    return this.request('PUT', `/games/${encodeURIComponent(gameId)}/decisions`, records);
+  }
+
+  searchDecisions(model: string, query: DecisionQuery): Promise<DecisionRecord[]> {
+    const params = new URLSearchParams({ model });
+    if (query.text?.trim()) params.set('text', query.text.trim());
+    if (query.kind) params.set('kind', query.kind);
+    if (query.fallbackOnly) params.set('fallback', '1');
+    return this.request('GET', `/decisions?${params}`);
+  }
+
+  clear(): Promise<void> {
+    return this.request('DELETE', '/data');
+  }
+}
+
+let active: ArenaApi | null = null;
+
+export function getArenaApi(): ArenaApi | null {
+  return active;
+}
+
+export function setArenaApi(api: ArenaApi | null) {
+  active = api;
+}
@@ -0,0 +1,328 @@
+/**
+ * Arena bundles — move results between machines and share benchmark runs.
+ *
+ * A bundle is versioned JSON holding results (with their per-hand logs) and
+ * tournaments. It can also be flattened to CSV tables for spreadsheets:
+ *
+ *   results.csv      one row per game
+ *   tournaments.csv  one row per tournament
+ *   hands.csv        one row per hand of every game that has hand logs
+ *
+ * Importing validates the whole bundle first, then merges on id: new ids
+ * are added, identical records are skipped, and a record whose id exists
+ * with different content is a conflict — the existing copy is kept and the
+ * conflict reported. A record's `source` tag is not content: importing
+ * re-tags it (see tagImported), so it never makes a conflict.
+ *
+ * Everything here is pure; resultsStore and server/cli.ts do the storage.
+ */
+
+import type { GameResult, TournamentResult } from './resultsStore';
+import type { HandLog } from '../benchmark/metrics';
+import { DATA_SOURCES, DataSource } from './dataSource';
+import { TokenUsage, addUsage } from './usage';
+
+export const BUNDLE_FORMAT = 'spades-arena-bundle';
+export const BUNDLE_VERSION = 1;
+
+export interface ArenaBundle {
+  format: typeof BUNDLE_FORMAT;
+  version: number;
+  exportedAt: string; // ISO string
+  results: GameResult[];
+  tournaments: TournamentResult[];
+}
+
+export interface ImportConflict {
+  kind: 'result' | 'tournament';
+  id: string;
+  fields: string[]; // top-level fields that differ from the stored copy
+}
+
+export interface ImportReport {
+  results: { added: number; unchanged: number };
+  tournaments: { added: number; unchanged: number };
+  conflicts: ImportConflict[];
+}
+
+export interface MergePlan {
+  results: GameResult[];            // to add
+  tournaments: TournamentResult[];  // to add
+  report: ImportReport;
+}
+
+/** A bundle that failed validation; `problems` lists every issue found. */
+export class BundleError extends Error {
+  problems: string[];
+
+  constructor(problems: string[]) {
+    super(`Invalid arena bundle: ${problems.slice(0, 5).join('; ')}${problems.length > 5 ? ` (+${problems.length - 5} more)` : ''}`);
+    this.name = 'BundleError';
+    this.problems = problems;
+  }
+}
+
+export function createBundle(results: GameResult[], tournaments: TournamentResult[]): ArenaBundle {
+  return {
+    format: BUNDLE_FORMAT,
+    version: BUNDLE_VERSION,
+    exportedAt: new Date().toISOString(),
+    results,
+    tournaments,
+  };
+}
+
+// ─── Validation ─────────────────────────────────────────
+
+const isString = (v: unknown): v is string => typeof v === 'string';
+const isNumber = (v: unknown): v is number => typeof v === 'number' && Number.isFinite(v);
+const isStringArray = (v: unknown): v is string[] => Array.isArray(v) && v.every(isString);
+const isObject = (v: unknown): v is Record<string, unknown> => typeof v === 'object' && v !== null && !Array.isArray(v);
+
+function teamPair(v: unknown): boolean {
+  return isObject(v) && isNumber(v.team1) && isNumber(v.team2);
+}
+
+function houseRules(v: unknown): boolean {
+  return isObject(v) && (v.spadesLeadPolicy === 'must_be_broken' || v.spadesLeadPolicy === 'always_allowed')
+    && ['failedNilCountsTowardContract', 'setTricksAsBags'].every(k => typeof v[k] === 'boolean')
+    && ['minimumTeamBid', 'bagPenaltyThreshold', 'bagPenaltyAmount'].every(k => isNumber(v[k]));
+}
+
+function validateHand(h: unknown, where: string): string[] {
+  if (!isObject(h)) return [`${where}: not an object`];
+  const problems: string[] = [];
+  if (!isNumber(h.handNumber)) problems.push(`${where}.handNumber: expected a number`);
+  if (!Array.isArray(h.bids) || !h.bids.every(b => isObject(b) && isNumber(b.seat) && isNumber(b.bid))) {
+    problems.push(`${where}.bids: expected [{ seat, bid }]`);
+  }
+  if (!Array.isArray(h.tricksWon) || !h.tricksWon.every(t => isObject(t) && isNumber(t.seat) && isNumber(t.won))) {
+    problems.push(`${where}.tricksWon: expected [{ seat, won }]`);
+  }
+  if (!teamPair(h.scoreChange)) problems.push(`${where}.scoreChange: expected { team1, team2 }`);
+  if (!teamPair(h.bagsChange)) problems.push(`${where}.bagsChange: expected { team1, team2 }`);
+  if (h.decisions !== undefined && (!Array.isArray(h.decisions) || !h.decisions.every(d =>
+    isObject(d) && ['seat', 'decisions', 'fallbacks', 'timed', 'latencyMs'].every(k => isNumber(d[k]))))) {
+    problems.push(`${where}.decisions: expected [{ seat, decisions, fallbacks, timed, latencyMs }]`);
+  }
+  return problems;
+}
+
+/** Problems with `r` as a GameResult, each prefixed with `where`; empty when valid. */
+export function validateResult(r: unknown, where: string): string[] {
+  if (!isObject(r)) return [`${where}: not an object`];
+  const problems: string[] = [];
+  if (!isString(r.id) || r.id === '') problems.push(`${where}.id: expected a non-empty string`);
+  if (!isString(r.date) || Number.isNaN(Date.parse(r.date))) problems.push(`${where}.date: expected an ISO date`);
+  for (const field of ['team1Models', 'team2Models']) {
+    if (!isStringArray(r[field])) problems.push(`${where}.${field}: expected an array of model names`);
+  }
+  for (const field of ['team1Score', 'team2Score', 'team1Bags', 'team2Bags', 'targetScore', 'handsPlayed']) {
+    if (!isNumber(r[field])) problems.push(`${where}.${field}: expected a number`);
+  }
+  if (r.winner !== 1 && r.winner !== 2) problems.push(`${where}.winner: expected 1 or 2`);
+  if (r.seed !== undefined && !isNumber(r.seed)) problems.push(`${where}.seed: expected a number`);
+  if (r.tournamentId !== undefined && !isString(r.tournamentId)) problems.push(`${where}.tournamentId: expected a string`);
+  if (r.duplicate !== undefined && !(isObject(r.duplicate) && isString(r.duplicate.id) && (r.duplicate.table === 'A' || r.duplicate.table === 'B'))) {
+    problems.push(`${where}.duplicate: expected { id, table: 'A' | 'B' }`);
+  }
+  if (r.source !== undefined && !DATA_SOURCES.includes(r.source as DataSource)) {
+    problems.push(`${where}.source: expected one of ${DATA_SOURCES.join(', ')}`);
+  }
+  if (r.hands !== undefined) {
+    if (!Array.isArray(r.hands)) problems.push(`${where}.hands: expected an array`);
+    else r.hands.forEach((h, i) => problems.push(...validateHand(h, `${where}.hands[${i}]`)));
+  }
+  if (r.usage !== undefined && !(isObject(r.usage) && Object.values(r.usage).every(u =>
+    isObject(u) && ['calls', 'inputTokens', 'outputTokens', 'latencyMs', 'costUsd'].every(k => isNumber(u[k]))))) {
+    problems.push(`${where}.usage: expected { [model]: { calls, inputTokens, outputTokens, latencyMs, costUsd } }`);
+  }
+  if (r.houseRules !== undefined && !houseRules(r.houseRules)) {
+    problems.push(`${where}.houseRules: expected { spadesLeadPolicy, minimumTeamBid, failedNilCountsTowardContract, setTricksAsBags, bagPenaltyThreshold, bagPenaltyAmount }`);
+  }
+  return problems;
+}
+
+/** Problems with `t` as a TournamentResult, each prefixed with `where`; empty when valid. */
+export function validateTournament(t: unknown, where: string): string[] {
+  if (!isObject(t)) return [`${where}: not an object`];
+  const problems: string[] = [];
+  if (!isString(t.id) || t.id === '') problems.push(`${where}.id: expected a non-empty string`);
+  if (!isString(t.date)) problems.push(`${where}.date: expected an ISO date`);
+  if (!isString(t.champion)) problems.push(`${where}.champion: expected a string`);
+  if (!isStringArray(t.participants)) problems.push(`${where}.participants: expected an array of model names`);
+  if (t.source !== undefined && !DATA_SOURCES.includes(t.source as DataSource)) {
+    problems.push(`${where}.source: expected one of ${DATA_SOURCES.join(', ')}`);
+  }
+  if (!Array.isArray(t.matches)) problems.push(`${where}.matches: expected an array`);
+  else t.matches.forEach((m, i) => problems.push(...validateResult(m, `${where}.matches[${i}]`)));
+  if (t.progress !== undefined && (!isObject(t.progress) || !isObject(t.progress.config) || !Array.isArray(t.progress.matches))) {
+    problems.push(`${where}.progress: expected { config, matches }`);
+  }
+  return problems;
+}
+
+/** Parse and validate bundle JSON. Throws BundleError listing every problem. */
+export function parseBundle(text: string): ArenaBundle {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch (e) {
+    throw new BundleError([`not JSON (${(e as Error).message})`]);
+  }
+  if (!isObject(data) || data.format !== BUNDLE_FORMAT) throw new BundleError(['not an arena bundle']);
+  if (data.version !== BUNDLE_VERSION) {
+    throw new BundleError([`bundle version ${String(data.version)} is not supported (expected ${BUNDLE_VERSION})`]);
+  }
+
+  const problems: string[] = [];
+  if (!Array.isArray(data.results)) problems.push('results: expected an array');
+  else data.results.forEach((r, i) => problems.push(...validateResult(r, `results[${i}]`)));
+  if (!Array.isArray(data.tournaments)) problems.push('tournaments: expected an array');
+  else data.tournaments.forEach((t, i) => problems.push(...validateTournament(t, `tournaments[${i}]`)));
+  for (const [kind, list] of [['results', data.results], ['tournaments', data.tournaments]] as const) {
+    if (!Array.isArray(list)) continue;
+    const seen = new Set<string>();
+    for (const item of list as { id: string }[]) {
+      if (seen.has(item.id)) problems.push(`${kind}: id ${item.id} appears more than once`);
+      seen.add(item.id);
+    }
+  }
+  if (problems.length > 0) throw new BundleError(problems);
+  return data as unknown as ArenaBundle;
+}
+
+// ─── Merge ──────────────────────────────────────────────
+
+/** JSON with object keys sorted, so key order never counts as a difference. */
+function canonical(value: unknown): string {
+  return JSON.stringify(value, (_key, v) =>
+    isObject(v) ? Object.fromEntries(Object.entries(v).sort(([a], [b]) => (a < b ? -1 : 1))) : v);
+}
+
+function differingFields(a: object, b: object): string[] {
+  const keys = new Set([...Object.keys(a), ...Object.keys(b)]);
+  keys.delete('source');
+  return [...keys].filter(k =>
+    canonical((a as Record<string, unknown>)[k]) !== canonical((b as Record<string, unknown>)[k])).sort();
+}
+
+function mergeById<T extends { id: string }>(
+  existing: T[],
+  incoming: T[],
+  kind: ImportConflict['kind'],
+  conflicts: ImportConflict[],
+): { add: T[]; unchanged: number } {
+  const byId = new Map(existing.map(item => [item.id, item]));
+  const add: T[] = [];
+  let unchanged = 0;
+  for (const item of incoming) {
+    const stored = byId.get(item.id);
+    if (!stored) {
+      add.push(item);
+      continue;
+    }
+    const fields = differingFields(stored, item);
+    if (fields.length === 0) unchanged++;
+    else conflicts.push({ kind, id: item.id, fields });
+  }
+  return { add, unchanged };
+}
+
+/**
+ * Tag a bundle's records as imported. Demo and benchmark records keep their
+ * tag — those say how the game was played, not where it was stored.
+ */
+export function tagImported(bundle: ArenaBundle): ArenaBundle {
+  const tag = (source: DataSource | undefined): DataSource =>
+    source === 'demo' || source === 'benchmark' ? source : 'imported';
+  return {
+    ...bundle,
+    results: bundle.results.map(r => ({ ...r, source: tag(r.source) })),
+    tournaments: bundle.tournaments.map(t => ({ ...t, source: tag(t.source) })),
+  };
+}
+
+/** Work out what importing `bundle` over the stored data adds and what conflicts. */
+export function planMerge(
+  stored: { results: GameResult[]; tournaments: TournamentResult[] },
+  bundle: ArenaBundle,
+): MergePlan {
+  const conflicts: ImportConflict[] = [];
+  const results = mergeById(stored.results, bundle.results, 'result', conflicts);
+  const tournaments = mergeById(stored.tournaments, bundle.tournaments, 'tournament', conflicts);
+  return {
+    results: results.add,
+    tournaments: tournaments.add,
+    report: {
+      results: { added: results.add.length, unchanged: results.unchanged },
+      tournaments: { added: tournaments.add.length, unchanged: tournaments.unchanged },
+      conflicts,
+    },
+  };
+}
+
+/** One-line summary of an import, for logs and banners. */
+export function describeImport(report: ImportReport): string {
+  const parts = [
+    `${report.results.added} result(s) added`,
+    `${report.tournaments.added} tournament(s) added`,
+    `${report.results.unchanged + report.tournaments.unchanged} already present`,
+  ];
+  if (report.conflicts.length > 0) {
+    parts.push(`${report.conflicts.length} conflict(s) kept as stored: ${report.conflicts
+      .map(c => `${c.kind} ${c.id} (${c.fields.join(', ')})`)
+      .join('; ')}`);
+  }
+  return parts.join(', ');
+}
+
+// ─── CSV ────────────────────────────────────────────────
+
+function csvCell(value: unknown): string {
+  const text = value === undefined || value === null ? '' : String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function csvTable(header: string[], rows: unknown[][]): string {
+  return [header, ...rows].map(row => row.map(csvCell).join(',')).join('\n') + '\n';
+}
+
+/** Flatten a bundle to CSV tables, keyed by file name. Model lists are ';'-joined; usage is the game's total. */
+export function bundleToCsv(bundle: ArenaBundle): Record<'results.csv' | 'tournaments.csv' | 'hands.csv', string> {
+  const handRow = (r: GameResult, h: HandLog) => {
+    const bid = (seat: number) => h.bids.find(b => b.seat === seat)?.bid;
+    const won = (seat: number) => h.tricksWon.find(t => t.seat === seat)?.won;
+    return [
+      r.id, h.handNumber,
+      bid(0), bid(1), bid(2), bid(3),
+      won(0), won(1), won(2), won(3),
+      h.scoreChange.team1, h.scoreChange.team2, h.bagsChange.team1, h.bagsChange.team2,
+    ];
+  };
+
+  return {
+    'results.csv': csvTable(
+      ['id', 'date', 'tournament_id', 'team1_models', 'team2_models', 'team1_score', 'team2_score',
+        'team1_bags', 'team2_bags', 'winner', 'target_score', 'hands_played', 'seed', 'duplicate_id', 'duplicate_table', 'source',
+        'input_tokens', 'output_tokens', 'cost_usd'],
+      bundle.results.map(r => {
+        const usage = Object.values(r.usage ?? {}).reduce<TokenUsage | undefined>(addUsage, undefined);
+        return [
+          r.id, r.date, r.tournamentId, r.team1Models.join(';'), r.team2Models.join(';'), r.team1Score, r.team2Score,
+          r.team1Bags, r.team2Bags, r.winner, r.targetScore, r.handsPlayed, r.seed, r.duplicate?.id, r.duplicate?.table, r.source,
+          usage?.inputTokens, usage?.outputTokens, usage?.costUsd,
+        ];
+      }),
+    ),
+    'tournaments.csv': csvTable(
+      ['id', 'date', 'champion', 'participants', 'match_ids', 'source'],
+      bundle.tournaments.map(t => [t.id, t.date, t.champion, t.participants.join(';'), t.matches.map(m => m.id).join(';'), t.source]),
+    ),
+    'hands.csv': csvTable(
+      ['result_id', 'hand_number', 'bid_0', 'bid_1', 'bid_2', 'bid_3', 'won_0', 'won_1', 'won_2', 'won_3',
+        'team1_score_change', 'team2_score_change', 'team1_bags_change', 'team2_bags_change'],
+      bundle.results.flatMap(r => (r.hands ?? []).map(h => handRow(r, h))),
+    ),
+  };
+}
@@ -0,0 +1,36 @@
+/**
+ * Data sources — where a result or tournament came from. Demo data is
+ * generated (seedData.ts) and never counts as a real result; the rest are
+ * games that were actually played.
+ */
+
+import type { GameResult, TournamentResult } from './resultsStore';
+
+export type DataSource = 'live' | 'benchmark' | 'imported' | 'demo';
+
+export const DATA_SOURCES: DataSource[] = ['live', 'benchmark', 'imported', 'demo'];
+
+export const DATA_SOURCE_LABELS: Record<DataSource, string> = {
+  live: 'Live',
+  benchmark: 'Benchmark',
+  imported: 'Imported',
+  demo: 'Demo',
+};
+
+/** The placeholder models seedData.ts invents games for. */
+export const DEMO_MODELS = ['GPT-4o', 'Claude 3.5 Sonnet', 'Gemini Pro', 'Llama 405B', 'Heuristic', 'Random'];
+
+/**
+ * A result's source. Untagged results predate tagging: those naming only
+ * demo models were seeded (real games use lowercase model ids, e.g.
+ * 'heuristic'), anything else was played live.
+ */
+export function sourceOf(r: GameResult): DataSource {
+  if (r.source) return r.source;
+  return [...r.team1Models, ...r.team2Models].every(m => DEMO_MODELS.includes(m)) ? 'demo' : 'live';
+}
+
+export function tournamentSourceOf(t: TournamentResult): DataSource {
+  if (t.source) return t.source;
+  return t.participants.every(m => DEMO_MODELS.includes(m)) ? 'demo' : 'live';
+}
@@ -0,0 +1,161 @@
+/**
+ * Decision Store — one record per bid and play of a finished game, with the
+ * agent's reasoning, kept in localStorage next to its GameResult (same id).
+ * Lets ModelDetail search why a model bid or played what it did.
+ *
+ * Records are derived from the engine's event log, so they say exactly what
+ * the engine accepted. When the log no longer fits the storage quota the
+ * oldest games' records are dropped; their results stay on the leaderboard.
+ * With the arena server active (see resultsStore) records go to it instead.
+ */
+
+import { FallbackKind, GameEvent } from './events';
+import { getArenaApi } from './arenaApi';
+
+export interface DecisionRecord {
+  gameId: string;          // the GameResult id
+  date: string;            // ISO string, of the game
+  model: string;           // model label of the deciding seat
+  seat: number;
+  handNumber: number;
+  trickNumber: number;     // 0 for bids
+  kind: 'bid' | 'play';
+  action: string;          // '4', 'Nil', 'Blind Nil', 'Blind 7', or a card id
+  reasoning: string;
+  fallback: boolean;       // substituted after an agent error, an illegal action or a timeout
+  fallbackKind?: FallbackKind; // which; absent on records made before kinds were recorded
+  observationHash: string; // equal hashes = identical positions (see hashObservation)
+  latencyMs?: number;
+}
+
+export interface DecisionQuery {
+  text?: string;           // matched against reasoning and action, case-insensitive
+  kind?: 'bid' | 'play';
+  fallbackOnly?: boolean;
+}
+
+interface StoredGame {
+  gameId: string;
+  records: DecisionRecord[];
+}
+
+const STORAGE_KEY = 'spades_arena_decisions';
+
+function getGames(): StoredGame[] {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    return raw ? JSON.parse(raw) : [];
+  } catch { return []; }
+}
+
+function writeGames(games: StoredGame[]) {
+  // Drop the oldest games until the records fit in the storage quota
+  for (let kept = games; kept.length > 0; kept = kept.slice(1)) {
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(kept));
+      return;
+    } catch { /* quota exceeded — try with fewer */ }
+  }
+}
+
+/**
+ * Build the records for one game from its event log. `models` is the model
+ * label of each seat, by seat index.
+ */
+export function decisionsFromEvents(
+  events: GameEvent[],
+  game: { gameId: string; date: string; models: string[] },
+): DecisionRecord[] {
+  const records: DecisionRecord[] = [];
+  let handNumber = 1;
+  let tricksDone = 0;
+  for (const event of events) {
+    if (event.type === 'HandDealt') {
+      handNumber = event.handNumber;
+      tricksDone = 0;
+    } else if (event.type === 'TrickWon') {
+      tricksDone++;
+    } else if (event.type === 'BidMade' || event.type === 'CardPlayed') {
+      const isBid = event.type === 'BidMade';
+      records.push({
+        gameId: game.gameId,
+        date: game.date,
+        model: game.models[event.seat],
+        seat: event.seat,
+        handNumber,
+        trickNumber: isBid ? 0 : tricksDone + 1,
+        kind: isBid ? 'bid' : 'play',
+        action: isBid ? formatBidAction(event.value, event.blind) : event.card,
+        reasoning: event.reasoning ?? '',
+        fallback: !!event.fallback,
+        ...(event.fallbackKind ? { fallbackKind: event.fallbackKind } : {}),
+        observationHash: event.observationHash ?? '',
+        latencyMs: event.latencyMs,
+      });
+    }
+  }
+  return records;
+}
+
+function formatBidAction(value: number, blind: boolean): string {
+  if (value === 0) return blind ? 'Blind Nil' : 'Nil';
+  return blind ? `Blind ${value}` : String(value);
+}
+
+const FALLBACK_KINDS: FallbackKind[] = ['agent', 'illegal', 'timeout'];
+
+/** Problems with `d` as a DecisionRecord, each prefixed with `where`; empty when valid. */
+export function validateDecision(d: unknown, where: string): string[] {
+  if (typeof d !== 'object' || d === null || Array.isArray(d)) return [`${where}: not an object`];
+  const r = d as Record<string, unknown>;
+  const problems: string[] = [];
+  for (const field of ['gameId', 'date', 'model', 'action', 'reasoning', 'observationHash']) {
+    if (typeof r[field] !== 'string') problems.push(`${where}.${field}: expected a string`);
+  }
+  for (const field of ['seat', 'handNumber', 'trickNumber']) {
+    if (!Number.isInteger(r[field])) problems.push(`${where}.${field}: expected an integer`);
+  }
+  if (r.kind !== 'bid' && r.kind !== 'play') problems.push(`${where}.kind: expected 'bid' or 'play'`);
+  if (typeof r.fallback !== 'boolean') problems.push(`${where}.fallback: expected a boolean`);
+  if (r.fallbackKind !== undefined && !FALLBACK_KINDS.includes(r.fallbackKind as FallbackKind)) {
+    problems.push(`${where}.fallbackKind: expected one of ${FALLBACK_KINDS.join(', ')}`);
+  }
+  if (r.latencyMs !== undefined && !(typeof r.latencyMs === 'number' && Number.isFinite(r.latencyMs))) {
+    problems.push(`${where}.latencyMs: expected a number`);
+  }
+  return problems;
+}
+
+export function saveDecisions(gameId: string, records: DecisionRecord[]) {
+  const api = getArenaApi();
+  if (api) {
+    api.putDecisions(gameId, records).catch(e => console.error('Failed to upload decisions:', e));
+    return;
+  }
+  writeGames([...getGames().filter(g => g.gameId !== gameId), { gameId, records }]);
+}
+
+/** Every stored decision by `model`, newest game first. */
+export function getModelDecisions(model: string): DecisionRecord[] {
+  return getGames()
+    .reverse()
+    .flatMap(g => g.records.filter(r => r.model === model));
+}
+
+export function searchDecisions(records: DecisionRecord[], query: DecisionQuery): DecisionRecord[] {
+  const text = query.text?.trim().toLowerCase();
+  return records.filter(r =>
+    (!query.kind || r.kind === query.kind) &&
+    (!query.fallbackOnly || r.fallback) &&
+    (!text || r.reasoning.toLowerCase().includes(text) || r.action.toLowerCase() === text));
+}
+
+/** `model`'s decisions matching `query`, newest game first, from wherever they are kept. */
+export async function findDecisions(model: string, query: DecisionQuery): Promise<DecisionRecord[]> {
+  const api = getArenaApi();
+  return api ? api.searchDecisions(model, query) : searchDecisions(getModelDecisions(model), query);
+}
+
+export function clearDecisions() {
+  localStorage.removeItem(STORAGE_KEY);
+}
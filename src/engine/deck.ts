@@ -1,48 +1,55 @@
 import { Card, Rank, Suit } from './types';
+import { Rng } from './rng';
+import { VariantId, VARIANTS, trumpStrength } from './variant';
 
 const SUITS: Suit[] = ['S', 'H', 'D', 'C'];
 const RANKS: Rank[] = ['A', 'K', 'Q', 'J', '10', '9', '8', '7', '6', '5', '4', '3', '2'];
 
-export function createDeck(variant: 'standard' | 'jokers' = 'standard'): Card[] {
+/** The variant's 52 cards: the standard deck minus its removed cards, plus jokers if used. */
+export function createDeck(variant: VariantId = 'standard'): Card[] {
+  const { removedCards, usesJokers } = VARIANTS[variant];
   const deck: Card[] = [];
-  
-  if (variant === 'standard') {
-    for (const suit of SUITS) {
-      for (const rank of RANKS) {
-        deck.push({ suit, rank, id: `${rank}${suit}` });
-      }
-    }
-  } else if (variant === 'jokers') {
-    // Jokers variant: Remove 2C and 2D, add Big Joker and Little Joker
-    for (const suit of SUITS) {
-      for (const rank of RANKS) {
-        if ((suit === 'C' || suit === 'D') && rank === '2') continue;
-        deck.push({ suit, rank, id: `${rank}${suit}` });
-      }
+
+  for (const suit of SUITS) {
+    for (const rank of RANKS) {
+      const id = `${rank}${suit}`;
+      if (removedCards.includes(id)) continue;
+      deck.push({ suit, rank, id });
     }
-    // Add Jokers
-    // We'll treat them as having suit 'J' for internal logic, but they act as Spades
+  }
+
+  if (usesJokers) {
+    // Jokers carry suit 'J' internally; they play as spades (see effectiveSuit)
     deck.push({ suit: 'J', rank: 'Big', id: 'BigJoker' });
     deck.push({ suit: 'J', rank: 'Little', id: 'LittleJoker' });
   }
-  
+
   return deck;
 }
 
-export function shuffle(deck: Card[]): Card[] {
+/** Fisher–Yates. Pass a seeded `rng` (see rng.ts) for a reproducible deal. */
+export function shuffle(deck: Card[], rng: Rng = Math.random): Card[] {
   const shuffled = [...deck];
   for (let i = shuffled.length - 1; i > 0; i--) {
-    const j = Math.floor(Math.random() * (i + 1));
+    const j = Math.floor(rng() * (i + 1));
     [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
   }
   return shuffled;
 }
 
-export function getCardValue(rank: Rank, suit: Suit): number {
-  if (suit === 'J') {
-    return rank === 'Big' ? 16 : 15; // Big Joker > Little Joker > Ace (14)
+/**
+ * Comparable card value. Plain cards use their rank (2..14). Trumps follow
+ * the variant's trump order, shifted so A♠ stays 14 — Big Joker is 16 in JJA
+ * and 18 in JJDD, and the JJDD 2♦/2♠ land above the ace.
+ */
+export function getCardValue(rank: Rank, suit: Suit, variant: VariantId = 'standard'): number {
+  const card: Card = { rank, suit, id: suit === 'J' ? `${rank}Joker` : `${rank}${suit}` };
+  const strength = trumpStrength(card, variant);
+  if (strength > 0) {
+    const ace = trumpStrength({ rank: 'A', suit: 'S', id: 'AS' }, variant);
+    return strength + 14 - ace;
   }
-  
+
   const values: Record<string, number> = {
     'A': 14, 'K': 13, 'Q': 12, 'J': 11, '10': 10,
     '9': 9, '8': 8, '7': 7, '6': 6, '5': 5, '4': 4, '3': 3, '2': 2
@@ -0,0 +1,78 @@
+/**
+ * Game events — the engine's append-only record of everything that happened.
+ *
+ * GameEngine validates each command (processBid, processPlay, resolveTrick…)
+ * and then emits an event; applying that event is the only way state
+ * changes. Replaying a log from its GameStarted event therefore rebuilds the
+ * exact GameState at any point — the TS counterpart of `replay.rs`, which
+ * drives a hand from `(deal, actions)`.
+ *
+ *   GameStarted  rules and seed, always first
+ *   HandDealt    the four hands for a new hand, and its dealer
+ *   HandRevealed a seat looked at its cards, giving up a blind bid
+ *   BidMade      one bid, with the agent's reasoning and latency
+ *   CardPlayed   one card, with the agent's reasoning and latency; a
+ *                forfeit card concedes the trick to the other team
+ *   TrickWon     the fourth card resolved the trick
+ *   HandScored   the thirteenth trick resolved the hand
+ *   GameOver     a team reached the target or took a Boston
+ *
+ * Derived facts (trick winner, hand score) are recorded as computed so a
+ * replay never re-derives them under different code.
+ */
+
+import type { HandResult } from './game';
+import type { HouseRules } from './houseRules';
+import type { VariantId } from './variant';
+import type { TokenUsage } from './usage';
+
+/** Why an action was substituted: the agent gave up, the engine rejected its action, or it ran out of time. */
+export type FallbackKind = 'agent' | 'illegal' | 'timeout';
+
+/** Agent details a caller may attach to a bid or play. */
+export interface ActionMeta {
+  latencyMs?: number; // time the agent took to decide
+  usage?: TokenUsage; // the agent's API calls, for LLM agents
+  fallbackKind?: FallbackKind; // for a substituted action; defaults to 'agent' when the action says `fallback`
+  forfeit?: boolean;  // plays only: the seat timed out under the forfeit policy and concedes the trick
+}
+
+/** What BidMade and CardPlayed record about the decision behind them. */
+export interface DecisionDetails {
+  reasoning?: string;
+  latencyMs?: number;
+  fallback?: boolean;       // the action was substituted, not the agent's choice
+  fallbackKind?: FallbackKind; // why, on logs made since kinds were recorded
+  observationHash?: string; // hashObservation() of what the seat saw
+  usage?: TokenUsage;       // tokens and estimated cost, for LLM agents
+}
+
+export type GameEventBody =
+  | {
+      type: 'GameStarted';
+      variant: VariantId;
+      seed: number;
+      targetScore: number;
+      enableBlindNil: boolean;
+      blindNilThreshold: number;
+      houseRules: HouseRules;
+    }
+  | { type: 'HandDealt'; handNumber: number; dealer: number; hands: string[][] }
+  | { type: 'HandRevealed'; seat: number }
+  | ({ type: 'BidMade'; seat: number; value: number; blind: boolean } & DecisionDetails)
+  | ({ type: 'CardPlayed'; seat: number; card: string; forfeit?: boolean } & DecisionDetails)
+  | { type: 'TrickWon'; trickNumber: number; winner: number }
+  | { type: 'HandScored'; result: HandResult }
+  | { type: 'GameOver'; winner: 1 | 2 };
+
+export type GameEvent = GameEventBody & {
+  seq: number; // 0-based position in the log
+  at: number;  // epoch ms when emitted
+};
+
+export type GameEventType = GameEvent['type'];
+
+export type GameEventListener = (event: GameEvent) => void;
+
+/** DOM event the browser app re-broadcasts engine events under (see stream/orchestrator.ts). */
+export const GAME_EVENT_DOM_NAME = 'spades:event';
@@ -1,70 +1,368 @@
-import { GameState, PlayerState, Card, Trick, Observation, BidAction, PlayAction } from './types';
+import { GameState, PlayerState, Card, Suit, Trick, Observation, BidAction, PlayAction } from './types';
 import { createDeck, shuffle, parseCard } from './deck';
-import { getLegalPlays, determineTrickWinner } from './rules';
+import { getLegalPlays, getLegalBids, determineTrickWinner, ALL_BIDS } from './rules';
 import { calculateTeamScore } from './scoring';
+import { createRng, handSeed, randomSeed } from './rng';
+import { VariantId, VARIANTS, effectiveSuit } from './variant';
+import { HouseRules, resolveHouseRules } from './houseRules';
+import { ActionMeta, GameEvent, GameEventBody, GameEventListener } from './events';
+
+export interface TeamHandResult {
+  bid: number;
+  won: number;
+  pointsEarned: number;
+  bagsEarned: number;
+  totalScore: number;
+  totalBags: number;
+  dime: boolean;   // exactly 10 tricks, +200 (JJA/JJDD)
+  boston: boolean; // all 13 tricks — game over, this team wins (JJA/JJDD)
+}
 
 export interface HandResult {
-  team1: { bid: number; won: number; pointsEarned: number; bagsEarned: number; totalScore: number; totalBags: number };
-  team2: { bid: number; won: number; pointsEarned: number; bagsEarned: number; totalScore: number; totalBags: number };
+  team1: TeamHandResult;
+  team2: TeamHandResult;
   handNumber: number;
+  bids: number[];      // per seat, index = seat
+  blind: boolean[];    // per seat — bid was Blind Nil / Blind N
+  tricksWon: number[]; // per seat, index = seat
+}
+
+export interface EngineOptions {
+  /**
+   * Seed for every deal in the game. Hand N is shuffled from
+   * `handSeed(seed, N)`, so the same seed reproduces the same cards.
+   * Omit for a random seed.
+   */
+  seed?: number;
+  /**
+   * Offer blind bids to a team trailing by at least `blindNilThreshold`
+   * points (default 100). A blind bid must be declared while the seat's hand
+   * is still face down; see `revealHand`.
+   */
+  enableBlindNil?: boolean;
+  blindNilThreshold?: number;
+  /** Overrides for the variant's default house rules (see houseRules.ts). */
+  houseRules?: Partial<HouseRules>;
+}
+
+/** Bump whenever GameSnapshot changes shape; fromJSON rejects any other version. */
+export const SNAPSHOT_VERSION = 2;
+
+export interface TrickSnapshot {
+  number: number;
+  plays: { seat: number; card: string }[];
+  winner: number | null;
+  ledSuit: Suit | null;
+  forfeitedBy?: number;
+}
+
+/**
+ * A JSON-safe copy of a game in progress — see `GameEngine.toJSON()`.
+ * Cards are stored by id: each seat's remaining hand plus every card played
+ * this hand make up the deal, and `seed` regenerates the deals still to come.
+ */
+export interface GameSnapshot {
+  version: number;
+  variant: VariantId;
+  seed: number;
+  enableBlindNil: boolean;
+  blindNilThreshold: number;
+  houseRules: HouseRules;
+  state: Omit<GameState, 'players' | 'currentTrick' | 'trickHistory'> & {
+    players: (Omit<PlayerState, 'hand'> & { hand: string[] })[];
+    currentTrick: TrickSnapshot;
+    trickHistory: TrickSnapshot[];
+  };
+  lastHandResult: HandResult | null;
+  events: GameEvent[]; // the full log, so a resumed game can still be replayed
+}
+
+/** Blind N is only offered from this many tricks up. */
+const MIN_BLIND_BID = 6;
+
+function cardFromId(id: string): Card {
+  const card = parseCard(id);
+  if (!card) throw new Error(`Invalid card: ${id}`);
+  return card;
+}
+
+function initialState(targetScore: number): GameState {
+  return {
+    phase: 'bidding',
+    dealer: 0,
+    currentTurn: 1,
+    players: [
+      { seat: 0, hand: [], bid: null, blind: false, handRevealed: false, tricksWon: 0, type: 'human', name: 'Player 0' },
+      { seat: 1, hand: [], bid: null, blind: false, handRevealed: false, tricksWon: 0, type: 'bot', name: 'Player 1' },
+      { seat: 2, hand: [], bid: null, blind: false, handRevealed: false, tricksWon: 0, type: 'bot', name: 'Player 2' },
+      { seat: 3, hand: [], bid: null, blind: false, handRevealed: false, tricksWon: 0, type: 'bot', name: 'Player 3' },
+    ],
+    teams: {
+      team1: { score: 0, bags: 0 },
+      team2: { score: 0, bags: 0 },
+    },
+    currentTrick: { number: 1, plays: [], winner: null, ledSuit: null },
+    trickHistory: [],
+    spadesBroken: false,
+    targetScore,
+    handNumber: 1,
+    winner: null,
+  };
+}
+
+/**
+ * Short stable fingerprint of an observation (32-bit FNV-1a over its JSON),
+ * so decisions made from identical positions can be grouped and compared.
+ */
+export function hashObservation(observation: Observation): string {
+  const json = JSON.stringify(observation);
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < json.length; i++) {
+    hash ^= json.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, '0');
 }
 
 export class GameEngine {
   state: GameState;
-  variant: 'standard' | 'jokers';
+  variant: VariantId;
+  seed: number;
+  enableBlindNil: boolean;
+  blindNilThreshold: number;
+  houseRules: HouseRules;
   lastHandResult: HandResult | null = null;
+  /** Append-only log; every state change goes through one of these (see events.ts). */
+  events: GameEvent[] = [];
+  private listeners: GameEventListener[] = [];
 
-  constructor(targetScore: number = 500, variant: 'standard' | 'jokers' = 'standard') {
+  constructor(targetScore: number = 500, variant: VariantId = 'standard', options: EngineOptions = {}) {
     this.variant = variant;
-    this.state = {
-      phase: 'bidding',
-      dealer: 0,
-      currentTurn: 1,
-      players: [
-        { seat: 0, hand: [], bid: null, tricksWon: 0, type: 'human', name: 'Player 0' },
-        { seat: 1, hand: [], bid: null, tricksWon: 0, type: 'bot', name: 'Player 1' },
-        { seat: 2, hand: [], bid: null, tricksWon: 0, type: 'bot', name: 'Player 2' },
-        { seat: 3, hand: [], bid: null, tricksWon: 0, type: 'bot', name: 'Player 3' },
-      ],
-      teams: {
-        team1: { score: 0, bags: 0 },
-        team2: { score: 0, bags: 0 },
-      },
-      currentTrick: { number: 1, plays: [], winner: null, ledSuit: null },
-      trickHistory: [],
-      spadesBroken: false,
+    this.seed = options.seed ?? randomSeed();
+    this.enableBlindNil = options.enableBlindNil ?? false;
+    this.blindNilThreshold = options.blindNilThreshold ?? 100;
+    this.houseRules = resolveHouseRules(variant, options.houseRules);
+    this.state = initialState(targetScore);
+    this.emit({
+      type: 'GameStarted',
+      variant,
+      seed: this.seed,
       targetScore,
-      handNumber: 1,
-    };
+      enableBlindNil: this.enableBlindNil,
+      blindNilThreshold: this.blindNilThreshold,
+      houseRules: { ...this.houseRules },
+    });
     this.dealHand();
   }
 
-  dealHand() {
-    const deck = shuffle(createDeck(this.variant));
-    const cardsPerPlayer = this.variant === 'jokers' ? 13 : 13;
-    // Wait, 54 cards / 4 = 13.5. 
-    // Standard Spades with Jokers: Remove 2C and 2D -> 52 cards.
-    // My createDeck('jokers') already removes 2C and 2D. So it returns 52 cards.
+  /**
+   * Rebuild an engine by replaying a log from its GameStarted event. Pass a
+   * prefix of a log to see the game as it stood after that event.
+   */
+  static fromEvents(events: GameEvent[]): GameEngine {
+    const start = events[0];
+    if (start?.type !== 'GameStarted') throw new Error('Event log must begin with GameStarted');
+    const engine = new GameEngine(start.targetScore, start.variant, {
+      seed: start.seed,
+      enableBlindNil: start.enableBlindNil,
+      blindNilThreshold: start.blindNilThreshold,
+      houseRules: start.houseRules,
+    });
+    engine.state = initialState(start.targetScore);
+    engine.events = [];
+    engine.lastHandResult = null;
+    for (const event of events) engine.apply(event);
+    return engine;
+  }
+
+  /** Call `listener` with every event from now on. Returns an unsubscribe function. */
+  subscribe(listener: GameEventListener): () => void {
+    this.listeners.push(listener);
+    return () => {
+      this.listeners = this.listeners.filter(l => l !== listener);
+    };
+  }
 
-    for (let i = 0; i < 4; i++) {
-      this.state.players[i].hand = deck.slice(i * 13, (i + 1) * 13);
-      this.state.players[i].bid = null;
-      this.state.players[i].tricksWon = 0;
+  private emit(body: GameEventBody) {
+    this.apply({ ...body, seq: this.events.length, at: Date.now() } as GameEvent);
+  }
+
+  /** Append `event` to the log, fold it into state, then notify subscribers. */
+  private apply(event: GameEvent) {
+    this.events.push(event);
+    this.reduce(event);
+    for (const listener of [...this.listeners]) listener(event);
+  }
+
+  /** The only place GameState changes. */
+  private reduce(event: GameEvent) {
+    const state = this.state;
+    switch (event.type) {
+      case 'GameStarted':
+        break;
+
+      case 'HandDealt':
+        state.handNumber = event.handNumber;
+        state.dealer = event.dealer;
+        event.hands.forEach((ids, i) => {
+          const player = state.players[i];
+          player.hand = ids.map(cardFromId);
+          player.bid = null;
+          player.blind = false;
+          player.handRevealed = false;
+          player.tricksWon = 0;
+        });
+        state.phase = 'bidding';
+        state.currentTurn = (event.dealer + 1) % 4;
+        state.currentTrick = { number: 1, plays: [], winner: null, ledSuit: null };
+        state.trickHistory = [];
+        state.spadesBroken = false;
+        break;
+
+      case 'HandRevealed':
+        state.players[event.seat].handRevealed = true;
+        break;
+
+      case 'BidMade': {
+        const player = state.players[event.seat];
+        player.bid = event.value;
+        player.blind = event.blind;
+        player.handRevealed = true;
+        if (state.players.every(p => p.bid !== null)) {
+          state.phase = 'playing';
+          // Universal opening rule: the player holding the lowest club leads
+          // the first trick. Standard/JJA: 2♣. JJDD: 3♣ (2♣ is removed from
+          // the deck — see variant.ts).
+          state.currentTurn = this.findOpeningSeat();
+        } else {
+          state.currentTurn = (event.seat + 1) % 4;
+        }
+        break;
+      }
+
+      case 'CardPlayed': {
+        const player = state.players[event.seat];
+        const card = player.hand.find(c => c.id === event.card) ?? cardFromId(event.card);
+        player.hand = player.hand.filter(c => c.id !== card.id);
+        state.currentTrick.plays.push({ seat: event.seat, card });
+        if (event.forfeit && state.currentTrick.forfeitedBy === undefined) state.currentTrick.forfeitedBy = event.seat;
+
+        const suit = effectiveSuit(card, this.variant);
+        if (!state.currentTrick.ledSuit) {
+          state.currentTrick.ledSuit = suit;
+        }
+        // Any spade-equivalent (joker, JJDD 2♦) breaks spades
+        if (suit === 'S') {
+          state.spadesBroken = true;
+        }
+
+        // Advance turn temporarily (the trick winner leads next once it resolves)
+        if (!this.isTrickComplete()) {
+          state.currentTurn = (event.seat + 1) % 4;
+        }
+        break;
+      }
+
+      case 'TrickWon':
+        state.currentTrick.winner = event.winner;
+        state.players[event.winner].tricksWon++;
+        state.trickHistory.push({ ...state.currentTrick });
+        if (state.trickHistory.length < 13) {
+          state.currentTrick = { number: state.trickHistory.length + 1, plays: [], winner: null, ledSuit: null };
+          state.currentTurn = event.winner;
+        }
+        break;
+
+      case 'HandScored':
+        state.teams.team1 = { score: event.result.team1.totalScore, bags: event.result.team1.totalBags };
+        state.teams.team2 = { score: event.result.team2.totalScore, bags: event.result.team2.totalBags };
+        this.lastHandResult = event.result;
+        break;
+
+      case 'GameOver':
+        state.phase = 'game_over';
+        state.winner = event.winner;
+        break;
+    }
+  }
+
+  /** Snapshot the whole game; `JSON.stringify(engine)` calls this. */
+  toJSON(): GameSnapshot {
+    const trick = (t: Trick): TrickSnapshot => ({
+      number: t.number,
+      plays: t.plays.map(p => ({ seat: p.seat, card: p.card.id })),
+      winner: t.winner,
+      ledSuit: t.ledSuit,
+      ...(t.forfeitedBy !== undefined ? { forfeitedBy: t.forfeitedBy } : {}),
+    });
+    return {
+      version: SNAPSHOT_VERSION,
+      variant: this.variant,
+      seed: this.seed,
+      enableBlindNil: this.enableBlindNil,
+      blindNilThreshold: this.blindNilThreshold,
+      houseRules: { ...this.houseRules },
+      state: {
+        ...this.state,
+        teams: { team1: { ...this.state.teams.team1 }, team2: { ...this.state.teams.team2 } },
+        players: this.state.players.map(p => ({ ...p, hand: p.hand.map(c => c.id) })),
+        currentTrick: trick(this.state.currentTrick),
+        trickHistory: this.state.trickHistory.map(trick),
+      },
+      lastHandResult: this.lastHandResult,
+      events: [...this.events],
+    };
+  }
+
+  /** Rebuild an engine from `toJSON()` output. Throws on a version mismatch or unknown card. */
+  static fromJSON(snapshot: GameSnapshot): GameEngine {
+    if (snapshot.version !== SNAPSHOT_VERSION) {
+      throw new Error(`Unsupported snapshot version ${snapshot.version} (expected ${SNAPSHOT_VERSION})`);
     }
-    this.state.phase = 'bidding';
-    this.state.currentTurn = (this.state.dealer + 1) % 4;
-    this.state.currentTrick = { number: 1, plays: [], winner: null, ledSuit: null };
-    this.state.trickHistory = [];
-    this.state.spadesBroken = false;
+    const trick = (t: TrickSnapshot): Trick => ({
+      number: t.number,
+      plays: t.plays.map(p => ({ seat: p.seat, card: cardFromId(p.card) })),
+      winner: t.winner,
+      ledSuit: t.ledSuit,
+      ...(t.forfeitedBy !== undefined ? { forfeitedBy: t.forfeitedBy } : {}),
+    });
+
+    const { state } = snapshot;
+    const engine = new GameEngine(state.targetScore, snapshot.variant, {
+      seed: snapshot.seed,
+      enableBlindNil: snapshot.enableBlindNil,
+      blindNilThreshold: snapshot.blindNilThreshold,
+      houseRules: snapshot.houseRules,
+    });
+    engine.state = {
+      ...state,
+      teams: { team1: { ...state.teams.team1 }, team2: { ...state.teams.team2 } },
+      players: state.players.map(p => ({ ...p, hand: p.hand.map(cardFromId) })),
+      currentTrick: trick(state.currentTrick),
+      trickHistory: state.trickHistory.map(trick),
+    };
+    engine.lastHandResult = snapshot.lastHandResult;
+    engine.events = [...snapshot.events];
+    return engine;
+  }
+
+  dealHand(handNumber: number = this.state.handNumber, dealer: number = this.state.dealer) {
+    const rng = createRng(handSeed(this.seed, handNumber));
+    // Every variant's deck is 52 cards — 13 each
+    const deck = shuffle(createDeck(this.variant), rng);
+    const hands = [0, 1, 2, 3].map(i => deck.slice(i * 13, (i + 1) * 13).map(c => c.id));
+    this.emit({ type: 'HandDealt', handNumber, dealer, hands });
   }
 
   getObservation(seat: number): Observation {
     const player = this.state.players[seat];
     const partnerSeat = (seat + 2) % 4;
+    const concealed = this.isHandConcealed(seat);
 
     const obs: Observation = {
       phase: this.state.phase as 'bidding' | 'playing',
-      hand: player.hand.map(c => c.id),
+      variant: this.variant,
+      hand: concealed ? [] : player.hand.map(c => c.id),
       seat,
       partner_seat: partnerSeat,
       dealer: this.state.dealer,
@@ -78,8 +376,10 @@ export class GameEngine {
       obs.bidding_context = {
         bids_so_far: this.state.players
           .filter(p => p.bid !== null)
-          .map(p => ({ seat: p.seat, bid: p.bid! })),
+          .map(p => ({ seat: p.seat, bid: p.bid!, ...(p.blind ? { blind: true } : {}) })),
         your_turn_to_bid: this.state.currentTurn === seat,
+        legal_bids: this.legalBids(seat),
+        ...(concealed ? { blind_bid_options: this.blindBidOptions(seat) } : {}),
       };
     } else if (this.state.phase === 'playing') {
       const team1Bid = (this.state.players[0].bid || 0) + (this.state.players[2].bid || 0);
@@ -93,12 +393,14 @@ export class GameEngine {
             this.state.currentTrick.ledSuit,
             this.state.spadesBroken,
             this.forcedOpeningForCurrentTurn(),
+            this.variant,
+            this.houseRules.spadesLeadPolicy,
           ).map(c => c.id)
         : [];
 
       obs.playing_context = {
         team_bids: { team1: team1Bid, team2: team2Bid },
-        individual_bids: this.state.players.map(p => ({ seat: p.seat, bid: p.bid! })),
+        individual_bids: this.state.players.map(p => ({ seat: p.seat, bid: p.bid!, ...(p.blind ? { blind: true } : {}) })),
         tricks_won: { team1: team1Won, team2: team2Won },
         individual_tricks_won: this.state.players.map(p => p.tricksWon),
         current_trick: this.state.currentTrick.plays.map(p => ({ seat: p.seat, card: p.card.id })),
@@ -117,25 +419,74 @@ export class GameEngine {
     return obs;
   }
 
-  processBid(seat: number, action: BidAction): string | null {
+  processBid(seat: number, action: BidAction, meta: ActionMeta = {}): string | null {
     if (this.state.phase !== 'bidding') return 'Not in bidding phase';
     if (this.state.currentTurn !== seat) return 'Not your turn';
     if (action.value < 0 || action.value > 13) return 'Invalid bid value';
 
-    this.state.players[seat].bid = action.value;
-
-    if (this.state.players.every(p => p.bid !== null)) {
-      this.state.phase = 'playing';
-      // Universal opening rule: the player holding the lowest club leads
-      // the first trick. Standard: 2♣. Jokers variant: 3♣ (since 2♣ is
-      // removed from the deck — see dealHand).
-      this.state.currentTurn = this.findOpeningSeat();
-    } else {
-      this.state.currentTurn = (this.state.currentTurn + 1) % 4;
+    const player = this.state.players[seat];
+    if (action.blind) {
+      if (!this.isHandConcealed(seat)) return 'Blind bids must be declared before looking at your hand';
+      if (!this.blindBidOptions(seat).includes(action.value)) return 'Invalid blind bid value';
+    } else if (!this.legalBids(seat).includes(action.value)) {
+      return `Team bid must total at least ${this.houseRules.minimumTeamBid}`;
     }
+
+    this.emit({
+      type: 'BidMade',
+      seat,
+      value: action.value,
+      blind: !!action.blind,
+      reasoning: action.reasoning,
+      latencyMs: meta.latencyMs,
+      fallback: action.fallback,
+      fallbackKind: action.fallback ? (meta.fallbackKind ?? 'agent') : undefined,
+      usage: meta.usage,
+      observationHash: hashObservation(this.getObservation(seat)),
+    });
     return null;
   }
 
+  /**
+   * Whether `seat` may still bid blind: blind bidding is on, it's the
+   * bidding phase, the seat hasn't bid, and its team trails by at least the
+   * threshold.
+   */
+  canBidBlind(seat: number): boolean {
+    if (!this.enableBlindNil || this.state.phase !== 'bidding') return false;
+    if (this.state.players[seat].bid !== null) return false;
+    const { team1, team2 } = this.state.teams;
+    const [own, opp] = seat % 2 === 0 ? [team1, team2] : [team2, team1];
+    return opp.score - own.score >= this.blindNilThreshold && this.blindBidOptions(seat).length > 0;
+  }
+
+  /** The seat's hand is face down: blind bidding is open and it hasn't looked. */
+  isHandConcealed(seat: number): boolean {
+    return this.canBidBlind(seat) && !this.state.players[seat].handRevealed;
+  }
+
+  /** Turn the seat's hand face up, giving up the chance to bid blind this hand. */
+  revealHand(seat: number) {
+    if (!this.state.players[seat].handRevealed) this.emit({ type: 'HandRevealed', seat });
+  }
+
+  /** Sighted bids open to `seat`: 1-13 then Nil, less any below the team minimum. */
+  legalBids(seat: number): number[] {
+    return getLegalBids(ALL_BIDS, this.state.players[(seat + 2) % 4].bid, this.houseRules.minimumTeamBid);
+  }
+
+  /**
+   * Blind values on offer: Blind Nil always, Blind 6-13 in the joker
+   * variants — less any below the team minimum.
+   */
+  private blindBidOptions(seat: number): number[] {
+    const options = [0];
+    if (VARIANTS[this.variant].usesJokers) {
+      for (let n = MIN_BLIND_BID; n <= 13; n++) options.push(n);
+    }
+    return getLegalBids(options, this.state.players[(seat + 2) % 4].bid, this.houseRules.minimumTeamBid);
+  }
+
   /** Find the seat holding the lowest club — that player leads trick 1. */
   private findOpeningSeat(): number {
     const opening = this.openingCardId();
@@ -149,9 +500,9 @@ export class GameEngine {
     return (this.state.dealer + 1) % 4;
   }
 
-  /** Card id for the lowest-club opener. 2♣ in standard, 3♣ in jokers. */
+  /** Card id for the lowest-club opener. 2♣, or 3♣ in JJDD. */
   private openingCardId(): string {
-    return this.variant === 'jokers' ? '3C' : '2C';
+    return VARIANTS[this.variant].openingCardId;
   }
 
   /**
@@ -165,7 +516,7 @@ export class GameEngine {
     return isFirstCardOfHand ? this.openingCardId() : undefined;
   }
 
-  processPlay(seat: number, action: PlayAction): string | null {
+  processPlay(seat: number, action: PlayAction, meta: ActionMeta = {}): string | null {
     if (this.state.phase !== 'playing') return 'Not in playing phase';
     if (this.state.currentTurn !== seat) return 'Not your turn';
 
@@ -181,26 +532,24 @@ export class GameEngine {
       this.state.currentTrick.ledSuit,
       this.state.spadesBroken,
       this.forcedOpeningForCurrentTurn(),
+      this.variant,
+      this.houseRules.spadesLeadPolicy,
     );
     const isLegal = legalPlays.some(c => c.id === card.id);
     if (!isLegal) return 'Illegal play';
 
-    // Apply play
-    player.hand = player.hand.filter(c => c.id !== card.id);
-    this.state.currentTrick.plays.push({ seat, card });
-
-    if (!this.state.currentTrick.ledSuit) {
-      this.state.currentTrick.ledSuit = card.suit === 'J' ? 'S' : card.suit;
-    }
-    if (card.suit === 'S') {
-      this.state.spadesBroken = true;
-    }
-
-    // Advance turn temporarily (will be fixed in resolveTrick if trick is full)
-    if (!this.isTrickComplete()) {
-      this.state.currentTurn = (this.state.currentTurn + 1) % 4;
-    }
-
+    this.emit({
+      type: 'CardPlayed',
+      seat,
+      card: card.id,
+      ...(meta.forfeit ? { forfeit: true } : {}),
+      reasoning: action.reasoning,
+      latencyMs: meta.latencyMs,
+      fallback: action.fallback,
+      fallbackKind: action.fallback ? (meta.fallbackKind ?? 'agent') : undefined,
+      usage: meta.usage,
+      observationHash: hashObservation(this.getObservation(seat)),
+    });
     return null;
   }
 
@@ -211,18 +560,15 @@ export class GameEngine {
   resolveTrick() {
     if (!this.isTrickComplete()) return;
 
-    const winner = determineTrickWinner(this.state.currentTrick.plays, this.state.currentTrick.ledSuit!);
-    this.state.currentTrick.winner = winner;
-    this.state.players[winner].tricksWon++;
-    this.state.trickHistory.push({ ...this.state.currentTrick });
+    // A forfeited trick goes to the best card of the other team
+    const { plays, ledSuit, forfeitedBy } = this.state.currentTrick;
+    const contenders = forfeitedBy === undefined ? plays : plays.filter(p => p.seat % 2 !== forfeitedBy % 2);
+    const winner = determineTrickWinner(contenders, ledSuit!, this.variant);
+    this.emit({ type: 'TrickWon', trickNumber: this.state.currentTrick.number, winner });
 
     if (this.state.trickHistory.length === 13) {
       // End of hand
       this.scoreHand();
-    } else {
-      // Next trick
-      this.state.currentTrick = { number: this.state.trickHistory.length + 1, plays: [], winner: null, ledSuit: null };
-      this.state.currentTurn = winner;
     }
   }
 
@@ -235,33 +581,44 @@ export class GameEngine {
     const t1Won = this.state.players[0].tricksWon + this.state.players[2].tricksWon;
     const t2Won = this.state.players[1].tricksWon + this.state.players[3].tricksWon;
 
-    const t1 = calculateTeamScore(this.state.players[0], this.state.players[2], this.state.teams.team1);
-    const t2 = calculateTeamScore(this.state.players[1], this.state.players[3], this.state.teams.team2);
-    this.state.teams.team1 = t1;
-    this.state.teams.team2 = t2;
+    const t1 = calculateTeamScore(this.state.players[0], this.state.players[2], this.state.teams.team1, this.variant, this.houseRules);
+    const t2 = calculateTeamScore(this.state.players[1], this.state.players[3], this.state.teams.team2, this.variant, this.houseRules);
 
-    this.lastHandResult = {
+    const result: HandResult = {
       handNumber: this.state.handNumber,
+      bids: this.state.players.map(p => p.bid || 0),
+      blind: this.state.players.map(p => p.blind),
+      tricksWon: this.state.players.map(p => p.tricksWon),
       team1: {
         bid: t1Bid, won: t1Won,
         pointsEarned: t1.score - prevT1.score,
-        bagsEarned: t1.bags - prevT1.bags + (prevT1.bags > t1.bags ? 10 : 0), // account for bag penalty reset
+        bagsEarned: t1.bagsEarned,
         totalScore: t1.score, totalBags: t1.bags,
+        dime: t1.dime, boston: t1.boston,
       },
       team2: {
         bid: t2Bid, won: t2Won,
         pointsEarned: t2.score - prevT2.score,
-        bagsEarned: t2.bags - prevT2.bags + (prevT2.bags > t2.bags ? 10 : 0),
+        bagsEarned: t2.bagsEarned,
         totalScore: t2.score, totalBags: t2.bags,
+        dime: t2.dime, boston: t2.boston,
       },
     };
-
-    if (t1.score >= this.state.targetScore || t2.score >= this.state.targetScore) {
-      this.state.phase = 'game_over';
+    this.emit({ type: 'HandScored', result });
+
+    // A Boston wins outright. Otherwise the game ends once a team reaches the
+    // target, and the higher score wins; a tie at or past the target plays on.
+    const reachedTarget = t1.score >= this.state.targetScore || t2.score >= this.state.targetScore;
+    const winner: 1 | 2 | null =
+      t1.boston ? 1 :
+      t2.boston ? 2 :
+      reachedTarget && t1.score !== t2.score ? (t1.score > t2.score ? 1 : 2) :
+      null;
+
+    if (winner !== null) {
+      this.emit({ type: 'GameOver', winner });
     } else {
-      this.state.dealer = (this.state.dealer + 1) % 4;
-      this.state.handNumber++;
-      this.dealHand();
+      this.dealHand(this.state.handNumber + 1, (this.state.dealer + 1) % 4);
     }
   }
 }
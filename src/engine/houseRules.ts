@@ -0,0 +1,64 @@
+/**
+ * House rules — table options that vary independently of the variant.
+ * Mirrors `spacetime/encoding/src/house_rules.rs`.
+ *
+ *   - spadesLeadPolicy: whether spades may be led before they're broken.
+ *     The first trick is always led with the opening club either way.
+ *   - minimumTeamBid: floor on the sum of partner bids. Checked when the
+ *     second partner bids; Nil counts as 0, so a Nil/Nil team is impossible
+ *     whenever the floor is above zero. 0 disables it.
+ *
+ * Scoring policy (see scoring.ts; the defaults reproduce `score.rs`):
+ *
+ *   - failedNilCountsTowardContract: a failed Nil bidder's tricks help the
+ *     partner make the contract instead of going straight to bags.
+ *   - setTricksAsBags: a set team still takes the tricks it won as bags.
+ *   - bagPenaltyThreshold / bagPenaltyAmount: every `threshold` cumulative
+ *     bags costs `amount` points. A threshold of 0 disables the penalty.
+ *
+ * Defaults are variant-aware: Standard has no team minimum, JJA/JJDD use 4.
+ */
+
+import { VariantId, VARIANTS } from './variant';
+
+export type SpadesLeadPolicy = 'must_be_broken' | 'always_allowed';
+
+export interface ScoringPolicy {
+  failedNilCountsTowardContract: boolean;
+  setTricksAsBags: boolean;
+  bagPenaltyThreshold: number;
+  bagPenaltyAmount: number;
+}
+
+export const DEFAULT_SCORING_POLICY: ScoringPolicy = {
+  failedNilCountsTowardContract: false,
+  setTricksAsBags: false,
+  bagPenaltyThreshold: 10,
+  bagPenaltyAmount: 100,
+};
+
+export interface HouseRules extends ScoringPolicy {
+  spadesLeadPolicy: SpadesLeadPolicy;
+  minimumTeamBid: number;
+}
+
+export function defaultHouseRules(variant: VariantId): HouseRules {
+  return {
+    spadesLeadPolicy: 'must_be_broken',
+    minimumTeamBid: VARIANTS[variant].usesJokers ? 4 : 0,
+    ...DEFAULT_SCORING_POLICY,
+  };
+}
+
+/** Fill unset rules in from the variant's defaults. */
+export function resolveHouseRules(variant: VariantId, overrides: Partial<HouseRules> = {}): HouseRules {
+  const defaults = defaultHouseRules(variant);
+  return {
+    spadesLeadPolicy: overrides.spadesLeadPolicy ?? defaults.spadesLeadPolicy,
+    minimumTeamBid: overrides.minimumTeamBid ?? defaults.minimumTeamBid,
+    failedNilCountsTowardContract: overrides.failedNilCountsTowardContract ?? defaults.failedNilCountsTowardContract,
+    setTricksAsBags: overrides.setTricksAsBags ?? defaults.setTricksAsBags,
+    bagPenaltyThreshold: overrides.bagPenaltyThreshold ?? defaults.bagPenaltyThreshold,
+    bagPenaltyAmount: overrides.bagPenaltyAmount ?? defaults.bagPenaltyAmount,
+  };
+}
@@ -0,0 +1,38 @@
+/**
+ * Match Store — autosaves the match in progress to localStorage so a reload
+ * (or a crashed stream browser) can resume it from the last completed trick.
+ * Holds at most one match; starting and finishing games overwrites or
+ * clears it.
+ */
+
+import { GameConfig } from './types';
+import { GameSnapshot, SNAPSHOT_VERSION } from './game';
+
+export interface SavedMatch {
+  savedAt: string;       // ISO string
+  config: GameConfig;    // rebuilds the agents
+  engine: GameSnapshot;
+}
+
+export const SAVED_MATCH_KEY = 'spades_arena_saved_match';
+
+export function saveMatch(config: GameConfig, engine: GameSnapshot) {
+  const saved: SavedMatch = { savedAt: new Date().toISOString(), config, engine };
+  try {
+    localStorage.setItem(SAVED_MATCH_KEY, JSON.stringify(saved));
+  } catch (e) { console.error('Failed to autosave match:', e); }
+}
+
+/** The saved match, or null if there is none or it was written by an incompatible version. */
+export function loadSavedMatch(): SavedMatch | null {
+  try {
+    const raw = localStorage.getItem(SAVED_MATCH_KEY);
+    if (!raw) return null;
+    const saved: SavedMatch = JSON.parse(raw);
+    return saved.engine?.version === SNAPSHOT_VERSION ? saved : null;
+  } catch { return null; }
+}
+
+export function clearSavedMatch() {
+  localStorage.removeItem(SAVED_MATCH_KEY);
+}
@@ -0,0 +1,108 @@
+/**
+ * Ratings — TrueSkill-style skill estimates for the leaderboard.
+ *
+ * Each model has a belief N(mu, sigma²) about its skill. A game is two
+ * partnerships; a team's performance is the sum of its seats' skills plus
+ * BETA noise per seat, so a strong model carried by a weak partner gains
+ * less from a win than the same model with an equal partner. After each
+ * result the winners' mu rises and the losers' falls in proportion to
+ * their sigma², and every sigma shrinks — a model with few games moves a
+ * lot, an established one barely at all. Spades has no draws, so this is
+ * the two-team, no-draw case of TrueSkill (Herbrich et al., 2006).
+ *
+ * Ranking uses the conservative estimate mu - 3·sigma, so a model that is
+ * 2-0 keeps a wide sigma and ranks below one that is 140-60.
+ *
+ * Pure: ratings are recomputed from the results every time, so a source
+ * filter or an import changes them consistently.
+ */
+
+import type { GameResult } from './resultsStore';
+import { normalCdf, normalPdf } from './significance';
+
+export const DEFAULT_MU = 25;
+export const DEFAULT_SIGMA = DEFAULT_MU / 3;
+const BETA = DEFAULT_SIGMA / 2;   // performance noise per seat
+const TAU = DEFAULT_SIGMA / 100;  // skill drift per game, so sigma never reaches 0
+
+export interface Rating {
+  mu: number;
+  sigma: number;
+}
+
+export interface RatingPoint extends Rating {
+  date: string;
+  resultId: string;
+}
+
+export interface ModelRating extends Rating {
+  model: string;
+  games: number;          // rated games; mirror matches don't count
+  history: RatingPoint[]; // after each rated game, oldest first
+}
+
+/** The rank key: a skill the model is ~99.9% likely to exceed. */
+export function conservativeRating(r: Rating): number {
+  return r.mu - 3 * r.sigma;
+}
+
+/** 95% confidence interval for a model's skill. */
+export function ratingInterval(r: Rating): [number, number] {
+  return [r.mu - 2 * r.sigma, r.mu + 2 * r.sigma];
+}
+
+/**
+ * Ratings of every model in `results`, replayed in date order (stable, so
+ * results saved in the same millisecond keep their stored order). Sorted by
+ * conservative rating, best first.
+ */
+export function computeRatings(results: GameResult[]): ModelRating[] {
+  const ratings = new Map<string, ModelRating>();
+  const ensure = (model: string) => {
+    if (!ratings.has(model)) {
+      ratings.set(model, { model, mu: DEFAULT_MU, sigma: DEFAULT_SIGMA, games: 0, history: [] });
+    }
+    return ratings.get(model)!;
+  };
+
+  const ordered = [...results].sort((a, b) => Date.parse(a.date) - Date.parse(b.date));
+  for (const r of ordered) {
+    const [winners, losers] = r.winner === 1 ? [r.team1Models, r.team2Models] : [r.team2Models, r.team1Models];
+    const updates = rateGame(winners.map(ensure), losers.map(ensure));
+    for (const [rating, next] of updates) {
+      rating.mu = next.mu;
+      rating.sigma = next.sigma;
+      rating.games++;
+      rating.history.push({ date: r.date, resultId: r.id, mu: next.mu, sigma: next.sigma });
+    }
+  }
+
+  return Array.from(ratings.values()).sort((a, b) => conservativeRating(b) - conservativeRating(a));
+}
+
+/**
+ * New ratings after `winners` beat `losers` (one entry per seat). A model on
+ * both teams is a mirror match for it: it still counts toward team strength
+ * but isn't updated. A model holding both seats of a team is updated once.
+ */
+function rateGame(winners: ModelRating[], losers: ModelRating[]): Map<ModelRating, Rating> {
+  const seats = [...winners, ...losers];
+  const drifted = (r: ModelRating) => r.sigma * r.sigma + TAU * TAU;
+  const c = Math.sqrt(seats.reduce((sum, r) => sum + drifted(r) + BETA * BETA, 0));
+  const t = (winners.reduce((sum, r) => sum + r.mu, 0) - losers.reduce((sum, r) => sum + r.mu, 0)) / c;
+  const v = normalPdf(t) / normalCdf(t);
+  const w = v * (v + t);
+
+  const updates = new Map<ModelRating, Rating>();
+  const update = (r: ModelRating, sign: 1 | -1) => {
+    if (updates.has(r) || (winners.includes(r) && losers.includes(r))) return;
+    const variance = drifted(r);
+    updates.set(r, {
+      mu: r.mu + sign * (variance / c) * v,
+      sigma: Math.sqrt(variance * Math.max(1 - (variance / (c * c)) * w, 0.0001)),
+    });
+  };
+  for (const r of winners) update(r, 1);
+  for (const r of losers) update(r, -1);
+  return updates;
+}
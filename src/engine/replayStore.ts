@@ -0,0 +1,78 @@
+/**
+ * Replay Store — keeps the full event log of recently finished games in
+ * localStorage so the Replay screen can step through them. Only the most
+ * recent MAX_REPLAYS are kept; a log is ~100 KB, and the summary row in
+ * resultsStore outlives it. With the arena server active (see resultsStore)
+ * each recording is also uploaded, where it is kept for good.
+ */
+
+import { GameEvent } from './events';
+import { getArenaApi } from './arenaApi';
+import { GameSnapshot } from './game';
+import { PlayerState } from './types';
+
+export interface RecordedGame {
+  id: string;            // the GameResult id, when saved alongside one
+  date: string;          // ISO string
+  players: Pick<PlayerState, 'name' | 'type'>[]; // index = seat
+  events: GameEvent[];
+}
+
+const STORAGE_KEY = 'spades_arena_replays';
+const MAX_REPLAYS = 20;
+
+function getReplays(): RecordedGame[] {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    return raw ? JSON.parse(raw) : [];
+  } catch { return []; }
+}
+
+function writeReplays(replays: RecordedGame[]) {
+  // Drop the oldest until the log fits in the storage quota
+  for (let kept = replays.slice(-MAX_REPLAYS); kept.length > 0; kept = kept.slice(1)) {
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(kept));
+      return;
+    } catch { /* quota exceeded — try with fewer */ }
+  }
+}
+
+export function saveReplay(replay: RecordedGame) {
+  writeReplays([...getReplays().filter(r => r.id !== replay.id), replay]);
+  getArenaApi()?.putGame(replay).catch(e => console.error('Failed to upload recorded game:', e));
+}
+
+/** Recorded games, newest first. */
+export function getAllReplays(): RecordedGame[] {
+  return getReplays().reverse();
+}
+
+export function getReplay(id: string): RecordedGame | null {
+  return getReplays().find(r => r.id === id) ?? null;
+}
+
+/**
+ * Read a recording from a JSON file: a RecordedGame, a SavedMatch, an engine
+ * snapshot (see GameEngine.toJSON), or a bare event array. Returns null if the text
+ * holds none of those.
+ */
+export function parseRecordedGame(text: string, id: string = crypto.randomUUID()): RecordedGame | null {
+  try {
+    const data = JSON.parse(text);
+    if (Array.isArray(data?.events) && Array.isArray(data?.players)) return data as RecordedGame;
+    const snapshot: GameSnapshot | undefined = data?.engine ?? data;
+    const events: unknown = Array.isArray(data) ? data : snapshot?.events;
+    if (!Array.isArray(events) || events[0]?.type !== 'GameStarted') return null;
+    const players = snapshot?.state?.players;
+    return {
+      id,
+      date: new Date(events[0].at ?? Date.now()).toISOString(),
+      players: [0, 1, 2, 3].map(seat => ({
+        name: players?.[seat]?.name ?? `Seat ${seat}`,
+        type: players?.[seat]?.type ?? 'bot',
+      })),
+      events: events as GameEvent[],
+    };
+  } catch { return null; }
+}
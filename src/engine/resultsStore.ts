@@ -1,8 +1,23 @@
 /**
- * Results Store — persists game results to localStorage
+ * Results Store — persists game results to localStorage, or to the arena
+ * server (server/index.ts) when RESULTS_API_URL points at one.
  * Powers the leaderboard, matchup grid, and tournament tracking
  */
 
+import { DuplicateInfo } from './types';
+import type { HouseRules } from './houseRules';
+import type { GameEngine } from './game';
+import type { GameLog, HandLog, ModelMetrics, SeatMetrics } from '../benchmark/metrics';
+import { clearDecisions } from './decisionStore';
+import { ArenaApi, setArenaApi } from './arenaApi';
+import { ArenaBundle, ImportReport, createBundle, planMerge, tagImported } from './bundle';
+import { DataSource, DATA_SOURCES, sourceOf, tournamentSourceOf } from './dataSource';
+import { getReplay } from './replayStore';
+import { MetricsCalculator, handLogsFromEvents, usageByModel } from '../benchmark/metrics';
+import { ModelRating, computeRatings, conservativeRating } from './ratings';
+import type { TournamentProgress } from './tournament';
+import { TokenUsage, addUsage } from './usage';
+
 export interface GameResult {
     id: string;
     date: string;                    // ISO string
@@ -16,6 +31,12 @@ export interface GameResult {
     winner: 1 | 2;
     targetScore: number;
     handsPlayed: number;
+    seed?: number;                   // deal seed; replays the same cards
+    duplicate?: DuplicateInfo;       // one table of a duplicate pair
+    hands?: HandLog[];               // per-hand bids, tricks and score changes
+    source?: DataSource;             // unset on results saved before tagging; see sourceOf
+    usage?: Record<string, TokenUsage>; // per model, over the game; absent when no seat reported any
+    houseRules?: HouseRules;         // the rules it was played by; unset on results saved before they were kept
 }
 
 export interface ModelStats {
@@ -25,6 +46,12 @@ export interface ModelStats {
     totalPoints: number;
     totalBags: number;
     gamesPlayed: number;
+    duplicateBoards: number;         // completed duplicate pairs played
+    duplicateTotal: number;          // sum of (table A + table B) score margins
+    hands?: ModelMetrics;            // from results with hand logs; absent when none have them
+    usage?: TokenUsage;              // from results with usage; absent when none have it
+    usageGames: number;              // results that recorded its usage, to average usage over
+    rating: ModelRating;             // see ratings.ts
 }
 
 export interface MatchupRecord {
@@ -40,74 +67,256 @@ export interface TournamentResult {
     champion: string;
     participants: string[];
     matches: GameResult[];
+    source?: DataSource;
+    progress?: TournamentProgress;   // schedule and series state; set by the tournament engine (see tournament.ts)
 }
 
+
 const STORAGE_KEY = 'spades_arena_results';
 const TOURNAMENT_KEY = 'spades_arena_tournaments';
 
-// ─── Read / Write ───────────────────────────────────────
+// ─── Backends ───────────────────────────────────────────
+
+/**
+ * Where results and tournaments are kept. Both backends read synchronously,
+ * so nothing above them changes: the HTTP backend serves a cache loaded by
+ * initResultsStore() and writes through to the server.
+ */
+interface ResultsBackend {
+    kind: ResultsBackendKind;
+    getResults(): GameResult[];
+    addResults(results: GameResult[]): void;
+    getTournaments(): TournamentResult[];
+    putTournaments(tournaments: TournamentResult[]): void; // insert, or replace by id
+    clear(): void;
+}
+
+export type ResultsBackendKind = 'local' | 'http';
 
-function getResults(): GameResult[] {
+function readJson<T>(key: string): T[] {
     try {
-        const raw = localStorage.getItem(STORAGE_KEY);
+        const raw = localStorage.getItem(key);
         return raw ? JSON.parse(raw) : [];
     } catch { return []; }
 }
 
-function writeResults(results: GameResult[]) {
-    localStorage.setItem(STORAGE_KEY, JSON.stringify(results));
+const localBackend: ResultsBackend = {
+    kind: 'local',
+    getResults: () => readJson<GameResult>(STORAGE_KEY),
+    addResults(results) {
+        localStorage.setItem(STORAGE_KEY, JSON.stringify([...this.getResults(), ...results]));
+    },
+    getTournaments: () => readJson<TournamentResult>(TOURNAMENT_KEY),
+    putTournaments(tournaments) {
+        localStorage.setItem(TOURNAMENT_KEY, JSON.stringify(replaceById(this.getTournaments(), tournaments)));
+    },
+    clear() {
+        localStorage.removeItem(STORAGE_KEY);
+        localStorage.removeItem(TOURNAMENT_KEY);
+    },
+};
+
+function httpBackend(api: ArenaApi, results: GameResult[], tournaments: TournamentResult[]): ResultsBackend {
+    // Writes land in the cache at once; a failed upload is logged, not retried
+    const upload = (what: string, request: Promise<unknown>) => {
+        request.catch(e => console.error(`Failed to upload ${what}:`, e));
+    };
+    return {
+        kind: 'http',
+        getResults: () => [...results],
+        addResults(added) {
+            results.push(...added);
+            upload('results', api.postResults(added));
+        },
+        getTournaments: () => [...tournaments],
+        putTournaments(put) {
+            tournaments.splice(0, tournaments.length, ...replaceById(tournaments, put));
+            upload('tournaments', api.postTournaments(put));
+        },
+        clear() {
+            results.length = 0;
+            tournaments.length = 0;
+            upload('clear', api.clear());
+        },
+    };
 }
 
-function getTournaments(): TournamentResult[] {
+/** `existing` with each of `put` replacing the entry with its id in place, or appended. */
+function replaceById<T extends { id: string }>(existing: T[], put: T[]): T[] {
+    const byId = new Map(put.map(t => [t.id, t]));
+    const replaced = existing.map(t => byId.get(t.id) ?? t);
+    const existingIds = new Set(existing.map(t => t.id));
+    return [...replaced, ...put.filter(t => !existingIds.has(t.id))];
+}
+
+let backend: ResultsBackend = localBackend;
+
+/**
+ * Choose the backend before first use: the arena server at `apiUrl` if it
+ * answers, localStorage otherwise (including when `apiUrl` is empty).
+ */
+export async function initResultsStore(apiUrl: string | undefined = process.env.RESULTS_API_URL): Promise<ResultsBackendKind> {
+    if (!apiUrl) return fallBackToLocal();
+    const api = new ArenaApi(apiUrl);
     try {
-        const raw = localStorage.getItem(TOURNAMENT_KEY);
-        return raw ? JSON.parse(raw) : [];
-    } catch { return []; }
+        await api.health();
+        const [results, tournaments] = await Promise.all([api.getResults(), api.getTournaments()]);
+        backend = httpBackend(api, results, tournaments);
+        setArenaApi(api);
+    } catch (e) {
+        console.error(`Arena server at ${apiUrl} unavailable, using localStorage:`, e);
+        return fallBackToLocal();
+    }
+    return backend.kind;
+}
+
+function fallBackToLocal(): ResultsBackendKind {
+    backend = localBackend;
+    setArenaApi(null);
+    return backend.kind;
+}
+
+export function getResultsBackend(): ResultsBackendKind {
+    return backend.kind;
+}
+
+// ─── Data sources ───────────────────────────────────────
+
+/** Sources shown until the user picks: everything, minus demo once a real game exists. */
+export function defaultSources(): DataSource[] {
+    const hasReal = backend.getResults().some(r => sourceOf(r) !== 'demo');
+    return hasReal ? DATA_SOURCES.filter(s => s !== 'demo') : [...DATA_SOURCES];
+}
+
+/** How many results each source holds. */
+export function countBySource(): Record<DataSource, number> {
+    const counts: Record<DataSource, number> = { live: 0, benchmark: 0, imported: 0, demo: 0 };
+    for (const r of backend.getResults()) counts[sourceOf(r)]++;
+    return counts;
+}
+
+/** Stored results, or only those from `sources`. */
+function getResults(sources?: DataSource[]): GameResult[] {
+    const results = backend.getResults();
+    return sources ? results.filter(r => sources.includes(sourceOf(r))) : results;
 }
 
-function writeTournaments(tournaments: TournamentResult[]) {
-    localStorage.setItem(TOURNAMENT_KEY, JSON.stringify(tournaments));
+function getTournaments(sources?: DataSource[]): TournamentResult[] {
+    const tournaments = backend.getTournaments();
+    return sources ? tournaments.filter(t => sources.includes(tournamentSourceOf(t))) : tournaments;
 }
 
 // ─── Public API ─────────────────────────────────────────
 
+/**
+ * Save the result when `engine` emits GameOver. `details` supplies what the
+ * engine doesn't know (model names, duplicate table). Returns the
+ * unsubscribe function.
+ */
+export function saveResultOnGameOver(
+    engine: GameEngine,
+    details: Pick<GameResult, 'team1Models' | 'team2Models' | 'duplicate'>,
+    onSaved?: (result: GameResult) => void,
+): () => void {
+    return engine.subscribe(event => {
+        if (event.type !== 'GameOver') return;
+        const { state } = engine;
+        try {
+            const hands = handLogsFromEvents(engine.events);
+            const [t1, t2] = [details.team1Models, details.team2Models];
+            const usage = usageByModel(hands, [t1[0], t2[0], t1[1], t2[1]]);
+            const result = saveResult({
+                date: new Date().toISOString(),
+                ...details,
+                team1Score: state.teams.team1.score,
+                team2Score: state.teams.team2.score,
+                team1Bags: state.teams.team1.bags,
+                team2Bags: state.teams.team2.bags,
+                winner: event.winner,
+                targetScore: state.targetScore,
+                handsPlayed: state.handNumber,
+                seed: engine.seed,
+                hands,
+                source: 'live',
+                ...(usage ? { usage } : {}),
+                houseRules: engine.houseRules,
+            });
+            onSaved?.(result);
+        } catch (e) { console.error('Failed to save result:', e); }
+    });
+}
+
 export function saveResult(result: Omit<GameResult, 'id'>): GameResult {
-    const results = getResults();
     const newResult: GameResult = { ...result, id: crypto.randomUUID() };
-    results.push(newResult);
-    writeResults(results);
+    backend.addResults([newResult]);
     return newResult;
 }
 
+/** Save a tournament, replacing any saved one with the same id (the tournament engine saves after every game). */
 export function saveTournament(tournament: TournamentResult) {
-    const tournaments = getTournaments();
-    tournaments.push(tournament);
-    writeTournaments(tournaments);
+    backend.putTournaments([tournament]);
+}
+
+/** Save one game of a running tournament together with the tournament's updated progress. */
+export function saveTournamentGame(result: GameResult, tournament: TournamentResult) {
+    backend.addResults([result]);
+    backend.putTournaments([tournament]);
+}
+
+/**
+ * Everything stored, as a bundle, with every record's source made explicit.
+ * Results without hand logs get them from their recorded game, when that is
+ * still kept.
+ */
+export function exportBundle(): ArenaBundle {
+    const results = getResults().map(r => {
+        const tagged = { ...r, source: sourceOf(r) };
+        if (r.hands) return tagged;
+        const replay = getReplay(r.id);
+        return replay ? { ...tagged, hands: handLogsFromEvents(replay.events) } : tagged;
+    });
+    return createBundle(results, getTournaments().map(t => ({ ...t, source: tournamentSourceOf(t) })));
+}
+
+/**
+ * Merge a parsed bundle into the store (see bundle.ts for the rules). Games
+ * played elsewhere are tagged 'imported'; demo and benchmark keep their tag.
+ */
+export function importBundle(bundle: ArenaBundle): ImportReport {
+    const plan = planMerge({ results: getResults(), tournaments: getTournaments() }, tagImported(bundle));
+    if (plan.results.length > 0) backend.addResults(plan.results);
+    if (plan.tournaments.length > 0) backend.putTournaments(plan.tournaments);
+    return plan.report;
 }
 
-export function getAllResults(): GameResult[] {
-    return getResults();
+export function getAllResults(sources?: DataSource[]): GameResult[] {
+    return getResults(sources);
 }
 
-export function getAllTournaments(): TournamentResult[] {
-    return getTournaments();
+export function getAllTournaments(sources?: DataSource[]): TournamentResult[] {
+    return getTournaments(sources);
 }
 
-export function getTotalGamesPlayed(): number {
-    return getResults().length;
+export function getTotalGamesPlayed(sources?: DataSource[]): number {
+    return getResults(sources).length;
 }
 
 /**
- * Build leaderboard sorted by win rate desc, tiebreak by total points desc.
- * Each model that appears in any team is tracked individually.
+ * Build leaderboard sorted by conservative rating desc (see ratings.ts),
+ * tiebreak by win rate, then total points. Each model that appears in any
+ * team is tracked individually.
  */
-export function getLeaderboard(): ModelStats[] {
-    const results = getResults();
+export function getLeaderboard(sources?: DataSource[]): ModelStats[] {
+    const results = getResults(sources);
+    const ratings = new Map(computeRatings(results).map(r => [r.model, r]));
     const statsMap = new Map<string, ModelStats>();
 
     const ensure = (model: string) => {
         if (!statsMap.has(model)) {
-            statsMap.set(model, { model, wins: 0, losses: 0, totalPoints: 0, totalBags: 0, gamesPlayed: 0 });
+            statsMap.set(model, {
+                model, wins: 0, losses: 0, totalPoints: 0, totalBags: 0, gamesPlayed: 0,
+                duplicateBoards: 0, duplicateTotal: 0, usageGames: 0, rating: ratings.get(model)!,
+            });
         }
         return statsMap.get(model)!;
     };
@@ -133,7 +342,34 @@ export function getLeaderboard(): ModelStats[] {
         }
     }
 
+    for (const r of results) {
+        for (const [model, usage] of Object.entries(r.usage ?? {})) {
+            const s = ensure(model);
+            s.usage = addUsage(s.usage, usage);
+            s.usageGames++;
+        }
+    }
+
+    for (const [a, b] of getDuplicatePairs(results)) {
+        for (const model of new Set([...a.team1Models, ...a.team2Models])) {
+            const marginA = modelMargin(a, model);
+            const marginB = modelMargin(b, model);
+            if (marginA === null || marginB === null) continue;
+            const s = ensure(model);
+            s.duplicateBoards++;
+            s.duplicateTotal += marginA + marginB;
+        }
+    }
+
+    const handMetrics = new MetricsCalculator(results.filter(r => r.hands).map(toGameLog)).calculateModelMetrics();
+    for (const [model, metrics] of Object.entries(handMetrics)) {
+        const s = statsMap.get(model);
+        if (s) s.hands = metrics;
+    }
+
     return Array.from(statsMap.values()).sort((a, b) => {
+        const byRating = conservativeRating(b.rating) - conservativeRating(a.rating);
+        if (byRating !== 0) return byRating;
         const aRate = a.gamesPlayed > 0 ? a.wins / a.gamesPlayed : 0;
         const bRate = b.gamesPlayed > 0 ? b.wins / b.gamesPlayed : 0;
         if (bRate !== aRate) return bRate - aRate;
@@ -141,18 +377,79 @@ export function getLeaderboard(): ModelStats[] {
     });
 }
 
+/**
+ * Average duplicate score per board: how many points a model's pair gained
+ * over its opponents holding the same cards. 0 when no pairs are complete.
+ */
+export function duplicateScore(stats: ModelStats): number {
+    return stats.duplicateBoards > 0 ? stats.duplicateTotal / stats.duplicateBoards : 0;
+}
+
+/**
+ * Completed duplicate pairs as [table A, table B]. Unfinished pairs (table B
+ * never played) are left out.
+ */
+export function getDuplicatePairs(results: GameResult[] = getResults()): [GameResult, GameResult][] {
+    const tables = new Map<string, { A?: GameResult; B?: GameResult }>();
+    for (const r of results) {
+        if (!r.duplicate) continue;
+        const entry = tables.get(r.duplicate.id) ?? {};
+        entry[r.duplicate.table] = r;
+        tables.set(r.duplicate.id, entry);
+    }
+    const pairs: [GameResult, GameResult][] = [];
+    for (const { A, B } of tables.values()) {
+        if (A && B) pairs.push([A, B]);
+    }
+    return pairs;
+}
+
+/**
+ * A model's score margin in one game, from its own team's side. Null when it
+ * didn't play, or sat on both teams (a mirror match has no side).
+ */
+function modelMargin(r: GameResult, model: string): number | null {
+    const on1 = r.team1Models.includes(model);
+    const on2 = r.team2Models.includes(model);
+    if (on1 === on2) return null;
+    return on1 ? r.team1Score - r.team2Score : r.team2Score - r.team1Score;
+}
+
+/**
+ * A result with hand logs as a MetricsCalculator GameLog; team 1 holds seats
+ * 0 and 2. It carries the result's scoring, so results played by different
+ * house rules can be measured together.
+ */
+function toGameLog(r: GameResult): GameLog {
+    return {
+        gameId: r.id,
+        seed: r.seed,
+        winner: r.winner === 1 ? 'team1' : 'team2',
+        score: { team1: r.team1Score, team2: r.team2Score },
+        bags: { team1: r.team1Bags, team2: r.team2Bags },
+        players: [r.team1Models[0], r.team2Models[0], r.team1Models[1], r.team2Models[1]],
+        hands: r.hands ?? [],
+        ...(r.houseRules ? { policy: r.houseRules } : {}),
+    };
+}
+
 /**
  * Get head-to-head records between all model pairs.
  */
-export function getMatchups(): MatchupRecord[] {
-    const results = getResults();
+export function getMatchups(sources?: DataSource[]): MatchupRecord[] {
+    const results = getResults(sources);
     const key = (a: string, b: string) => [a, b].sort().join('|||');
     const map = new Map<string, MatchupRecord>();
 
     for (const r of results) {
+        // Each pair counts once per game, however many seats it held; a
+        // model on both teams (a mirror match) isn't facing anyone
+        const counted = new Set<string>();
         for (const m1 of r.team1Models) {
             for (const m2 of r.team2Models) {
                 const k = key(m1, m2);
+                if (r.team2Models.includes(m1) || r.team1Models.includes(m2) || counted.has(k)) continue;
+                counted.add(k);
                 if (!map.has(k)) {
                     const [sorted1, sorted2] = [m1, m2].sort();
                     map.set(k, { model1: sorted1, model2: sorted2, model1Wins: 0, model2Wins: 0 });
@@ -172,16 +469,23 @@ export function getMatchups(): MatchupRecord[] {
 /**
  * Get detailed results for a specific model.
  */
-export function getModelResults(modelName: string): GameResult[] {
-    return getResults().filter(
+export function getModelResults(modelName: string, sources?: DataSource[]): GameResult[] {
+    return getResults(sources).filter(
         r => r.team1Models.includes(modelName) || r.team2Models.includes(modelName)
     );
 }
 
+/** A model's hand-level metrics per seat it has held, from results with hand logs. */
+export function getModelSeatMetrics(modelName: string, sources?: DataSource[]): SeatMetrics[] {
+    const logs = getModelResults(modelName, sources).filter(r => r.hands).map(toGameLog);
+    return new MetricsCalculator(logs).calculateSeatMetrics().filter(m => m.model === modelName);
+}
+
 /**
- * Clear all stored data (for dev/testing).
+ * Clear all stored data (for dev/testing). With the HTTP backend this also
+ * empties the server, recorded games and decisions included.
  */
 export function clearAllData() {
-    localStorage.removeItem(STORAGE_KEY);
-    localStorage.removeItem(TOURNAMENT_KEY);
+    backend.clear();
+    clearDecisions();
 }
@@ -0,0 +1,46 @@
+/**
+ * Seedable pseudo-random numbers for dealing.
+ *
+ * Every hand is shuffled from its own generator, derived from the game seed
+ * and the hand number. That keeps deals reproducible bit-for-bit from just
+ * `(seed, handNumber)` — no generator state has to be carried between hands,
+ * so a game can be re-dealt from any hand onward.
+ */
+
+/** A source of uniform floats in [0, 1), same contract as `Math.random`. */
+export type Rng = () => number;
+
+/** mulberry32 — tiny, fast, and good enough for card shuffling. */
+export function createRng(seed: number): Rng {
+  let a = seed >>> 0;
+  return () => {
+    a = (a + 0x6d2b79f5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/** A fresh 32-bit seed for games that weren't given one. */
+export function randomSeed(): number {
+  return Math.floor(Math.random() * 4294967296) >>> 0;
+}
+
+/**
+ * Hash a string (e.g. a game id, or `"<benchmark seed>:<game index>"`) into a
+ * 32-bit seed. FNV-1a.
+ */
+export function seedFromString(value: string): number {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    h ^= value.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return h >>> 0;
+}
+
+/** The seed for one hand's shuffle, mixed from the game seed and hand number. */
+export function handSeed(gameSeed: number, handNumber: number): number {
+  return seedFromString(`${gameSeed >>> 0}:${handNumber}`);
+}
@@ -1,8 +1,24 @@
 import { Card, Suit } from './types';
+import { VariantId, effectiveSuit, isTrump, trumpStrength } from './variant';
+import { SpadesLeadPolicy } from './houseRules';
 import { getCardValue } from './deck';
 
-function isTrump(card: Card): boolean {
-  return card.suit === 'S' || card.suit === 'J'; // Jokers are trumps
+/** Sighted bids in canonical order (legal.rs): Regular 1..13, then Nil. */
+export const ALL_BIDS = [1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11, 12, 13, 0];
+
+/**
+ * Filter candidate bid values by the minimum team bid. The floor only
+ * applies once the partner has bid; a bid of 0 (Nil, Blind Nil) commits no
+ * tricks, so it drops out whenever the partner hasn't already met the floor.
+ */
+export function getLegalBids(
+  candidates: number[],
+  partnerBid: number | null,
+  minimumTeamBid: number,
+): number[] {
+  if (partnerBid === null) return [...candidates];
+  const required = Math.max(0, minimumTeamBid - partnerBid);
+  return candidates.filter(value => value >= required);
 }
 
 export function getLegalPlays(
@@ -10,6 +26,8 @@ export function getLegalPlays(
   ledSuit: Suit | null,
   spadesBroken: boolean,
   forcedOpeningCardId?: string,
+  variant: VariantId = 'standard',
+  spadesLeadPolicy: SpadesLeadPolicy = 'must_be_broken',
 ): Card[] {
   // If no suit is led (first to play in the trick)
   if (!ledSuit) {
@@ -23,28 +41,19 @@ export function getLegalPlays(
       // leading rules so the function stays total.
     }
 
-    // Cannot lead spades unless broken or only have spades.
-    // Jokers count as spades for leading purposes.
-    const hasOnlySpades = hand.every(c => isTrump(c));
-    if (!spadesBroken && !hasOnlySpades) {
-      return hand.filter(c => !isTrump(c));
+    // Cannot lead spades unless broken (or the house allows it) or only have
+    // spades. "Spades" means effective spades: jokers, and the 2♦ in JJDD.
+    const hasOnlySpades = hand.every(c => effectiveSuit(c, variant) === 'S');
+    const mayLeadSpades = spadesBroken || spadesLeadPolicy === 'always_allowed';
+    if (!mayLeadSpades && !hasOnlySpades) {
+      return hand.filter(c => effectiveSuit(c, variant) !== 'S');
     }
     return [...hand];
   }
 
-  // Must follow suit if able
-  // If led suit is Spades, Jokers count as Spades
-  // If led suit is NOT Spades, Jokers are NOT that suit (they are trumps)
-  
-  let cardsOfLedSuit: Card[] = [];
-  
-  if (ledSuit === 'S') {
-    // If Spades led, must follow with Spades OR Jokers
-    cardsOfLedSuit = hand.filter(c => isTrump(c));
-  } else {
-    // If non-Spade led, must follow exact suit (Jokers are NOT part of H/D/C)
-    cardsOfLedSuit = hand.filter(c => c.suit === ledSuit);
-  }
+  // Must follow the led suit if able, by effective suit — jokers (and the
+  // JJDD 2♦) follow spades and never follow hearts/diamonds/clubs.
+  const cardsOfLedSuit = hand.filter(c => effectiveSuit(c, variant) === ledSuit);
 
   if (cardsOfLedSuit.length > 0) {
     return cardsOfLedSuit;
@@ -54,7 +63,11 @@ export function getLegalPlays(
   return [...hand];
 }
 
-export function determineTrickWinner(plays: { seat: number; card: Card }[], ledSuit: Suit): number {
+export function determineTrickWinner(
+  plays: { seat: number; card: Card }[],
+  ledSuit: Suit,
+  variant: VariantId = 'standard',
+): number {
   let winningPlay = plays[0];
 
   for (let i = 1; i < plays.length; i++) {
@@ -62,31 +75,27 @@ export function determineTrickWinner(plays: { seat: number; card: Card }[], ledS
     const currentWinningCard = winningPlay.card;
     const newCard = play.card;
 
-    const isNewTrump = isTrump(newCard);
-    const isCurrentTrump = isTrump(currentWinningCard);
+    const isNewTrump = isTrump(newCard, variant);
+    const isCurrentTrump = isTrump(currentWinningCard, variant);
 
     if (isNewTrump && !isCurrentTrump) {
       // Trump beats non-trump
       winningPlay = play;
     } else if (isNewTrump && isCurrentTrump) {
-      // Both trumps: compare values (Big > Little > A > ...)
-      if (getCardValue(newCard.rank, newCard.suit) > getCardValue(currentWinningCard.rank, currentWinningCard.suit)) {
+      // Both trumps: compare by the variant's trump order
+      if (trumpStrength(newCard, variant) > trumpStrength(currentWinningCard, variant)) {
         winningPlay = play;
       }
     } else if (!isNewTrump && !isCurrentTrump) {
       // Neither is trump
       if (newCard.suit === currentWinningCard.suit) {
         // Same suit, higher rank wins
-        if (getCardValue(newCard.rank, newCard.suit) > getCardValue(currentWinningCard.rank, currentWinningCard.suit)) {
+        if (getCardValue(newCard.rank, newCard.suit, variant) > getCardValue(currentWinningCard.rank, currentWinningCard.suit, variant)) {
           winningPlay = play;
         }
-      } else if (newCard.suit === ledSuit) {
-        // New card follows suit, current winner doesn't (shouldn't happen if logic is correct, but safe to handle)
-        // Wait, if current winner isn't trump and isn't led suit, it shouldn't be winning unless it was the lead.
-        // If new card is led suit and current winner is NOT led suit (and not trump), new card wins.
-        if (currentWinningCard.suit !== ledSuit) {
-           winningPlay = play;
-        }
+      } else if (newCard.suit === ledSuit && currentWinningCard.suit !== ledSuit) {
+        // Only reachable if the lead itself was off-suit; the led suit wins
+        winningPlay = play;
       }
     }
   }
@@ -52,12 +52,18 @@ export class GameRunner {
 
       try {
         if (state.phase === 'bidding') {
-          const action = await currentAgent.bid(observation);
+          let action = await currentAgent.bid(observation);
+          if (observation.bidding_context?.blind_bid_options && !action.blind) {
+            // Passed on a blind bid — turn the hand up and ask again
+            this.engine.revealHand(currentSeat);
+            action = await currentAgent.bid(this.engine.getObservation(currentSeat));
+          }
           const error = this.engine.processBid(currentSeat, action);
           if (error) {
             console.error(`Agent ${currentSeat} error: ${error}`);
-            // Simple fallback: bid 1
-            this.engine.processBid(currentSeat, { action: 'bid', value: 1, reasoning: 'Fallback' });
+            // Simple fallback: lowest legal bid
+            const fallbackBid = observation.bidding_context?.legal_bids[0] ?? 1;
+            this.engine.processBid(currentSeat, { action: 'bid', value: fallbackBid, reasoning: 'Fallback' });
           }
         } else if (state.phase === 'playing') {
           const action = await currentAgent.play(observation);
@@ -1,48 +1,86 @@
 import { PlayerState, TeamState } from './types';
+import { VariantId, VARIANTS } from './variant';
+import { DEFAULT_SCORING_POLICY, ScoringPolicy } from './houseRules';
 
+/** Bonus for a team taking exactly ten tricks (JJA/JJDD). */
+export const DIME_BONUS = 200;
+
+export interface TeamHandScore extends TeamState {
+  bagsEarned: number; // bags taken this hand, before any penalty reset
+  dime: boolean;   // took exactly 10 tricks — +200 (joker variants)
+  boston: boolean; // took all 13 tricks — wins the game outright (joker variants)
+}
+
+/**
+ * Score one team's hand — mirrors `score_team` / `apply_bag_penalty` in
+ * `score.rs` under the default policy.
+ *
+ * Regular bids form a single contract worth 10 per trick (20 for Blind N),
+ * made against the tricks of the regular bidders. Overtricks become bags and
+ * earn no points. A failed Nil's tricks become team bags; a team of two Nil
+ * bidders has no contract at all.
+ */
 export function calculateTeamScore(
   player1: PlayerState,
   player2: PlayerState,
-  currentTeamState: TeamState
-): TeamState {
+  currentTeamState: TeamState,
+  variant: VariantId = 'standard',
+  policy: ScoringPolicy = DEFAULT_SCORING_POLICY,
+): TeamHandScore {
   let newScore = currentTeamState.score;
-  let newBags = currentTeamState.bags;
+  let bagsEarned = 0;
 
-  const bid1 = player1.bid || 0;
-  const bid2 = player2.bid || 0;
-  const won1 = player1.tricksWon;
-  const won2 = player2.tricksWon;
+  let teamBid = 0;
+  let contractValue = 0;
+  let contractTricks = 0;
+  let nilTricks = 0;
 
-  // Handle Nil bids
-  if (bid1 === 0) {
-    if (won1 === 0) newScore += 100;
-    else newScore -= 100;
-  }
-  if (bid2 === 0) {
-    if (won2 === 0) newScore += 100;
-    else newScore -= 100;
+  for (const player of [player1, player2]) {
+    const bid = player.bid || 0;
+    if (bid === 0) {
+      // Nil — Blind Nil is worth double
+      const value = player.blind ? 200 : 100;
+      newScore += player.tricksWon === 0 ? value : -value;
+      nilTricks += player.tricksWon;
+    } else {
+      // A Blind N bid contributes 20 per trick instead of 10
+      teamBid += bid;
+      contractValue += bid * (player.blind ? 20 : 10);
+      contractTricks += player.tricksWon;
+    }
   }
 
-  // Handle non-Nil bids
-  const teamBid = (bid1 > 0 ? bid1 : 0) + (bid2 > 0 ? bid2 : 0);
-  const teamWon = (bid1 > 0 ? won1 : 0) + (bid2 > 0 ? won2 : 0);
+  if (teamBid > 0 && policy.failedNilCountsTowardContract) {
+    contractTricks += nilTricks;
+    nilTricks = 0;
+  }
+  bagsEarned += nilTricks;
 
   if (teamBid > 0) {
-    if (teamWon >= teamBid) {
-      newScore += teamBid * 10;
-      const overtricks = teamWon - teamBid;
-      newScore += overtricks;
-      newBags += overtricks;
+    if (contractTricks >= teamBid) {
+      newScore += contractValue;
+      bagsEarned += contractTricks - teamBid;
     } else {
-      newScore -= teamBid * 10;
+      newScore -= contractValue;
+      if (policy.setTricksAsBags) bagsEarned += contractTricks;
     }
   }
 
+  // Dime and Boston are joker-variant rules (score.rs)
+  const bonusesApply = VARIANTS[variant].usesJokers;
+  const tricks = player1.tricksWon + player2.tricksWon;
+  const dime = bonusesApply && tricks === 10;
+  const boston = bonusesApply && tricks === 13;
+  if (dime) newScore += DIME_BONUS;
+
   // Handle bag penalty
-  while (newBags >= 10) {
-    newScore -= 100;
-    newBags -= 10;
+  let newBags = currentTeamState.bags + bagsEarned;
+  if (policy.bagPenaltyThreshold > 0) {
+    while (newBags >= policy.bagPenaltyThreshold) {
+      newScore -= policy.bagPenaltyAmount;
+      newBags -= policy.bagPenaltyThreshold;
+    }
   }
 
-  return { score: newScore, bags: newBags };
+  return { score: newScore, bags: newBags, bagsEarned, dime, boston };
 }
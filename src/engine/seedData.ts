@@ -1,10 +1,12 @@
 /**
  * Seed data — populates the dashboard with sample results so it's never empty.
- * Called once on first load if no data exists.
+ * Called once on first load if no data exists. Everything is tagged 'demo',
+ * which the Dashboard hides by default once a real game has been played.
  */
-import { saveResult, saveTournament, getAllResults, GameResult } from './resultsStore';
+import { saveResult, saveTournament, getAllResults, getResultsBackend, GameResult } from './resultsStore';
+import { DEMO_MODELS } from './dataSource';
 
-const MODELS = ['GPT-4o', 'Claude 3.5 Sonnet', 'Gemini Pro', 'Llama 405B', 'Heuristic', 'Random'];
+const MODELS = DEMO_MODELS;
 
 function randBetween(min: number, max: number) {
     return Math.floor(Math.random() * (max - min + 1)) + min;
@@ -12,6 +14,7 @@ function randBetween(min: number, max: number) {
 
 export function seedIfEmpty() {
     if (getAllResults().length > 0) return; // Already has data
+    if (getResultsBackend() === 'http') return; // Never mix samples into the server's archive
 
     // Generate 60 sample game results across various matchups
     const matchups: [string, string, string, string][] = [
@@ -69,6 +72,7 @@ export function seedIfEmpty() {
                 winner: t1Wins ? 1 : 2,
                 targetScore: 500,
                 handsPlayed: randBetween(8, 18),
+                source: 'demo',
             });
             results.push(r);
         }
@@ -82,5 +86,6 @@ export function seedIfEmpty() {
         champion: 'GPT-4o',
         participants: MODELS,
         matches: tournamentMatches,
+        source: 'demo',
     });
 }
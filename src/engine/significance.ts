@@ -0,0 +1,114 @@
+/**
+ * Significance — how much a head-to-head record or a leaderboard gap
+ * actually says.
+ *
+ * Head-to-head: each game is a coin flip that model 1 wins with unknown
+ * probability p. The record gets an exact two-sided binomial test against
+ * p = 0.5, a Wilson score interval for p, and an estimate of how many more
+ * games the same win rate would need to reach significance.
+ *
+ * Leaderboard gaps: two ratings (see ratings.ts) are independent normal
+ * beliefs, so their difference is too; the gap's p-value is the two-sided
+ * z-test on mu_a - mu_b.
+ */
+
+import type { Rating } from './ratings';
+
+/** Results below this p-value count as separated. */
+export const SIGNIFICANCE_LEVEL = 0.05;
+
+const Z_95 = 1.959964;
+
+/** Exact searches for games needed stop here; beyond, the normal approximation takes over. */
+const EXACT_SEARCH_LIMIT = 200;
+
+export interface MatchupSignificance {
+  games: number;
+  winRate: number;               // model 1's
+  interval: [number, number];    // 95% Wilson interval for winRate
+  pValue: number;                // exact binomial, two-sided, against 0.5
+  significant: boolean;
+  gamesNeeded: number | null;    // more games at the same win rate to become significant; 0 if already; null at 50%
+}
+
+export interface GapSignificance {
+  pValue: number;
+  probabilityAhead: number;      // that the higher-rated model really is stronger
+  significant: boolean;
+}
+
+/** Significance of model 1 winning `wins` of `games` against model 2. */
+export function matchupSignificance(wins: number, games: number): MatchupSignificance {
+  const pValue = binomialTest(wins, games);
+  const winRate = games > 0 ? wins / games : 0.5;
+  return {
+    games,
+    winRate,
+    interval: wilsonInterval(wins, games),
+    pValue,
+    significant: pValue < SIGNIFICANCE_LEVEL,
+    gamesNeeded: pValue < SIGNIFICANCE_LEVEL ? 0 : gamesNeeded(winRate, games),
+  };
+}
+
+/** Whether rating `a` is separated from rating `b`. */
+export function gapSignificance(a: Rating, b: Rating): GapSignificance {
+  const z = (a.mu - b.mu) / Math.sqrt(a.sigma * a.sigma + b.sigma * b.sigma);
+  const pValue = Math.min(1, 2 * (1 - normalCdf(Math.abs(z)))); // normalCdf(0) is only within 1.2e-7 of ½
+  return { pValue, probabilityAhead: normalCdf(Math.abs(z)), significant: pValue < SIGNIFICANCE_LEVEL };
+}
+
+/** Two-sided exact binomial test of `k` successes in `n` trials against p = 0.5. */
+export function binomialTest(k: number, n: number): number {
+  if (n === 0) return 1;
+  const tail = Math.min(k, n - k);
+  // P(X <= tail), summed in log space so large n doesn't underflow term by term
+  let logPmf = -n * Math.LN2; // P(X = 0)
+  let cumulative = Math.exp(logPmf);
+  for (let i = 1; i <= tail; i++) {
+    logPmf += Math.log((n - i + 1) / i);
+    cumulative += Math.exp(logPmf);
+  }
+  return Math.min(1, 2 * cumulative);
+}
+
+/** 95% Wilson score interval for a success rate of `k` in `n`. */
+export function wilsonInterval(k: number, n: number): [number, number] {
+  if (n === 0) return [0, 1];
+  const p = k / n;
+  const z2 = Z_95 * Z_95;
+  const center = (p + z2 / (2 * n)) / (1 + z2 / n);
+  const half = (Z_95 / (1 + z2 / n)) * Math.sqrt(p * (1 - p) / n + z2 / (4 * n * n));
+  // At k = 0 and k = n the bound is exactly 0 or 1; rounding would leave it a hair off
+  return [k === 0 ? 0 : Math.max(0, center - half), k === n ? 1 : Math.min(1, center + half)];
+}
+
+/**
+ * More games needed, at win rate `rate`, for the record to reach
+ * significance: an exact search over small totals, then the normal
+ * approximation n ≥ (z / (2·|rate - ½|))². Null at exactly 50%.
+ */
+function gamesNeeded(rate: number, played: number): number | null {
+  if (rate === 0.5) return null;
+  // Round the majority's wins: rounding 0.4·total and 0.6·total both up would favor winning records
+  const majority = Math.max(rate, 1 - rate);
+  for (let total = played + 1; total <= EXACT_SEARCH_LIMIT; total++) {
+    if (binomialTest(Math.round(majority * total), total) < SIGNIFICANCE_LEVEL) return total - played;
+  }
+  const total = Math.ceil((Z_95 / (2 * Math.abs(rate - 0.5))) ** 2);
+  return Math.max(total, EXACT_SEARCH_LIMIT + 1) - played;
+}
+
+export function normalPdf(x: number): number {
+  return Math.exp(-x * x / 2) / Math.sqrt(2 * Math.PI);
+}
+
+/** Standard normal CDF via erfc (Numerical Recipes' Chebyshev fit, |error| < 1.2e-7). */
+export function normalCdf(x: number): number {
+  const z = Math.abs(x) / Math.SQRT2;
+  const t = 1 / (1 + z / 2);
+  const erfc = t * Math.exp(-z * z - 1.26551223 + t * (1.00002368 + t * (0.37409196 + t * (0.09678418 +
+    t * (-0.18628806 + t * (0.27886807 + t * (-1.13520398 + t * (1.48851587 +
+    t * (-0.82215223 + t * 0.17087277)))))))));
+  return x >= 0 ? 1 - erfc / 2 : erfc / 2;
+}
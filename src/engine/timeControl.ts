@@ -0,0 +1,85 @@
+/**
+ * Time control — how long a seat may think. Every bid and play gets a
+ * per-decision limit; chess-clock mode also gives each seat a total budget
+ * for the game, and a seat whose clock has run out times out at once.
+ *
+ * A timed-out decision is replaced according to `policy` (see
+ * agents/timeout_fallback.ts) and recorded with fallbackKind 'timeout'.
+ * The late call is abandoned, not cancelled: agents take no abort signal,
+ * so a provider request may still finish (and bill) in the background.
+ */
+
+/**
+ * What a seat that ran out of time does instead:
+ *   random     a random legal bid or card
+ *   heuristic  what the heuristic bot would do
+ *   forfeit    the lowest legal bid; a play concedes the trick to the other team
+ */
+export type TimeoutPolicy = 'random' | 'heuristic' | 'forfeit';
+
+export interface TimeControl {
+  decisionMs: number;    // limit for one bid or play
+  clockMs?: number;      // chess clock: each seat's total for the game; unset = no clock
+  policy: TimeoutPolicy;
+}
+
+/** Long enough for an LLM agent's retries, short enough that a hung call can't stall a game. */
+export const DEFAULT_TIME_CONTROL: TimeControl = { decisionMs: 90_000, policy: 'heuristic' };
+
+/** Rejection of a decision that missed its deadline. */
+export class DecisionTimeout extends Error {
+  readonly limitMs: number;
+
+  constructor(limitMs: number) {
+    super(`No decision within ${limitMs}ms`);
+    this.limitMs = limitMs;
+  }
+}
+
+/** `decision`, or a DecisionTimeout once `ms` pass first. */
+export function withinLimit<T>(decision: Promise<T>, ms: number): Promise<T> {
+  let timer: ReturnType<typeof setTimeout>;
+  const deadline = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(new DecisionTimeout(ms)), ms);
+  });
+  return Promise.race([decision, deadline]).finally(() => clearTimeout(timer));
+}
+
+/** One game's thinking time, per seat. */
+export class SeatClock {
+  readonly control: TimeControl;
+  private used = [0, 0, 0, 0];
+
+  constructor(control: TimeControl) {
+    this.control = control;
+  }
+
+  /** Ms left on `seat`'s game clock; null without chess-clock mode. */
+  remaining(seat: number): number | null {
+    return this.control.clockMs === undefined ? null : Math.max(0, this.control.clockMs - this.used[seat]);
+  }
+
+  /**
+   * Ask `seat` for a decision under its limit: the per-decision limit or
+   * what is left on its clock, whichever is less. On timeout resolves with
+   * `onTimeout()`'s action instead. The time taken is charged either way.
+   */
+  async decide<A>(
+    seat: number,
+    decision: () => Promise<A>,
+    onTimeout: (limitMs: number) => A | Promise<A>,
+  ): Promise<{ action: A; timedOut: boolean }> {
+    const limit = Math.min(this.control.decisionMs, this.remaining(seat) ?? Infinity);
+    if (limit <= 0) return { action: await onTimeout(0), timedOut: true };
+
+    const started = Date.now();
+    try {
+      return { action: await withinLimit(decision(), limit), timedOut: false };
+    } catch (e) {
+      if (!(e instanceof DecisionTimeout)) throw e;
+      return { action: await onTimeout(limit), timedOut: true };
+    } finally {
+      this.used[seat] += Date.now() - started;
+    }
+  }
+}
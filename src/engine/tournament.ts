@@ -0,0 +1,247 @@
+/**
+ * Tournament — the schedule and standings behind the Tournament screen.
+ *
+ * Each entrant is a team: one model in both seats of a partnership. Play
+ * runs in two phases:
+ *
+ *   Qualifiers  a single round robin, one game per pairing. Standings rank
+ *               by wins, then point differential, then head-to-head.
+ *   Bracket     the top 8 (or 4, or 2, if fewer entered) seeded into single
+ *               elimination — 1v8, 4v5, 3v6, 2v7 — each match a best-of-N
+ *               series. Winners meet by bracket position until the final.
+ *
+ * Progress lives on the TournamentResult (`progress`), saved after every
+ * game, so a tournament survives a reload and resumes at the next game.
+ * `champion` stays '' until the final is decided.
+ *
+ * Pure: this module never plays a game. The runner (benchmark/tournament.ts)
+ * asks nextGame() what to play and hands each result to recordGame().
+ */
+
+import type { AgentConfig } from '../benchmark/config';
+import type { VariantId } from './variant';
+import type { HouseRules } from './houseRules';
+import type { GameResult, TournamentResult } from './resultsStore';
+
+export interface TournamentEntrant {
+  model: string;      // the team's name and leaderboard identity
+  agent: AgentConfig;
+}
+
+export interface TournamentConfig {
+  entrants: TournamentEntrant[];
+  targetScore: number;
+  seriesLength: number; // bracket matches are best-of-N; odd
+  seed: number;         // every game's deal seed derives from it
+  variant?: VariantId;  // unset = standard
+  houseRules?: Partial<HouseRules>; // unset rules take the variant's defaults
+}
+
+export type TournamentRound = 'qualifier' | 'qf' | 'sf' | 'final';
+
+export interface TournamentGame {
+  resultId: string;
+  scoreA: number;
+  scoreB: number;
+  winner?: 'A' | 'B'; // the result's winner, which a Boston can make the lower score; unset on games saved before it was kept
+}
+
+export interface TournamentMatch {
+  id: string;         // 'q-0'…, 'qf-0'…, 'sf-0', 'sf-1', 'final'
+  round: TournamentRound;
+  position: number;   // slot within the round; bracket winners of 2k and 2k+1 meet next
+  teamA: string;      // the higher seed in the bracket
+  teamB: string;
+  games: TournamentGame[];
+  winner?: string;
+}
+
+export interface TournamentProgress {
+  config: TournamentConfig;
+  matches: TournamentMatch[]; // qualifiers, then each bracket round as it is seeded
+}
+
+export interface Standing {
+  model: string;
+  wins: number;
+  losses: number;
+  pointDiff: number;
+  seed: number; // 1-based rank
+}
+
+export type TournamentPhase = 'qualifiers' | 'bracket' | 'complete';
+
+const BRACKET_ROUNDS: TournamentRound[] = ['qf', 'sf', 'final'];
+
+// Seed pairs by bracket position, so 1 and 2 can only meet in the final
+const SEED_PAIRS: Record<number, [number, number][]> = {
+  8: [[1, 8], [4, 5], [3, 6], [2, 7]],
+  4: [[1, 4], [2, 3]],
+  2: [[1, 2]],
+};
+
+/** Teams the bracket takes from `entrants` qualifiers: 8, or the largest of 4 and 2 that fits. */
+export function bracketSize(entrants: number): number {
+  return [8, 4, 2].find(n => n <= entrants) ?? 0;
+}
+
+/** First-round seed pairs of a bracket of `size`, by bracket position. */
+export function firstRoundSeeds(size: number): [number, number][] {
+  return SEED_PAIRS[size] ?? [];
+}
+
+/** A new tournament with its qualifying round robin scheduled. */
+export function createTournament(config: TournamentConfig, id: string, date: string): TournamentResult {
+  const models = config.entrants.map(e => e.model);
+  if (models.length < 2) throw new Error('A tournament needs at least two entrants');
+  if (new Set(models).size !== models.length) throw new Error('Each entrant must be a different model');
+  if (config.seriesLength < 1 || config.seriesLength % 2 === 0) throw new Error('Series length must be odd');
+
+  return {
+    id,
+    date,
+    champion: '',
+    participants: models,
+    matches: [],
+    progress: { config, matches: roundRobin(models) },
+  };
+}
+
+/** Circle-method round robin: everyone plays once per round, so early games spread across all teams. */
+function roundRobin(models: string[]): TournamentMatch[] {
+  const slots: (string | null)[] = models.length % 2 === 0 ? [...models] : [...models, null];
+  const matches: TournamentMatch[] = [];
+  for (let round = 0; round < slots.length - 1; round++) {
+    for (let i = 0; i < slots.length / 2; i++) {
+      const a = slots[i];
+      const b = slots[slots.length - 1 - i];
+      if (a && b) {
+        const position = matches.length;
+        matches.push({ id: `q-${position}`, round: 'qualifier', position, teamA: a, teamB: b, games: [] });
+      }
+    }
+    slots.splice(1, 0, slots.pop()!); // rotate everyone but the first
+  }
+  return matches;
+}
+
+export function tournamentPhase(t: TournamentResult): TournamentPhase {
+  if (t.champion) return 'complete';
+  return t.progress?.matches.some(m => m.round !== 'qualifier') ? 'bracket' : 'qualifiers';
+}
+
+/** Games a match needs to win: 1 in qualifying, a majority of the series in the bracket. */
+export function winsNeeded(t: TournamentResult, match: TournamentMatch): number {
+  return match.round === 'qualifier' ? 1 : Math.ceil(t.progress!.config.seriesLength / 2);
+}
+
+/** Series score of a match, in games won. */
+export function seriesScore(match: TournamentMatch): { winsA: number; winsB: number } {
+  // Games saved without a winner go to the higher score, as they were counted then
+  const winnerOf = (g: TournamentGame) => g.winner ?? (g.scoreA > g.scoreB ? 'A' : g.scoreB > g.scoreA ? 'B' : null);
+  return {
+    winsA: match.games.filter(g => winnerOf(g) === 'A').length,
+    winsB: match.games.filter(g => winnerOf(g) === 'B').length,
+  };
+}
+
+/** The next game to play: the first undecided match, and which game of it. Null when complete. */
+export function nextGame(t: TournamentResult): { match: TournamentMatch; game: number } | null {
+  const match = t.progress?.matches.find(m => !m.winner);
+  return match ? { match, game: match.games.length } : null;
+}
+
+/**
+ * Whether team A of a match sits at seats 0/2 (the engine's team 1) for a
+ * game. Series alternate sides; qualifiers always seat team A first.
+ */
+export function teamAIsTeam1(match: TournamentMatch, game: number): boolean {
+  return match.round === 'qualifier' || game % 2 === 0;
+}
+
+/**
+ * Record a finished game of `matchId`, deciding the match when a side has
+ * won enough and seeding or advancing the bracket when a round completes.
+ * Returns the updated tournament; `t` is left as it was.
+ */
+export function recordGame(t: TournamentResult, matchId: string, result: GameResult): TournamentResult {
+  const progress = t.progress!;
+  const matches = progress.matches.map(m => (m.id === matchId ? { ...m, games: [...m.games] } : m));
+  const match = matches.find(m => m.id === matchId);
+  if (!match) throw new Error(`No match ${matchId} in tournament ${t.id}`);
+  if (match.winner) throw new Error(`Match ${matchId} is already decided`);
+
+  const aIsTeam1 = result.team1Models.includes(match.teamA);
+  match.games.push({
+    resultId: result.id,
+    scoreA: aIsTeam1 ? result.team1Score : result.team2Score,
+    scoreB: aIsTeam1 ? result.team2Score : result.team1Score,
+    winner: (result.winner === 1) === aIsTeam1 ? 'A' : 'B',
+  });
+  const { winsA, winsB } = seriesScore(match);
+  const needed = winsNeeded(t, match);
+  if (winsA >= needed) match.winner = match.teamA;
+  else if (winsB >= needed) match.winner = match.teamB;
+
+  let next: TournamentResult = { ...t, matches: [...t.matches, result], progress: { ...progress, matches } };
+  if (match.winner) next = advance(next);
+  return next;
+}
+
+/** Seed the bracket once qualifying is done; open the next round once one is done; crown the final's winner. */
+function advance(t: TournamentResult): TournamentResult {
+  const matches = t.progress!.matches;
+  if (matches.some(m => !m.winner)) return t;
+
+  const last = matches[matches.length - 1];
+  if (last.round === 'final') return { ...t, champion: last.winner! };
+
+  let added: TournamentMatch[];
+  if (last.round === 'qualifier') {
+    const table = standings(t);
+    const size = bracketSize(table.length);
+    const round = BRACKET_ROUNDS[BRACKET_ROUNDS.length - Math.log2(size)];
+    added = firstRoundSeeds(size).map(([a, b], position) => ({
+      id: round === 'final' ? 'final' : `${round}-${position}`,
+      round, position, teamA: table[a - 1].model, teamB: table[b - 1].model, games: [],
+    }));
+  } else {
+    const finished = matches.filter(m => m.round === last.round).sort((a, b) => a.position - b.position);
+    const round = BRACKET_ROUNDS[BRACKET_ROUNDS.indexOf(last.round) + 1];
+    const seeds = new Map(standings(t).map(s => [s.model, s.seed]));
+    added = [];
+    for (let position = 0; position < finished.length / 2; position++) {
+      // The better qualifying seed takes side A
+      const pair = [finished[2 * position].winner!, finished[2 * position + 1].winner!]
+        .sort((x, y) => seeds.get(x)! - seeds.get(y)!);
+      added.push({
+        id: round === 'final' ? 'final' : `${round}-${position}`,
+        round, position, teamA: pair[0], teamB: pair[1], games: [],
+      });
+    }
+  }
+  return { ...t, progress: { ...t.progress!, matches: [...matches, ...added] } };
+}
+
+/** Qualifying table: wins, then point differential, then head-to-head, then name. */
+export function standings(t: TournamentResult): Standing[] {
+  const qualifiers = t.progress?.matches.filter(m => m.round === 'qualifier') ?? [];
+  const rows = new Map(t.participants.map(model => [model, { model, wins: 0, losses: 0, pointDiff: 0, seed: 0 }]));
+  for (const m of qualifiers) {
+    for (const g of m.games) {
+      rows.get(m.teamA)!.pointDiff += g.scoreA - g.scoreB;
+      rows.get(m.teamB)!.pointDiff += g.scoreB - g.scoreA;
+    }
+    if (!m.winner) continue;
+    rows.get(m.winner)!.wins++;
+    rows.get(m.winner === m.teamA ? m.teamB : m.teamA)!.losses++;
+  }
+
+  const headToHead = (a: string, b: string) => {
+    const m = qualifiers.find(q => q.winner && ((q.teamA === a && q.teamB === b) || (q.teamA === b && q.teamB === a)));
+    return !m ? 0 : m.winner === a ? -1 : 1;
+  };
+  return Array.from(rows.values())
+    .sort((a, b) => b.wins - a.wins || b.pointDiff - a.pointDiff || headToHead(a.model, b.model) || a.model.localeCompare(b.model))
+    .map((row, i) => ({ ...row, seed: i + 1 }));
+}
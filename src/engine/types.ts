@@ -1,3 +1,8 @@
+import type { VariantId } from './variant';
+import type { HouseRules } from './houseRules';
+import type { TokenUsage } from './usage';
+import type { TimeControl } from './timeControl';
+
 export type Suit = 'S' | 'H' | 'D' | 'C' | 'J'; // J for Joker (though usually treated as Spades)
 export type Rank = 'Big' | 'Little' | 'A' | 'K' | 'Q' | 'J' | '10' | '9' | '8' | '7' | '6' | '5' | '4' | '3' | '2';
 
@@ -8,30 +13,53 @@ export interface Card {
 }
 
 export interface GameConfig {
-  variant: 'standard' | 'jokers';
+  variant: VariantId;
   targetScore: number;
+  seed?: number; // deal seed — same seed, same cards (see engine/rng.ts)
+  duplicate?: DuplicateInfo; // set when this game is one table of a duplicate pair
+  enableBlindNil?: boolean;   // offer Blind Nil / Blind N to a team trailing by blindNilThreshold
+  blindNilThreshold?: number;
+  houseRules?: Partial<HouseRules>; // unset rules take the variant's defaults
+  timeControl?: TimeControl;  // bots' thinking time; unset = DEFAULT_TIME_CONTROL
   players: {
     seat: number;
     type: 'human' | 'bot';
     model:
       | 'random'
       | 'heuristic'
+      | 'strong-heuristic'
       | 'gemini-flash'
       | 'gemini-pro'
       | 'openrouter'
       | 'anthropic'
-      | 'openai';
+      | 'openai'
+      | 'local';
     openrouter_model?: string;
     anthropic_model?: string;
     openai_model?: string;
+    local_model?: string;
+    local_url?: string; // OpenAI-compatible base URL, e.g. http://localhost:11434/v1
     name: string;
   }[];
 }
 
+/**
+ * Duplicate Spades: the same seeded deals are played at two tables, with the
+ * partnerships swapped between seat pairs 0/2 and 1/3 at table B. Each pair
+ * then holds both sets of cards once, so deal luck cancels out when the two
+ * tables' margins are added together.
+ */
+export interface DuplicateInfo {
+  id: string;          // shared by both tables
+  table: 'A' | 'B';
+}
+
 export interface PlayerState {
   seat: number;
   hand: Card[];
   bid: number | null;
+  blind: boolean;        // bid was declared before seeing the hand
+  handRevealed: boolean; // player has looked at this hand (no blind bid possible after)
   tricksWon: number;
   type: 'human' | 'bot';
   name: string;
@@ -52,6 +80,7 @@ export interface Trick {
   plays: TrickPlay[];
   winner: number | null;
   ledSuit: Suit | null;
+  forfeitedBy?: number; // a seat that timed out under the forfeit policy; the other team takes the trick
 }
 
 export interface GameState {
@@ -68,10 +97,12 @@ export interface GameState {
   spadesBroken: boolean;
   targetScore: number;
   handNumber: number;
+  winner: 1 | 2 | null; // set with phase 'game_over'
 }
 
 export interface Observation {
   phase: 'bidding' | 'playing';
+  variant: VariantId;
   hand: string[];
   seat: number;
   partner_seat: number;
@@ -81,12 +112,16 @@ export interface Observation {
     team2: { points: number; bags: number };
   };
   bidding_context?: {
-    bids_so_far: { seat: number; bid: number }[];
+    bids_so_far: { seat: number; bid: number; blind?: boolean }[];
     your_turn_to_bid: boolean;
+    legal_bids: number[]; // values the engine will accept from you (0 = Nil)
+    // Present only while your hand is still face down (`hand` is empty):
+    // the values you may bid blind right now. 0 = Blind Nil.
+    blind_bid_options?: number[];
   };
   playing_context?: {
     team_bids: { team1: number; team2: number };
-    individual_bids: { seat: number; bid: number }[];
+    individual_bids: { seat: number; bid: number; blind?: boolean }[];
     tricks_won: { team1: number; team2: number };
     individual_tricks_won: number[];
     current_trick: { seat: number; card: string }[];
@@ -105,11 +140,16 @@ export interface Observation {
 export interface BidAction {
   action: 'bid';
   value: number;
+  blind?: boolean; // Blind Nil (value 0) or Blind N (6-13, JJA/JJDD only), declared sight-unseen
   reasoning: string;
+  fallback?: boolean; // a default substituted when the agent couldn't decide
+  usage?: TokenUsage; // LLM agents: the API calls behind this decision
 }
 
 export interface PlayAction {
   action: 'play';
   card: string;
   reasoning: string;
+  fallback?: boolean; // a default substituted when the agent couldn't decide
+  usage?: TokenUsage; // LLM agents: the API calls behind this decision
 }
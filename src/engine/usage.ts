@@ -0,0 +1,35 @@
+/**
+ * Token usage — what LLM decisions cost. An LLM agent attaches a TokenUsage
+ * to each action, covering every API call behind it (retries included);
+ * the engine records it on BidMade/CardPlayed, hand logs total it per seat
+ * and results per model.
+ */
+
+export interface TokenUsage {
+  calls: number;          // API requests, failed ones included
+  inputTokens: number;
+  outputTokens: number;
+  latencyMs: number;      // time spent waiting on the provider
+  costUsd: number;        // estimated from agents/pricing.ts
+  unpriced?: boolean;     // some calls had no price (unknown model, or no usage reported), so costUsd is a lower bound
+}
+
+/** `a` + `b`; undefined only when both are. */
+export function addUsage(a: TokenUsage | undefined, b: TokenUsage | undefined): TokenUsage | undefined {
+  if (!a || !b) return a ?? b;
+  return {
+    calls: a.calls + b.calls,
+    inputTokens: a.inputTokens + b.inputTokens,
+    outputTokens: a.outputTokens + b.outputTokens,
+    latencyMs: a.latencyMs + b.latencyMs,
+    costUsd: a.costUsd + b.costUsd,
+    ...(a.unpriced || b.unpriced ? { unpriced: true } : {}),
+  };
+}
+
+/** "$0.0123", with more digits for fractions of a cent; "≥" marks a lower bound. */
+export function formatCost(usage: Pick<TokenUsage, 'costUsd' | 'unpriced'>): string {
+  const { costUsd } = usage;
+  const amount = costUsd === 0 ? '$0' : costUsd < 0.01 ? `$${costUsd.toFixed(4)}` : `$${costUsd.toFixed(2)}`;
+  return usage.unpriced ? `≥${amount}` : amount;
+}
@@ -0,0 +1,108 @@
+/**
+ * Spades rules variants — mirrors `spacetime/encoding/src/variant.rs`,
+ * `strength.rs` and `legal.rs`.
+ *
+ * Every variant deals exactly 52 cards; adding the jokers removes two 2s.
+ *
+ *   - Standard: the plain 52-card deck. A♠ is the top trump.
+ *   - JJA (Jokers + Ace high): 2♥ and 2♦ removed, jokers added.
+ *     Trumps: Big Joker > Little Joker > A♠ > K♠ > … > 2♠.
+ *   - JJDD (Jokers + Deuce-Deuce): 2♥ and 2♣ removed, jokers added.
+ *     Trumps: Big Joker > Little Joker > 2♦ > 2♠ > A♠ > K♠ > … > 3♠.
+ *     The 2♦ plays as a spade.
+ *
+ * Deck composition, the opening card, trump strength and effective suit all
+ * come from here; rules.ts, deck.ts and the engine never branch on the id.
+ */
+
+import { Card, Suit } from './types';
+
+export type VariantId = 'standard' | 'jja' | 'jjdd';
+
+export interface Variant {
+  id: VariantId;
+  label: string;
+  description: string;
+  usesJokers: boolean;
+  highTwos: boolean;      // 2♦ and 2♠ sit above A♠ (JJDD)
+  removedCards: string[]; // ids dropped from the standard 52
+  openingCardId: string;  // lowest club — leads the first trick
+}
+
+export const VARIANTS: Record<VariantId, Variant> = {
+  standard: {
+    id: 'standard',
+    label: 'Standard (52 Cards)',
+    description: 'Classic Spades. Ace is high.',
+    usesJokers: false,
+    highTwos: false,
+    removedCards: [],
+    openingCardId: '2C',
+  },
+  jja: {
+    id: 'jja',
+    label: 'Jokers, Ace High (JJA)',
+    description: 'Big & Little Jokers above A♠. 2♥ and 2♦ removed.',
+    usesJokers: true,
+    highTwos: false,
+    removedCards: ['2H', '2D'],
+    openingCardId: '2C',
+  },
+  jjdd: {
+    id: 'jjdd',
+    label: 'Jokers, Deuce-Deuce (JJDD)',
+    description: 'Jokers, then 2♦ and 2♠ above A♠. 2♥ and 2♣ removed.',
+    usesJokers: true,
+    highTwos: true,
+    removedCards: ['2H', '2C'],
+    openingCardId: '3C',
+  },
+};
+
+export const VARIANT_IDS = Object.keys(VARIANTS) as VariantId[];
+
+export function getVariant(id: VariantId): Variant {
+  return VARIANTS[id];
+}
+
+/**
+ * The suit a card plays as. Jokers are always spades; in JJDD so is the 2♦
+ * (and it no longer counts as a diamond).
+ */
+export function effectiveSuit(card: Card, variant: VariantId): Exclude<Suit, 'J'> {
+  if (card.suit === 'J') return 'S';
+  if (VARIANTS[variant].highTwos && card.id === '2D') return 'S';
+  return card.suit;
+}
+
+const SPADE_STRENGTH: Record<string, number> = {
+  '2': 1, '3': 2, '4': 3, '5': 4, '6': 5, '7': 6, '8': 7,
+  '9': 8, '10': 9, 'J': 10, 'Q': 11, 'K': 12, 'A': 13,
+};
+
+/**
+ * Trump strength per `strength.rs`: 0 for a non-trump, otherwise higher
+ * beats lower.
+ *
+ *   Standard: 2♠=1 … A♠=13
+ *   JJA:      2♠=1 … A♠=13, Little=14, Big=15
+ *   JJDD:     3♠=1 … A♠=12, 2♠=13, 2♦=14, Little=15, Big=16
+ */
+export function trumpStrength(card: Card, variant: VariantId): number {
+  const v = VARIANTS[variant];
+  if (card.suit === 'J') {
+    if (!v.usesJokers) return 0;
+    const top = v.highTwos ? 16 : 15;
+    return card.rank === 'Big' ? top : top - 1;
+  }
+  if (v.highTwos) {
+    if (card.id === '2D') return 14;
+    if (card.id === '2S') return 13;
+    return card.suit === 'S' ? SPADE_STRENGTH[card.rank] - 1 : 0;
+  }
+  return card.suit === 'S' ? SPADE_STRENGTH[card.rank] : 0;
+}
+
+export function isTrump(card: Card, variant: VariantId): boolean {
+  return trumpStrength(card, variant) > 0;
+}
@@ -4,22 +4,40 @@ import { GameState, BidAction, PlayAction, GameConfig } from '../engine/types';
 import { Agent } from '../agents/base';
 import { RandomAgent } from '../agents/random_agent';
 import { HeuristicAgent } from '../agents/heuristic_agent';
+import { StrongHeuristicAgent } from '../agents/strong_heuristic_agent';
 import { LLMAgent } from '../agents/llm_agent';
 import { OpenRouterAgent } from '../agents/openrouter_agent';
 import { AnthropicAgent } from '../agents/anthropic_agent';
 import { OpenAIAgent } from '../agents/openai_agent';
-import { saveResult } from '../engine/resultsStore';
+import { LocalAgent, DEFAULT_LOCAL_URL } from '../agents/local_agent';
+import { saveResultOnGameOver } from '../engine/resultsStore';
+import { saveReplay } from '../engine/replayStore';
+import { saveDecisions, decisionsFromEvents } from '../engine/decisionStore';
+import { GameEvent, GAME_EVENT_DOM_NAME } from '../engine/events';
+import { SavedMatch, saveMatch, clearSavedMatch } from '../engine/matchStore';
+import { addUsage } from '../engine/usage';
+import { DEFAULT_TIME_CONTROL, SeatClock } from '../engine/timeControl';
+import type { ActionMeta } from '../engine/events';
+import { timeoutBid, timeoutPlay } from '../agents/timeout_fallback';
+
+// Pause between the two tables of a duplicate pair, so the final score stays on screen
+const DUPLICATE_TABLE_DELAY_MS = 5000;
 
 export function useGame() {
   const [gameState, setGameState] = useState<GameState | null>(null);
   const [logs, setLogs] = useState<string[]>([]);
   const [isHumanTurn, setIsHumanTurn] = useState(false);
   const [isPaused, setIsPaused] = useState(false);
+  const [blindBidOptions, setBlindBidOptions] = useState<number[] | null>(null); // human's hand is face down
+  const [legalBids, setLegalBids] = useState<number[]>([]);
   const engineRef = useRef<GameEngine | null>(null);
   const agentsRef = useRef<(Agent | null)[]>([]);
+  const clockRef = useRef(new SeatClock(DEFAULT_TIME_CONTROL));
   const isRunningRef = useRef(false);
   const loopIdRef = useRef(0);
-  const modelConfigRef = useRef<{ team1Models: string[]; team2Models: string[] }>({ team1Models: [], team2Models: [] });
+  const configRef = useRef<GameConfig | null>(null);
+  const initGameRef = useRef<(config: GameConfig) => void>(() => {});
+  const unsubscribeRef = useRef<() => void>(() => {});
 
   const addLog = (msg: string) => setLogs(prev => [...prev.slice(-49), msg]); // Keep last 50 logs
 
@@ -31,30 +49,56 @@ export function useGame() {
     return `${rank}${SUIT_SYM[suit] || suit}`;
   };
 
-  // Emit trick summary: two lines after every trick
-  const emitTrickSummary = (engine: GameEngine) => {
-    const history = engine.state.trickHistory;
-    if (history.length === 0) return;
-    const lastTrick = history[history.length - 1];
-    if (lastTrick.winner === null) return;
-    const winnerName = engine.state.players[lastTrick.winner].name;
-    const winningPlay = lastTrick.plays.find(p => p.seat === lastTrick.winner);
-    const winningCard = winningPlay ? winningPlay.card.id : '?';
-    const allCards = lastTrick.plays.map(p => p.card.id).join(', ');
-    addLog(`${winnerName} won with ${winningCard} → ${allCards}`);
-    addLog(`── Trick ${lastTrick.number} Complete ──`);
+  // "3", "0", "Blind Nil", "Blind 7"
+  const formatBid = (action: BidAction) => {
+    if (action.blind) return action.value === 0 ? 'Blind Nil' : `Blind ${action.value}`;
+    return `${action.value}`;
   };
 
-  // Emit round summary logs after a hand ends
-  const emitRoundSummary = (engine: GameEngine) => {
-    const r = engine.lastHandResult;
-    if (!r) return;
-    addLog(`--- Hand ${r.handNumber} Results ---`);
-    addLog(`Team 1: bid ${r.team1.bid}, won ${r.team1.won} | ${r.team1.pointsEarned >= 0 ? '+' : ''}${r.team1.pointsEarned} pts, ${r.team1.bagsEarned} bags`);
-    addLog(`Team 2: bid ${r.team2.bid}, won ${r.team2.won} | ${r.team2.pointsEarned >= 0 ? '+' : ''}${r.team2.pointsEarned} pts, ${r.team2.bagsEarned} bags`);
-    addLog(`Totals — T1: ${r.team1.totalScore} pts / ${r.team1.totalBags} bags | T2: ${r.team2.totalScore} pts / ${r.team2.totalBags} bags`);
-    addLog(`--------------------------`);
-    engine.lastHandResult = null;
+  // Autosave at every trick boundary so a reload can resume
+  const autosave = (engine: GameEngine) => {
+    if (configRef.current) saveMatch(configRef.current, engine.toJSON());
+  };
+
+  // Engine events drive the trick and hand summaries and autosave, and are
+  // re-broadcast on window for the stream orchestrator
+  const handleEvent = (engine: GameEngine, event: GameEvent) => {
+    const { state } = engine;
+    switch (event.type) {
+      case 'TrickWon': {
+        // Two-line trick summary for every trick
+        const trick = state.trickHistory[state.trickHistory.length - 1];
+        const winningCard = trick.plays.find(p => p.seat === event.winner)?.card.id ?? '?';
+        const allCards = trick.plays.map(p => p.card.id).join(', ');
+        addLog(`${state.players[event.winner].name} won with ${winningCard} → ${allCards}`);
+        addLog(`── Trick ${event.trickNumber} Complete ──`);
+        // The 13th trick is saved once the hand is scored and the next one dealt
+        if (state.trickHistory.length < 13) autosave(engine);
+        break;
+      }
+      case 'HandScored': {
+        const r = event.result;
+        addLog(`--- Hand ${r.handNumber} Results ---`);
+        addLog(`Team 1: bid ${r.team1.bid}, won ${r.team1.won} | ${r.team1.pointsEarned >= 0 ? '+' : ''}${r.team1.pointsEarned} pts, ${r.team1.bagsEarned} bags`);
+        addLog(`Team 2: bid ${r.team2.bid}, won ${r.team2.won} | ${r.team2.pointsEarned >= 0 ? '+' : ''}${r.team2.pointsEarned} pts, ${r.team2.bagsEarned} bags`);
+        addLog(`Totals — T1: ${r.team1.totalScore} pts / ${r.team1.totalBags} bags | T2: ${r.team2.totalScore} pts / ${r.team2.totalBags} bags`);
+        (['team1', 'team2'] as const).forEach((key, i) => {
+          if (r[key].boston) addLog(`BOSTON! Team ${i + 1} took all 13 tricks and wins the game.`);
+          else if (r[key].dime) addLog(`Dime! Team ${i + 1} took exactly 10 tricks (+200).`);
+        });
+        addLog(`--------------------------`);
+        break;
+      }
+      case 'HandDealt':
+        addLog(`═══ Round ${event.handNumber} ═══`);
+        autosave(engine);
+        break;
+      case 'GameOver':
+        addLog(`Game Over! Winner: Team ${event.winner}`);
+        clearSavedMatch(); // a finished game has nothing to resume
+        break;
+    }
+    window.dispatchEvent(new CustomEvent(GAME_EVENT_DOM_NAME, { detail: event }));
   };
 
   const runLoop = useCallback(async (currentLoopId: number) => {
@@ -63,31 +107,26 @@ export function useGame() {
     const engine = engineRef.current;
     const state = engine.state;
 
-    // Check for game over
+    // Check for game over — the GameOver event has already logged it and saved the result
     if (state.phase === 'game_over') {
-      const winner = state.teams.team1.score >= state.targetScore ? 1 : 2;
-      addLog(`Game Over! Winner: ${winner === 1 ? 'Team 1' : 'Team 2'}`);
-
-      // Auto-save result to leaderboard
-      try {
-        saveResult({
-          date: new Date().toISOString(),
-          team1Models: modelConfigRef.current.team1Models,
-          team2Models: modelConfigRef.current.team2Models,
-          team1Score: state.teams.team1.score,
-          team2Score: state.teams.team2.score,
-          team1Bags: state.teams.team1.bags,
-          team2Bags: state.teams.team2.bags,
-          winner: winner as 1 | 2,
-          targetScore: state.targetScore,
-          handsPlayed: state.handNumber,
-        });
-        addLog('Result saved to leaderboard.');
-      } catch (e) { console.error('Failed to save result:', e); }
-
       isRunningRef.current = false;
       setGameState({ ...engine.state });
       setIsHumanTurn(false);
+
+      // Duplicate: table A done — replay the same deals with the partnerships swapped
+      const config = configRef.current;
+      if (config?.duplicate?.table === 'A') {
+        addLog('Duplicate: table B starts shortly — same cards, teams swapped.');
+        setTimeout(() => {
+          if (loopIdRef.current !== currentLoopId) return; // quit or restarted meanwhile
+          initGameRef.current({
+            ...config,
+            seed: engine.seed,
+            players: config.players.map((_, i) => ({ ...config.players[(i + 3) % 4], seat: i })),
+            duplicate: { id: config.duplicate!.id, table: 'B' },
+          });
+        }, DUPLICATE_TABLE_DELAY_MS);
+      }
       return;
     }
 
@@ -97,6 +136,9 @@ export function useGame() {
     // If human's turn, stop and wait
     if (!agent) {
       addLog(`Waiting for human player (Seat ${currentSeat})...`);
+      const biddingContext = engine.getObservation(currentSeat).bidding_context;
+      setBlindBidOptions(biddingContext?.blind_bid_options ?? null);
+      setLegalBids(biddingContext?.legal_bids ?? []);
       setGameState({ ...engine.state });
       setIsHumanTurn(true);
       return;
@@ -121,14 +163,31 @@ export function useGame() {
     try {
       const observation = engine.getObservation(currentSeat);
 
+      // Every decision runs against the seat's time limit and clock
+      const clock = clockRef.current;
+      const { policy } = clock.control;
+      const started = Date.now();
       if (state.phase === 'bidding') {
-        const action = await agent.bid(observation);
-        addLog(`Bot ${currentSeat} bids ${action.value}`);
-        const error = engine.processBid(currentSeat, action);
+        const ask = (obs: typeof observation) =>
+          clock.decide(currentSeat, () => agent.bid(obs), limit => timeoutBid(policy, obs, limit));
+        let { action, timedOut } = await ask(observation);
+        let usage = action.usage;
+        if (observation.bidding_context?.blind_bid_options && !action.blind) {
+          // Passed on a blind bid — turn the hand up and ask again
+          engine.revealHand(currentSeat);
+          ({ action, timedOut } = await ask(engine.getObservation(currentSeat)));
+          usage = addUsage(usage, action.usage);
+        }
+        if (timedOut) addLog(`Bot ${currentSeat} ran out of time — ${policy} fallback`);
+        addLog(`Bot ${currentSeat} bids ${formatBid(action)}`);
+        const meta: ActionMeta = { latencyMs: Date.now() - started, usage, ...(timedOut ? { fallbackKind: 'timeout' } : {}) };
+        const error = engine.processBid(currentSeat, action, meta);
         if (error) {
           addLog(`Error processing bid for Seat ${currentSeat}: ${error}`);
-          // Fallback
-          engine.processBid(currentSeat, { action: 'bid', value: 1, reasoning: 'Fallback' });
+          // Fallback: lowest legal bid (1 unless the team minimum forces more),
+          // keeping the rejected bid's reasoning for the decision record
+          const fallbackBid = observation.bidding_context?.legal_bids[0] ?? 1;
+          engine.processBid(currentSeat, { action: 'bid', value: fallbackBid, reasoning: action.reasoning, fallback: true }, { ...meta, fallbackKind: 'illegal' });
         }
         // If bidding just completed, show team bid totals
         if (engine.state.phase === 'playing') {
@@ -137,15 +196,22 @@ export function useGame() {
           addLog(`Team 1 Bids ${t1Bid} | Team 2 Bids ${t2Bid}`);
         }
       } else {
-        const action = await agent.play(observation);
+        const { action, timedOut } = await clock.decide(
+          currentSeat, () => agent.play(observation), limit => timeoutPlay(policy, observation, limit));
+        if (timedOut) addLog(`Bot ${currentSeat} ran out of time — ${policy === 'forfeit' ? 'trick forfeited' : `${policy} fallback`}`);
         addLog(`Bot ${currentSeat} plays ${action.card}`);
-        const error = engine.processPlay(currentSeat, action);
+        const meta: ActionMeta = {
+          latencyMs: Date.now() - started,
+          usage: action.usage,
+          ...(timedOut ? { fallbackKind: 'timeout', forfeit: policy === 'forfeit' } : {}),
+        };
+        const error = engine.processPlay(currentSeat, action, meta);
         if (error) {
           addLog(`Error processing play for Seat ${currentSeat}: ${error}`);
           // Fallback
           const legal = observation.playing_context?.legal_plays || [];
           if (legal.length > 0) {
-            engine.processPlay(currentSeat, { action: 'play', card: legal[0], reasoning: 'Fallback' });
+            engine.processPlay(currentSeat, { action: 'play', card: legal[0], reasoning: action.reasoning, fallback: true }, { ...meta, fallbackKind: 'illegal' });
           }
         }
       }
@@ -166,19 +232,8 @@ export function useGame() {
         // since the dealer is fixed at seat 0 and trick 1 always ends on
         // seat 0). Resolving first, then pausing, attributes the long delay
         // to the trick transition instead — much less misleading.
+        // Trick and round summaries come from the engine's events
         engine.resolveTrick();
-
-        // Two-line trick summary for every trick
-        emitTrickSummary(engine);
-
-        // Round summary if hand just ended
-        emitRoundSummary(engine);
-
-        // If a new hand just started (trickHistory was reset), announce new round
-        if (engine.state.phase === 'bidding' && engine.state.trickHistory.length === 0) {
-          addLog(`═══ Round ${engine.state.handNumber} ═══`);
-        }
-
         setGameState({ ...engine.state });
 
         // Pause now — perceived as the trick transition / winner-leads-next
@@ -197,14 +252,17 @@ export function useGame() {
     }
   }, []);
 
-  const initGame = useCallback((config: GameConfig) => {
+  // Seat the agents for `config` at `engine` and start the loop
+  const startGame = useCallback((config: GameConfig, engine: GameEngine, intro: string[]) => {
     // Stop existing loop
     isRunningRef.current = false;
     loopIdRef.current += 1;
     const currentLoopId = loopIdRef.current;
 
-    const engine = new GameEngine(config.targetScore, config.variant);
     engineRef.current = engine;
+    configRef.current = config;
+    // A resumed match starts its clocks afresh: thinking time isn't saved
+    clockRef.current = new SeatClock(config.timeControl ?? DEFAULT_TIME_CONTROL);
 
     // Update player names and types in engine state
     engine.state.players.forEach((p, i) => {
@@ -220,6 +278,7 @@ export function useGame() {
       switch (player.model) {
         case 'random': return new RandomAgent(name);
         case 'heuristic': return new HeuristicAgent(name);
+        case 'strong-heuristic': return new StrongHeuristicAgent(name);
         case 'gemini-flash': return new LLMAgent(name, 'gemini-3-flash-preview');
         case 'gemini-pro': return new LLMAgent(name, 'gemini-3.1-pro-preview');
         case 'openrouter': {
@@ -246,32 +305,99 @@ export function useGame() {
           }
           return new OpenAIAgent(name, key, player.openai_model);
         }
+        case 'local': {
+          if (!player.local_model) {
+            addLog(`Error: no model chosen for ${name}'s local endpoint. Defaulting to Random.`);
+            return new RandomAgent(name);
+          }
+          return new LocalAgent(name, player.local_url || DEFAULT_LOCAL_URL, player.local_model, 3, process.env.LOCAL_LLM_API_KEY);
+        }
         default: return new RandomAgent(name);
       }
     });
     agentsRef.current = agents;
 
-    // Store model names for result saving
+    // Model names for the saved result
     const getModelLabel = (p: GameConfig['players'][0]) => {
       if (p.type === 'human') return 'Human';
       if (p.model === 'openrouter' && p.openrouter_model) return p.openrouter_model.split('/').pop() || p.openrouter_model;
       if (p.model === 'anthropic' && p.anthropic_model) return p.anthropic_model;
       if (p.model === 'openai' && p.openai_model) return p.openai_model;
+      if (p.model === 'local' && p.local_model) return p.local_model;
       return p.model;
     };
-    modelConfigRef.current = {
+    const models = {
       team1Models: [getModelLabel(config.players[0]), getModelLabel(config.players[2])],
       team2Models: [getModelLabel(config.players[1]), getModelLabel(config.players[3])],
     };
 
+    unsubscribeRef.current();
+    const unsubscribeLog = engine.subscribe(event => handleEvent(engine, event));
+    const unsubscribeResult = saveResultOnGameOver(
+      engine,
+      { ...models, duplicate: config.duplicate },
+      (result) => {
+        saveDecisions(result.id, decisionsFromEvents(engine.events, {
+          gameId: result.id,
+          date: result.date,
+          models: config.players.map(getModelLabel),
+        }));
+        saveReplay({
+          id: result.id,
+          date: result.date,
+          players: engine.state.players.map(p => ({ name: p.name, type: p.type })),
+          events: engine.events,
+        });
+        addLog('Result saved to leaderboard.');
+      },
+    );
+    unsubscribeRef.current = () => {
+      unsubscribeLog();
+      unsubscribeResult();
+    };
+
     setGameState({ ...engine.state });
-    setLogs(['Game initialized. Starting...']);
+    setLogs([
+      ...intro,
+      `Deal seed: ${engine.seed}`,
+      ...(config.duplicate ? [`Duplicate table ${config.duplicate.table}`] : []),
+    ]);
     setIsPaused(false);
 
     isRunningRef.current = true;
     runLoop(currentLoopId);
   }, [runLoop]);
 
+  const initGame = useCallback((config: GameConfig) => {
+    const engine = new GameEngine(config.targetScore, config.variant, {
+      seed: config.seed,
+      enableBlindNil: config.enableBlindNil,
+      blindNilThreshold: config.blindNilThreshold,
+      houseRules: config.houseRules,
+    });
+    startGame(config, engine, ['Game initialized. Starting...']);
+  }, [startGame]);
+  initGameRef.current = initGame;
+
+  // Pick up an autosaved match from its last completed trick
+  const resumeMatch = useCallback((saved: SavedMatch) => {
+    let engine: GameEngine;
+    try {
+      engine = GameEngine.fromJSON(saved.engine);
+    } catch (e) {
+      console.error('Failed to restore saved match:', e);
+      clearSavedMatch();
+      initGame(saved.config);
+      return;
+    }
+    const { state } = engine;
+    const position = state.phase === 'bidding' ? 'bidding' : `trick ${state.trickHistory.length + 1}`;
+    startGame(saved.config, engine, [
+      `Match resumed — hand ${state.handNumber}, ${position}.`,
+      `Score: T1 ${state.teams.team1.score} | T2 ${state.teams.team2.score}`,
+    ]);
+  }, [initGame, startGame]);
+
   const togglePause = useCallback(() => {
     setIsPaused(prev => {
       const isNowPaused = !prev;
@@ -287,12 +413,15 @@ export function useGame() {
   const quitGame = useCallback(() => {
     isRunningRef.current = false;
     loopIdRef.current += 1; // invalidate any pending timeouts
+    unsubscribeRef.current();
+    unsubscribeRef.current = () => {};
     engineRef.current = null;
     agentsRef.current = [];
     setGameState(null);
     setLogs(['Game Session Ended']);
     setIsPaused(false);
     setIsHumanTurn(false);
+    setBlindBidOptions(null);
   }, []);
 
   useEffect(() => {
@@ -314,7 +443,7 @@ export function useGame() {
     if (action.action === 'bid') {
       error = engine.processBid(currentSeat, action as BidAction);
       if (!error) {
-        addLog(`You bid ${(action as BidAction).value}`);
+        addLog(`You bid ${formatBid(action as BidAction)}`);
         if (engine.state.phase === 'playing') {
           const t1Bid = (engine.state.players[0].bid || 0) + (engine.state.players[2].bid || 0);
           const t2Bid = (engine.state.players[1].bid || 0) + (engine.state.players[3].bid || 0);
@@ -331,6 +460,7 @@ export function useGame() {
       return;
     }
 
+    setBlindBidOptions(null);
     setGameState({ ...engine.state });
     setIsHumanTurn(false);
 
@@ -339,14 +469,6 @@ export function useGame() {
       const trickDelay = parseInt(localStorage.getItem('spades_trick_delay') || '2000');
       setTimeout(() => {
         engine.resolveTrick();
-
-        emitTrickSummary(engine);
-        emitRoundSummary(engine);
-
-        if (engine.state.phase === 'bidding' && engine.state.trickHistory.length === 0) {
-          addLog(`═══ Round ${engine.state.handNumber} ═══`);
-        }
-
         setGameState({ ...engine.state });
         // Resume loop after resolution
         if (isRunningRef.current) {
@@ -361,6 +483,15 @@ export function useGame() {
     }
   }, [runLoop]);
 
+  // Human passes on a blind bid and picks up their cards
+  const revealHand = useCallback(() => {
+    if (!engineRef.current) return;
+    const engine = engineRef.current;
+    engine.revealHand(engine.state.currentTurn);
+    setBlindBidOptions(null);
+    setGameState({ ...engine.state });
+  }, []);
+
   useEffect(() => {
     const handleKeyDown = (e: KeyboardEvent) => {
       if (e.key === 'Escape') {
@@ -379,8 +510,12 @@ export function useGame() {
     logs,
     isHumanTurn,
     isPaused,
+    blindBidOptions,
+    legalBids,
     initGame,
+    resumeMatch,
     humanAction,
+    revealHand,
     togglePause,
     quitGame
   };
@@ -0,0 +1,207 @@
+/**
+ * Arena bundles: parsing rejects what isn't a bundle of this version and
+ * lists every invalid field, and the merge plan adds new ids, skips
+ * identical copies and reports conflicting ones by field.
+ */
+
+import { describe, expect, it } from 'vitest';
+import {
+  ArenaBundle,
+  BundleError,
+  createBundle,
+  describeImport,
+  parseBundle,
+  planMerge,
+  tagImported,
+  validateResult,
+} from '../engine/bundle';
+import { resolveHouseRules } from '../engine/houseRules';
+import type { GameResult, TournamentResult } from '../engine/resultsStore';
+
+function result(id: string, overrides: Partial<GameResult> = {}): GameResult {
+  return {
+    id,
+    date: '2026-01-01T00:00:00.000Z',
+    team1Models: ['a', 'a'],
+    team2Models: ['b', 'b'],
+    team1Score: 510,
+    team2Score: 320,
+    team1Bags: 3,
+    team2Bags: 1,
+    winner: 1,
+    targetScore: 500,
+    handsPlayed: 9,
+    ...overrides,
+  };
+}
+
+function tournament(id: string, matches: GameResult[] = []): TournamentResult {
+  return { id, date: '2026-01-01T00:00:00.000Z', champion: 'a', participants: ['a', 'b'], matches };
+}
+
+const bundleOf = (results: GameResult[], tournaments: TournamentResult[] = []): ArenaBundle => createBundle(results, tournaments);
+
+/** The problems parseBundle reports for `text`. */
+function problemsOf(text: string): string[] {
+  try {
+    parseBundle(text);
+  } catch (e) {
+    if (e instanceof BundleError) return e.problems;
+    throw e;
+  }
+  throw new Error('parsed');
+}
+
+describe('parseBundle', () => {
+  it('parses a bundle it exported', () => {
+    const bundle = bundleOf([result('r1', { hands: [] })], [tournament('t1', [result('r2')])]);
+    expect(parseBundle(JSON.stringify(bundle))).toEqual(bundle);
+  });
+
+  it.each([
+    ['text that is not JSON', '{"format":', /^not JSON \(/],
+    ['JSON that is not an object', '[]', /^not an arena bundle$/],
+    ['another format', JSON.stringify({ format: 'csv', version: 1 }), /^not an arena bundle$/],
+    ['another version', JSON.stringify({ ...bundleOf([]), version: 2 }), /^bundle version 2 is not supported \(expected 1\)$/],
+  ])('rejects %s', (_name, text, problem) => {
+    const problems = problemsOf(text);
+    expect(problems).toHaveLength(1);
+    expect(problems[0]).toMatch(problem);
+  });
+
+  it('lists every problem, with where it is', () => {
+    const text = JSON.stringify({
+      ...bundleOf([]),
+      results: [result('r1'), { ...result('r2'), winner: 0, team1Score: null }],
+      tournaments: [tournament('t1', [{ ...result('m1'), date: 'never' }]), { id: '' }],
+    });
+    expect(problemsOf(text)).toEqual([
+      'results[1].team1Score: expected a number',
+      'results[1].winner: expected 1 or 2',
+      'tournaments[0].matches[0].date: expected an ISO date',
+      'tournaments[1].id: expected a non-empty string',
+      'tournaments[1].date: expected an ISO date',
+      'tournaments[1].champion: expected a string',
+      'tournaments[1].participants: expected an array of model names',
+      'tournaments[1].matches: expected an array',
+    ]);
+  });
+
+  it.each([
+    ['identical', result('r1')],
+    ['conflicting', result('r1', { team1Score: 200, winner: 2 })],
+  ])('rejects a repeated id with %s content', (_name, repeat) => {
+    expect(problemsOf(JSON.stringify(bundleOf([result('r1'), result('r2'), repeat], [tournament('t1'), tournament('t1')])))).toEqual([
+      'results: id r1 appears more than once',
+      'tournaments: id t1 appears more than once',
+    ]);
+  });
+
+  it('requires the results and tournaments lists', () => {
+    expect(problemsOf(JSON.stringify({ format: 'spades-arena-bundle', version: 1 }))).toEqual([
+      'results: expected an array',
+      'tournaments: expected an array',
+    ]);
+  });
+
+  it('shows the first five problems in its message', () => {
+    const results = Array.from({ length: 7 }, (_, i) => ({ ...result(`r${i}`), winner: 3 }));
+    expect(() => parseBundle(JSON.stringify({ ...bundleOf([]), results }))).toThrow(
+      'Invalid arena bundle: results[0].winner: expected 1 or 2; results[1].winner: expected 1 or 2; results[2].winner: expected 1 or 2; '
+      + 'results[3].winner: expected 1 or 2; results[4].winner: expected 1 or 2 (+2 more)',
+    );
+  });
+});
+
+describe('validateResult', () => {
+  it('accepts a result with every optional field', () => {
+    expect(validateResult(result('r1', {
+      seed: 7,
+      tournamentId: 't1',
+      duplicate: { id: 'd1', table: 'A' },
+      source: 'benchmark',
+      hands: [{
+        handNumber: 1,
+        bids: [{ seat: 0, bid: 3 }],
+        tricksWon: [{ seat: 0, won: 4 }],
+        scoreChange: { team1: 31, team2: -40 },
+        bagsChange: { team1: 1, team2: 0 },
+        decisions: [{ seat: 0, decisions: 14, fallbacks: 0, timed: 0, latencyMs: 900 }],
+      }],
+      usage: { a: { calls: 14, inputTokens: 9000, outputTokens: 700, latencyMs: 900, costUsd: 0.01 } },
+      houseRules: resolveHouseRules('standard', { failedNilCountsTowardContract: true }),
+    }), 'r')).toEqual([]);
+  });
+
+  it.each([
+    ['a non-object', null, 'r: not an object'],
+    ['an empty id', { id: '' }, 'r.id: expected a non-empty string'],
+    ['an unparseable date', { date: 'last week' }, 'r.date: expected an ISO date'],
+    ['a model list of numbers', { team1Models: [1, 2] }, 'r.team1Models: expected an array of model names'],
+    ['a score that is not finite', { team2Score: Infinity }, 'r.team2Score: expected a number'],
+    ['a missing hand count', { handsPlayed: undefined }, 'r.handsPlayed: expected a number'],
+    ['a winner of 0', { winner: 0 }, 'r.winner: expected 1 or 2'],
+    ['a string seed', { seed: '7' }, 'r.seed: expected a number'],
+    ['a numeric tournament id', { tournamentId: 3 }, 'r.tournamentId: expected a string'],
+    ['a duplicate table C', { duplicate: { id: 'd1', table: 'C' } }, "r.duplicate: expected { id, table: 'A' | 'B' }"],
+    ['an unknown source', { source: 'scraped' }, 'r.source: expected one of'],
+    ['hands that are not an array', { hands: {} }, 'r.hands: expected an array'],
+    ['a hand without its bids', { hands: [{ handNumber: 1, tricksWon: [], scoreChange: { team1: 0, team2: 0 }, bagsChange: { team1: 0, team2: 0 } }] }, 'r.hands[0].bids: expected [{ seat, bid }]'],
+    ['a hand with a one-team score change', { hands: [{ handNumber: 1, bids: [], tricksWon: [], scoreChange: { team1: 0 }, bagsChange: { team1: 0, team2: 0 } }] }, 'r.hands[0].scoreChange: expected { team1, team2 }'],
+    ['house rules with an unknown lead policy', { houseRules: { ...resolveHouseRules('standard'), spadesLeadPolicy: 'never' } }, 'r.houseRules: expected { spadesLeadPolicy,'],
+    ['usage without a cost', { usage: { a: { calls: 1, inputTokens: 1, outputTokens: 1, latencyMs: 1 } } }, 'r.usage: expected { [model]: { calls, inputTokens, outputTokens, latencyMs, costUsd } }'],
+  ])('reports %s', (_name, overrides, problem) => {
+    const r = overrides === null ? null : { ...result('r1'), ...overrides };
+    const problems = validateResult(r, 'r');
+    expect(problems).toHaveLength(1);
+    expect(problems[0]).toContain(problem);
+  });
+});
+
+describe('planMerge', () => {
+  const stored = { results: [result('r1'), result('r2')], tournaments: [tournament('t1')] };
+
+  it('adds new ids and skips identical copies', () => {
+    const plan = planMerge(stored, bundleOf([result('r1'), result('r3')], [tournament('t1'), tournament('t2')]));
+    expect(plan.results.map(r => r.id)).toEqual(['r3']);
+    expect(plan.tournaments.map(t => t.id)).toEqual(['t2']);
+    expect(plan.report).toEqual({
+      results: { added: 1, unchanged: 1 },
+      tournaments: { added: 1, unchanged: 1 },
+      conflicts: [],
+    });
+  });
+
+  it("ignores key order and the source tag when comparing", () => {
+    const reordered = Object.fromEntries(Object.entries(result('r1')).reverse()) as unknown as GameResult;
+    const plan = planMerge(stored, tagImported(bundleOf([reordered, { ...result('r2'), source: 'live' }])));
+    expect(plan.report.results).toEqual({ added: 0, unchanged: 2 });
+    expect(plan.report.conflicts).toEqual([]);
+  });
+
+  it('keeps the stored copy of a conflicting id and names the fields that differ', () => {
+    const changed = result('r2', { team1Score: 480, winner: 2, seed: 4 });
+    const plan = planMerge(stored, bundleOf([changed], [{ ...tournament('t1'), champion: 'b' }]));
+    expect(plan.results).toEqual([]);
+    expect(plan.tournaments).toEqual([]);
+    expect(plan.report.conflicts).toEqual([
+      { kind: 'result', id: 'r2', fields: ['seed', 'team1Score', 'winner'] },
+      { kind: 'tournament', id: 't1', fields: ['champion'] },
+    ]);
+    expect(describeImport(plan.report)).toBe(
+      '0 result(s) added, 0 tournament(s) added, 0 already present, '
+      + '2 conflict(s) kept as stored: result r2 (seed, team1Score, winner); tournament t1 (champion)',
+    );
+  });
+});
+
+describe('tagImported', () => {
+  it('tags records imported unless they are demo or benchmark games', () => {
+    const bundle = tagImported(bundleOf(
+      [result('r1'), result('r2', { source: 'live' }), result('r3', { source: 'demo' }), result('r4', { source: 'benchmark' })],
+      [tournament('t1')],
+    ));
+    expect(bundle.results.map(r => r.source)).toEqual(['imported', 'imported', 'demo', 'benchmark']);
+    expect(bundle.tournaments[0].source).toBe('imported');
+  });
+});
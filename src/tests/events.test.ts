@@ -0,0 +1,59 @@
+/**
+ * The event log is the engine's source of truth: replaying
+ * `GameEngine.fromEvents(engine.events)` must rebuild the exact GameState,
+ * mid-hand and at game over, and a prefix of the log the state as it stood
+ * after that event.
+ */
+
+import { describe, expect, it } from 'vitest';
+import { GameEngine } from '../engine/game';
+import { GameState } from '../engine/types';
+import { VariantId } from '../engine/variant';
+import { playUntil, step } from './helpers';
+
+interface ReplayCase {
+  name: string;
+  variant: VariantId;
+  at: (engine: GameEngine) => boolean;
+}
+
+const REPLAY_CASES: ReplayCase[] = [
+  { name: 'mid-bidding', variant: 'standard', at: e => e.state.players.filter(p => p.bid !== null).length === 3 },
+  { name: 'mid-hand, mid-trick', variant: 'standard', at: e => e.state.trickHistory.length === 7 && e.state.currentTrick.plays.length === 3 },
+  { name: 'mid-hand in a later hand', variant: 'jjdd', at: e => e.state.handNumber === 3 && e.state.trickHistory.length === 4 },
+  { name: 'game over', variant: 'standard', at: e => e.state.phase === 'game_over' },
+  { name: 'game over in JJA', variant: 'jja', at: e => e.state.phase === 'game_over' },
+];
+
+function seededGame(variant: VariantId): GameEngine {
+  return new GameEngine(250, variant, { seed: 2024 });
+}
+
+describe('replaying the event log', () => {
+  it.each(REPLAY_CASES)('$name', ({ variant, at }) => {
+    const engine = seededGame(variant);
+    playUntil(engine, at);
+    const replayed = GameEngine.fromEvents(engine.events);
+
+    expect(replayed.state).toEqual(engine.state);
+    expect(replayed.lastHandResult).toEqual(engine.lastHandResult);
+    expect(replayed.events).toEqual(engine.events);
+  });
+
+  it('a prefix of the log rebuilds the game as it stood', () => {
+    const engine = seededGame('standard');
+    const checkpoints: { length: number; state: GameState }[] = [];
+    for (let i = 0; i < 200; i++) {
+      step(engine);
+      if (i % 25 === 0) checkpoints.push({ length: engine.events.length, state: structuredClone(engine.state) });
+    }
+    for (const { length, state } of checkpoints) {
+      expect(GameEngine.fromEvents(engine.events.slice(0, length)).state).toEqual(state);
+    }
+  });
+
+  it('rejects a log that does not begin with GameStarted', () => {
+    const engine = seededGame('standard');
+    expect(() => GameEngine.fromEvents(engine.events.slice(1))).toThrow('Event log must begin with GameStarted');
+  });
+});
@@ -0,0 +1,38 @@
+/**
+ * Shared drivers for engine tests. `step` plays one deterministic action —
+ * a bid of 3 when legal (else the first legal bid), the first legal card —
+ * so a seeded game always unfolds the same way.
+ */
+
+import { GameEngine } from '../engine/game';
+import { Card } from '../engine/types';
+import { parseCard } from '../engine/deck';
+
+export function step(engine: GameEngine): void {
+  const seat = engine.state.currentTurn;
+  const observation = engine.getObservation(seat);
+  let error: string | null;
+  if (engine.state.phase === 'bidding') {
+    const legal = observation.bidding_context!.legal_bids;
+    error = engine.processBid(seat, { action: 'bid', value: legal.includes(3) ? 3 : legal[0], reasoning: 'test' });
+  } else {
+    error = engine.processPlay(seat, { action: 'play', card: observation.playing_context!.legal_plays[0], reasoning: 'test' });
+    engine.resolveTrick();
+  }
+  if (error) throw new Error(`Seat ${seat}: ${error}`);
+}
+
+/** Step until `done` holds; throws rather than loop forever. */
+export function playUntil(engine: GameEngine, done: (engine: GameEngine) => boolean, maxSteps = 50_000): void {
+  for (let i = 0; i < maxSteps && !done(engine); i++) step(engine);
+  if (!done(engine)) throw new Error(`Not done after ${maxSteps} steps`);
+}
+
+/** Cards from ids, e.g. cards('AS', 'BigJoker'). */
+export function cards(...ids: string[]): Card[] {
+  return ids.map(id => {
+    const card = parseCard(id);
+    if (!card) throw new Error(`Invalid card: ${id}`);
+    return card;
+  });
+}
@@ -0,0 +1,128 @@
+/**
+ * LLMCoreAgent's reply handling against a scripted transport: a bad reply
+ * is repaired by continuing the conversation with what was wrong, a failed
+ * request is retried as is, and running out of attempts falls back.
+ */
+
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { LLMCoreAgent, LLMReply, LLMRequest, LLMTransport } from '../agents/llm_core';
+import { FREE } from '../agents/pricing';
+import { GameEngine } from '../engine/game';
+import { Observation } from '../engine/types';
+import { playUntil } from './helpers';
+
+/** Answers each request with the next scripted reply; an Error is thrown instead. */
+class ScriptedTransport implements LLMTransport {
+  readonly provider = 'Scripted';
+  readonly model = 'scripted';
+  readonly price = FREE;
+  readonly requests: LLMRequest[] = [];
+
+  constructor(private replies: (string | Error)[]) {}
+
+  async complete(request: LLMRequest): Promise<LLMReply> {
+    this.requests.push(structuredClone(request));
+    const reply = this.replies.shift();
+    if (reply === undefined) throw new Error('Script exhausted');
+    if (reply instanceof Error) throw reply;
+    return { text: reply, usage: { inputTokens: 100, outputTokens: 20 } };
+  }
+}
+
+interface RepairCase {
+  name: string;
+  bad: (obs: Observation) => string;
+  repair: string; // in the follow-up message
+}
+
+const json = (reply: object) => JSON.stringify(reply);
+
+// First play of a hand: only the opening club is legal
+function openingObservation(): Observation {
+  const engine = new GameEngine(500, 'standard', { seed: 3 });
+  playUntil(engine, e => e.state.phase === 'playing');
+  return engine.getObservation(engine.state.currentTurn);
+}
+
+// A card in hand that isn't the opening club or a spade
+const offSuit = (obs: Observation) => obs.hand.find(c => c !== '2C' && !c.endsWith('S'));
+
+function biddingObservation(): Observation {
+  const engine = new GameEngine(500, 'standard', { seed: 3 });
+  return engine.getObservation(engine.state.currentTurn);
+}
+
+const PLAY_REPAIRS: RepairCase[] = [
+  { name: 'malformed JSON', bad: () => '{"action": "play", "card": "2C"', repair: 'did not contain a JSON object' },
+  { name: 'invalid JSON inside braces', bad: () => '{"action": play}', repair: 'was not valid JSON' },
+  { name: 'an empty reply', bad: () => '  ', repair: 'Your reply was empty' },
+  { name: 'the wrong action', bad: () => json({ action: 'bid', value: 3 }), repair: '"action" must be "play"' },
+  { name: 'a card that is not a string', bad: () => json({ action: 'play', card: 12 }), repair: '"card" must be a string' },
+  { name: 'not a card', bad: () => json({ action: 'play', card: 'XX' }), repair: '"XX" is not a card' },
+  {
+    name: 'an illegal card',
+    bad: obs => json({ action: 'play', card: offSuit(obs) }),
+    repair: 'is illegal: this trick must be opened with 2C',
+  },
+];
+
+describe('LLMCoreAgent', () => {
+  beforeEach(() => { vi.spyOn(console, 'error').mockImplementation(() => {}); });
+  afterEach(() => { vi.restoreAllMocks(); });
+
+  it.each(PLAY_REPAIRS)('repairs $name and takes the corrected reply', async ({ bad, repair }) => {
+    const obs = openingObservation();
+    const badReply = bad(obs);
+    const transport = new ScriptedTransport([badReply, json({ action: 'play', card: '2C', reasoning: 'Forced.' })]);
+    const action = await new LLMCoreAgent('a', transport).play(obs);
+
+    expect(action).toMatchObject({ action: 'play', card: '2C', reasoning: 'Forced.' });
+    expect(action.fallback).toBeUndefined();
+    expect(action.usage).toMatchObject({ calls: 2, inputTokens: 200, outputTokens: 40 });
+
+    const [first, second] = transport.requests;
+    expect(second.messages.slice(0, first.messages.length)).toEqual(first.messages);
+    const [assistant, user] = second.messages.slice(first.messages.length);
+    expect(assistant).toEqual({ role: 'assistant', content: badReply });
+    expect(user.role).toBe('user');
+    expect(user.content).toContain(repair);
+  });
+
+  it('accepts a fenced reply with text around it', async () => {
+    const transport = new ScriptedTransport(['Here you go:\n```json\n{"action": "play", "card": "2C"}\n```']);
+    const action = await new LLMCoreAgent('a', transport).play(openingObservation());
+    expect(action).toMatchObject({ card: '2C', reasoning: '' });
+  });
+
+  it.each([
+    ['a value out of range', json({ action: 'bid', value: 14 }), '"value" must be a whole number from 0 to 13'],
+    ['a fractional value', json({ action: 'bid', value: 2.5 }), '"value" must be a whole number'],
+    ['a non-boolean blind', json({ action: 'bid', value: 3, blind: 'yes' }), '"blind" must be true or omitted'],
+    ['a blind bid not on offer', json({ action: 'bid', value: 6, blind: true }), 'Blind 6 is illegal'],
+  ])('repairs a bid with %s', async (_name, badReply, repair) => {
+    const transport = new ScriptedTransport([badReply, json({ action: 'bid', value: 4 })]);
+    const action = await new LLMCoreAgent('a', transport).bid(biddingObservation());
+
+    expect(action).toMatchObject({ action: 'bid', value: 4 });
+    expect(transport.requests[1].messages.at(-1)!.content).toContain(repair);
+  });
+
+  it('retries a failed request without repairing it', async () => {
+    const transport = new ScriptedTransport([new Error('503'), json({ action: 'bid', value: 3 })]);
+    const action = await new LLMCoreAgent('a', transport).bid(biddingObservation());
+
+    expect(action.value).toBe(3);
+    expect(transport.requests[1].messages).toEqual(transport.requests[0].messages);
+  });
+
+  it('falls back after maxRetries bad replies', async () => {
+    const obs = openingObservation();
+    const illegal = json({ action: 'play', card: offSuit(obs) });
+    const transport = new ScriptedTransport([illegal, illegal, illegal, json({ action: 'play', card: '2C' })]);
+    const action = await new LLMCoreAgent('a', transport, 3).play(obs);
+
+    expect(transport.requests).toHaveLength(3);
+    expect(action).toMatchObject({ card: '2C', fallback: true });
+    expect(action.usage!.calls).toBe(3);
+  });
+});
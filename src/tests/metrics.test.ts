@@ -0,0 +1,80 @@
+/**
+ * Set rate in MetricsCalculator must agree with calculateTeamScore on what a
+ * set is: under the default policy a Nil bidder's tricks don't help the
+ * partner's contract. A log played by other house rules is measured by its own.
+ */
+
+import { describe, expect, it } from 'vitest';
+import { GameLog, HandLog, MetricsCalculator } from '../benchmark/metrics';
+import { calculateTeamScore } from '../engine/scoring';
+import { DEFAULT_SCORING_POLICY, ScoringPolicy } from '../engine/houseRules';
+import { PlayerState } from '../engine/types';
+
+interface SetCase {
+  name: string;
+  policy: Partial<ScoringPolicy>;
+  bids: [number, number, number, number];   // 0 = Nil
+  tricks: [number, number, number, number];
+  team1Set: boolean;
+}
+
+const SET_CASES: SetCase[] = [
+  { name: 'made contract', policy: {}, bids: [4, 3, 3, 3], tricks: [4, 3, 3, 3], team1Set: false },
+  { name: 'short contract', policy: {}, bids: [5, 3, 3, 2], tricks: [3, 3, 2, 5], team1Set: true },
+  { name: "failed Nil's tricks don't make the contract", policy: {}, bids: [0, 3, 4, 3], tricks: [2, 3, 3, 5], team1Set: true },
+  { name: "failed Nil's tricks count when the house says so", policy: { failedNilCountsTowardContract: true }, bids: [0, 3, 4, 3], tricks: [2, 3, 3, 5], team1Set: false },
+  { name: 'two Nils have no contract to be set on', policy: {}, bids: [0, 6, 0, 6], tricks: [1, 6, 0, 6], team1Set: false },
+];
+
+function hand(c: SetCase): HandLog {
+  return {
+    handNumber: 1,
+    bids: c.bids.map((bid, seat) => ({ seat, bid })),
+    tricksWon: c.tricks.map((won, seat) => ({ seat, won })),
+    scoreChange: { team1: 0, team2: 0 },
+    bagsChange: { team1: 0, team2: 0 },
+  };
+}
+
+function scoredAsSet(c: SetCase, policy: ScoringPolicy): boolean {
+  const player = (seat: number): PlayerState => ({
+    seat, hand: [], bid: c.bids[seat], blind: false, handRevealed: true, tricksWon: c.tricks[seat], type: 'bot', name: `Seat ${seat}`,
+  });
+  // Take the Nil result back out of the score, leaving the contract's
+  const nil = [0, 2].reduce((sum, s) => sum + (c.bids[s] === 0 ? (c.tricks[s] === 0 ? 100 : -100) : 0), 0);
+  return calculateTeamScore(player(0), player(2), { score: 0, bags: 0 }, 'standard', policy).score - nil < 0;
+}
+
+describe('set rate', () => {
+  it.each(SET_CASES)('$name', (c) => {
+    const policy = { ...DEFAULT_SCORING_POLICY, ...c.policy };
+    const log: GameLog = {
+      gameId: 'g', winner: 'team1', score: { team1: 0, team2: 0 }, hands: [hand(c)],
+      players: ['a', 'b', 'c', 'd'],
+    };
+    const calculator = new MetricsCalculator([log], policy);
+
+    expect(scoredAsSet(c, policy)).toBe(c.team1Set);
+    expect(calculator.calculateAdvancedMetrics().setRateTeam1).toBe(c.team1Set ? 1 : 0);
+    expect(calculator.calculateModelMetrics().a.setRate).toBe(c.team1Set ? 1 : 0);
+  });
+});
+
+describe('mixed house rules', () => {
+  it("measures each log by its own policy, else the calculator's", () => {
+    const failedNil = SET_CASES.find(c => c.bids[0] === 0 && c.tricks[0] > 0 && c.bids[2] > 0)!;
+    const log = (gameId: string, policy?: ScoringPolicy): GameLog => ({
+      gameId, winner: 'team1', score: { team1: 0, team2: 0 }, hands: [hand(failedNil)],
+      players: ['a', 'b', 'c', 'd'], ...(policy ? { policy } : {}),
+    });
+    const nilCounts = { ...DEFAULT_SCORING_POLICY, failedNilCountsTowardContract: true };
+
+    const mixed = new MetricsCalculator([log('house', nilCounts), log('default')]);
+    expect(mixed.calculateAdvancedMetrics().setRateTeam1).toBe(0.5);
+    expect(mixed.calculateModelMetrics().a.setRate).toBe(0.5);
+    expect(mixed.calculateSeatMetrics().find(m => m.model === 'c')!.setRate).toBe(0.5);
+
+    const byHouse = new MetricsCalculator([log('house', DEFAULT_SCORING_POLICY), log('default')], nilCounts);
+    expect(byHouse.calculateModelMetrics().a.setRate).toBe(0.5);
+  });
+});
@@ -0,0 +1,91 @@
+/**
+ * LocalAgent against the mock LLM on an ephemeral port: model discovery,
+ * a bid and a play over HTTP, and the repair path with scripted bad replies.
+ */
+
+import type { AddressInfo } from 'net';
+import type { Server } from 'http';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { MOCK_MODEL_ID, ScriptEntry, createMockLlmApp } from '../../server/mockLlmApp';
+import { LocalAgent, listLocalModels } from '../agents/local_agent';
+import { GameEngine } from '../engine/game';
+import { playUntil } from './helpers';
+
+let server: Server | undefined;
+
+/** Start the mock with `script` and resolve with its base URL. */
+function startMock(script: ScriptEntry[] = []): Promise<string> {
+  return new Promise(resolve => {
+    server = createMockLlmApp(script).listen(0, '127.0.0.1', () => {
+      resolve(`http://127.0.0.1:${(server!.address() as AddressInfo).port}/v1`);
+    });
+  });
+}
+
+function biddingEngine(): GameEngine {
+  return new GameEngine(500, 'standard', { seed: 5 });
+}
+
+function playingEngine(): GameEngine {
+  const engine = biddingEngine();
+  playUntil(engine, e => e.state.phase === 'playing');
+  return engine;
+}
+
+describe('LocalAgent against the mock LLM', () => {
+  beforeEach(() => { vi.spyOn(console, 'error').mockImplementation(() => {}); });
+  afterEach(async () => {
+    vi.restoreAllMocks();
+    await new Promise(resolve => server ? server.close(resolve) : resolve(undefined));
+    server = undefined;
+  });
+
+  it('lists the mock model', async () => {
+    expect(await listLocalModels(await startMock())).toEqual([MOCK_MODEL_ID]);
+  });
+
+  it('fails discovery with the endpoint and status', async () => {
+    const url = await startMock();
+    await expect(listLocalModels(`${url}/missing`)).rejects.toThrow('/v1/missing/models: 404');
+  });
+
+  it('bids and plays legally', async () => {
+    const agent = new LocalAgent('mock', await startMock(), MOCK_MODEL_ID, 1);
+
+    const bidder = biddingEngine();
+    const bidObs = bidder.getObservation(bidder.state.currentTurn);
+    const bid = await agent.bid(bidObs);
+    expect(bid).toMatchObject({ action: 'bid', value: 3, reasoning: 'mock: scripted bid' });
+    expect(bid.fallback).toBeUndefined();
+    expect(bidder.processBid(bidObs.seat, bid)).toBeNull();
+
+    const player = playingEngine();
+    const playObs = player.getObservation(player.state.currentTurn);
+    const play = await agent.play(playObs);
+    expect(play).toMatchObject({ action: 'play', card: playObs.playing_context!.legal_plays[0] });
+    expect(play.usage).toMatchObject({ calls: 1, costUsd: 0 });
+    expect(play.usage!.inputTokens).toBeGreaterThan(0);
+    expect(player.processPlay(playObs.seat, play)).toBeNull();
+  });
+
+  it('repairs scripted bad replies, then takes the legal one', async () => {
+    const agent = new LocalAgent('mock', await startMock([
+      'not json',
+      { action: 'play', card: 'ZZ', reasoning: 'typo' },
+    ]), MOCK_MODEL_ID, 3);
+    const engine = playingEngine();
+    const obs = engine.getObservation(engine.state.currentTurn);
+    const play = await agent.play(obs);
+
+    expect(play).toMatchObject({ card: obs.playing_context!.legal_plays[0], reasoning: 'mock: first legal card' });
+    expect(play.fallback).toBeUndefined();
+    expect(play.usage!.calls).toBe(3);
+  });
+
+  it('falls back once the script outlasts its retries', async () => {
+    const agent = new LocalAgent('mock', await startMock(['nope', 'nope']), MOCK_MODEL_ID, 2);
+    const engine = biddingEngine();
+    const bid = await agent.bid(engine.getObservation(engine.state.currentTurn));
+    expect(bid).toMatchObject({ value: 1, fallback: true });
+  });
+});
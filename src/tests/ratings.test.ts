@@ -0,0 +1,93 @@
+/**
+ * Ratings: a win moves the winners' mu up and the losers' down, sigma
+ * shrinks as games are played, the leaderboard orders by the conservative
+ * rating, and a model on both teams isn't rated against itself.
+ */
+
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_MU, DEFAULT_SIGMA, ModelRating, computeRatings, conservativeRating } from '../engine/ratings';
+import type { GameResult } from '../engine/resultsStore';
+
+/** Game `n` (played on day n), seats by partnership. */
+function game(n: number, team1: [string, string], team2: [string, string], winner: 1 | 2): GameResult {
+  return {
+    id: `g${n}`,
+    date: new Date(Date.UTC(2026, 0, 1 + n)).toISOString(),
+    team1Models: team1,
+    team2Models: team2,
+    team1Score: winner === 1 ? 500 : 300,
+    team2Score: winner === 2 ? 500 : 300,
+    team1Bags: 0,
+    team2Bags: 0,
+    winner,
+    targetScore: 500,
+    handsPlayed: 10,
+  };
+}
+
+/** `games` games of `x` against `y`, each holding both of its seats; `xWins(i)` decides game i. */
+function series(x: string, y: string, games: number, xWins: (i: number) => boolean, from = 0): GameResult[] {
+  return Array.from({ length: games }, (_, i) => game(from + i, [x, x], [y, y], xWins(i) ? 1 : 2));
+}
+
+function ratingOf(ratings: ModelRating[], model: string): ModelRating {
+  return ratings.find(r => r.model === model)!;
+}
+
+describe('computeRatings', () => {
+  it('raises the winners and lowers the losers by the same amount', () => {
+    const ratings = computeRatings([game(0, ['a', 'b'], ['c', 'd'], 2)]);
+    const gain = ratingOf(ratings, 'c').mu - DEFAULT_MU;
+    expect(gain).toBeGreaterThan(0);
+    for (const model of ['c', 'd']) expect(ratingOf(ratings, model).mu).toBeCloseTo(DEFAULT_MU + gain);
+    for (const model of ['a', 'b']) expect(ratingOf(ratings, model).mu).toBeCloseTo(DEFAULT_MU - gain);
+    for (const r of ratings) {
+      expect(r.sigma).toBeLessThan(DEFAULT_SIGMA);
+      expect(r.games).toBe(1);
+    }
+  });
+
+  it('shrinks sigma, and with it the step, with every game played', () => {
+    // Alternating results keep mu near the start, so only experience moves sigma
+    const results = series('a', 'b', 20, i => i % 2 === 0);
+    const { history } = ratingOf(computeRatings(results), 'a');
+    expect(history).toHaveLength(20);
+    const sigmas = history.map(p => p.sigma);
+    sigmas.slice(1).forEach((sigma, i) => expect(sigma).toBeLessThan(sigmas[i]));
+    const steps = history.map((p, i) => Math.abs(p.mu - (i === 0 ? DEFAULT_MU : history[i - 1].mu)));
+    expect(steps[19]).toBeLessThan(steps[0] / 2);
+  });
+
+  it('replays results in date order', () => {
+    const results = [game(2, ['a', 'a'], ['b', 'b'], 2), game(0, ['a', 'a'], ['b', 'b'], 1), game(1, ['a', 'a'], ['b', 'b'], 1)];
+    expect(ratingOf(computeRatings(results), 'a').history.map(p => p.resultId)).toEqual(['g0', 'g1', 'g2']);
+    expect(computeRatings(results)).toEqual(computeRatings([...results].reverse()));
+  });
+
+  it('ranks by mu - 3·sigma, so a short perfect record ranks below long ones', () => {
+    const results = [...series('steady', 'field', 40, i => i % 10 < 7), ...series('lucky', 'field', 2, () => true, 40)];
+    const ratings = computeRatings(results);
+    const steady = ratingOf(ratings, 'steady');
+    const lucky = ratingOf(ratings, 'lucky');
+
+    expect(lucky.mu).toBeGreaterThan(DEFAULT_MU);
+    expect(lucky.sigma).toBeGreaterThan(steady.sigma);
+    expect(ratings.map(r => r.model)).toEqual(['steady', 'field', 'lucky']);
+    const keys = ratings.map(conservativeRating);
+    expect([...keys].sort((x, y) => y - x)).toEqual(keys);
+  });
+
+  it("doesn't rate a model against itself", () => {
+    const ratings = computeRatings([game(0, ['a', 'b'], ['a', 'c'], 1), game(1, ['a', 'a'], ['a', 'a'], 2)]);
+    expect(ratingOf(ratings, 'a')).toMatchObject({ mu: DEFAULT_MU, sigma: DEFAULT_SIGMA, games: 0, history: [] });
+    expect(ratingOf(ratings, 'b').mu).toBeGreaterThan(DEFAULT_MU);
+    expect(ratingOf(ratings, 'c').mu).toBeLessThan(DEFAULT_MU);
+    expect(ratingOf(ratings, 'b').games).toBe(1);
+  });
+
+  it('updates a model holding both seats of a team once per game', () => {
+    const ratings = computeRatings(series('a', 'b', 1, () => true));
+    expect(ratingOf(ratings, 'a')).toMatchObject({ games: 1 });
+    expect(ratingOf(ratings, 'a').history).toHaveLength(1);
+  });
+});
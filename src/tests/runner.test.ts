@@ -0,0 +1,28 @@
+/**
+ * The benchmark runner's hand-cap tie-break: a game the cap ends goes to
+ * the higher score, then the team with fewer bags, then a coin flip that
+ * the game's seed decides.
+ */
+
+import { describe, expect, it } from 'vitest';
+import { handCapWinner } from '../benchmark/runner';
+
+describe('handCapWinner', () => {
+  it.each([
+    ['the higher score', { score: 420, bags: 9 }, { score: 380, bags: 0 }, 1],
+    ['the higher score, below zero', { score: -120, bags: 0 }, { score: -40, bags: 4 }, 2],
+    ['fewer bags on level scores', { score: 300, bags: 6 }, { score: 300, bags: 2 }, 2],
+    ['fewer bags, team 1', { score: 300, bags: 1 }, { score: 300, bags: 2 }, 1],
+  ] as const)('goes to %s', (_name, team1, team2, winner) => {
+    for (const seed of [0, 1, 2]) expect(handCapWinner(team1, team2, seed)).toBe(winner);
+  });
+
+  it('flips a coin the seed decides on level scores and bags', () => {
+    const level = { score: 250, bags: 3 };
+    const flips = Array.from({ length: 200 }, (_, seed) => handCapWinner(level, { ...level }, seed));
+    expect(Array.from({ length: 200 }, (_, seed) => handCapWinner(level, { ...level }, seed))).toEqual(flips);
+    const team1Wins = flips.filter(w => w === 1).length;
+    expect(team1Wins).toBeGreaterThan(70);
+    expect(team1Wins).toBeLessThan(130);
+  });
+});
@@ -0,0 +1,156 @@
+/**
+ * Hand scoring against the Rust reference.
+ *
+ * REFERENCE_CASES are the `score.rs` unit tests, by name, with the outcomes
+ * that file asserts. Under the default policy calculateTeamScore must agree
+ * with every one. Each policy suite then lists the reference cases it is
+ * expected to change, its own cases, and checks that the rest still agree.
+ */
+
+import { describe, expect, it } from 'vitest';
+import { calculateTeamScore } from '../engine/scoring';
+import { DEFAULT_SCORING_POLICY, ScoringPolicy } from '../engine/houseRules';
+import { PlayerState } from '../engine/types';
+import { VariantId } from '../engine/variant';
+
+/** A seat's bid: a number is a regular bid, 'B7' = Blind 7, 'N' = Nil, 'BN' = Blind Nil. */
+type Bid = number | 'N' | 'BN' | `B${number}`;
+
+interface Expected {
+  t1?: [delta: number, bags: number];
+  t2?: [delta: number, bags: number];
+  boston?: 1 | 2 | null;
+}
+
+interface ScoringCase {
+  name: string;
+  variant: VariantId;
+  bids: [Bid, Bid, Bid, Bid];
+  tricks: [number, number, number, number];
+  bags?: [number, number]; // cumulative bags before the hand
+  expected: Expected;
+}
+
+interface PolicySuite {
+  name: string;
+  policy: Partial<ScoringPolicy>;
+  diverges: string[]; // reference cases this policy changes
+  cases: ScoringCase[];
+}
+
+const REFERENCE_CASES: ScoringCase[] = [
+  // Basic regular bid scoring
+  { name: 'made_regular_team_bid_yields_positive_score', variant: 'standard', bids: [4, 3, 3, 3], tricks: [4, 3, 3, 3], expected: { t1: [70, 0], t2: [60, 0], boston: null } },
+  { name: 'overtricks_become_bags', variant: 'standard', bids: [4, 3, 3, 3], tricks: [5, 2, 4, 2], expected: { t1: [70, 2], t2: [-60, 0] } },
+  { name: 'set_team_loses_combined_bid_value_times_ten', variant: 'standard', bids: [5, 3, 3, 2], tricks: [3, 3, 2, 2], expected: { t1: [-80, 0] } },
+  // Nil
+  { name: 'made_nil_yields_plus_one_hundred', variant: 'standard', bids: ['N', 3, 3, 3], tricks: [0, 3, 3, 3], expected: { t1: [130, 0] } },
+  { name: 'failed_nil_yields_minus_one_hundred_plus_bags', variant: 'standard', bids: ['N', 3, 3, 2], tricks: [2, 3, 3, 2], expected: { t1: [-70, 2] } },
+  { name: 'made_blind_nil_yields_plus_two_hundred', variant: 'standard', bids: ['BN', 3, 3, 3], tricks: [0, 3, 4, 3], expected: { t1: [230, 1] } },
+  { name: 'failed_blind_nil_yields_minus_two_hundred', variant: 'standard', bids: ['BN', 3, 3, 3], tricks: [1, 3, 3, 3], expected: { t1: [-170, 1] } },
+  // Blind regular
+  { name: 'made_blind_regular_doubles_score', variant: 'jja', bids: ['B7', 2, 4, 2], tricks: [7, 2, 4, 0], expected: { t1: [180, 0] } },
+  { name: 'set_blind_regular_doubles_penalty', variant: 'jja', bids: ['B7', 2, 4, 2], tricks: [5, 3, 3, 2], expected: { t1: [-180, 0] } },
+  // Dime
+  { name: 'dime_bonus_when_team_wins_exactly_ten_in_jja', variant: 'jja', bids: [4, 2, 4, 1], tricks: [5, 1, 5, 2], expected: { t1: [280, 2] } },
+  { name: 'dime_bonus_does_not_apply_in_standard', variant: 'standard', bids: [4, 2, 4, 1], tricks: [5, 1, 5, 2], expected: { t1: [80, 2] } },
+  { name: 'dime_bonus_only_at_exactly_ten', variant: 'jja', bids: [4, 2, 4, 2], tricks: [5, 2, 4, 2], expected: { t1: [80, 1] } },
+  // Boston
+  { name: 'boston_at_thirteen_tricks_signals_game_over', variant: 'jjdd', bids: [7, 2, 6, 2], tricks: [7, 0, 6, 0], expected: { boston: 1 } },
+  { name: 'boston_to_team_two', variant: 'jja', bids: [2, 7, 2, 6], tricks: [0, 7, 0, 6], expected: { boston: 2 } },
+  { name: 'boston_does_not_apply_in_standard', variant: 'standard', bids: [7, 2, 6, 2], tricks: [7, 0, 6, 0], expected: { boston: null } },
+  // Bag penalty
+  { name: 'bag_penalty_fires_when_cumulative_reaches_ten', variant: 'standard', bids: [4, 3, 1, 1], tricks: [5, 2, 4, 2], bags: [6, 0], expected: { t1: [-50, 0] } },
+  { name: 'bag_penalty_does_not_fire_below_ten', variant: 'standard', bids: [2, 3, 2, 2], tricks: [3, 3, 2, 2], bags: [6, 5], expected: { t1: [40, 7] } },
+  // Edge cases
+  { name: 'both_partners_nil_no_regular_contract', variant: 'standard', bids: ['N', 7, 'N', 6], tricks: [0, 7, 0, 6], expected: { t1: [200, 0] } },
+  { name: 'team_with_no_regular_bidder_only_scores_nil', variant: 'standard', bids: ['N', 7, 'BN', 6], tricks: [0, 7, 0, 6], expected: { t1: [300, 0] } },
+];
+
+const POLICY_SUITES: PolicySuite[] = [
+  {
+    name: 'failed nil counts toward contract',
+    policy: { failedNilCountsTowardContract: true },
+    diverges: [],
+    cases: [
+      { name: 'failed nil tricks make the partner contract', variant: 'standard', bids: ['N', 3, 3, 3], tricks: [2, 3, 2, 6], expected: { t1: [-70, 1] } },
+      { name: 'nil tricks are bags when there is no contract', variant: 'standard', bids: ['N', 7, 'N', 6], tricks: [1, 6, 0, 6], expected: { t1: [0, 1] } },
+    ],
+  },
+  {
+    name: 'set tricks as bags',
+    policy: { setTricksAsBags: true },
+    diverges: [
+      'overtricks_become_bags',
+      'set_team_loses_combined_bid_value_times_ten',
+      'set_blind_regular_doubles_penalty',
+    ],
+    cases: [
+      { name: 'overtricks_become_bags', variant: 'standard', bids: [4, 3, 3, 3], tricks: [5, 2, 4, 2], expected: { t1: [70, 2], t2: [-60, 4] } },
+      { name: 'set_team_loses_combined_bid_value_times_ten', variant: 'standard', bids: [5, 3, 3, 2], tricks: [3, 3, 2, 2], expected: { t1: [-80, 5] } },
+      { name: 'set_blind_regular_doubles_penalty', variant: 'jja', bids: ['B7', 2, 4, 2], tricks: [5, 3, 3, 2], expected: { t1: [-180, 8] } },
+      { name: 'set partner plus failed nil', variant: 'standard', bids: ['N', 4, 3, 3], tricks: [1, 4, 2, 6], expected: { t1: [-130, 3] } },
+    ],
+  },
+  {
+    name: 'bag penalty threshold and amount',
+    policy: { bagPenaltyThreshold: 5, bagPenaltyAmount: 50 },
+    diverges: ['bag_penalty_does_not_fire_below_ten'],
+    cases: [
+      { name: 'bag_penalty_does_not_fire_below_ten', variant: 'standard', bids: [2, 3, 2, 2], tricks: [3, 3, 2, 2], bags: [6, 5], expected: { t1: [-10, 2], t2: [0, 0] } },
+      { name: 'penalty fires once per threshold crossed', variant: 'standard', bids: [1, 1, 1, 1], tricks: [7, 0, 6, 0], bags: [8, 0], expected: { t1: [-130, 4] } },
+    ],
+  },
+  {
+    name: 'bag penalty disabled',
+    policy: { bagPenaltyThreshold: 0 },
+    diverges: ['bag_penalty_fires_when_cumulative_reaches_ten'],
+    cases: [
+      { name: 'bag_penalty_fires_when_cumulative_reaches_ten', variant: 'standard', bids: [4, 3, 1, 1], tricks: [5, 2, 4, 2], bags: [6, 0], expected: { t1: [50, 10] } },
+    ],
+  },
+];
+
+function player(seat: number, bid: Bid, tricksWon: number): PlayerState {
+  const blind = typeof bid === 'string' && bid.startsWith('B');
+  const value = bid === 'N' || bid === 'BN' ? 0 : typeof bid === 'string' ? parseInt(bid.slice(1), 10) : bid;
+  return {
+    seat, hand: [], bid: value, blind, handRevealed: !blind, tricksWon,
+    type: 'bot', name: `Seat ${seat}`,
+  };
+}
+
+function scoreCase(c: ScoringCase, policy: ScoringPolicy) {
+  const seats = c.bids.map((bid, seat) => player(seat, bid, c.tricks[seat]));
+  const [bags1, bags2] = c.bags ?? [0, 0];
+  const t1 = calculateTeamScore(seats[0], seats[2], { score: 0, bags: bags1 }, c.variant, policy);
+  const t2 = calculateTeamScore(seats[1], seats[3], { score: 0, bags: bags2 }, c.variant, policy);
+  return { t1, t2 };
+}
+
+function expectOutcome(c: ScoringCase, policy: ScoringPolicy) {
+  const { t1, t2 } = scoreCase(c, policy);
+  if (c.expected.t1) expect([t1.score, t1.bags]).toEqual(c.expected.t1);
+  if (c.expected.t2) expect([t2.score, t2.bags]).toEqual(c.expected.t2);
+  if (c.expected.boston !== undefined) {
+    expect(t1.boston ? 1 : t2.boston ? 2 : null).toBe(c.expected.boston);
+  }
+}
+
+describe('calculateTeamScore matches score.rs', () => {
+  it.each(REFERENCE_CASES)('$name', (c) => {
+    expectOutcome(c, DEFAULT_SCORING_POLICY);
+  });
+});
+
+describe.each(POLICY_SUITES)('scoring policy: $name', (suite) => {
+  const policy = { ...DEFAULT_SCORING_POLICY, ...suite.policy };
+
+  it.each(suite.cases)('$name', (c) => {
+    expectOutcome(c, policy);
+  });
+
+  it.each(REFERENCE_CASES.filter(c => !suite.diverges.includes(c.name)))('agrees with score.rs: $name', (c) => {
+    expectOutcome(c, policy);
+  });
+});
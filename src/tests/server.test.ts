@@ -0,0 +1,159 @@
+/**
+ * The arena server's routes against an in-memory database on an ephemeral
+ * port: records round-trip, invalid bodies are 400s naming the problem,
+ * missing records are 404s, and only the allowed origins get CORS headers.
+ */
+
+import type { AddressInfo } from 'net';
+import type { Server } from 'http';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { createApp } from '../../server/app';
+import { ArenaDb } from '../../server/db';
+import { resolveHouseRules } from '../engine/houseRules';
+import type { GameResult } from '../engine/resultsStore';
+import type { DecisionRecord } from '../engine/decisionStore';
+
+const ORIGIN = 'http://localhost:3000';
+
+let db: ArenaDb;
+let server: Server;
+let base: string;
+
+beforeEach(async () => {
+  db = new ArenaDb(':memory:');
+  await new Promise<void>(resolve => {
+    server = createApp(db, [ORIGIN]).listen(0, '127.0.0.1', () => resolve());
+  });
+  base = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterEach(async () => {
+  await new Promise(resolve => server.close(resolve));
+  db.close();
+});
+
+function send(method: string, path: string, body?: unknown, headers: Record<string, string> = {}): Promise<Response> {
+  return fetch(`${base}${path}`, {
+    method,
+    headers: { 'Content-Type': 'application/json', ...headers },
+    body: body === undefined ? undefined : typeof body === 'string' ? body : JSON.stringify(body),
+  });
+}
+
+function result(id: string, overrides: Partial<GameResult> = {}): GameResult {
+  return {
+    id,
+    date: '2026-01-01T00:00:00.000Z',
+    team1Models: ['a', 'a'],
+    team2Models: ['b', 'b'],
+    team1Score: 510,
+    team2Score: 320,
+    team1Bags: 3,
+    team2Bags: 1,
+    winner: 1,
+    targetScore: 500,
+    handsPlayed: 9,
+    ...overrides,
+  };
+}
+
+function decision(overrides: Partial<DecisionRecord> = {}): DecisionRecord {
+  return {
+    gameId: 'r1',
+    date: '2026-01-01T00:00:00.000Z',
+    model: 'a',
+    seat: 0,
+    handNumber: 1,
+    trickNumber: 0,
+    kind: 'bid',
+    action: '4',
+    reasoning: 'Two aces and a long spade suit',
+    fallback: false,
+    observationHash: 'h1',
+    ...overrides,
+  };
+}
+
+describe('arena server', () => {
+  it('reports its schema version', async () => {
+    const res = await send('GET', '/api/health');
+    expect(res.status).toBe(200);
+    expect(await res.json()).toMatchObject({ ok: true });
+  });
+
+  it('round-trips results, filtered by model', async () => {
+    const saved = [result('r1'), result('r2', {
+      team2Models: ['c', 'c'], seed: 7, duplicate: { id: 'd1', table: 'B' }, houseRules: resolveHouseRules('jja', { minimumTeamBid: 5 }),
+    })];
+    expect((await send('POST', '/api/results', saved)).status).toBe(204);
+    expect((await send('POST', '/api/results', result('r3', { team1Models: ['c', 'c'] }))).status).toBe(204);
+
+    expect((await (await send('GET', '/api/results')).json()).map((r: GameResult) => r.id)).toEqual(['r1', 'r2', 'r3']);
+    expect((await (await send('GET', '/api/results?model=c')).json()).map((r: GameResult) => r.id)).toEqual(['r2', 'r3']);
+    expect(await (await send('GET', '/api/results/r2')).json()).toEqual(saved[1]);
+  });
+
+  it('round-trips a game and its decisions', async () => {
+    const game = { date: '2026-01-01T00:00:00.000Z', players: ['a', 'b', 'a', 'b'], events: [{ type: 'GameCreated' }] };
+    expect((await send('PUT', '/api/games/g1', game)).status).toBe(204);
+    expect(await (await send('GET', '/api/games/g1')).json()).toEqual({ id: 'g1', ...game });
+    expect(await (await send('GET', '/api/games')).json()).toEqual([{ id: 'g1', date: game.date, players: game.players }]);
+
+    const records = [decision(), decision({ kind: 'play', trickNumber: 1, action: 'AS', reasoning: 'Cashing the ace', fallback: true, fallbackKind: 'timeout' })];
+    expect((await send('PUT', '/api/games/g1/decisions', records)).status).toBe(204);
+    expect(await (await send('GET', '/api/games/g1/decisions')).json()).toEqual(records.map(r => ({ ...r, gameId: 'g1' })));
+    expect((await (await send('GET', '/api/decisions?model=a&text=ace&fallback=1')).json()).map((d: DecisionRecord) => d.action)).toEqual(['AS']);
+  });
+
+  it('deletes everything', async () => {
+    await send('POST', '/api/results', result('r1'));
+    expect((await send('DELETE', '/api/data')).status).toBe(204);
+    expect(await (await send('GET', '/api/results')).json()).toEqual([]);
+  });
+
+  it.each([
+    ['a result missing its winner', 'POST', '/api/results', { ...result('r1'), winner: undefined }, 'body.winner: expected 1 or 2'],
+    ['one bad result in a list', 'POST', '/api/results', [result('r1'), { ...result('r2'), team1Score: '510' }], '[1].team1Score: expected a number'],
+    ['a tournament without matches', 'POST', '/api/tournaments', { id: 't1', date: '2026-01-01', champion: 'a', participants: ['a'] }, 'body.matches: expected an array'],
+    ['a game without events', 'PUT', '/api/games/g1', { date: '2026-01-01', players: [] }, 'Missing field(s): events'],
+    ['a game that is not an object', 'PUT', '/api/games/g1', [], 'Expected a JSON object'],
+    ['decisions that are not an array', 'PUT', '/api/games/g1/decisions', decision(), 'Expected an array of decision records'],
+    ['a decision of an unknown kind', 'PUT', '/api/games/g1/decisions', [{ ...decision(), kind: 'pass' }], "[0].kind: expected 'bid' or 'play'"],
+    ['a decision search without a model', 'GET', '/api/decisions', undefined, 'model is required'],
+    ['malformed JSON', 'POST', '/api/results', '{"id": ', 'JSON'],
+  ])('rejects %s with a 400', async (_name, method, path, body, error) => {
+    const res = await send(method, path, body);
+    expect(res.status).toBe(400);
+    expect((await res.json()).error).toContain(error);
+  });
+
+  it('stores nothing from a list with an invalid record', async () => {
+    await send('POST', '/api/results', [result('r1'), { ...result('r2'), date: 'yesterday' }]);
+    expect(await (await send('GET', '/api/results')).json()).toEqual([]);
+  });
+
+  it.each(['/api/results/missing', '/api/games/missing'])('answers %s with a 404', async (path) => {
+    const res = await send('GET', path);
+    expect(res.status).toBe(404);
+    expect((await res.json()).error).toMatch(/^No such/);
+  });
+
+  it('gives the allowed origin CORS headers', async () => {
+    const preflight = await send('OPTIONS', '/api/data', undefined, { Origin: ORIGIN, 'Access-Control-Request-Method': 'DELETE' });
+    expect(preflight.status).toBe(204);
+    expect(preflight.headers.get('access-control-allow-origin')).toBe(ORIGIN);
+    expect(preflight.headers.get('access-control-allow-methods')).toContain('DELETE');
+  });
+
+  it('refuses other origins', async () => {
+    await send('POST', '/api/results', result('r1'));
+    const preflight = await send('OPTIONS', '/api/data', undefined, { Origin: 'https://evil.example' });
+    expect(preflight.status).toBe(403);
+    expect(preflight.headers.get('access-control-allow-origin')).toBeNull();
+
+    const res = await send('DELETE', '/api/data', undefined, { Origin: 'https://evil.example' });
+    expect(res.status).toBe(403);
+    expect((await res.json()).error).toBe('Origin https://evil.example is not allowed');
+    expect(db.getResults()).toHaveLength(1);
+  });
+});
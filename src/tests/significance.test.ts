@@ -0,0 +1,116 @@
+/**
+ * Significance: the exact binomial test and Wilson interval against known
+ * values and at their edges, games needed shrinking as a record gets more
+ * lopsided, and rating gaps as a z-test.
+ */
+
+import { describe, expect, it } from 'vitest';
+import {
+  binomialTest,
+  gapSignificance,
+  matchupSignificance,
+  normalCdf,
+  wilsonInterval,
+} from '../engine/significance';
+
+describe('binomialTest', () => {
+  it.each([
+    [60, 100, 0.056888],
+    [40, 100, 0.056888],
+    [61, 100, 0.035200],
+    [8, 10, 0.109375],
+    [9, 10, 0.021484],
+    [0, 10, 0.001953],
+    [5, 10, 1],
+    [0, 0, 1],
+  ])('%i of %i: p ≈ %f', (k, n, p) => {
+    expect(binomialTest(k, n)).toBeCloseTo(p, 5);
+  });
+
+  it("doesn't underflow over thousands of games", () => {
+    expect(binomialTest(5100, 10000)).toBeCloseTo(0.0462, 3);
+    expect(binomialTest(0, 5000)).toBe(0);
+  });
+});
+
+describe('wilsonInterval', () => {
+  it.each([
+    [0, 10, 0, 0.277535],
+    [10, 10, 0.722465, 1],
+    [0, 100, 0, 0.036995],
+    [100, 100, 0.963005, 1],
+    [60, 100, 0.502002, 0.690599],
+  ])('%i of %i: [%f, %f]', (k, n, low, high) => {
+    const [lo, hi] = wilsonInterval(k, n);
+    expect(lo).toBeCloseTo(low, 5);
+    expect(hi).toBeCloseTo(high, 5);
+  });
+
+  it('stays inside [0, 1] and is everything with no games', () => {
+    expect(wilsonInterval(0, 0)).toEqual([0, 1]);
+    for (const n of [1, 2, 5, 50]) {
+      const [lo, hi] = wilsonInterval(n, n);
+      expect(hi).toBe(1);
+      expect(lo).toBeGreaterThan(0);
+      expect(wilsonInterval(0, n)[0]).toBe(0);
+    }
+  });
+});
+
+describe('matchupSignificance', () => {
+  it('reports a separated record as needing no more games', () => {
+    expect(matchupSignificance(9, 10)).toMatchObject({ games: 10, winRate: 0.9, significant: true, gamesNeeded: 0 });
+  });
+
+  it('needs no number of games at 50%', () => {
+    expect(matchupSignificance(10, 20)).toMatchObject({ pValue: 1, significant: false, gamesNeeded: null });
+  });
+
+  it('needs fewer games the further the win rate is from 50%', () => {
+    const needed = [11, 12, 13, 14].map(k => matchupSignificance(k, 20).gamesNeeded!);
+    needed.slice(1).forEach((n, i) => expect(n).toBeLessThan(needed[i]));
+    expect(matchupSignificance(15, 20).gamesNeeded).toBe(0);
+  });
+
+  it('needs as many games for a losing rate as for the mirrored winning one', () => {
+    for (const k of [11, 12, 13, 14]) {
+      expect(matchupSignificance(20 - k, 20).gamesNeeded).toBe(matchupSignificance(k, 20).gamesNeeded);
+    }
+  });
+
+  it('reaches significance after the games it says are needed', () => {
+    const { winRate, gamesNeeded } = matchupSignificance(12, 20);
+    const total = 20 + gamesNeeded!;
+    expect(binomialTest(Math.round(winRate * total), total)).toBeLessThan(0.05);
+    expect(binomialTest(Math.round(winRate * (total - 1)), total - 1)).toBeGreaterThanOrEqual(0.05);
+  });
+
+  it('falls back to the normal approximation past the exact search', () => {
+    // 51%: (1.96 / 0.02)² ≈ 9604 games in all
+    expect(matchupSignificance(51, 100).gamesNeeded).toBe(9604 - 100);
+  });
+});
+
+describe('gapSignificance', () => {
+  it('is even between equal ratings', () => {
+    const gap = gapSignificance({ mu: 25, sigma: 2 }, { mu: 25, sigma: 2 });
+    expect(gap.pValue).toBe(1);
+    expect(gap.probabilityAhead).toBeCloseTo(0.5, 6);
+    expect(gap.significant).toBe(false);
+  });
+
+  it('separates a gap of 1.96 standard deviations', () => {
+    // sigma of the difference: √(3² + 4²) = 5
+    const gap = gapSignificance({ mu: 30, sigma: 3 }, { mu: 20.1, sigma: 4 });
+    expect(gap.pValue).toBeCloseTo(0.0477, 3);
+    expect(gap.probabilityAhead).toBeCloseTo(0.976, 3);
+    expect(gap.significant).toBe(true);
+    expect(gapSignificance({ mu: 20.1, sigma: 4 }, { mu: 30, sigma: 3 }).pValue).toBeCloseTo(gap.pValue, 10);
+  });
+
+  it('uses a standard normal CDF', () => {
+    expect(normalCdf(0)).toBeCloseTo(0.5, 7);
+    expect(normalCdf(1.959964)).toBeCloseTo(0.975, 6);
+    expect(normalCdf(-1)).toBeCloseTo(0.158655, 6);
+  });
+});
@@ -0,0 +1,197 @@
+/**
+ * StrongHeuristicAgent: every action it takes in full games is legal, and
+ * hand-built positions show it reading the table — voids shown in earlier
+ * tricks, a partner's Nil to cover, and bags near the penalty.
+ *
+ * Positions list only what the agent reads; legal plays come from the rules.
+ */
+
+import { describe, expect, it } from 'vitest';
+import { StrongHeuristicAgent } from '../agents/strong_heuristic_agent';
+import { GameEngine } from '../engine/game';
+import { getLegalPlays } from '../engine/rules';
+import { effectiveSuit, VARIANT_IDS, VariantId } from '../engine/variant';
+import { HouseRules } from '../engine/houseRules';
+import { Observation } from '../engine/types';
+import { cards } from './helpers';
+
+interface Position {
+  hand: string[];
+  trick?: string[];          // the current trick, by seat from `leader`
+  leader?: number;           // default: seat 0 leads
+  history?: string[][];      // finished tricks, by seat 0..3
+  historyWinners?: number[]; // default: seat 0 takes each
+  bids?: [number, number, number, number];
+  won?: [number, number, number, number];
+  team1Bags?: number;
+}
+
+interface PlayCase {
+  name: string;
+  position: Position;
+  card: string;
+  reasoning: string; // part of the agent's explanation
+}
+
+/** Seat 0's view of `p`. */
+function observe(p: Position): Observation {
+  const bids = p.bids ?? [3, 3, 3, 3];
+  const won = p.won ?? [0, 0, 0, 0];
+  const leader = p.leader ?? 0;
+  const trick = (p.trick ?? []).map((card, i) => ({ seat: (leader + i) % 4, card }));
+  const history = (p.history ?? []).map((plays, i) => ({
+    trick_number: i + 1,
+    plays: plays.map((card, seat) => ({ seat, card })),
+    winner: p.historyWinners?.[i] ?? 0,
+    led_suit: effectiveSuit(cards(plays[0])[0], 'standard'),
+  }));
+  const spadesBroken = history.some(t => t.plays.some(play => play.card.endsWith('S')));
+  const led = trick.length > 0 ? effectiveSuit(cards(trick[0].card)[0], 'standard') : null;
+  return {
+    phase: 'playing',
+    variant: 'standard',
+    hand: p.hand,
+    seat: 0,
+    partner_seat: 2,
+    dealer: 3,
+    score: { team1: { points: 0, bags: p.team1Bags ?? 0 }, team2: { points: 0, bags: 0 } },
+    playing_context: {
+      team_bids: { team1: bids[0] + bids[2], team2: bids[1] + bids[3] },
+      individual_bids: bids.map((bid, seat) => ({ seat, bid })),
+      tricks_won: { team1: won[0] + won[2], team2: won[1] + won[3] },
+      individual_tricks_won: won,
+      current_trick: trick,
+      trick_history: history,
+      spades_broken: spadesBroken,
+      your_turn_to_play: true,
+      legal_plays: getLegalPlays(cards(...p.hand), led, spadesBroken).map(c => c.id),
+    },
+  };
+}
+
+// Seat 0 and partner took the first seven tricks, following suit throughout
+const SEVEN_TRICKS = [
+  ['AC', '2C', '3C', '4C'],
+  ['KC', '5C', '6C', '7C'],
+  ['QC', '8C', '9C', '10C'],
+  ['AS', '2S', '3S', '4S'],
+  ['JC', 'JD', 'AD', '5D'],
+  ['6D', '7D', 'KD', '8D'],
+  ['2H', '3H', 'QH', '6H'],
+];
+
+const NEAR_PENALTY: Position = {
+  hand: ['AH', 'KH', '4H', '2D', '3D', '4D'],
+  trick: ['5H', '8H', '9H'],
+  leader: 1,
+  history: SEVEN_TRICKS,
+  historyWinners: [0, 0, 0, 0, 2, 2, 2],
+  won: [4, 0, 3, 0], // contract made with a bag; the opponents need all six left
+};
+
+const PLAY_CASES: PlayCase[] = [
+  {
+    name: 'cashes a master when nobody has shown out of its suit',
+    position: { hand: ['AH', '5D', '6D'], history: [['KH', '3H', '4H', '5H']], won: [1, 0, 0, 0] },
+    card: 'AH',
+    reasoning: 'Cashing a master nobody can ruff',
+  },
+  {
+    name: "keeps a master back once an opponent has shown out of its suit",
+    position: { hand: ['AH', '5D', '6D'], history: [['KH', '3C', '4H', '5H']], won: [1, 0, 0, 0] },
+    card: '5D',
+    reasoning: 'Leading low from my longest suit',
+  },
+  {
+    name: "still cashes it when only partner has shown out",
+    position: { hand: ['AH', '5D', '6D'], history: [['KH', '3H', '4C', '5H']], won: [1, 0, 0, 0] },
+    card: 'AH',
+    reasoning: 'Cashing a master nobody can ruff',
+  },
+  {
+    name: "leads into partner's void for a ruff",
+    position: { hand: ['7H', '5D', '6D', '8D'], history: [['KH', '3H', '4C', '5H']], won: [1, 0, 0, 0] },
+    card: '7H',
+    reasoning: "Leading into partner's void",
+  },
+  {
+    name: "overtakes a partner winning their Nil",
+    position: { hand: ['KH', '2H', '9D'], trick: ['5H', 'QH', '7H'], leader: 1, bids: [4, 3, 0, 3] },
+    card: 'KH',
+    reasoning: "Covering partner's Nil: overtaking partner.",
+  },
+  {
+    name: 'lets a partner with a regular bid keep the trick',
+    position: { hand: ['KH', '2H', '9D'], trick: ['5H', 'QH', '7H'], leader: 1, bids: [4, 3, 2, 3] },
+    card: '2H',
+    reasoning: 'Partner has this trick',
+  },
+  {
+    name: "plays high ahead of a Nil partner",
+    position: { hand: ['KH', '2H', '9D'], trick: ['5H'], leader: 3, bids: [4, 3, 0, 3] },
+    card: 'KH',
+    reasoning: "Covering partner's Nil: playing high ahead of partner.",
+  },
+  {
+    name: 'ducks with its highest loser near the bag penalty',
+    position: { ...NEAR_PENALTY, team1Bags: 8 },
+    card: '4H',
+    reasoning: 'Ducking with my highest losing card; contract made, 9 bags toward the penalty',
+  },
+  {
+    name: 'takes the trick to set the opponents when bags are clear',
+    position: { ...NEAR_PENALTY, team1Bags: 0 },
+    card: 'KH',
+    reasoning: 'setting them',
+  },
+];
+
+describe('StrongHeuristicAgent positions', () => {
+  it.each(PLAY_CASES)('$name', async ({ position, card, reasoning }) => {
+    const observation = observe(position);
+    const action = await new StrongHeuristicAgent().play(observation);
+    expect(observation.playing_context!.legal_plays).toContain(action.card);
+    expect(action.card).toBe(card);
+    expect(action.reasoning).toContain(reasoning);
+  });
+});
+
+describe('StrongHeuristicAgent games', () => {
+  interface GameCase {
+    variant: VariantId;
+    seed: number;
+    houseRules?: Partial<HouseRules>;
+  }
+
+  const GAME_CASES: GameCase[] = [
+    ...VARIANT_IDS.map(variant => ({ variant, seed: 1 })),
+    ...VARIANT_IDS.map(variant => ({ variant, seed: 77 })),
+    { variant: 'standard', seed: 5, houseRules: { spadesLeadPolicy: 'always_allowed', minimumTeamBid: 4 } },
+    { variant: 'jjdd', seed: 5, houseRules: { minimumTeamBid: 6, bagPenaltyThreshold: 5 } },
+  ];
+
+  const HANDS = 8;
+
+  it.each(GAME_CASES)('$variant, seed $seed: every bid and play is legal', async ({ variant, seed, houseRules }) => {
+    const engine = new GameEngine(300, variant, { seed, houseRules, enableBlindNil: true });
+    const agents = [0, 1, 2, 3].map(seat => new StrongHeuristicAgent(`Seat ${seat}`));
+
+    // Evenly matched bots can trade hands for a long time; a few are enough
+    while (engine.state.phase !== 'game_over' && engine.state.handNumber <= HANDS) {
+      const seat = engine.state.currentTurn;
+      let observation = engine.getObservation(seat);
+      if (engine.state.phase === 'bidding') {
+        let action = await agents[seat].bid(observation);
+        if (observation.bidding_context!.blind_bid_options && !action.blind) {
+          engine.revealHand(seat);
+          observation = engine.getObservation(seat);
+          action = await agents[seat].bid(observation);
+        }
+        expect(engine.processBid(seat, action)).toBeNull();
+      } else {
+        expect(engine.processPlay(seat, await agents[seat].play(observation))).toBeNull();
+        engine.resolveTrick();
+      }
+    }
+  });
+});
@@ -0,0 +1,164 @@
+/**
+ * Time control: the per-decision limit and the game clock, the timeout
+ * fallbacks each policy substitutes, and a forfeited trick going to the
+ * other team.
+ */
+
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { DecisionTimeout, SeatClock, TimeoutPolicy, withinLimit } from '../engine/timeControl';
+import { timeoutBid, timeoutPlay } from '../agents/timeout_fallback';
+import { GameEngine } from '../engine/game';
+import { determineTrickWinner } from '../engine/rules';
+import { playUntil } from './helpers';
+
+const never = () => new Promise<string>(() => {});
+const after = (ms: number, value: string) => () => new Promise<string>(resolve => setTimeout(() => resolve(value), ms));
+
+function biddingEngine(): GameEngine {
+  return new GameEngine(500, 'standard', { seed: 9 });
+}
+
+function playingEngine(): GameEngine {
+  const engine = biddingEngine();
+  playUntil(engine, e => e.state.phase === 'playing' && e.state.trickHistory.length === 4);
+  return engine;
+}
+
+describe('withinLimit', () => {
+  beforeEach(() => { vi.useFakeTimers(); });
+  afterEach(() => { vi.useRealTimers(); });
+
+  it('resolves with a decision made in time', async () => {
+    const decision = withinLimit(after(50, 'made')(), 100);
+    await vi.advanceTimersByTimeAsync(50);
+    await expect(decision).resolves.toBe('made');
+    expect(vi.getTimerCount()).toBe(0);
+  });
+
+  it('rejects with a DecisionTimeout at the limit', async () => {
+    const decision = withinLimit(never(), 100);
+    const rejected = expect(decision).rejects.toThrow(DecisionTimeout);
+    await vi.advanceTimersByTimeAsync(100);
+    await rejected;
+  });
+});
+
+describe('SeatClock', () => {
+  beforeEach(() => { vi.useFakeTimers(); });
+  afterEach(() => { vi.useRealTimers(); });
+
+  it('substitutes the fallback when a decision misses its limit', async () => {
+    const clock = new SeatClock({ decisionMs: 100, policy: 'heuristic' });
+    const onTimeout = vi.fn((limit: number) => `fallback after ${limit}`);
+    const decided = clock.decide(0, never, onTimeout);
+    await vi.advanceTimersByTimeAsync(100);
+
+    expect(await decided).toEqual({ action: 'fallback after 100', timedOut: true });
+    expect(onTimeout).toHaveBeenCalledOnce();
+    expect(clock.remaining(0)).toBeNull();
+  });
+
+  it('passes on errors other than a timeout', async () => {
+    const clock = new SeatClock({ decisionMs: 100, policy: 'heuristic' });
+    await expect(clock.decide(0, () => Promise.reject(new Error('boom')), () => 'fallback')).rejects.toThrow('boom');
+  });
+
+  it('charges each seat its own time and times out at once when the clock runs out', async () => {
+    const clock = new SeatClock({ decisionMs: 1_000, clockMs: 300, policy: 'forfeit' });
+
+    const first = clock.decide(1, after(200, 'first'), () => 'fallback');
+    await vi.advanceTimersByTimeAsync(200);
+    expect(await first).toEqual({ action: 'first', timedOut: false });
+    expect(clock.remaining(1)).toBe(100);
+    expect(clock.remaining(2)).toBe(300);
+
+    // Only 100ms left: that, not decisionMs, is the limit
+    const second = clock.decide(1, never, limit => `fallback after ${limit}`);
+    await vi.advanceTimersByTimeAsync(100);
+    expect(await second).toEqual({ action: 'fallback after 100', timedOut: true });
+    expect(clock.remaining(1)).toBe(0);
+
+    const decision = vi.fn(never);
+    expect(await clock.decide(1, decision, limit => `fallback after ${limit}`)).toEqual({ action: 'fallback after 0', timedOut: true });
+    expect(decision).not.toHaveBeenCalled();
+  });
+});
+
+describe('timeout fallbacks', () => {
+  const POLICIES: TimeoutPolicy[] = ['random', 'heuristic', 'forfeit'];
+
+  it.each(POLICIES)('%s: a legal bid and play, marked fallback', async (policy) => {
+    const bidder = biddingEngine();
+    const bidObs = bidder.getObservation(bidder.state.currentTurn);
+    const bid = await timeoutBid(policy, bidObs, 5_000);
+    expect(bid).toMatchObject({ fallback: true, reasoning: `Timed out after 5.0s (${policy} fallback)` });
+    expect(bidObs.bidding_context!.legal_bids).toContain(bid.value);
+
+    const player = playingEngine();
+    const playObs = player.getObservation(player.state.currentTurn);
+    const play = await timeoutPlay(policy, playObs, 0);
+    expect(play).toMatchObject({ fallback: true, reasoning: `Out of time on the game clock (${policy} fallback)` });
+    expect(playObs.playing_context!.legal_plays).toContain(play.card);
+  });
+
+  it("forfeit bids the first legal bid and plays the first legal card", async () => {
+    const bidder = biddingEngine();
+    const bidObs = bidder.getObservation(bidder.state.currentTurn);
+    expect((await timeoutBid('forfeit', bidObs, 1)).value).toBe(bidObs.bidding_context!.legal_bids[0]);
+
+    const player = playingEngine();
+    const playObs = player.getObservation(player.state.currentTurn);
+    expect((await timeoutPlay('forfeit', playObs, 1)).card).toBe(playObs.playing_context!.legal_plays[0]);
+  });
+});
+
+describe('forfeited tricks', () => {
+  /** Play the current trick with each seat's first legal card; `forfeit` marks one seat's play. */
+  function playTrick(engine: GameEngine, forfeit?: number): number {
+    for (let i = 0; i < 4; i++) {
+      const seat = engine.state.currentTurn;
+      const card = engine.getObservation(seat).playing_context!.legal_plays[0];
+      const error = engine.processPlay(seat, { action: 'play', card, reasoning: '' }, { forfeit: seat === forfeit });
+      if (error) throw new Error(error);
+    }
+    engine.resolveTrick();
+    return engine.state.trickHistory.at(-1)!.winner!;
+  }
+
+  it.each([0, 1, 2, 3])('a forfeit %i seats after the leader gives the trick to the other team', (offset) => {
+    const engine = playingEngine();
+    const forfeiter = (engine.state.currentTurn + offset) % 4;
+    const fair = GameEngine.fromJSON(JSON.parse(JSON.stringify(engine)));
+    const fairWinner = playTrick(fair);
+
+    const winner = playTrick(engine, forfeiter);
+    const { plays, ledSuit } = engine.state.trickHistory.at(-1)!;
+    const others = plays.filter(p => p.seat % 2 !== forfeiter % 2);
+    expect(winner % 2).not.toBe(forfeiter % 2);
+    expect(winner).toBe(determineTrickWinner(others, ledSuit!, engine.variant));
+    if (fairWinner % 2 !== forfeiter % 2) expect(winner).toBe(fairWinner);
+    expect(engine.state.players[winner].tricksWon).toBe(fair.state.players[winner].tricksWon + (winner === fairWinner ? 0 : 1));
+  });
+
+  it('a forfeit under the game clock concedes the trick it would have won', async () => {
+    const engine = playingEngine();
+    const fair = GameEngine.fromJSON(JSON.parse(JSON.stringify(engine)));
+    const winner = playTrick(fair);
+    const clock = new SeatClock({ decisionMs: 1_000, clockMs: 0, policy: 'forfeit' });
+
+    while (!engine.isTrickComplete()) {
+      const seat = engine.state.currentTurn;
+      const obs = engine.getObservation(seat);
+      if (seat === winner) {
+        const { action, timedOut } = await clock.decide(seat, () => Promise.reject(new Error('not asked')), limit => timeoutPlay('forfeit', obs, limit));
+        expect(timedOut).toBe(true);
+        expect(engine.processPlay(seat, action, { fallbackKind: 'timeout', forfeit: true })).toBeNull();
+      } else {
+        expect(engine.processPlay(seat, { action: 'play', card: obs.playing_context!.legal_plays[0], reasoning: '' })).toBeNull();
+      }
+    }
+    engine.resolveTrick();
+    expect(engine.state.trickHistory.at(-1)!.winner! % 2).not.toBe(winner % 2);
+    expect(engine.events.find(e => e.type === 'CardPlayed' && e.forfeit)).toMatchObject({ seat: winner, fallbackKind: 'timeout' });
+  });
+});
@@ -0,0 +1,211 @@
+/**
+ * Tournaments: recording games decides matches by the result's winner (a
+ * Boston can win with the lower score), qualifying seeds the bracket and
+ * the bracket advances to a champion. Games are played by the tournament's
+ * own rules, with the API keys the caller passes.
+ */
+
+import { describe, expect, it } from 'vitest';
+import { GameEngine } from '../engine/game';
+import type { GameResult, TournamentResult } from '../engine/resultsStore';
+import {
+  TournamentConfig,
+  TournamentMatch,
+  createTournament,
+  nextGame,
+  recordGame,
+  seriesScore,
+  standings,
+  teamAIsTeam1,
+  tournamentPhase,
+} from '../engine/tournament';
+import { runTournament } from '../benchmark/tournament';
+import { createAgent } from '../benchmark/agents';
+import type { AgentConfig } from '../benchmark/config';
+
+function firstGame(config: Partial<TournamentConfig>): Promise<GameEngine> {
+  const entrants: AgentConfig[] = [{ type: 'heuristic' }, { type: 'random' }];
+  const t = createTournament({
+    entrants: entrants.map(agent => ({ model: agent.type, agent })),
+    targetScore: 100,
+    seriesLength: 1,
+    seed: 11,
+    ...config,
+  }, 't', '2026-01-01T00:00:00.000Z');
+
+  let engine!: GameEngine;
+  let played = 0;
+  return runTournament(t, {
+    onGameStart: (_match, _game, e) => { engine = e; },
+    onGameComplete: () => { played++; },
+    shouldStop: () => played > 0,
+  }).then(() => engine);
+}
+
+function tournamentOf(models: string[], seriesLength = 1): TournamentResult {
+  return createTournament({
+    entrants: models.map(model => ({ model, agent: { type: 'heuristic' } })),
+    targetScore: 500,
+    seriesLength,
+    seed: 1,
+  }, 't', '2026-01-01T00:00:00.000Z');
+}
+
+/** A result for game `game` of `match`, sides seated as the runner seats them. */
+function resultOf(match: TournamentMatch, game: number, outcome: { winner: 'A' | 'B'; scoreA: number; scoreB: number }): GameResult {
+  const aFirst = teamAIsTeam1(match, game);
+  const aWins = outcome.winner === 'A';
+  return {
+    id: `${match.id}-${game}`,
+    date: '2026-01-01T00:00:00.000Z',
+    team1Models: aFirst ? [match.teamA, match.teamA] : [match.teamB, match.teamB],
+    team2Models: aFirst ? [match.teamB, match.teamB] : [match.teamA, match.teamA],
+    team1Score: aFirst ? outcome.scoreA : outcome.scoreB,
+    team2Score: aFirst ? outcome.scoreB : outcome.scoreA,
+    team1Bags: 0,
+    team2Bags: 0,
+    winner: aWins === aFirst ? 1 : 2,
+    targetScore: 500,
+    handsPlayed: 10,
+  };
+}
+
+/** Play `t` out with `beats(x, y)` deciding every game, 500 to 200. */
+function playOut(t: TournamentResult, beats: (x: string, y: string) => boolean): TournamentResult {
+  for (let next = nextGame(t); next; next = nextGame(t)) {
+    const { match, game } = next;
+    const aWins = beats(match.teamA, match.teamB);
+    t = recordGame(t, match.id, resultOf(match, game, { winner: aWins ? 'A' : 'B', scoreA: aWins ? 500 : 200, scoreB: aWins ? 200 : 500 }));
+  }
+  return t;
+}
+
+// Lower-numbered models are stronger: m1 beats everyone
+const byNumber = (x: string, y: string) => Number(x.slice(1)) < Number(y.slice(1));
+const models = (n: number) => Array.from({ length: n }, (_, i) => `m${i + 1}`);
+
+describe('createTournament', () => {
+  it.each([
+    ['one entrant', ['a'], 1, 'A tournament needs at least two entrants'],
+    ['a repeated model', ['a', 'b', 'a'], 1, 'Each entrant must be a different model'],
+    ['an even series', ['a', 'b'], 2, 'Series length must be odd'],
+  ])('rejects %s', (_name, entrants, seriesLength, message) => {
+    expect(() => tournamentOf(entrants, seriesLength)).toThrow(message);
+  });
+
+  it.each([2, 5, 8])('schedules every pairing of %i entrants once', (n) => {
+    const t = tournamentOf(models(n));
+    const pairs = t.progress!.matches.map(m => [m.teamA, m.teamB].sort().join('-'));
+    expect(pairs).toHaveLength((n * (n - 1)) / 2);
+    expect(new Set(pairs).size).toBe(pairs.length);
+    expect(tournamentPhase(t)).toBe('qualifiers');
+  });
+});
+
+describe('recordGame', () => {
+  it('gives the game to the winner even with the lower score', () => {
+    const t = tournamentOf(['a', 'b']);
+    const match = t.progress!.matches[0];
+    const boston = resultOf(match, 0, { winner: 'A', scoreA: 300, scoreB: 450 });
+    expect(boston.winner).toBe(1);
+    const next = recordGame(t, match.id, boston);
+
+    const recorded = next.progress!.matches[0];
+    expect(recorded.games[0]).toMatchObject({ scoreA: 300, scoreB: 450, winner: 'A' });
+    expect(seriesScore(recorded)).toEqual({ winsA: 1, winsB: 0 });
+    expect(recorded.winner).toBe('a');
+    expect(standings(next).map(s => [s.model, s.wins, s.losses, s.pointDiff])).toEqual([['a', 1, 0, -150], ['b', 0, 1, 150]]);
+  });
+
+  it('counts a series game won from either side of the table', () => {
+    const t = playOut(tournamentOf(models(2), 3), () => true);
+    const final = t.progress!.matches.find(m => m.round === 'final')!;
+    expect(final.games.map(g => g.winner)).toEqual(['A', 'A']);
+    expect(teamAIsTeam1(final, 1)).toBe(false);
+    expect(t.champion).toBe(final.teamA);
+    expect(() => recordGame(t, final.id, resultOf(final, 2, { winner: 'B', scoreA: 0, scoreB: 500 }))).toThrow('already decided');
+  });
+
+  it('decides games saved without a winner by score', () => {
+    const match: TournamentMatch = {
+      id: 'sf-0', round: 'sf', position: 0, teamA: 'a', teamB: 'b',
+      games: [{ resultId: 'x', scoreA: 500, scoreB: 200 }, { resultId: 'y', scoreA: 100, scoreB: 510 }, { resultId: 'z', scoreA: 300, scoreB: 300 }],
+    };
+    expect(seriesScore(match)).toEqual({ winsA: 1, winsB: 1 });
+  });
+
+  it('leaves the tournament it was given as it was', () => {
+    const t = tournamentOf(['a', 'b']);
+    const before = structuredClone(t);
+    recordGame(t, t.progress!.matches[0].id, resultOf(t.progress!.matches[0], 0, { winner: 'B', scoreA: 0, scoreB: 500 }));
+    expect(t).toEqual(before);
+  });
+});
+
+describe('bracket', () => {
+  it('seeds 1v8, 4v5, 3v6, 2v7 from the qualifying table', () => {
+    let t = tournamentOf(models(8));
+    for (let next = nextGame(t); next && next.match.round === 'qualifier'; next = nextGame(t)) {
+      const { match, game } = next;
+      const aWins = byNumber(match.teamA, match.teamB);
+      t = recordGame(t, match.id, resultOf(match, game, { winner: aWins ? 'A' : 'B', scoreA: aWins ? 500 : 200, scoreB: aWins ? 200 : 500 }));
+    }
+    expect(tournamentPhase(t)).toBe('bracket');
+    expect(standings(t).map(s => [s.model, s.wins])).toEqual(models(8).map((m, i) => [m, 7 - i]));
+    expect(t.progress!.matches.filter(m => m.round === 'qf').map(m => [m.id, m.teamA, m.teamB])).toEqual([
+      ['qf-0', 'm1', 'm8'], ['qf-1', 'm4', 'm5'], ['qf-2', 'm3', 'm6'], ['qf-3', 'm2', 'm7'],
+    ]);
+  });
+
+  it('advances winners by position, the better seed on side A, to a champion', () => {
+    // Upsets: the lower seed wins every bracket match, always on the lower score
+    let t = tournamentOf(models(8), 3);
+    for (let next = nextGame(t); next; next = nextGame(t)) {
+      const { match, game } = next;
+      const aWins = match.round === 'qualifier' && byNumber(match.teamA, match.teamB);
+      t = recordGame(t, match.id, resultOf(match, game, { winner: aWins ? 'A' : 'B', scoreA: 200, scoreB: 300 }));
+    }
+    const round = (r: string) => t.progress!.matches.filter(m => m.round === r).map(m => [m.teamA, m.teamB, m.winner]);
+    expect(round('qf')).toEqual([['m1', 'm8', 'm8'], ['m4', 'm5', 'm5'], ['m3', 'm6', 'm6'], ['m2', 'm7', 'm7']]);
+    expect(round('sf')).toEqual([['m5', 'm8', 'm8'], ['m6', 'm7', 'm7']]);
+    expect(round('final')).toEqual([['m7', 'm8', 'm8']]);
+    expect(t.progress!.matches.filter(m => m.round !== 'qualifier').every(m => m.games.length === 2)).toBe(true);
+    expect(t.champion).toBe('m8');
+    expect(tournamentPhase(t)).toBe('complete');
+    expect(nextGame(t)).toBeNull();
+  });
+
+  it.each([[5, 4, 'sf'], [3, 2, 'final']] as const)('takes the top %i of %i qualifiers straight to the %s', (n, size, first) => {
+    const t = playOut(tournamentOf(models(n)), byNumber);
+    const opening = t.progress!.matches.filter(m => m.round === first);
+    expect(opening.flatMap(m => [m.teamA, m.teamB]).sort()).toEqual(models(size));
+    expect(t.champion).toBe('m1');
+  });
+});
+
+describe('tournament games', () => {
+  it('use the standard game by default', async () => {
+    const engine = await firstGame({});
+    expect(engine.variant).toBe('standard');
+    expect(engine.houseRules.minimumTeamBid).toBe(0);
+  });
+
+  it("use the tournament's variant and house rules", async () => {
+    const engine = await firstGame({ variant: 'jja', houseRules: { minimumTeamBid: 5, spadesLeadPolicy: 'always_allowed' } });
+    expect(engine.variant).toBe('jja');
+    expect(engine.houseRules).toMatchObject({ minimumTeamBid: 5, spadesLeadPolicy: 'always_allowed' });
+    expect(engine.state.phase).toBe('game_over');
+  });
+});
+
+describe('createAgent keys', () => {
+  const claude: AgentConfig = { type: 'llm', provider: 'anthropic', model: 'claude-haiku-4-5' };
+
+  it('uses the keys it is given', () => {
+    expect(createAgent(claude, 'a', { anthropic: 'sk-test' }).name).toBe('a');
+  });
+
+  it('names the missing key', () => {
+    expect(() => createAgent(claude, 'a', {})).toThrow('ANTHROPIC_API_KEY is not set');
+  });
+});
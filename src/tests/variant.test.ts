@@ -0,0 +1,122 @@
+/**
+ * Variant rules against `variant.rs`, `strength.rs` and `legal.rs`: deck
+ * composition, trump order, effective suit, legal plays and trick winners
+ * in Standard, JJA and JJDD.
+ */
+
+import { describe, expect, it } from 'vitest';
+import { GameEngine } from '../engine/game';
+import { createDeck } from '../engine/deck';
+import { determineTrickWinner, getLegalPlays } from '../engine/rules';
+import { VARIANT_IDS, VARIANTS, VariantId, effectiveSuit, trumpStrength } from '../engine/variant';
+import { Suit } from '../engine/types';
+import { cards, playUntil } from './helpers';
+
+interface TrumpCase {
+  variant: VariantId;
+  trumps: string[];    // highest first
+  nonTrumps: string[];
+}
+
+interface LegalCase {
+  name: string;
+  variant: VariantId;
+  hand: string[];
+  led: Suit | null;
+  spadesBroken?: boolean;
+  opening?: string;
+  expected: string[];
+}
+
+interface TrickCase {
+  name: string;
+  variant: VariantId;
+  plays: string[]; // by seat 0..3, seat 0 leads
+  winner: number;
+}
+
+const TRUMP_CASES: TrumpCase[] = [
+  { variant: 'standard', trumps: ['AS', 'KS', 'QS', '3S', '2S'], nonTrumps: ['AH', '2D', '2C'] },
+  { variant: 'jja', trumps: ['BigJoker', 'LittleJoker', 'AS', 'KS', '2S'], nonTrumps: ['AH', '3D', '2C'] },
+  { variant: 'jjdd', trumps: ['BigJoker', 'LittleJoker', '2D', '2S', 'AS', 'KS', '3S'], nonTrumps: ['AH', '3D', '3C'] },
+];
+
+const LEGAL_CASES: LegalCase[] = [
+  { name: 'standard: must follow the led suit', variant: 'standard', hand: ['5D', 'KD', 'AS', '7H'], led: 'D', expected: ['5D', 'KD'] },
+  { name: 'standard: void plays anything', variant: 'standard', hand: ['AS', '7H'], led: 'D', expected: ['AS', '7H'] },
+  { name: 'standard: no spade lead before spades break', variant: 'standard', hand: ['AS', '7H'], led: null, expected: ['7H'] },
+  { name: 'standard: spades may lead once broken', variant: 'standard', hand: ['AS', '7H'], led: null, spadesBroken: true, expected: ['AS', '7H'] },
+  { name: 'standard: a hand of spades may lead them', variant: 'standard', hand: ['AS', '4S'], led: null, expected: ['AS', '4S'] },
+  { name: 'standard: 2C opens', variant: 'standard', hand: ['2C', 'AS', 'KH'], led: null, opening: '2C', expected: ['2C'] },
+  { name: 'standard: 2D follows diamonds', variant: 'standard', hand: ['2D', '9S'], led: 'D', expected: ['2D'] },
+  { name: 'jja: jokers follow spades', variant: 'jja', hand: ['LittleJoker', '4H'], led: 'S', expected: ['LittleJoker'] },
+  { name: 'jja: jokers never follow hearts', variant: 'jja', hand: ['BigJoker', '4D'], led: 'H', expected: ['BigJoker', '4D'] },
+  { name: 'jjdd: 2D follows spades', variant: 'jjdd', hand: ['2D', '5D', '7H'], led: 'S', expected: ['2D'] },
+  { name: 'jjdd: 2D does not follow diamonds', variant: 'jjdd', hand: ['2D', '7H'], led: 'D', expected: ['2D', '7H'] },
+  { name: 'jjdd: 2D and jokers cannot lead unbroken', variant: 'jjdd', hand: ['2D', 'BigJoker', '5H'], led: null, expected: ['5H'] },
+  { name: 'jjdd: 3C opens', variant: 'jjdd', hand: ['3C', '4C', 'AS'], led: null, opening: '3C', expected: ['3C'] },
+];
+
+const TRICK_CASES: TrickCase[] = [
+  { name: 'standard: highest of the led suit', variant: 'standard', plays: ['3C', 'AH', '4C', '2C'], winner: 2 },
+  { name: 'standard: any spade beats the led suit', variant: 'standard', plays: ['AH', 'KH', '2S', 'QH'], winner: 2 },
+  { name: 'standard: 2D is no trump', variant: 'standard', plays: ['5H', '2D', '3H', '4H'], winner: 0 },
+  { name: 'jja: little joker beats AS', variant: 'jja', plays: ['AS', 'LittleJoker', 'KS', '3S'], winner: 1 },
+  { name: 'jja: big joker beats little', variant: 'jja', plays: ['5H', 'LittleJoker', 'BigJoker', '6H'], winner: 2 },
+  { name: 'jjdd: 2D trumps a heart lead', variant: 'jjdd', plays: ['5H', '2D', '3H', '4H'], winner: 1 },
+  { name: 'jjdd: 2D beats 2S beats AS', variant: 'jjdd', plays: ['AS', '2S', '2D', 'KS'], winner: 2 },
+  { name: 'jjdd: little joker beats 2D', variant: 'jjdd', plays: ['2D', '3S', 'LittleJoker', 'AS'], winner: 2 },
+];
+
+describe('deck composition', () => {
+  it.each(VARIANT_IDS)('%s deals 52 cards without its removed cards', (variant) => {
+    const ids = createDeck(variant).map(c => c.id);
+    expect(ids).toHaveLength(52);
+    expect(new Set(ids).size).toBe(52);
+    for (const removed of VARIANTS[variant].removedCards) expect(ids).not.toContain(removed);
+    expect(ids.includes('BigJoker') && ids.includes('LittleJoker')).toBe(VARIANTS[variant].usesJokers);
+  });
+});
+
+describe('trump order', () => {
+  it.each(TRUMP_CASES)('$variant', ({ variant, trumps, nonTrumps }) => {
+    const strengths = cards(...trumps).map(c => trumpStrength(c, variant));
+    strengths.forEach(s => expect(s).toBeGreaterThan(0));
+    for (let i = 1; i < strengths.length; i++) expect(strengths[i]).toBeLessThan(strengths[i - 1]);
+    for (const card of cards(...nonTrumps)) expect(trumpStrength(card, variant)).toBe(0);
+  });
+
+  it.each([
+    ['standard', '2D', 'D'],
+    ['jja', 'LittleJoker', 'S'],
+    ['jjdd', '2D', 'S'],
+    ['jjdd', '3D', 'D'],
+  ] as const)('%s: %s plays as %s', (variant, id, suit) => {
+    expect(effectiveSuit(cards(id)[0], variant)).toBe(suit);
+  });
+});
+
+describe('legal plays', () => {
+  it.each(LEGAL_CASES)('$name', (c) => {
+    const legal = getLegalPlays(cards(...c.hand), c.led, c.spadesBroken ?? false, c.opening, c.variant);
+    expect(legal.map(card => card.id)).toEqual(c.expected);
+  });
+});
+
+describe('trick winner', () => {
+  it.each(TRICK_CASES)('$name', (c) => {
+    const plays = cards(...c.plays).map((card, seat) => ({ seat, card }));
+    expect(determineTrickWinner(plays, effectiveSuit(plays[0].card, c.variant), c.variant)).toBe(c.winner);
+  });
+});
+
+describe('opening lead', () => {
+  it.each(VARIANT_IDS)('%s: the lowest club holder must lead it', (variant) => {
+    const engine = new GameEngine(500, variant, { seed: 7 });
+    playUntil(engine, e => e.state.phase === 'playing');
+    const seat = engine.state.currentTurn;
+    const opening = VARIANTS[variant].openingCardId;
+    expect(engine.state.players[seat].hand.map(c => c.id)).toContain(opening);
+    expect(engine.getObservation(seat).playing_context!.legal_plays).toEqual([opening]);
+  });
+});
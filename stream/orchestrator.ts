@@ -21,7 +21,8 @@
  *   YOUTUBE_STREAM_KEY - YouTube RTMP stream key (enables FFmpeg)
  *   DISPLAY           - X11 display for Xvfb (default: :99)
  *   GAME_URL          - URL to the game (default: http://localhost:3000)
- *   VARIANT           - Game variant: 'standard' | 'jokers' (default: jokers)
+ *   VARIANT           - Game variant: 'standard' | 'jja' | 'jjdd' (default: jja;
+ *                       'jokers' is accepted as an alias for jja)
  *   TARGET_SCORE      - Target score: 250 | 500 | 1000 (default: 250)
  *   RESTART_DELAY_MS  - Delay before restarting a match (default: 15000)
  */
@@ -35,8 +36,24 @@ loadEnv({ path: resolve(process.cwd(), '.env.local') });
 import { chromium, type Browser, type Page, type CDPSession } from '@playwright/test';
 import { spawn, type ChildProcess } from 'child_process';
 import { startFFmpegStream, writeFrame, stopFFmpegStream } from './ffmpeg';
+import { VARIANTS, VARIANT_IDS, type VariantId } from '../src/engine/variant';
+import { SAVED_MATCH_KEY } from '../src/engine/matchStore';
+import { GAME_EVENT_DOM_NAME, type GameEvent } from '../src/engine/events';
+
+declare global {
+    interface Window {
+        // Exposed to the page by launchBrowser; forwards to onGameEvent
+        __spadesEvent: (event: GameEvent) => Promise<void>;
+    }
+}
 
 // ─── Configuration ───────────────────────────────────────────
+function parseVariant(value: string | undefined): VariantId {
+    if (!value || value === 'jokers') return 'jja';
+    if ((VARIANT_IDS as string[]).includes(value)) return value as VariantId;
+    throw new Error(`Unknown VARIANT "${value}" — expected one of ${VARIANT_IDS.join(', ')}`);
+}
+
 const isStreaming = process.env.YOUTUBE === '1';
 
 // Full 2560x1440 for YouTube stream, 1920x1080 for local dev preview
@@ -48,7 +65,7 @@ const PREVIEW_HEIGHT = 1000;
 const CONFIG = {
     headless: process.env.HEADLESS === '1',
     gameUrl: process.env.GAME_URL || 'http://localhost:3000',
-    variant: (process.env.VARIANT as 'standard' | 'jokers') || 'jokers',
+    variant: parseVariant(process.env.VARIANT),
     targetScore: parseInt(process.env.TARGET_SCORE || '250', 10),
     restartDelayMs: parseInt(process.env.RESTART_DELAY_MS || '15000', 10),
     youtubeStreamKey: isStreaming ? (process.env.YOUTUBE_STREAM_KEY || '') : '',
@@ -238,20 +255,12 @@ async function setupAndStartMatch(page: Page): Promise<void> {
     await page.waitForTimeout(2000);
 
     // Select the game variant
-    if (CONFIG.variant === 'jokers') {
-        log('Selecting Jokers variant...');
-        const jokersBtn = page.getByText('Jokers (Big/Little)');
-        if (await jokersBtn.isVisible()) {
-            await jokersBtn.click();
-            log('✓ Jokers variant selected');
-        }
-    } else {
-        log('Selecting Standard variant...');
-        const standardBtn = page.getByText('Standard (52 Cards)');
-        if (await standardBtn.isVisible()) {
-            await standardBtn.click();
-            log('✓ Standard variant selected');
-        }
+    const variant = VARIANTS[CONFIG.variant];
+    log(`Selecting ${variant.label}...`);
+    const variantBtn = page.getByText(variant.label);
+    if (await variantBtn.isVisible()) {
+        await variantBtn.click();
+        log(`✓ ${variant.label} selected`);
     }
 
     // Select the target score
@@ -317,6 +326,18 @@ async function waitForGameOver(page: Page): Promise<void> {
     }
 }
 
+function onGameEvent(event: GameEvent): void {
+    if (event.type === 'HandScored') {
+        const { handNumber, team1, team2 } = event.result;
+        log(`Hand ${handNumber} scored — T1 ${team1.totalScore} (${team1.bid}/${team1.won}) | T2 ${team2.totalScore} (${team2.bid}/${team2.won})`);
+    } else if (event.type === 'GameOver') {
+        log(`🏆 Game over — Team ${event.winner} wins`);
+    }
+}
+
+// Latest autosave read from the page (see src/engine/matchStore.ts); survives browser relaunches
+let lastSavedMatch: string | null = null;
+
 /**
  * Launch a fresh Chromium browser + context + page.
  */
@@ -339,6 +360,19 @@ async function launchBrowser(): Promise<{ browser: Browser; page: Page }> {
     const context = await browser.newContext({
         viewport: { width: w, height: h },
     });
+    // Each launch gets a fresh profile, so carry the autosaved match over
+    // from the previous browser — the setup screen then offers to resume it
+    if (lastSavedMatch) {
+        await context.addInitScript(({ key, value }) => {
+            if (!localStorage.getItem(key)) localStorage.setItem(key, value);
+        }, { key: SAVED_MATCH_KEY, value: lastSavedMatch });
+        log('✓ Restored autosaved match into new browser profile');
+    }
+    // Subscribe to the app's engine events (re-broadcast on window by useGame)
+    await context.exposeFunction('__spadesEvent', onGameEvent);
+    await context.addInitScript((name) => {
+        window.addEventListener(name, (e) => window.__spadesEvent((e as CustomEvent<GameEvent>).detail));
+    }, GAME_EVENT_DOM_NAME);
     const page = await context.newPage();
     log('✓ Chromium ready');
     return { browser, page };
@@ -350,14 +384,21 @@ async function runBrowserSession(page: Page): Promise<void> {
     await page.goto(CONFIG.gameUrl, { waitUntil: 'networkidle' });
     log('✓ Page loaded — waiting for user to start a match');
 
+    // Pick an interrupted match back up rather than waiting for a new one
+    const resumeBtn = page.getByText('Resume Match');
+    if (await resumeBtn.isVisible().catch(() => false)) {
+        await resumeBtn.click();
+        log('✓ Resumed autosaved match');
+    }
+
     // Keep-alive: just watch for the browser to close
     // The user configures and starts matches via the UI
     while (true) {
         await page.waitForTimeout(5000);
 
-        // Check if page is still alive
+        // Check if page is still alive, and keep a copy of the autosave
         try {
-            await page.evaluate(() => document.title);
+            lastSavedMatch = await page.evaluate((key) => localStorage.getItem(key), SAVED_MATCH_KEY);
         } catch {
             throw new Error('Browser closed');
         }
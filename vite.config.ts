@@ -12,6 +12,9 @@ export default defineConfig(({mode}) => {
       'process.env.ANTHROPIC_API_KEY': JSON.stringify(env.ANTHROPIC_API_KEY),
       'process.env.OPENAI_API_KEY': JSON.stringify(env.OPENAI_API_KEY),
       'process.env.OPENROUTER_API_KEY': JSON.stringify(env.OPENROUTER_API_KEY),
+      'process.env.LOCAL_LLM_API_KEY': JSON.stringify(env.LOCAL_LLM_API_KEY ?? ''),
+      // Arena server (npm run server); unset keeps results in localStorage
+      'process.env.RESULTS_API_URL': JSON.stringify(env.RESULTS_API_URL ?? ''),
       // YouTube is read server-side by stream/orchestrator.ts. We expose only
       // a presence flag to the browser so the settings panel can show
       // Detected/Missing — the actual key never enters the JS bundle.